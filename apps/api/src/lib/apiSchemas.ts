@@ -0,0 +1,199 @@
+import { z } from "zod/v4";
+import { FLOW_TYPE_LABELS, type FlowSpec, type FlowTemplate, type FlowType } from "@flow/core";
+import type { BrandProfile, BrandQuestionnaire } from "./brandAnalyzer.js";
+
+/*
+ * Request and response shapes of the public endpoints. Routes parse their bodies
+ * with the request schemas and type their replies with the response types, and the
+ * OpenAPI document is generated from the same schemas, so the two cannot drift.
+ */
+
+export const errorResponseSchema = z.object({ error: z.string() });
+
+/** FlowSpec is validated by `@flow/core`; here it only marks where one goes (see `openapi.ts`). */
+export const flowSpecRefSchema = z.custom<FlowSpec>((value) => !!value && typeof value === "object");
+
+export const brandQuestionnaireSchema = z.object({
+  discountNotes: z.string().optional(),
+  specialInstructions: z.string().optional(),
+  filloutResponses: z.record(z.string(), z.string()).optional(),
+}) satisfies z.ZodType<BrandQuestionnaire>;
+
+export const brandProfileSchema = z.object({
+  brandName: z.string(),
+  industry: z.string(),
+  targetAudience: z.string(),
+  brandVoice: z.string(),
+  keyProducts: z.array(z.string()),
+  uniqueSellingPoints: z.array(z.string()),
+  discountStrategy: z.string(),
+  summary: z.string(),
+  priceRange: z.string(),
+  averageOrderValue: z.string(),
+  businessStage: z.string(),
+  emailListSize: z.string(),
+  discountApproach: z.string(),
+  keyDifferentiators: z.array(z.string()),
+  brandTone: z.string(),
+  competitors: z.string(),
+  specialInstructions: z.string(),
+  brandLogoUrl: z.string().optional(),
+  brandColor: z.string().optional(),
+}) satisfies z.ZodType<BrandProfile>;
+
+/* ── /api/analyze-brand ── */
+
+export const analyzeBrandRequestSchema = z.object({
+  websiteUrl: z.string().min(1),
+  brandName: z.string().min(1),
+  questionnaire: brandQuestionnaireSchema.optional(),
+  /** Crawl the site again instead of reusing a cached crawl. */
+  refresh: z.boolean().optional(),
+});
+
+export const analyzeBrandResponseSchema = z.object({
+  profile: brandProfileSchema,
+  runId: z.string(),
+  brandId: z.string(),
+});
+export type AnalyzeBrandResponse = z.infer<typeof analyzeBrandResponseSchema>;
+
+/* ── /api/generate-flows ── */
+
+export const generateFlowsRequestSchema = z.object({
+  planKey: z.string().optional(),
+  brandProfile: brandProfileSchema,
+  customTemplateIds: z.array(z.string()).optional(),
+  /** Flows described in plain text; parsed into a plan by the model. */
+  customFlowText: z.string().optional(),
+});
+export type GenerateFlowsRequest = z.infer<typeof generateFlowsRequestSchema>;
+
+export const generateFlowsResponseSchema = z.object({
+  runId: z.string(),
+  planKey: z.string(),
+  planName: z.string(),
+  brandName: z.string(),
+  flowCount: z.number().int().nonnegative(),
+  flows: z.array(flowSpecRefSchema),
+});
+export type GenerateFlowsResponse = z.infer<typeof generateFlowsResponseSchema>;
+
+/* ── /api/chat-flow ── */
+
+export const chatFlowRequestSchema = z.object({
+  message: z.string().trim().min(1, "message is required"),
+  history: z.array(z.object({ role: z.enum(["user", "assistant"]), content: z.string() })).default([]),
+  /** Whatever is known about the brand; the chat works with just a name. */
+  brandProfile: brandProfileSchema.partial().optional(),
+  /** The flow being edited, if any; may be a draft that does not validate yet. */
+  currentFlowSpec: z.unknown().optional(),
+});
+export type ChatFlowRequest = z.infer<typeof chatFlowRequestSchema>;
+
+export const chatFlowResponseSchema = z.object({
+  reply: z.string(),
+  action: z.enum(["clarify", "confirm", "generate", "modify"]),
+  flowSpec: flowSpecRefSchema.optional(),
+  runId: z.string(),
+});
+export type ChatFlowResponse = z.infer<typeof chatFlowResponseSchema>;
+
+/* ── /api/library ── */
+
+export const flowTypeSchema = z.enum(Object.keys(FLOW_TYPE_LABELS) as [FlowType, ...FlowType[]]);
+
+const segmentCountsSchema = z.object({ email: z.number().int().min(0), sms: z.number().int().min(0) });
+
+export const flowTemplateSchema = z.object({
+  id: z.string(),
+  flowType: flowTypeSchema,
+  name: z.string(),
+  description: z.string(),
+  triggerEvent: z.string(),
+  emailCount: z.number().int().min(0),
+  smsCount: z.number().int().min(0),
+  hasSplit: z.boolean(),
+  splitCondition: z.string().optional(),
+  splitSegments: z.object({ yes: segmentCountsSchema, no: segmentCountsSchema }).optional(),
+  isDefault: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}) satisfies z.ZodType<FlowTemplate>;
+
+export const libraryResponseSchema = z.record(flowTypeSchema, z.array(flowTemplateSchema));
+
+export const createTemplateRequestSchema = flowTemplateSchema
+  .pick({ name: true, description: true, triggerEvent: true, emailCount: true, smsCount: true, hasSplit: true, splitCondition: true, splitSegments: true })
+  .partial({ description: true, hasSplit: true })
+  .extend({ name: z.string().min(1), triggerEvent: z.string().min(1) });
+
+/** `id`, `flowType` and timestamps are set by the server. */
+export const updateTemplateRequestSchema = flowTemplateSchema
+  .omit({ id: true, flowType: true, createdAt: true, updatedAt: true })
+  .partial();
+
+export const successResponseSchema = z.object({ success: z.literal(true) });
+
+/* ── /api/gameplans ── */
+
+/*
+ * Saved flows can be editor drafts that do not pass graph validation yet, so only
+ * their shape is checked here; `parseFlowSpec` runs where a finished flow is needed.
+ */
+const savedFlowShapeSchema = z.looseObject({
+  id: z.string().min(1),
+  name: z.string(),
+  nodes: z.array(z.looseObject({ id: z.string().min(1), type: z.string() })),
+  edges: z.array(z.looseObject({ id: z.string(), from: z.string(), to: z.string(), label: z.string().optional() })),
+});
+const savedFlowSchema = z.custom<FlowSpec>(
+  (value) => savedFlowShapeSchema.safeParse(value).success,
+  "must be a flow spec with id, name, nodes and edges"
+);
+
+/** Body of create, update and PDF requests; every gameplan field is optional here and required ones are checked per route. */
+export const gameplanInputSchema = z.object({
+  name: z.string().optional(),
+  brandName: z.string().optional(),
+  websiteUrl: z.string().optional(),
+  brandProfile: brandProfileSchema.optional(),
+  brandLogoUrl: z.string().optional(),
+  brandColor: z.string().optional(),
+  planKey: z.string().optional(),
+  planName: z.string().optional(),
+  flows: z.array(savedFlowSchema).optional(),
+  /** Runs recorded before the gameplan existed (analysis, generation, chat), tied to it on save. */
+  runIds: z.array(z.string()).optional(),
+  revision: z.object({ author: z.string().optional(), message: z.string().optional() }).optional(),
+});
+export type GameplanInputBody = z.infer<typeof gameplanInputSchema>;
+
+/* ── /api/fillout-lookup ── */
+
+export const filloutLookupRequestSchema = z.object({
+  formId: z.string().min(1, "formId is required"),
+  /** Name or email to find; the latest submission when empty. */
+  search: z.string().optional(),
+});
+
+export const filloutLookupResponseSchema = z.object({
+  submissionId: z.string(),
+  submissionTime: z.string(),
+  /** Answers keyed by question name. */
+  responses: z.record(z.string(), z.string()),
+});
+export type FilloutLookupResponse = z.infer<typeof filloutLookupResponseSchema>;
+
+/* ── parsing ── */
+
+/** Parse a request body, or describe the first problem for a 400 reply. */
+export function parseBody<T>(schema: z.ZodType<T>, body: unknown): { ok: true; data: T } | { ok: false; error: string } {
+  const result = schema.safeParse(body ?? {});
+  if (result.success) return { ok: true, data: result.data };
+  const issue = result.error.issues[0];
+  if (!issue) return { ok: false, error: "Invalid request body." };
+  const field = issue.path.join(".");
+  /* Custom messages already name their field ("formId is required") */
+  return { ok: false, error: field && !issue.message.includes(field) ? `${field}: ${issue.message}` : issue.message };
+}
@@ -1,5 +1,6 @@
 import * as cheerio from "cheerio";
-import { getOpenAI } from "./openai.js";
+import { getLlmProvider, type LlmProvider } from "./llm.js";
+import { cacheCrawl, getCachedCrawl } from "./crawlCache.js";
 
 export type BrandQuestionnaire = {
   discountNotes?: string;
@@ -275,7 +276,7 @@ type BrandVisuals = {
   themeColor: string | null;
 };
 
-type CrawlResult = {
+export type CrawlResult = {
   structuredData: string;
   pageContent: string;
   pagesCount: number;
@@ -355,6 +356,20 @@ async function crawlSite(url: string): Promise<CrawlResult> {
   };
 }
 
+/* Reuses a recent crawl of the same site unless `refresh` is set */
+async function crawlSiteCached(url: string, refresh: boolean): Promise<CrawlResult> {
+  if (!refresh) {
+    const cached = await getCachedCrawl(url);
+    if (cached) {
+      console.log(`[crawl] Using cached crawl of ${url} from ${cached.crawledAt}`);
+      return cached.result;
+    }
+  }
+  const result = await crawlSite(url);
+  await cacheCrawl(url, result);
+  return result;
+}
+
 /* ── questionnaire formatting ── */
 
 function formatQuestionnaire(q: BrandQuestionnaire): string {
@@ -375,16 +390,19 @@ function formatQuestionnaire(q: BrandQuestionnaire): string {
 export async function analyzeBrand(
   websiteUrl: string,
   brandName: string,
-  questionnaire?: BrandQuestionnaire
+  questionnaire?: BrandQuestionnaire,
+  llm: LlmProvider = getLlmProvider(),
+  options: { refreshCrawl?: boolean } = {}
 ): Promise<BrandProfile> {
-  const crawl = await crawlSite(websiteUrl);
+  const crawl = await crawlSiteCached(websiteUrl, !!options.refreshCrawl);
   const questionnaireText = questionnaire ? formatQuestionnaire(questionnaire) : "";
 
-  const openai = getOpenAI();
-  const completion = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
+  const completion = await llm.complete({
+    task: "analyze-brand",
+    tier: "fast",
     temperature: 0.3,
-    response_format: { type: "json_object" },
+    json: true,
+    fixtureKey: brandName,
     messages: [
       {
         role: "system",
@@ -443,7 +461,7 @@ ${crawl.pageContent}`
     ]
   });
 
-  const raw = completion.choices[0]?.message?.content ?? "{}";
+  const raw = completion.content || "{}";
   console.log(`[analyze] AI profile generated (${raw.length} chars)`);
   const parsed = JSON.parse(raw) as BrandProfile;
 
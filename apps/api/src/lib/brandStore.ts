@@ -0,0 +1,127 @@
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { BrandProfile, BrandQuestionnaire } from "./brandAnalyzer.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const BRAND_DIR = path.resolve(__dirname, "../../gameplans/brands");
+
+/** An analyzed brand, one per domain, reused by every gameplan made for it. */
+export type SavedBrand = {
+  /** The domain as a slug, e.g. `example-com`. */
+  id: string;
+  domain: string;
+  websiteUrl: string;
+  brandName: string;
+  profile: BrandProfile;
+  /** Questionnaire answers the last analysis used. */
+  questionnaire?: BrandQuestionnaire;
+  analyzedAt: string;
+  /** Set when the profile was edited by hand after the last analysis. */
+  editedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SavedBrandSummary = Omit<SavedBrand, "profile" | "questionnaire"> & {
+  industry: string;
+  brandLogoUrl?: string;
+};
+
+async function ensureDir() {
+  await fs.mkdir(BRAND_DIR, { recursive: true });
+}
+
+function filePath(id: string): string {
+  return path.join(BRAND_DIR, `${id}.json`);
+}
+
+async function writeBrand(brand: SavedBrand): Promise<void> {
+  await ensureDir();
+  await fs.writeFile(filePath(brand.id), JSON.stringify(brand, null, 2));
+}
+
+function toSummary(brand: SavedBrand): SavedBrandSummary {
+  const { profile, questionnaire: _questionnaire, ...rest } = brand;
+  return { ...rest, industry: profile.industry, brandLogoUrl: profile.brandLogoUrl };
+}
+
+export function domainOf(websiteUrl: string): string {
+  const withScheme = /^[a-z]+:\/\//i.test(websiteUrl) ? websiteUrl : `https://${websiteUrl}`;
+  return new URL(withScheme).hostname.toLowerCase().replace(/^www\./, "");
+}
+
+export function brandIdFor(websiteUrl: string): string {
+  return domainOf(websiteUrl).replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+export async function getBrand(id: string): Promise<SavedBrand | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath(id), "utf-8")) as SavedBrand;
+  } catch {
+    return null;
+  }
+}
+
+/** Most recently used first. */
+export async function listBrands(): Promise<SavedBrandSummary[]> {
+  await ensureDir();
+  const summaries: SavedBrandSummary[] = [];
+  for (const file of await fs.readdir(BRAND_DIR)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      summaries.push(toSummary(JSON.parse(await fs.readFile(path.join(BRAND_DIR, file), "utf-8")) as SavedBrand));
+    } catch {
+      // skip corrupted files
+    }
+  }
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/** Store a fresh analysis for the URL's domain, replacing the previous profile (and any edits to it). */
+export async function saveAnalyzedBrand(input: {
+  websiteUrl: string;
+  brandName: string;
+  profile: BrandProfile;
+  questionnaire?: BrandQuestionnaire;
+}): Promise<SavedBrand> {
+  const id = brandIdFor(input.websiteUrl);
+  const existing = await getBrand(id);
+  const now = new Date().toISOString();
+  const brand: SavedBrand = {
+    id,
+    domain: domainOf(input.websiteUrl),
+    websiteUrl: input.websiteUrl,
+    brandName: input.brandName,
+    profile: input.profile,
+    questionnaire: input.questionnaire,
+    analyzedAt: now,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await writeBrand(brand);
+  return brand;
+}
+
+export async function updateBrand(id: string, updates: { brandName?: string; profile?: BrandProfile }): Promise<SavedBrand> {
+  const existing = await getBrand(id);
+  if (!existing) throw new Error(`Brand "${id}" not found.`);
+
+  const now = new Date().toISOString();
+  const updated: SavedBrand = {
+    ...existing,
+    ...(updates.brandName ? { brandName: updates.brandName } : {}),
+    ...(updates.profile ? { profile: updates.profile, editedAt: now } : {}),
+    updatedAt: now,
+  };
+  await writeBrand(updated);
+  return updated;
+}
+
+export async function deleteBrand(id: string): Promise<void> {
+  try {
+    await fs.unlink(filePath(id));
+  } catch {
+    throw new Error(`Brand "${id}" not found.`);
+  }
+}
@@ -0,0 +1,192 @@
+import type { Server } from "node:http";
+import { randomUUID } from "node:crypto";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { z } from "zod/v4";
+import {
+  createCollabDocument,
+  parseFlowSpecSafe,
+  submitOperation,
+  type CollabDocument,
+  type CollabPeer,
+  type CollabServerMessage,
+  type EditorOperation,
+  type FlowNode,
+} from "@flow/core";
+
+type Client = { socket: WebSocket; peer: CollabPeer };
+type Room = { document: CollabDocument; clients: Map<string, Client> };
+
+const PEER_COLORS = ["#2563eb", "#db2777", "#059669", "#d97706", "#7c3aed", "#dc2626", "#0891b2"];
+const ROOM_ID = /^[a-z0-9_:-]{1,120}$/i;
+
+/* Rooms live in memory only: the document is seeded by the first person to join
+   and dropped when the last one leaves. Saving still goes through the gameplan store. */
+const rooms = new Map<string, Room>();
+
+function send(socket: WebSocket, message: CollabServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function broadcast(room: Room, message: CollabServerMessage, exceptClientId?: string) {
+  for (const [clientId, client] of room.clients) {
+    if (clientId !== exceptClientId) send(client.socket, message);
+  }
+}
+
+/*
+ * Live edits are checked for shape only: a node mid-edit (an empty title, a split
+ * without its branches yet) is normal, and full validation happens on save.
+ */
+const NODE_TYPES = [
+  "trigger", "profileFilter", "split", "abSplit", "wait", "message", "outcome", "note", "strategy", "merge",
+] as const satisfies readonly FlowNode["type"][];
+
+const positionSchema = z.object({ x: z.number(), y: z.number() });
+const nodeSchema = z.looseObject({ id: z.string().min(1), type: z.enum(NODE_TYPES) });
+const edgeSchema = z.looseObject({ id: z.string().min(1), from: z.string().min(1), to: z.string().min(1), label: z.string().optional() });
+
+const operationSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("addNode"), node: nodeSchema, position: positionSchema.optional() }),
+  z.object({ type: z.literal("removeNode"), nodeId: z.string() }),
+  z.object({ type: z.literal("updateNode"), node: nodeSchema }),
+  z.object({ type: z.literal("moveNode"), nodeId: z.string(), position: positionSchema }),
+  z.object({ type: z.literal("addEdge"), edge: edgeSchema }),
+  z.object({ type: z.literal("removeEdge"), edgeId: z.string() }),
+  z.object({ type: z.literal("updateEdgeLabel"), edgeId: z.string(), label: z.string() }),
+  z.object({ type: z.literal("updateNodeTitle"), nodeId: z.string(), title: z.string() }),
+  z.object({ type: z.literal("updateSettings"), settings: z.record(z.string(), z.unknown()).optional() }),
+]);
+
+const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("join"), roomId: z.string(), name: z.string(), spec: z.unknown() }),
+  z.object({ type: z.literal("op"), opId: z.string(), baseVersion: z.number().int().nonnegative(), operation: operationSchema }),
+  z.object({
+    type: z.literal("presence"),
+    cursor: positionSchema.nullable().optional(),
+    selectedNodeId: z.string().nullable().optional(),
+  }),
+]);
+
+/* The join spec stays `unknown` here; it goes through `parseFlowSpecSafe` before seeding a room. */
+type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+function parseMessage(data: RawData): ClientMessage | null {
+  try {
+    const parsed = clientMessageSchema.safeParse(JSON.parse(data.toString()));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+function pickColor(room: Room): string {
+  const used = new Set([...room.clients.values()].map((c) => c.peer.color));
+  return PEER_COLORS.find((color) => !used.has(color)) ?? PEER_COLORS[room.clients.size % PEER_COLORS.length];
+}
+
+function handleConnection(socket: WebSocket) {
+  const clientId = randomUUID();
+  let room: Room | null = null;
+  let roomId = "";
+
+  socket.on("message", (data) => {
+    try {
+      handleMessage(data);
+    } catch (err) {
+      console.error("Collaboration message failed:", err);
+      send(socket, { type: "error", message: "Could not apply that change." });
+    }
+  });
+
+  function handleMessage(data: RawData) {
+    const message = parseMessage(data);
+    if (!message) {
+      send(socket, { type: "error", message: "Malformed collaboration message." });
+      return;
+    }
+
+    if (message.type === "join") {
+      if (room) return;
+      if (!ROOM_ID.test(message.roomId)) {
+        send(socket, { type: "error", message: "Invalid room id." });
+        return;
+      }
+      let existing = rooms.get(message.roomId);
+      if (!existing) {
+        const parsed = parseFlowSpecSafe(message.spec);
+        if (!parsed.success) {
+          send(socket, { type: "error", message: "Invalid flow spec." });
+          return;
+        }
+        existing = { document: createCollabDocument(parsed.data), clients: new Map() };
+        rooms.set(message.roomId, existing);
+      }
+      roomId = message.roomId;
+      room = existing;
+
+      const peer: CollabPeer = { clientId, name: message.name.trim().slice(0, 40) || "Guest", color: pickColor(room) };
+      send(socket, {
+        type: "welcome",
+        clientId,
+        version: room.document.version,
+        spec: room.document.spec,
+        peers: [...room.clients.values()].map((c) => c.peer),
+      });
+      room.clients.set(clientId, { socket, peer });
+      broadcast(room, { type: "presence", peer }, clientId);
+      return;
+    }
+
+    if (!room) {
+      send(socket, { type: "error", message: "Join a room first." });
+      return;
+    }
+
+    if (message.type === "presence") {
+      const client = room.clients.get(clientId)!;
+      client.peer = {
+        ...client.peer,
+        ...(message.cursor !== undefined ? { cursor: message.cursor } : {}),
+        ...(message.selectedNodeId !== undefined ? { selectedNodeId: message.selectedNodeId } : {}),
+      };
+      broadcast(room, { type: "presence", peer: client.peer }, clientId);
+      return;
+    }
+
+    if (message.type === "op") {
+      /* Node and settings payloads are only shape-checked; the editor ops handle the rest. */
+      const operation = message.operation as EditorOperation;
+      const result = submitOperation(room.document, clientId, message.baseVersion, operation);
+      if (!result.ok) {
+        const winner = result.conflictWith;
+        const node = winner ? room.document.spec.nodes.find((n: FlowNode) => "node" in winner.operation && n.id === winner.operation.node.id) : undefined;
+        send(socket, {
+          type: "reject",
+          opId: message.opId,
+          reason: result.reason,
+          message: result.message,
+          version: room.document.version,
+          spec: room.document.spec,
+          conflictWith: winner ? { clientId: winner.clientId, node } : undefined,
+        });
+        return;
+      }
+      room.document = result.document;
+      /* Everyone, sender included, gets the op: for the sender it is the acknowledgement. */
+      broadcast(room, { type: "op", opId: message.opId, clientId, version: result.applied.version, operation });
+    }
+  }
+
+  socket.on("close", () => {
+    if (!room) return;
+    room.clients.delete(clientId);
+    if (room.clients.size === 0) rooms.delete(roomId);
+    else broadcast(room, { type: "leave", clientId });
+  });
+}
+
+export function attachCollabHub(server: Server) {
+  const wss = new WebSocketServer({ server, path: "/api/collab" });
+  wss.on("connection", handleConnection);
+  return wss;
+}
@@ -0,0 +1,60 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { CrawlResult } from "./brandAnalyzer.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const CACHE_DIR = path.resolve(__dirname, "../../gameplans/crawl-cache");
+const DEFAULT_TTL_HOURS = 24;
+
+type CacheEntry = {
+  url: string;
+  crawledAt: string;
+  result: CrawlResult;
+};
+
+/** `CRAWL_CACHE_TTL_HOURS`, default 24; 0 turns the cache off. */
+function ttlMs(): number {
+  const hours = Number(process.env.CRAWL_CACHE_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+/* `https://www.Example.com/` and `example.com` are the same site */
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname.toLowerCase().replace(/^www\./, "")}${parsed.pathname.replace(/\/+$/, "")}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+function filePath(url: string): string {
+  const key = createHash("sha256").update(normalizeUrl(url)).digest("hex").slice(0, 16);
+  return path.join(CACHE_DIR, `${key}.json`);
+}
+
+/** A crawl of `url` younger than the TTL, with the time it was made. */
+export async function getCachedCrawl(url: string): Promise<{ result: CrawlResult; crawledAt: string } | null> {
+  const ttl = ttlMs();
+  if (!ttl) return null;
+  try {
+    const entry = JSON.parse(await fs.readFile(filePath(url), "utf-8")) as CacheEntry;
+    if (Date.now() - new Date(entry.crawledAt).getTime() > ttl) return null;
+    return { result: entry.result, crawledAt: entry.crawledAt };
+  } catch {
+    return null;
+  }
+}
+
+export async function cacheCrawl(url: string, result: CrawlResult): Promise<void> {
+  if (!ttlMs()) return;
+  const entry: CacheEntry = { url, crawledAt: new Date().toISOString(), result };
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    await fs.writeFile(filePath(url), JSON.stringify(entry, null, 2));
+  } catch (err) {
+    console.warn(`[crawl] Could not cache ${url}:`, (err as Error).message);
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { getPlanDefinition, parseFlowSpec, type FlowBlueprint } from "@flow/core";
+import type { BrandProfile } from "./brandAnalyzer.js";
+import { generateFlowsForPlan, regenerateFlow, type GenerationProgress } from "./flowGenerator.js";
+import { createFixtureProvider, type LlmProvider } from "./llm.js";
+
+const BRAND: BrandProfile = {
+  brandName: "Acme Goods",
+  industry: "Home goods",
+  targetAudience: "Homeowners",
+  brandVoice: "Warm",
+  keyProducts: ["Linen sheets"],
+  uniqueSellingPoints: ["Made to last"],
+  discountStrategy: "Rare discounts",
+  summary: "Durable home goods.",
+  priceRange: "$50-$200",
+  averageOrderValue: "$90",
+  businessStage: "Growing",
+  emailListSize: "10k",
+  discountApproach: "Free shipping over $100",
+  keyDifferentiators: ["Lifetime warranty"],
+  brandTone: "Friendly",
+  competitors: "None listed",
+  specialInstructions: "",
+};
+
+const PLAN = getPlanDefinition("core-foundation");
+
+/* Fails the first `failures` calls per flow (all of them when Infinity) before replaying fixtures */
+function flakyProvider(failures: Record<string, number>, error: () => Error = () => new Error("Connection reset")): LlmProvider & { calls: string[] } {
+  const inner = createFixtureProvider();
+  const calls: string[] = [];
+  return {
+    name: "flaky",
+    calls,
+    async complete(request) {
+      const key = request.fixtureKey ?? "";
+      calls.push(key);
+      if (calls.filter((k) => k === key).length <= (failures[key] ?? 0)) throw error();
+      return inner.complete(request);
+    },
+  };
+}
+
+describe("generateFlowsForPlan", () => {
+  it("builds every flow of a plan from fixtures, in plan order", async () => {
+    const events: GenerationProgress[] = [];
+    const flows = await generateFlowsForPlan(PLAN, BRAND, { llm: createFixtureProvider(), concurrency: 2, onProgress: (e) => events.push(e) });
+
+    expect(flows.map((f) => f.id)).toEqual(PLAN.flows.map((b) => b.flowId));
+    for (const flow of flows) expect(() => parseFlowSpec(flow)).not.toThrow();
+
+    const assembled = events.filter((e): e is Extract<GenerationProgress, { type: "assembled" }> => e.type === "assembled");
+    expect(assembled.map((e) => PLAN.flows[e.index].flowId).sort()).toEqual(PLAN.flows.map((b) => b.flowId).sort());
+  });
+
+  it("reuses the source flow's content for a mirrored flow", async () => {
+    const provider = flakyProvider({});
+    const events: GenerationProgress[] = [];
+    const flows = await generateFlowsForPlan(PLAN, BRAND, { llm: provider, onProgress: (e) => events.push(e) });
+
+    expect(provider.calls).not.toContain("core_cart_abandonment");
+    expect(events).toContainEqual({ type: "content", flowId: "core_cart_abandonment", source: "mirror" });
+    const cart = flows.find((f) => f.id === "core_cart_abandonment")!;
+    expect(cart.name).toBe("Cart Abandonment");
+  });
+
+  it("retries a failed call, then falls back to placeholder content", async () => {
+    const provider = flakyProvider({ core_email_welcome: 1, core_sms_welcome: Infinity });
+    const events: GenerationProgress[] = [];
+    const flows = await generateFlowsForPlan(PLAN, BRAND, { llm: provider, maxAttempts: 2, onProgress: (e) => events.push(e) });
+
+    expect(flows).toHaveLength(PLAN.flows.length);
+    expect(events).toContainEqual({ type: "retry", flowId: "core_email_welcome", attempt: 1, error: "Connection reset" });
+    expect(events).toContainEqual({ type: "content", flowId: "core_email_welcome", source: "ai" });
+    expect(events).toContainEqual({ type: "fallback", flowId: "core_sms_welcome", error: "Connection reset" });
+    expect(provider.calls.filter((k) => k === "core_sms_welcome")).toHaveLength(2);
+  });
+
+  it("stops on a missing fixture without retrying", async () => {
+    const provider = createFixtureProvider({ dir: "/nonexistent-fixtures" });
+    const events: GenerationProgress[] = [];
+    await expect(generateFlowsForPlan(PLAN, BRAND, { llm: provider, onProgress: (e) => events.push(e) })).rejects.toThrow(/No LLM fixture/);
+    expect(events.some((e) => e.type === "retry" || e.type === "assembled")).toBe(false);
+  });
+
+  it("rejects with the abort reason once cancelled and starts no more flows", async () => {
+    const controller = new AbortController();
+    const provider = flakyProvider({});
+    const started: string[] = [];
+    const run = generateFlowsForPlan(PLAN, BRAND, {
+      llm: provider,
+      concurrency: 1,
+      signal: controller.signal,
+      onProgress: (e) => {
+        if (e.type !== "started") return;
+        started.push(e.flowId);
+        controller.abort(new Error("Cancelled by user"));
+      },
+    });
+
+    await expect(run).rejects.toThrow("Cancelled by user");
+    expect(started).toEqual([PLAN.flows[0].flowId]);
+    expect(provider.calls).toEqual([]);
+  });
+});
+
+describe("regenerateFlow", () => {
+  it("rebuilds a single flow from fixtures", async () => {
+    const blueprint: FlowBlueprint = PLAN.flows[0];
+    const flow = await regenerateFlow(blueprint, BRAND, { llm: createFixtureProvider() });
+    expect(flow.id).toBe(blueprint.flowId);
+    expect(() => parseFlowSpec(flow)).not.toThrow();
+  });
+});
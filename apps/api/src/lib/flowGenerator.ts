@@ -1,5 +1,5 @@
-import type { FlowBlueprint, PlanDefinition } from "@flow/core";
-import { getOpenAI } from "./openai.js";
+import type { FlowBlueprint, FlowSpec, PlanDefinition } from "@flow/core";
+import { getLlmProvider, isRetryableLlmError, type LlmProvider } from "./llm.js";
 import type { BrandProfile } from "./brandAnalyzer.js";
 
 /* ── AI-generated content per flow ── */
@@ -67,7 +67,7 @@ type FlowEdge = {
   label?: string;
 };
 
-type FlowSpecOutput = {
+export type FlowSpecOutput = {
   id: string;
   name: string;
   source: { mode: "manual" };
@@ -356,61 +356,235 @@ function assembleFlowSpec(
   };
 }
 
+/* ── progress events ── */
+
+export type GenerationProgress =
+  | { type: "started"; flowId: string; name: string; index: number; total: number }
+  /** Content is ready: from the model, or copied from the flow this one mirrors. */
+  | { type: "content"; flowId: string; source: "ai" | "mirror" }
+  /** A model call failed and will be tried again after a backoff. */
+  | { type: "retry"; flowId: string; attempt: number; error: string }
+  | { type: "fallback"; flowId: string; error: string }
+  | { type: "assembled"; flowId: string; index: number; flow: FlowSpecOutput };
+
+export type GenerateFlowsOptions = {
+  onProgress?: (event: GenerationProgress) => void;
+  /** Aborts in-flight model calls; generation then rejects with the abort reason. */
+  signal?: AbortSignal;
+  /** Model calls in flight at once. */
+  concurrency?: number;
+  /** Tries per flow before falling back to placeholder content. */
+  maxAttempts?: number;
+  /** Provider for model calls; defaults to the configured one. */
+  llm?: LlmProvider;
+};
+
+const DEFAULT_CONCURRENCY = Number(process.env.GENERATION_CONCURRENCY) || 3;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 1000;
+
+/* ── concurrency and retry helpers ── */
+
+/** Run at most `max` tasks at once; a finishing task hands its slot to the next queued one. */
+function createLimiter(max: number) {
+  let active = 0;
+  const queue: Array<() => void> = [];
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active < max) active++;
+    else await new Promise<void>((resolve) => queue.push(resolve));
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => { clearTimeout(timer); reject(signal.reason); }, { once: true });
+  });
+}
+
+async function requestFlowContent(
+  llm: LlmProvider,
+  blueprint: FlowBlueprint,
+  brand: BrandProfile,
+  signal?: AbortSignal
+): Promise<GeneratedFlowContent> {
+  const completion = await llm.complete({
+    task: "generate-flow",
+    tier: "fast",
+    temperature: 0.5,
+    json: true,
+    fixtureKey: blueprint.flowId,
+    messages: [
+      { role: "system", content: "You are a senior retention marketing strategist. Return only valid JSON." },
+      { role: "user", content: buildPrompt(blueprint, brand) }
+    ],
+    signal
+  });
+
+  const raw = completion.content || "{}";
+  try {
+    return JSON.parse(raw) as GeneratedFlowContent;
+  } catch {
+    console.error(`Failed to parse AI response for ${blueprint.flowId}:`, raw);
+    throw new Error("AI response was not valid JSON.");
+  }
+}
+
+/** AI content for one flow, retried with exponential backoff before falling back to placeholders. */
+async function generateFlowContent(
+  llm: LlmProvider,
+  blueprint: FlowBlueprint,
+  brand: BrandProfile,
+  options: GenerateFlowsOptions
+): Promise<GeneratedFlowContent> {
+  const { signal, onProgress } = options;
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  let lastError = "";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      const content = await requestFlowContent(llm, blueprint, brand, signal);
+      onProgress?.({ type: "content", flowId: blueprint.flowId, source: "ai" });
+      return validateAndFixCounts(content, blueprint);
+    } catch (err) {
+      if (signal?.aborted || !isRetryableLlmError(err)) throw err;
+      lastError = err instanceof Error ? err.message : String(err);
+      if (attempt < maxAttempts) {
+        onProgress?.({ type: "retry", flowId: blueprint.flowId, attempt, error: lastError });
+        await sleep(RETRY_BASE_MS * 2 ** (attempt - 1), signal);
+      }
+    }
+  }
+
+  console.error(`Generation failed for ${blueprint.flowId} after ${maxAttempts} attempts: ${lastError}`);
+  onProgress?.({ type: "fallback", flowId: blueprint.flowId, error: lastError });
+  return validateAndFixCounts(buildFallbackContent(blueprint, brand), blueprint);
+}
+
 /* ── main generation function ── */
 
+/**
+ * Generate every flow of a plan, up to `concurrency` model calls at a time.
+ * A flow that mirrors another waits for that flow's content and reuses it.
+ * Results come back in plan order; the first hard failure aborts the rest.
+ */
 export async function generateFlowsForPlan(
   plan: PlanDefinition,
-  brand: BrandProfile
+  brand: BrandProfile,
+  options: GenerateFlowsOptions = {}
 ): Promise<FlowSpecOutput[]> {
-  const openai = getOpenAI();
-  const results: FlowSpecOutput[] = [];
-
-  // Track generated flows for mirroring
-  const generatedContent = new Map<string, GeneratedFlowContent>();
-
-  for (const blueprint of plan.flows) {
-    let content: GeneratedFlowContent;
-
-    // If this flow mirrors another, reuse its content with adjusted trigger
-    if (blueprint.mirrorsFlow && generatedContent.has(blueprint.mirrorsFlow)) {
-      const source = generatedContent.get(blueprint.mirrorsFlow)!;
-      content = {
-        ...source,
-        flowName: blueprint.name,
-        triggerDescription: blueprint.triggerEvent
-      };
-    } else {
-      // Call OpenAI for tailored content
-      const prompt = buildPrompt(blueprint, brand);
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        temperature: 0.5,
-        response_format: { type: "json_object" },
-        messages: [
-          { role: "system", content: "You are a senior retention marketing strategist. Return only valid JSON." },
-          { role: "user", content: prompt }
-        ]
-      });
+  const llm = options.llm ?? getLlmProvider();
+  const { onProgress } = options;
+  const total = plan.flows.length;
+  const limit = createLimiter(Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY));
+
+  /* One failure stops the other flows too */
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(options.signal?.reason);
+  if (options.signal?.aborted) onAbort();
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+  const taskOptions: GenerateFlowsOptions = { ...options, signal: controller.signal };
+
+  const blueprintsById = new Map(plan.flows.map((b) => [b.flowId, b]));
+  const contentById = new Map<string, Promise<GeneratedFlowContent>>();
+
+  const contentFor = (blueprint: FlowBlueprint, index: number): Promise<GeneratedFlowContent> => {
+    const cached = contentById.get(blueprint.flowId);
+    if (cached) return cached;
+    const started = () => onProgress?.({ type: "started", flowId: blueprint.flowId, name: blueprint.name, index, total });
+    /* Only one level of mirroring: a source that itself mirrors is generated on its own */
+    const source = blueprint.mirrorsFlow ? blueprintsById.get(blueprint.mirrorsFlow) : undefined;
+    const content = source && !source.mirrorsFlow
+      ? contentFor(source, plan.flows.indexOf(source)).then((sourceContent) => {
+          started();
+          onProgress?.({ type: "content", flowId: blueprint.flowId, source: "mirror" });
+          return { ...sourceContent, flowName: blueprint.name, triggerDescription: blueprint.triggerEvent };
+        })
+      : limit(() => {
+          taskOptions.signal?.throwIfAborted();
+          started();
+          return generateFlowContent(llm, blueprint, brand, taskOptions);
+        });
+    contentById.set(blueprint.flowId, content);
+    return content;
+  };
 
-      const raw = completion.choices[0]?.message?.content ?? "{}";
-      try {
-        content = JSON.parse(raw) as GeneratedFlowContent;
-      } catch {
-        console.error(`Failed to parse AI response for ${blueprint.flowId}:`, raw);
-        // Fallback: generate minimal content
-        content = buildFallbackContent(blueprint, brand);
-      }
+  try {
+    return await Promise.all(plan.flows.map(async (blueprint, index) => {
+      const content = await contentFor(blueprint, index);
+      const spec = assembleFlowSpec(blueprint, content);
+      onProgress?.({ type: "assembled", flowId: blueprint.flowId, index, flow: spec });
+      return spec;
+    }));
+  } catch (err) {
+    controller.abort(err);
+    throw err;
+  } finally {
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+}
 
-      // Validate step counts match blueprint
-      content = validateAndFixCounts(content, blueprint);
+/**
+ * Rebuild a blueprint from a finished flow (trigger, split and per-branch message
+ * counts) for flows whose plan blueprint is no longer at hand, e.g. custom plans.
+ */
+export function blueprintFromFlow(flow: FlowSpec): FlowBlueprint {
+  type SpecNode = FlowSpec["nodes"][number];
+  type SpecMessage = Extract<SpecNode, { type: "message" }>;
+  const trigger = flow.nodes.find((n): n is Extract<SpecNode, { type: "trigger" }> => n.type === "trigger");
+  const split = flow.nodes.find((n): n is Extract<SpecNode, { type: "split" }> => n.type === "split");
+  const messages = flow.nodes.filter((n): n is SpecMessage => n.type === "message");
+  const count = (nodes: Array<SpecMessage>) => ({
+    email: nodes.filter((n) => n.channel === "email").length,
+    sms: nodes.filter((n) => n.channel === "sms").length,
+  });
+  const totals = count(messages);
+
+  const blueprint: FlowBlueprint = {
+    flowId: flow.id,
+    name: flow.name,
+    triggerEvent: trigger?.event ?? flow.name,
+    emailCount: totals.email,
+    smsCount: totals.sms,
+    hasSplit: !!split,
+  };
+  if (!split) return blueprint;
+
+  /* Messages reachable from each branch of the first split */
+  const branch = (label: string) => {
+    const start = flow.edges.find((e) => e.from === split.id && e.label?.toLowerCase() === label.toLowerCase());
+    const seen = new Set<string>();
+    const queue = start ? [start.to] : [];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      queue.push(...flow.edges.filter((e) => e.from === id).map((e) => e.to));
     }
+    return count(messages.filter((m) => seen.has(m.id)));
+  };
+  return { ...blueprint, splitCondition: split.condition, splitSegments: { yes: branch(split.labels[0] ?? "Yes"), no: branch(split.labels[1] ?? "No") } };
+}
 
-    generatedContent.set(blueprint.flowId, content);
-    const spec = assembleFlowSpec(blueprint, content);
-    results.push(spec);
-  }
-
-  return results;
+/** Generate a single flow again, e.g. to replace one flow of a saved gameplan. */
+export async function regenerateFlow(
+  blueprint: FlowBlueprint,
+  brand: BrandProfile,
+  options: Omit<GenerateFlowsOptions, "concurrency"> = {}
+): Promise<FlowSpecOutput> {
+  const llm = options.llm ?? getLlmProvider();
+  options.onProgress?.({ type: "started", flowId: blueprint.flowId, name: blueprint.name, index: 0, total: 1 });
+  const content = await generateFlowContent(llm, blueprint, brand, options);
+  return assembleFlowSpec(blueprint, content);
 }
 
 /* ── fallback if AI fails ── */
@@ -1,5 +1,5 @@
 import type { FlowBlueprint, PlanDefinition, PlanKey } from "@flow/core";
-import { getOpenAI } from "./openai.js";
+import { getLlmProvider, type LlmProvider } from "./llm.js";
 
 type ParsedBlueprint = {
   name: string;
@@ -47,22 +47,21 @@ function sanitizeId(name: string): string {
   return name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
 }
 
-export async function parseFlowText(text: string): Promise<PlanDefinition> {
-  const openai = getOpenAI();
-
+export async function parseFlowText(text: string, llm: LlmProvider = getLlmProvider()): Promise<PlanDefinition> {
   console.log(`[flow-parser] Parsing flow text (${text.length} chars)...`);
 
-  const completion = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
+  const completion = await llm.complete({
+    task: "parse-flow-text",
+    tier: "fast",
     temperature: 0.1,
-    response_format: { type: "json_object" },
+    json: true,
     messages: [
       { role: "system", content: PARSE_PROMPT },
       { role: "user", content: text }
     ]
   });
 
-  const raw = completion.choices[0]?.message?.content ?? "{}";
+  const raw = completion.content || "{}";
   let parsed: { flows: ParsedBlueprint[] };
 
   try {
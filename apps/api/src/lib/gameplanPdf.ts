@@ -0,0 +1,363 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import PDFDocument from "pdfkit";
+import { describeAbSplit, describeNodeCondition, describeWait, formatDelay, getAllPlans, type FlowNode, type FlowSpec } from "@flow/core";
+import { buildLayout } from "@flow/layout";
+import type { Gameplan } from "./gameplanStore.js";
+
+export type GameplanPdfInput = Pick<
+  Gameplan,
+  "brandName" | "planKey" | "planName" | "websiteUrl" | "brandProfile" | "brandLogoUrl" | "brandColor" | "flows"
+> & { name?: string };
+
+type Doc = PDFKit.PDFDocument;
+type MessageNode = Extract<FlowNode, { type: "message" }>;
+
+const PAGE_MARGIN = 48;
+const DEFAULT_COLOR = "#1f2937";
+const TEXT_COLOR = "#111827";
+const MUTED_COLOR = "#6b7280";
+const BORDER_COLOR = "#e5e7eb";
+
+const NODE_FILLS: Partial<Record<FlowNode["type"], string>> = {
+  profileFilter: "#ede9fe",
+  split: "#fef3c7",
+  wait: "#f3f4f6",
+  outcome: "#e5e7eb",
+  note: "#fef9c3",
+  strategy: "#fef9c3",
+  merge: "#e5e7eb"
+};
+
+/* ── helpers ── */
+
+/* The built-in Helvetica only covers WinAnsi; drop anything else (emoji etc.). */
+function clean(text: string | undefined): string {
+  return (text ?? "").replace(/[^\x20-\x7E\xA0-\xFF\n–—‘’“”•…€™]/g, "").trim();
+}
+
+function brandColor(input: GameplanPdfInput): string {
+  const color = input.brandColor ?? input.brandProfile?.brandColor;
+  return color && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color) ? color : DEFAULT_COLOR;
+}
+
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+
+/* Logo URLs come from request bodies, so never let them reach loopback, private or link-local addresses. */
+const PRIVATE_RANGES = new BlockList();
+PRIVATE_RANGES.addSubnet("0.0.0.0", 8, "ipv4");
+PRIVATE_RANGES.addSubnet("10.0.0.0", 8, "ipv4");
+PRIVATE_RANGES.addSubnet("100.64.0.0", 10, "ipv4");
+PRIVATE_RANGES.addSubnet("127.0.0.0", 8, "ipv4");
+PRIVATE_RANGES.addSubnet("169.254.0.0", 16, "ipv4");
+PRIVATE_RANGES.addSubnet("172.16.0.0", 12, "ipv4");
+PRIVATE_RANGES.addSubnet("192.168.0.0", 16, "ipv4");
+PRIVATE_RANGES.addAddress("::", "ipv6");
+PRIVATE_RANGES.addAddress("::1", "ipv6");
+PRIVATE_RANGES.addSubnet("fc00::", 7, "ipv6");
+PRIVATE_RANGES.addSubnet("fe80::", 10, "ipv6");
+
+async function isPublicHost(hostname: string): Promise<boolean> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true });
+  return addresses.every(({ address, family }) => {
+    const mapped = family === 6 ? address.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, "") : address;
+    return !PRIVATE_RANGES.check(mapped, isIP(mapped) === 4 ? "ipv4" : "ipv6");
+  });
+}
+
+/* Reads at most MAX_LOGO_BYTES and gives up on anything larger. */
+async function readCapped(res: Response): Promise<Buffer | null> {
+  if (Number(res.headers.get("content-length") ?? 0) > MAX_LOGO_BYTES || !res.body) return null;
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_LOGO_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/* pdfkit embeds PNG and JPEG only; anything else (SVG, WebP, ICO) is skipped. */
+async function fetchLogo(url: string | undefined): Promise<Buffer | null> {
+  if (!url || !/^https?:\/\//i.test(url)) return null;
+  try {
+    if (!(await isPublicHost(new URL(url).hostname))) return null;
+    /* Redirects are not followed: the target would skip the host check. */
+    const res = await fetch(url, { signal: AbortSignal.timeout(5_000), redirect: "manual" });
+    if (!res.ok) return null;
+    const buf = await readCapped(res);
+    if (!buf) return null;
+    const isPng = buf.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    const isJpeg = buf[0] === 0xff && buf[1] === 0xd8;
+    return isPng || isJpeg ? buf : null;
+  } catch {
+    return null;
+  }
+}
+
+function contentWidth(doc: Doc): number {
+  return doc.page.width - PAGE_MARGIN * 2;
+}
+
+function pageBottom(doc: Doc): number {
+  return doc.page.height - PAGE_MARGIN;
+}
+
+function sectionHeading(doc: Doc, title: string, color: string) {
+  doc.font("Helvetica-Bold").fontSize(20).fillColor(TEXT_COLOR).text(clean(title), PAGE_MARGIN, PAGE_MARGIN);
+  const y = doc.y + 6;
+  doc.rect(PAGE_MARGIN, y, 48, 3).fill(color);
+  doc.y = y + 18;
+}
+
+function field(doc: Doc, label: string, value: string | string[] | undefined) {
+  const text = Array.isArray(value) ? value.filter(Boolean).join(", ") : value;
+  if (!text || text === "unknown") return;
+  doc.font("Helvetica-Bold").fontSize(9).fillColor(MUTED_COLOR).text(label.toUpperCase(), PAGE_MARGIN, doc.y);
+  doc.font("Helvetica").fontSize(11).fillColor(TEXT_COLOR).text(clean(text), { width: contentWidth(doc) });
+  doc.moveDown(0.8);
+}
+
+type Column = { header: string; width: number };
+
+/* Simple wrapped-text table that breaks across pages and repeats its header. */
+function table(doc: Doc, columns: Column[], rows: string[][], color: string) {
+  const total = columns.reduce((sum, c) => sum + c.width, 0);
+  const widths = columns.map((c) => (c.width / total) * contentWidth(doc));
+  const pad = 4;
+
+  function rowHeight(cells: string[], font: string): number {
+    doc.font(font).fontSize(8.5);
+    return Math.max(...cells.map((cell, i) => doc.heightOfString(cell || "—", { width: widths[i] - pad * 2 }))) + pad * 2;
+  }
+
+  function drawRow(cells: string[], header: boolean) {
+    const font = header ? "Helvetica-Bold" : "Helvetica";
+    const height = rowHeight(cells, font);
+    if (doc.y + height > pageBottom(doc)) {
+      doc.addPage();
+      doc.y = PAGE_MARGIN;
+      if (!header) drawRow(columns.map((c) => c.header), true);
+    }
+    const top = doc.y;
+    let x = PAGE_MARGIN;
+    if (header) doc.rect(PAGE_MARGIN, top, contentWidth(doc), height).fill(color);
+    cells.forEach((cell, i) => {
+      doc.font(font).fontSize(8.5).fillColor(header ? "#ffffff" : TEXT_COLOR)
+        .text(cell || "—", x + pad, top + pad, { width: widths[i] - pad * 2 });
+      x += widths[i];
+    });
+    doc.moveTo(PAGE_MARGIN, top + height).lineTo(PAGE_MARGIN + contentWidth(doc), top + height)
+      .lineWidth(0.5).strokeColor(BORDER_COLOR).stroke();
+    doc.y = top + height;
+  }
+
+  drawRow(columns.map((c) => c.header), true);
+  for (const row of rows) drawRow(row.map(clean), false);
+  doc.x = PAGE_MARGIN;
+}
+
+function nodeSubtitle(node: FlowNode): string {
+  switch (node.type) {
+    case "trigger": return node.event;
+    case "message": return node.emailContent?.subjectLine ?? node.channel.toUpperCase();
+    case "wait": return node.duration ? formatDelay(node.duration.value, node.duration.unit) : describeWait(node);
+    case "split":
+    case "profileFilter": return describeNodeCondition(node) ?? "";
+    case "abSplit": return describeAbSplit(node);
+    case "outcome": return node.result;
+    case "note": return node.body;
+    case "strategy": return node.primaryFocus;
+    default: return "";
+  }
+}
+
+/* ── pages ── */
+
+function coverPage(doc: Doc, input: GameplanPdfInput, color: string, logo: Buffer | null) {
+  doc.rect(0, 0, doc.page.width, 220).fill(color);
+  if (logo) {
+    try {
+      doc.image(logo, PAGE_MARGIN, 48, { fit: [160, 64] });
+    } catch {
+      /* corrupt image: keep the cover without it */
+    }
+  }
+  doc.font("Helvetica-Bold").fontSize(32).fillColor("#ffffff").text(clean(input.brandName), PAGE_MARGIN, 128, { width: contentWidth(doc) });
+  doc.font("Helvetica").fontSize(14).fillColor("#ffffff").text("Email & SMS Flow Gameplan", { width: contentWidth(doc) });
+
+  doc.y = 260;
+  field(doc, "Plan", input.planName);
+  field(doc, "Website", input.websiteUrl);
+  field(doc, "Flows", `${input.flows.length}`);
+  field(doc, "Prepared", new Date().toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }));
+}
+
+function brandPage(doc: Doc, input: GameplanPdfInput, color: string) {
+  const profile = input.brandProfile;
+  if (!profile) return;
+  doc.addPage();
+  sectionHeading(doc, "Brand Summary", color);
+  field(doc, "Summary", profile.summary);
+  field(doc, "Industry", profile.industry);
+  field(doc, "Target audience", profile.targetAudience);
+  field(doc, "Brand voice", profile.brandVoice);
+  field(doc, "Key products", profile.keyProducts);
+  field(doc, "Unique selling points", profile.uniqueSellingPoints);
+  field(doc, "Price range", profile.priceRange);
+  field(doc, "Average order value", profile.averageOrderValue);
+  field(doc, "Discount approach", profile.discountApproach);
+  field(doc, "Special instructions", profile.specialInstructions);
+}
+
+function planPage(doc: Doc, input: GameplanPdfInput, color: string) {
+  doc.addPage();
+  sectionHeading(doc, "Plan Overview", color);
+  const plan = getAllPlans().find((p) => p.key === input.planKey);
+  if (plan) {
+    doc.font("Helvetica").fontSize(11).fillColor(TEXT_COLOR)
+      .text(`${plan.name} · ${plan.price} · ${plan.buildTime}`, PAGE_MARGIN, doc.y)
+      .fillColor(MUTED_COLOR).text(plan.tagline);
+    doc.moveDown(1);
+  }
+
+  const rows = input.flows.map((flow) => {
+    const messages = flow.nodes.filter((n): n is MessageNode => n.type === "message");
+    const trigger = flow.nodes.find((n) => n.type === "trigger");
+    return [
+      flow.name,
+      trigger?.type === "trigger" ? trigger.event : "",
+      String(messages.filter((m) => m.channel === "email").length),
+      String(messages.filter((m) => m.channel === "sms").length),
+      String(flow.nodes.filter((n) => n.type === "split").length)
+    ];
+  });
+  table(doc, [
+    { header: "Flow", width: 3 },
+    { header: "Trigger", width: 4 },
+    { header: "Emails", width: 1 },
+    { header: "SMS", width: 1 },
+    { header: "Splits", width: 1 }
+  ], rows, color);
+}
+
+function flowDiagram(doc: Doc, flow: FlowSpec, color: string) {
+  const layout = buildLayout(flow, { positionOverrides: flow.ui?.nodePositions });
+  if (layout.nodes.length === 0) return;
+
+  const minX = Math.min(...layout.nodes.map((n) => n.x));
+  const minY = Math.min(...layout.nodes.map((n) => n.y));
+  const maxX = Math.max(...layout.nodes.map((n) => n.x + n.width));
+  const maxY = Math.max(...layout.nodes.map((n) => n.y + n.height));
+  const top = doc.y;
+  const availableHeight = pageBottom(doc) - top;
+  const scale = Math.min(contentWidth(doc) / (maxX - minX), availableHeight / (maxY - minY), 1);
+  const offsetX = PAGE_MARGIN + (contentWidth(doc) - (maxX - minX) * scale) / 2;
+  const px = (x: number) => offsetX + (x - minX) * scale;
+  const py = (y: number) => top + (y - minY) * scale;
+  const specNodes = new Map(flow.nodes.map((n) => [n.id, n]));
+
+  for (const edge of layout.edges) {
+    if (edge.points.length < 2) continue;
+    doc.moveTo(px(edge.points[0].x), py(edge.points[0].y));
+    for (const point of edge.points.slice(1)) doc.lineTo(px(point.x), py(point.y));
+    doc.lineWidth(Math.max(0.5, 1.2 * scale)).strokeColor("#9ca3af").stroke();
+    if (edge.label) {
+      const mid = edge.points[Math.floor(edge.points.length / 2)];
+      doc.font("Helvetica-Bold").fontSize(Math.max(5, 11 * scale)).fillColor(MUTED_COLOR)
+        .text(clean(edge.label), px(mid.x) + 3, py(mid.y) - 4 * scale, { lineBreak: false });
+    }
+  }
+
+  for (const node of layout.nodes) {
+    const spec = specNodes.get(node.id);
+    if (!spec) continue;
+    const fill = node.type === "trigger" ? color
+      : spec.type === "message" ? (spec.channel === "sms" ? "#dcfce7" : "#dbeafe")
+      : NODE_FILLS[node.type] ?? "#ffffff";
+    const x = px(node.x);
+    const y = py(node.y);
+    const w = node.width * scale;
+    const h = node.height * scale;
+    doc.roundedRect(x, y, w, h, Math.min(6, h / 2)).fillAndStroke(fill, BORDER_COLOR);
+
+    if (h < 10) continue;
+    const textColor = node.type === "trigger" ? "#ffffff" : TEXT_COLOR;
+    const titleSize = Math.max(5, 16 * scale);
+    const pad = 6 * scale;
+    doc.font("Helvetica-Bold").fontSize(titleSize).fillColor(textColor)
+      .text(clean(node.title), x + pad, y + pad, { width: w - pad * 2, height: titleSize * 1.3, ellipsis: true });
+    const subtitle = clean(nodeSubtitle(spec));
+    const remaining = h - pad * 2 - titleSize * 1.4;
+    if (subtitle && remaining > titleSize) {
+      doc.font("Helvetica").fontSize(titleSize * 0.85).fillColor(textColor)
+        .text(subtitle, x + pad, y + pad + titleSize * 1.4, { width: w - pad * 2, height: remaining, ellipsis: true });
+    }
+  }
+  doc.x = PAGE_MARGIN;
+}
+
+function flowPages(doc: Doc, flow: FlowSpec, index: number, color: string) {
+  doc.addPage();
+  sectionHeading(doc, `${index + 1}. ${flow.name}`, color);
+  flowDiagram(doc, flow, color);
+
+  const messages = flow.nodes
+    .filter((n): n is MessageNode => n.type === "message")
+    .sort((a, b) => (a.stepIndex ?? Infinity) - (b.stepIndex ?? Infinity));
+  if (messages.length === 0) return;
+
+  doc.addPage();
+  doc.font("Helvetica-Bold").fontSize(14).fillColor(TEXT_COLOR).text(`${clean(flow.name)} — Messages`, PAGE_MARGIN, PAGE_MARGIN);
+  doc.moveDown(0.6);
+  table(doc, [
+    { header: "Message", width: 3 },
+    { header: "Subject line", width: 3 },
+    { header: "Messaging focus", width: 4 },
+    { header: "Discount", width: 2 },
+    { header: "Implementation notes", width: 4 }
+  ], messages.map((m) => [
+    `${m.title} (${m.channel.toUpperCase()})`,
+    m.channel === "email" ? m.emailContent?.subjectLine ?? "" : "",
+    m.messagingFocus ?? "",
+    m.discountCode?.included ? [m.discountCode.code, m.discountCode.description].filter(Boolean).join(" — ") || "Yes" : "",
+    m.implementationNotes ?? ""
+  ]), color);
+}
+
+/**
+ * Render a gameplan as a client-ready PDF: cover, brand summary, plan overview,
+ * then one diagram page and one message table per flow, in the brand's colour.
+ */
+export async function renderGameplanPdf(input: GameplanPdfInput): Promise<Buffer> {
+  const color = brandColor(input);
+  const logo = await fetchLogo(input.brandLogoUrl ?? input.brandProfile?.brandLogoUrl);
+
+  const doc = new PDFDocument({
+    size: "LETTER",
+    margin: PAGE_MARGIN,
+    info: { Title: clean(input.name ?? `${input.brandName} — ${input.planName}`), Author: "Flow Gameplan Creator" }
+  });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  coverPage(doc, input, color, logo);
+  brandPage(doc, input, color);
+  planPage(doc, input, color);
+  input.flows.forEach((flow, i) => flowPages(doc, flow, i, color));
+  doc.end();
+
+  return done;
+}
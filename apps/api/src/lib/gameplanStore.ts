@@ -0,0 +1,199 @@
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { diffFlowSpecs, type FlowSpec } from "@flow/core";
+import type { BrandProfile } from "./brandAnalyzer.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const GAMEPLAN_DIR = path.resolve(__dirname, "../../gameplans");
+const REVISION_DIR = path.join(GAMEPLAN_DIR, "revisions");
+
+export type Gameplan = {
+  id: string;
+  name: string;
+  brandName: string;
+  websiteUrl?: string;
+  brandProfile?: BrandProfile;
+  brandLogoUrl?: string;
+  brandColor?: string;
+  planKey: string;
+  planName: string;
+  /** Every flow in the gameplan; editor node positions live in `ui.nodePositions`. */
+  flows: FlowSpec[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type GameplanSummary = Omit<Gameplan, "flows" | "brandProfile"> & {
+  flowCount: number;
+};
+
+export type GameplanInput = Omit<Gameplan, "id" | "createdAt" | "updatedAt">;
+
+/** Immutable snapshot of one flow, written whenever a save changes it. */
+export type FlowRevision = {
+  id: string;
+  gameplanId: string;
+  flowId: string;
+  flowName: string;
+  /** 1-based, counted per flow. */
+  number: number;
+  author: string;
+  message: string;
+  createdAt: string;
+  spec: FlowSpec;
+};
+
+export type FlowRevisionSummary = Omit<FlowRevision, "spec">;
+
+export type RevisionInfo = {
+  author?: string;
+  message?: string;
+};
+
+async function ensureDir() {
+  await fs.mkdir(REVISION_DIR, { recursive: true });
+}
+
+function filePath(id: string): string {
+  return path.join(GAMEPLAN_DIR, `${id}.json`);
+}
+
+function revisionPath(gameplanId: string): string {
+  return path.join(REVISION_DIR, `${gameplanId}.json`);
+}
+
+async function readRevisions(gameplanId: string): Promise<FlowRevision[]> {
+  try {
+    const data = await fs.readFile(revisionPath(gameplanId), "utf-8");
+    return JSON.parse(data) as FlowRevision[];
+  } catch {
+    return [];
+  }
+}
+
+/*
+ * Appends a revision for every flow that structurally differs from its latest
+ * revision; saves that only move nodes on the canvas don't create one.
+ */
+async function recordRevisions(gameplan: Gameplan, info: RevisionInfo): Promise<void> {
+  const revisions = await readRevisions(gameplan.id);
+  const now = new Date().toISOString();
+  let appended = false;
+
+  for (const flow of gameplan.flows) {
+    const history = revisions.filter((r) => r.flowId === flow.id);
+    const latest = history[history.length - 1];
+    if (latest && !diffFlowSpecs(latest.spec, flow).hasChanges) continue;
+
+    const number = history.length + 1;
+    revisions.push({
+      id: `${flow.id}_r${number}_${Date.now()}`,
+      gameplanId: gameplan.id,
+      flowId: flow.id,
+      flowName: flow.name,
+      number,
+      author: info.author?.trim() || "Unknown",
+      message: info.message?.trim() || (number === 1 ? "Initial version" : ""),
+      createdAt: now,
+      spec: flow
+    });
+    appended = true;
+  }
+
+  if (appended) {
+    await fs.writeFile(revisionPath(gameplan.id), JSON.stringify(revisions, null, 2));
+  }
+}
+
+function toSummary(gameplan: Gameplan): GameplanSummary {
+  const { flows, brandProfile: _profile, ...rest } = gameplan;
+  return { ...rest, flowCount: flows.length };
+}
+
+function slugify(input: string): string {
+  return input.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "gameplan";
+}
+
+export async function getGameplan(id: string): Promise<Gameplan | null> {
+  try {
+    const data = await fs.readFile(filePath(id), "utf-8");
+    return JSON.parse(data) as Gameplan;
+  } catch {
+    return null;
+  }
+}
+
+export async function listGameplans(): Promise<GameplanSummary[]> {
+  await ensureDir();
+  const files = await fs.readdir(GAMEPLAN_DIR);
+  const summaries: GameplanSummary[] = [];
+
+  for (const file of files) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const data = await fs.readFile(path.join(GAMEPLAN_DIR, file), "utf-8");
+      summaries.push(toSummary(JSON.parse(data) as Gameplan));
+    } catch {
+      // skip corrupted files
+    }
+  }
+
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function createGameplan(input: GameplanInput, revision: RevisionInfo = {}): Promise<Gameplan> {
+  await ensureDir();
+  const now = new Date().toISOString();
+  const gameplan: Gameplan = {
+    ...input,
+    id: `${slugify(input.brandName)}_${Date.now()}`,
+    createdAt: now,
+    updatedAt: now
+  };
+  await fs.writeFile(filePath(gameplan.id), JSON.stringify(gameplan, null, 2));
+  await recordRevisions(gameplan, revision);
+  return gameplan;
+}
+
+export async function updateGameplan(
+  id: string,
+  updates: Partial<GameplanInput>,
+  revision: RevisionInfo = {}
+): Promise<Gameplan> {
+  const existing = await getGameplan(id);
+  if (!existing) throw new Error(`Gameplan "${id}" not found.`);
+
+  const updated: Gameplan = {
+    ...existing,
+    ...updates,
+    id,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString()
+  };
+  await fs.writeFile(filePath(id), JSON.stringify(updated, null, 2));
+  if (updates.flows) await recordRevisions(updated, revision);
+  return updated;
+}
+
+export async function deleteGameplan(id: string): Promise<void> {
+  try {
+    await fs.unlink(filePath(id));
+  } catch {
+    throw new Error(`Gameplan "${id}" not found.`);
+  }
+  await fs.rm(revisionPath(id), { force: true });
+}
+
+export async function listRevisions(gameplanId: string, flowId?: string): Promise<FlowRevisionSummary[]> {
+  const revisions = await readRevisions(gameplanId);
+  return revisions
+    .filter((r) => !flowId || r.flowId === flowId)
+    .map(({ spec: _spec, ...summary }) => summary)
+    .reverse();
+}
+
+export async function getRevision(gameplanId: string, revisionId: string): Promise<FlowRevision | null> {
+  const revisions = await readRevisions(gameplanId);
+  return revisions.find((r) => r.id === revisionId) ?? null;
+}
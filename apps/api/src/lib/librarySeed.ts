@@ -1,21 +1,9 @@
-import { getAllPlans, type FlowBlueprint } from "@flow/core";
-import type { FlowTemplate, FlowType } from "@flow/core";
+import { flowTypeFromName, getAllPlans, type FlowBlueprint } from "@flow/core";
+import type { FlowTemplate } from "@flow/core";
 import { getAllTemplates, createTemplate } from "./libraryStore.js";
 
-const FLOW_NAME_TO_TYPE: Record<string, FlowType> = {
-  "Email Welcome": "email-welcome",
-  "SMS Welcome": "sms-welcome",
-  "Checkout Abandonment": "checkout-abandonment",
-  "Cart Abandonment": "cart-abandonment",
-  "Browse Abandonment": "browse-abandonment",
-  "Site Abandonment": "site-abandonment",
-  "Post-Purchase": "post-purchase",
-  "Winback": "winback",
-  "Sunset": "sunset",
-};
-
 function blueprintToTemplate(blueprint: FlowBlueprint, planName: string): FlowTemplate {
-  const flowType = FLOW_NAME_TO_TYPE[blueprint.name] ?? "custom";
+  const flowType = flowTypeFromName(blueprint.name);
   const totalMessages = blueprint.emailCount + blueprint.smsCount;
   const splitDesc = blueprint.hasSplit ? `, with split` : "";
   const now = new Date().toISOString();
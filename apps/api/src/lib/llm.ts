@@ -0,0 +1,250 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import OpenAI from "openai";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_FIXTURE_DIR = path.resolve(__dirname, "../../fixtures/llm");
+
+/* ── types ── */
+
+/** What the call is for; fixtures are filed by task. */
+export type LlmTask = "analyze-brand" | "generate-flow" | "parse-flow-text" | "chat-flow";
+
+/** Callers pick a tier rather than a model name; the provider maps it to a model. */
+export type LlmModelTier = "fast" | "quality";
+
+export type LlmMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export type LlmRequest = {
+  task: LlmTask;
+  tier: LlmModelTier;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask for a single JSON object as the reply. */
+  json?: boolean;
+  /** Names the fixture to replay when no exact recording matches (e.g. the flow id or brand name). */
+  fixtureKey?: string;
+  signal?: AbortSignal;
+};
+
+export type LlmUsage = { promptTokens: number; completionTokens: number; totalTokens: number };
+
+export type LlmResponse = {
+  content: string;
+  model: string;
+  usage?: LlmUsage;
+};
+
+export type LlmProvider = {
+  name: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+};
+
+export type LlmModels = Record<LlmModelTier, string>;
+
+export const DEFAULT_MODELS: LlmModels = { fast: "gpt-4o-mini", quality: "gpt-4o" };
+
+/* ── OpenAI and OpenAI-compatible ── */
+
+/**
+ * Chat completions through the OpenAI SDK. With `baseURL` this talks to any
+ * server that implements the same API (vLLM, Ollama, LM Studio, ...).
+ */
+export function createOpenAIProvider(options: { apiKey: string; baseURL?: string; models?: Partial<LlmModels>; name?: string }): LlmProvider {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  const models = { ...DEFAULT_MODELS, ...options.models };
+
+  return {
+    name: options.name ?? "openai",
+    async complete(request) {
+      const model = models[request.tier];
+      const completion = await client.chat.completions.create({
+        model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+      }, { signal: request.signal });
+
+      return {
+        content: completion.choices[0]?.message?.content ?? "",
+        model: completion.model || model,
+        usage: completion.usage
+          ? {
+              promptTokens: completion.usage.prompt_tokens,
+              completionTokens: completion.usage.completion_tokens,
+              totalTokens: completion.usage.total_tokens,
+            }
+          : undefined,
+      };
+    },
+  };
+}
+
+/* ── fixture replay ── */
+
+const FIXTURE_MISSING = "LLM_FIXTURE_MISSING";
+
+type FixtureFile = {
+  /** Reply text; an object is returned as its JSON. */
+  content: string | Record<string, unknown>;
+  model?: string;
+  usage?: LlmUsage;
+};
+
+/** Stable id of a request's inputs; a recording saved under this name replays for exactly that request. */
+export function fixtureHash(request: LlmRequest): string {
+  const { task, tier, messages, temperature, maxTokens, json } = request;
+  return createHash("sha256")
+    .update(JSON.stringify({ task, tier, messages, temperature, maxTokens, json: !!json }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Replays recorded responses from `<dir>/<task>/`, trying `<hash>.json`,
+ * then `<fixtureKey>.json`, then `default.json`. Nothing leaves the machine,
+ * and the same request always gets the same reply.
+ */
+export function createFixtureProvider(options: { dir?: string } = {}): LlmProvider {
+  const dir = options.dir ?? DEFAULT_FIXTURE_DIR;
+
+  return {
+    name: "fixtures",
+    async complete(request) {
+      request.signal?.throwIfAborted();
+      const taskDir = path.join(dir, request.task);
+      const key = request.fixtureKey?.toLowerCase().replace(/[^a-z0-9_-]+/g, "-");
+      const names = [fixtureHash(request), key, "default"].filter((n): n is string => !!n);
+
+      for (const name of names) {
+        let raw: string;
+        try {
+          raw = await fs.readFile(path.join(taskDir, `${name}.json`), "utf-8");
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException).code === "ENOENT") continue;
+          throw err;
+        }
+        const fixture = JSON.parse(raw) as FixtureFile;
+        return {
+          content: typeof fixture.content === "string" ? fixture.content : JSON.stringify(fixture.content),
+          model: fixture.model ?? `fixture:${name}`,
+          usage: fixture.usage,
+        };
+      }
+      throw Object.assign(
+        new Error(`No LLM fixture for "${request.task}" in ${taskDir} (tried ${names.map((n) => `${n}.json`).join(", ")}).`),
+        { code: FIXTURE_MISSING }
+      );
+    },
+  };
+}
+
+/* ── recording ── */
+
+/** One model call as sent and received, for run records. */
+export type LlmCallRecord = {
+  task: LlmTask;
+  tier: LlmModelTier;
+  provider: string;
+  /** Model that answered; empty when the call failed before a reply. */
+  model: string;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;
+  fixtureKey?: string;
+  /** Same as `fixtureHash`, so a recorded response can be dropped into the fixtures folder. */
+  hash: string;
+  response?: string;
+  error?: string;
+  usage?: LlmUsage;
+  startedAt: string;
+  latencyMs: number;
+};
+
+/** Wraps a provider and reports every call, successful or not, to `onCall`. */
+export function createRecordingProvider(inner: LlmProvider, onCall: (call: LlmCallRecord) => void): LlmProvider {
+  return {
+    name: inner.name,
+    async complete(request) {
+      const { signal: _signal, ...params } = request;
+      const startedAt = new Date();
+      const base = { ...params, messages: request.messages.map((m) => ({ ...m })), provider: inner.name, hash: fixtureHash(request), startedAt: startedAt.toISOString() };
+      try {
+        const response = await inner.complete(request);
+        onCall({ ...base, model: response.model, response: response.content, usage: response.usage, latencyMs: Date.now() - startedAt.getTime() });
+        return response;
+      } catch (err) {
+        onCall({ ...base, model: "", error: err instanceof Error ? err.message : String(err), latencyMs: Date.now() - startedAt.getTime() });
+        throw err;
+      }
+    },
+  };
+}
+
+/* ── errors ── */
+
+/*
+ * Bad requests, auth problems and missing fixtures fail the same way every time;
+ * network errors, rate limits and 5xx are worth another try.
+ */
+export function isRetryableLlmError(err: unknown): boolean {
+  if (err instanceof OpenAI.APIError && typeof err.status === "number") {
+    return err.status === 408 || err.status === 409 || err.status === 429 || err.status >= 500;
+  }
+  if ((err as { code?: unknown })?.code === FIXTURE_MISSING) return false;
+  return true;
+}
+
+/* ── configured provider ── */
+
+let _provider: LlmProvider | null = null;
+
+function modelsFromEnv(): LlmModels {
+  const fast = process.env.LLM_MODEL_FAST || DEFAULT_MODELS.fast;
+  /* A single self-hosted model usually serves both tiers */
+  return { fast, quality: process.env.LLM_MODEL_QUALITY || (process.env.LLM_MODEL_FAST ? fast : DEFAULT_MODELS.quality) };
+}
+
+/**
+ * The provider chosen by `LLM_PROVIDER`: `openai` (default), `openai-compatible`
+ * (needs `LLM_BASE_URL`) or `fixtures` (replays `LLM_FIXTURES_DIR`).
+ */
+export function getLlmProvider(): LlmProvider {
+  if (_provider) return _provider;
+
+  const kind = process.env.LLM_PROVIDER || "openai";
+  switch (kind) {
+    case "openai": {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey || apiKey === "sk-your-key-here") {
+        throw new Error("OPENAI_API_KEY is not configured. Set it in apps/api/.env");
+      }
+      _provider = createOpenAIProvider({ apiKey, models: modelsFromEnv() });
+      break;
+    }
+    case "openai-compatible": {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (!baseURL) throw new Error("LLM_BASE_URL is not configured. Set it in apps/api/.env to use LLM_PROVIDER=openai-compatible");
+      /* Most self-hosted servers ignore the key, but the SDK requires one */
+      const apiKey = process.env.LLM_API_KEY || "not-needed";
+      _provider = createOpenAIProvider({ apiKey, baseURL, models: modelsFromEnv(), name: "openai-compatible" });
+      break;
+    }
+    case "fixtures":
+      _provider = createFixtureProvider({ dir: process.env.LLM_FIXTURES_DIR ? path.resolve(process.env.LLM_FIXTURES_DIR) : undefined });
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}". Use openai, openai-compatible or fixtures.`);
+  }
+  return _provider;
+}
+
+/** Replace the configured provider, e.g. with a fixture provider in scripts; `null` goes back to the env config. */
+export function setLlmProvider(provider: LlmProvider | null): void {
+  _provider = provider;
+}
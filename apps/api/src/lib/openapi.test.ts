@@ -0,0 +1,97 @@
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { Request, Response } from "express";
+import { afterAll, describe, expect, it } from "vitest";
+import { generateFlowsRoute } from "../routes/generateFlows.js";
+import { generateFlowsResponseSchema } from "./apiSchemas.js";
+import type { BrandProfile } from "./brandAnalyzer.js";
+import { createFixtureProvider, setLlmProvider } from "./llm.js";
+import { buildOpenApiDocument } from "./openapi.js";
+
+/* The route records a run in the API's (git-ignored) data directory; remove it afterwards */
+const RUN_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../gameplans/runs");
+const created: string[] = [];
+
+afterAll(async () => {
+  setLlmProvider(null);
+  await Promise.all(created.map((id) => fs.rm(path.join(RUN_DIR, `${id}.json`), { force: true })));
+});
+
+const BRAND: BrandProfile = {
+  brandName: "Acme Goods",
+  industry: "Home goods",
+  targetAudience: "Homeowners",
+  brandVoice: "Warm",
+  keyProducts: ["Linen sheets"],
+  uniqueSellingPoints: ["Made to last"],
+  discountStrategy: "Rare discounts",
+  summary: "Durable home goods.",
+  priceRange: "$50-$200",
+  averageOrderValue: "$90",
+  businessStage: "Growing",
+  emailListSize: "10k",
+  discountApproach: "Free shipping over $100",
+  keyDifferentiators: ["Lifetime warranty"],
+  brandTone: "Friendly",
+  competitors: "None listed",
+  specialInstructions: "",
+};
+
+function collectRefs(value: unknown, refs: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    for (const item of value) collectRefs(item, refs);
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === "$ref" && typeof child === "string") refs.push(child);
+      else collectRefs(child, refs);
+    }
+  }
+  return refs;
+}
+
+/* Follows a local JSON pointer ("#/components/schemas/X"); undefined when any segment is missing */
+function resolvePointer(doc: unknown, ref: string): unknown {
+  if (!ref.startsWith("#/")) return undefined;
+  return ref
+    .slice(2)
+    .split("/")
+    .map((segment) => decodeURIComponent(segment).replaceAll("~1", "/").replaceAll("~0", "~"))
+    .reduce<unknown>((node, key) => (node && typeof node === "object" ? (node as Record<string, unknown>)[key] : undefined), doc);
+}
+
+/* Just enough of an express request/response pair to call a JSON route */
+async function callJsonRoute(route: (req: Request, res: Response) => Promise<void>, body: unknown) {
+  let status = 200;
+  let payload: unknown;
+  const res = {
+    writableEnded: false,
+    on: () => res,
+    status(code: number) { status = code; return res; },
+    json(data: unknown) { payload = data; res.writableEnded = true; return res; },
+  };
+  await route({ body } as Request, res as unknown as Response);
+  return { status, payload };
+}
+
+describe("buildOpenApiDocument", () => {
+  it("resolves every $ref inside the document", () => {
+    const doc = buildOpenApiDocument();
+    const refs = collectRefs(doc);
+    expect(refs.length).toBeGreaterThan(0);
+    expect(refs.filter((ref) => resolvePointer(doc, ref) === undefined)).toEqual([]);
+  });
+});
+
+describe("generateFlowsResponseSchema", () => {
+  it("accepts a real /api/generate-flows response", async () => {
+    setLlmProvider(createFixtureProvider());
+    const { status, payload } = await callJsonRoute(generateFlowsRoute, { planKey: "core-foundation", brandProfile: BRAND });
+    expect(status).toBe(200);
+
+    const parsed = generateFlowsResponseSchema.safeParse(payload);
+    expect(parsed.error).toBeUndefined();
+    created.push(parsed.data!.runId);
+    expect(parsed.data!.flowCount).toBe(parsed.data!.flows.length);
+  });
+});
@@ -0,0 +1,186 @@
+import { z } from "zod/v4";
+import { FLOW_TYPE_LABELS, flowSpecJsonSchema } from "@flow/core";
+import {
+  analyzeBrandRequestSchema,
+  analyzeBrandResponseSchema,
+  brandProfileSchema,
+  brandQuestionnaireSchema,
+  chatFlowRequestSchema,
+  chatFlowResponseSchema,
+  createTemplateRequestSchema,
+  errorResponseSchema,
+  filloutLookupRequestSchema,
+  filloutLookupResponseSchema,
+  flowSpecRefSchema,
+  flowTemplateSchema,
+  generateFlowsRequestSchema,
+  generateFlowsResponseSchema,
+  libraryResponseSchema,
+  successResponseSchema,
+  updateTemplateRequestSchema,
+} from "./apiSchemas.js";
+
+type JsonObject = Record<string, unknown>;
+
+const components = z.registry<{ id: string }>();
+const named: Array<[z.ZodType, string]> = [
+  [errorResponseSchema, "Error"],
+  [flowSpecRefSchema, "FlowSpec"],
+  [brandQuestionnaireSchema, "BrandQuestionnaire"],
+  [brandProfileSchema, "BrandProfile"],
+  [analyzeBrandRequestSchema, "AnalyzeBrandRequest"],
+  [analyzeBrandResponseSchema, "AnalyzeBrandResponse"],
+  [generateFlowsRequestSchema, "GenerateFlowsRequest"],
+  [generateFlowsResponseSchema, "GenerateFlowsResponse"],
+  [chatFlowRequestSchema, "ChatFlowRequest"],
+  [chatFlowResponseSchema, "ChatFlowResponse"],
+  [flowTemplateSchema, "FlowTemplate"],
+  [libraryResponseSchema, "Library"],
+  [createTemplateRequestSchema, "CreateTemplateRequest"],
+  [updateTemplateRequestSchema, "UpdateTemplateRequest"],
+  [successResponseSchema, "Success"],
+  [filloutLookupRequestSchema, "FilloutLookupRequest"],
+  [filloutLookupResponseSchema, "FilloutLookupResponse"],
+];
+for (const [schema, id] of named) components.add(schema, { id });
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+function jsonBody(id: string) {
+  return { required: true, content: { "application/json": { schema: ref(id) } } };
+}
+
+function jsonResponse(description: string, id: string) {
+  return { description, content: { "application/json": { schema: ref(id) } } };
+}
+
+function errorResponses(...statuses: number[]) {
+  const descriptions: Record<number, string> = {
+    400: "The request body or parameters are invalid.",
+    404: "Not found.",
+    500: "The server or the model provider failed.",
+  };
+  return Object.fromEntries(statuses.map((status) => [String(status), jsonResponse(descriptions[status], "Error")]));
+}
+
+const flowTypeParam = {
+  name: "flowType",
+  in: "path",
+  required: true,
+  schema: { type: "string", enum: Object.keys(FLOW_TYPE_LABELS) },
+};
+const templateIdParam = { name: "templateId", in: "path", required: true, schema: { type: "string" } };
+
+/* zod emits every registry entry with its own `$schema`/`$id`; components only want the body */
+function componentSchemas(): Record<string, JsonObject> {
+  const { schemas } = z.toJSONSchema(components, {
+    io: "input",
+    unrepresentable: "any",
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+  const result: Record<string, JsonObject> = {};
+  for (const [id, schema] of Object.entries(schemas)) {
+    const { $schema: _schema, $id: _id, ...body } = schema as JsonObject;
+    result[id] = body;
+  }
+
+  /* The API only marks where a FlowSpec goes; the real schema comes from core, with its `$defs` hoisted */
+  const { $schema: _schema, $defs, ...flowSpec } = JSON.parse(
+    JSON.stringify(flowSpecJsonSchema()).replaceAll('"#/$defs/', '"#/components/schemas/')
+  ) as JsonObject & { $defs?: Record<string, JsonObject> };
+  return { ...result, ...$defs, FlowSpec: flowSpec };
+}
+
+/**
+ * OpenAPI 3.1 document for the public endpoints, built from the same zod schemas
+ * the routes parse request bodies with.
+ */
+export function buildOpenApiDocument(): JsonObject {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Flow Gameplan Creator API",
+      version: "0.1.0",
+      description: "Brand analysis, flow generation and the flow template library.",
+    },
+    paths: {
+      "/api/analyze-brand": {
+        post: {
+          summary: "Analyze a brand's website and save its profile",
+          requestBody: jsonBody("AnalyzeBrandRequest"),
+          responses: { "200": jsonResponse("The brand profile, its saved brand id and the run id.", "AnalyzeBrandResponse"), ...errorResponses(400, 500) },
+        },
+      },
+      "/api/generate-flows": {
+        post: {
+          summary: "Generate the flows of a plan for a brand",
+          description: "One of `customFlowText`, `customTemplateIds` or `planKey` picks the flows, in that order.",
+          requestBody: jsonBody("GenerateFlowsRequest"),
+          responses: { "200": jsonResponse("The generated flows.", "GenerateFlowsResponse"), ...errorResponses(400, 500) },
+        },
+      },
+      "/api/generate-flows/stream": {
+        post: {
+          summary: "Generate flows, streamed as Server-Sent Events",
+          description: "Events: `plan` once, `progress` per flow step, `flow` per finished FlowSpec, then `done` or `error`.",
+          requestBody: jsonBody("GenerateFlowsRequest"),
+          responses: {
+            "200": { description: "An event stream.", content: { "text/event-stream": { schema: { type: "string" } } } },
+            ...errorResponses(400, 500),
+          },
+        },
+      },
+      "/api/chat-flow": {
+        post: {
+          summary: "Build or modify a flow through chat",
+          requestBody: jsonBody("ChatFlowRequest"),
+          responses: { "200": jsonResponse("The assistant's reply and, when it produced one, the flow.", "ChatFlowResponse"), ...errorResponses(400, 500) },
+        },
+      },
+      "/api/library": {
+        get: {
+          summary: "List all flow templates, grouped by flow type",
+          responses: { "200": jsonResponse("Templates per flow type.", "Library"), ...errorResponses(500) },
+        },
+      },
+      "/api/library/{flowType}": {
+        parameters: [flowTypeParam],
+        get: {
+          summary: "List the templates of one flow type",
+          responses: {
+            "200": { description: "The templates.", content: { "application/json": { schema: { type: "array", items: ref("FlowTemplate") } } } },
+            ...errorResponses(400, 500),
+          },
+        },
+        post: {
+          summary: "Add a custom template",
+          requestBody: jsonBody("CreateTemplateRequest"),
+          responses: { "201": jsonResponse("The created template.", "FlowTemplate"), ...errorResponses(400) },
+        },
+      },
+      "/api/library/{flowType}/{templateId}": {
+        parameters: [flowTypeParam, templateIdParam],
+        put: {
+          summary: "Update a template",
+          requestBody: jsonBody("UpdateTemplateRequest"),
+          responses: { "200": jsonResponse("The updated template.", "FlowTemplate"), ...errorResponses(400, 404) },
+        },
+        delete: {
+          summary: "Delete a template",
+          responses: { "200": jsonResponse("The template was deleted.", "Success"), ...errorResponses(400, 404) },
+        },
+      },
+      "/api/fillout-lookup": {
+        post: {
+          summary: "Fetch the answers of a Fillout questionnaire submission",
+          requestBody: jsonBody("FilloutLookupRequest"),
+          responses: {
+            "200": jsonResponse("The latest matching submission.", "FilloutLookupResponse"),
+            ...errorResponses(400, 404, 500),
+          },
+        },
+      },
+    },
+    components: { schemas: componentSchemas() },
+  };
+}
@@ -0,0 +1,64 @@
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { afterAll, describe, expect, it } from "vitest";
+import { getPlanDefinition } from "@flow/core";
+import type { BrandProfile } from "./brandAnalyzer.js";
+import { regenerateFlow } from "./flowGenerator.js";
+import { createFixtureProvider } from "./llm.js";
+import { detachRunsFromGameplan, getRun, listRunRecords, startRun } from "./runStore.js";
+import { buildUsageReport } from "./usage.js";
+
+/* The store writes to the API's (git-ignored) data directory; remove what these tests add */
+const RUN_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../gameplans/runs");
+const created: string[] = [];
+
+afterAll(async () => {
+  await Promise.all(created.map((id) => fs.rm(path.join(RUN_DIR, `${id}.json`), { force: true })));
+});
+
+const BRAND: BrandProfile = {
+  brandName: "Acme Goods",
+  industry: "Home goods",
+  targetAudience: "Homeowners",
+  brandVoice: "Warm",
+  keyProducts: ["Linen sheets"],
+  uniqueSellingPoints: ["Made to last"],
+  discountStrategy: "Rare discounts",
+  summary: "Durable home goods.",
+  priceRange: "$50-$200",
+  averageOrderValue: "$90",
+  businessStage: "Growing",
+  emailListSize: "10k",
+  discountApproach: "Free shipping over $100",
+  keyDifferentiators: ["Lifetime warranty"],
+  brandTone: "Friendly",
+  competitors: "None listed",
+  specialInstructions: "",
+};
+
+async function recordRun(gameplanId: string) {
+  const blueprint = getPlanDefinition("core-foundation").flows[0];
+  const run = startRun({ gameplanId }, createFixtureProvider());
+  const flow = await regenerateFlow(blueprint, BRAND, { llm: run.llm });
+  await run.finish({ kind: "regenerate-flow", inputs: { blueprint, brandProfile: BRAND }, status: "done", output: { flows: [flow] } });
+  created.push(run.id);
+  return run.id;
+}
+
+describe("runStore", () => {
+  it("keeps a deleted gameplan's runs in the usage history", async () => {
+    const gameplanId = `test_gp_${Date.now()}`;
+    const ids = [await recordRun(gameplanId), await recordRun(gameplanId)];
+    const before = buildUsageReport(await listRunRecords({ ids }));
+    expect(before.totals.calls).toBe(2);
+
+    await detachRunsFromGameplan(gameplanId);
+
+    const after = buildUsageReport(await listRunRecords({ ids }));
+    expect(after.totals).toEqual(before.totals);
+    expect(after.byDay).toEqual(before.byDay);
+    expect(await listRunRecords({ gameplanId })).toEqual([]);
+    expect((await getRun(ids[0]))?.gameplanId).toBeUndefined();
+  });
+});
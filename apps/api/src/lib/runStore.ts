@@ -0,0 +1,178 @@
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { FlowBlueprint, FlowSpec, PlanDefinition } from "@flow/core";
+import type { BrandProfile, BrandQuestionnaire } from "./brandAnalyzer.js";
+import { createRecordingProvider, getLlmProvider, type LlmCallRecord, type LlmProvider } from "./llm.js";
+import { summarizeCalls } from "./usage.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const RUN_DIR = path.resolve(__dirname, "../../gameplans/runs");
+
+export type RunStatus = "done" | "failed" | "cancelled";
+
+/** What went into a run, enough to run it again. */
+export type RunInputs =
+  | { kind: "analyze-brand"; inputs: { websiteUrl: string; brandName: string; questionnaire?: BrandQuestionnaire } }
+  | { kind: "generate-flows"; inputs: { planKey: string; plan: PlanDefinition; brandProfile: BrandProfile } }
+  | { kind: "regenerate-flow"; inputs: { blueprint: FlowBlueprint; brandProfile: BrandProfile } }
+  | { kind: "chat-flow"; inputs: { message: string; history: { role: string; content: string }[]; currentFlowSpec?: unknown } };
+
+export type RunKind = RunInputs["kind"];
+
+export type RunOutput = {
+  profile?: BrandProfile;
+  flows?: FlowSpec[];
+  reply?: string;
+};
+
+/** Every model call behind one API request, with its inputs and what came out. */
+export type GenerationRun = RunInputs & {
+  id: string;
+  status: RunStatus;
+  /** Set once the result is saved to a gameplan (or straight away for runs on a saved one). */
+  gameplanId?: string;
+  /** The run this one re-ran with the same inputs. */
+  replayOf?: string;
+  error?: string;
+  output?: RunOutput;
+  calls: LlmCallRecord[];
+  createdAt: string;
+  finishedAt: string;
+};
+
+export type RunSummary = Omit<GenerationRun, "inputs" | "output" | "calls"> & {
+  callCount: number;
+  totalTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  flowIds: string[];
+};
+
+export type RunRecorder = {
+  id: string;
+  /** Use this provider for every call that belongs to the run. */
+  llm: LlmProvider;
+  /** Write the record; never rejects. */
+  finish(result: RunInputs & { status: RunStatus; error?: string; output?: RunOutput }): Promise<GenerationRun>;
+};
+
+async function ensureDir() {
+  await fs.mkdir(RUN_DIR, { recursive: true });
+}
+
+function filePath(id: string): string {
+  return path.join(RUN_DIR, `${id}.json`);
+}
+
+async function writeRun(run: GenerationRun): Promise<void> {
+  await ensureDir();
+  await fs.writeFile(filePath(run.id), JSON.stringify(run, null, 2));
+}
+
+async function readAllRuns(): Promise<GenerationRun[]> {
+  await ensureDir();
+  const runs: GenerationRun[] = [];
+  for (const file of await fs.readdir(RUN_DIR)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      runs.push(JSON.parse(await fs.readFile(path.join(RUN_DIR, file), "utf-8")) as GenerationRun);
+    } catch {
+      // skip corrupted files
+    }
+  }
+  return runs;
+}
+
+function toSummary(run: GenerationRun): RunSummary {
+  const { inputs: _inputs, output, calls, ...rest } = run;
+  const usage = summarizeCalls(calls);
+  return {
+    ...rest,
+    callCount: calls.length,
+    totalTokens: usage.totalTokens,
+    costUsd: usage.costUsd,
+    latencyMs: calls.reduce((sum, c) => sum + c.latencyMs, 0),
+    flowIds: output?.flows?.map((f) => f.id) ?? [],
+  };
+}
+
+/**
+ * Start recording a run. Calls made through `recorder.llm` are collected; the
+ * record is written when `finish` is called with the inputs and outcome.
+ */
+export function startRun(options: { gameplanId?: string; replayOf?: string } = {}, llm: LlmProvider = getLlmProvider()): RunRecorder {
+  const createdAt = new Date().toISOString();
+  const id = `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const calls: LlmCallRecord[] = [];
+
+  return {
+    id,
+    llm: createRecordingProvider(llm, (call) => calls.push(call)),
+    async finish(result) {
+      const run = {
+        ...result,
+        id,
+        gameplanId: options.gameplanId,
+        replayOf: options.replayOf,
+        calls: [...calls].sort((a, b) => a.startedAt.localeCompare(b.startedAt)),
+        createdAt,
+        finishedAt: new Date().toISOString(),
+      } as GenerationRun;
+      /* Losing a record should never fail the request it describes */
+      await writeRun(run).catch((err) => console.error(`Could not save run ${id}:`, (err as Error).message));
+      return run;
+    },
+  };
+}
+
+/** The kind and inputs of a recorded run, to start another with the same inputs. */
+export function runInputs(run: GenerationRun): RunInputs {
+  return { kind: run.kind, inputs: run.inputs } as RunInputs;
+}
+
+export async function getRun(id: string): Promise<GenerationRun | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath(id), "utf-8")) as GenerationRun;
+  } catch {
+    return null;
+  }
+}
+
+export type RunFilter = { gameplanId?: string; ids?: string[] };
+
+/**
+ * Full records of a gameplan's runs and/or specific ids (either matches); every run without a filter.
+ * An empty `ids` list is still a filter and matches no run by id.
+ */
+export async function listRunRecords(filter: RunFilter = {}): Promise<GenerationRun[]> {
+  const ids = new Set(filter.ids ?? []);
+  const filtered = !!filter.gameplanId || filter.ids !== undefined;
+  return (await readAllRuns())
+    .filter((r) => !filtered || (filter.gameplanId && r.gameplanId === filter.gameplanId) || ids.has(r.id));
+}
+
+/** Newest first. */
+export async function listRuns(filter: RunFilter = {}): Promise<RunSummary[]> {
+  return (await listRunRecords(filter))
+    .map(toSummary)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Attach runs made before the gameplan was saved. Runs already tied to another gameplan are left alone. */
+export async function linkRunsToGameplan(runIds: string[], gameplanId: string): Promise<void> {
+  for (const id of runIds) {
+    const run = await getRun(id);
+    if (!run || run.gameplanId) continue;
+    await writeRun({ ...run, gameplanId });
+  }
+}
+
+/** Untie a deleted gameplan's runs; the records stay so usage history keeps their cost. */
+export async function detachRunsFromGameplan(gameplanId: string): Promise<void> {
+  for (const run of await readAllRuns()) {
+    if (run.gameplanId !== gameplanId) continue;
+    const { gameplanId: _gameplanId, ...rest } = run;
+    await writeRun(rest as GenerationRun);
+  }
+}
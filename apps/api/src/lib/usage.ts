@@ -0,0 +1,122 @@
+import type { LlmCallRecord, LlmTask } from "./llm.js";
+import type { GenerationRun } from "./runStore.js";
+
+export type ModelPrice = {
+  /** USD per million prompt tokens. */
+  inputPerMillion: number;
+  /** USD per million completion tokens. */
+  outputPerMillion: number;
+};
+
+/** List prices; dated variants (`gpt-4o-mini-2024-07-18`) match by prefix. Extend with `LLM_PRICING`. */
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "gpt-4.1-nano": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  "gpt-4.1-mini": { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  "gpt-4.1": { inputPerMillion: 2, outputPerMillion: 8 },
+};
+
+export type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** Tokens from models with no known price (self-hosted, fixtures), left out of `costUsd`. */
+  unpricedTokens: number;
+};
+
+export type UsageReport = {
+  /** Start of the window (inclusive), or absent for all time. */
+  since?: string;
+  totals: UsageTotals;
+  /** One entry per UTC day with calls, oldest first. */
+  byDay: Array<{ day: string } & UsageTotals>;
+  /** Runs not yet saved to a gameplan are grouped under `gameplanId: null`. */
+  byGameplan: Array<{ gameplanId: string | null } & UsageTotals>;
+  byTask: Array<{ task: LlmTask } & UsageTotals>;
+  byModel: Array<{ model: string } & UsageTotals>;
+};
+
+let _pricing: Array<[string, ModelPrice]> | null = null;
+
+/* Longest names first so `gpt-4o-mini` wins over `gpt-4o` */
+function pricingTable(): Array<[string, ModelPrice]> {
+  if (!_pricing) {
+    let overrides: Record<string, ModelPrice> = {};
+    try {
+      overrides = process.env.LLM_PRICING ? (JSON.parse(process.env.LLM_PRICING) as Record<string, ModelPrice>) : {};
+    } catch {
+      console.warn("LLM_PRICING is not valid JSON; using built-in prices.");
+    }
+    _pricing = Object.entries({ ...MODEL_PRICING, ...overrides }).sort((a, b) => b[0].length - a[0].length);
+  }
+  return _pricing;
+}
+
+export function priceForModel(model: string): ModelPrice | undefined {
+  return pricingTable().find(([name]) => model === name || model.startsWith(`${name}-`))?.[1];
+}
+
+/** USD for one call, or null when the model has no price or the provider reported no usage. */
+export function callCost(call: LlmCallRecord): number | null {
+  const price = priceForModel(call.model);
+  if (!price || !call.usage) return null;
+  return (call.usage.promptTokens * price.inputPerMillion + call.usage.completionTokens * price.outputPerMillion) / 1_000_000;
+}
+
+export function emptyUsage(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, unpricedTokens: 0 };
+}
+
+function addCall(totals: UsageTotals, call: LlmCallRecord): void {
+  const cost = callCost(call);
+  totals.calls += 1;
+  totals.promptTokens += call.usage?.promptTokens ?? 0;
+  totals.completionTokens += call.usage?.completionTokens ?? 0;
+  totals.totalTokens += call.usage?.totalTokens ?? 0;
+  if (cost === null) totals.unpricedTokens += call.usage?.totalTokens ?? 0;
+  else totals.costUsd += cost;
+}
+
+export function summarizeCalls(calls: LlmCallRecord[]): UsageTotals {
+  const totals = emptyUsage();
+  for (const call of calls) addCall(totals, call);
+  return totals;
+}
+
+/** Token and cost totals over the given runs, counting calls made on or after `since`. */
+export function buildUsageReport(runs: GenerationRun[], options: { since?: Date } = {}): UsageReport {
+  const since = options.since?.toISOString();
+  const totals = emptyUsage();
+  const byDay = new Map<string, UsageTotals>();
+  const byGameplan = new Map<string | null, UsageTotals>();
+  const byTask = new Map<LlmTask, UsageTotals>();
+  const byModel = new Map<string, UsageTotals>();
+  const bucket = <K>(map: Map<K, UsageTotals>, key: K) => {
+    let entry = map.get(key);
+    if (!entry) map.set(key, (entry = emptyUsage()));
+    return entry;
+  };
+
+  for (const run of runs) {
+    for (const call of run.calls) {
+      if (since && call.startedAt < since) continue;
+      addCall(totals, call);
+      addCall(bucket(byDay, call.startedAt.slice(0, 10)), call);
+      addCall(bucket(byGameplan, run.gameplanId ?? null), call);
+      addCall(bucket(byTask, call.task), call);
+      addCall(bucket(byModel, call.model || "unknown"), call);
+    }
+  }
+
+  return {
+    since,
+    totals,
+    byDay: [...byDay].map(([day, t]) => ({ day, ...t })).sort((a, b) => a.day.localeCompare(b.day)),
+    byGameplan: [...byGameplan].map(([gameplanId, t]) => ({ gameplanId, ...t })).sort((a, b) => b.costUsd - a.costUsd || b.totalTokens - a.totalTokens),
+    byTask: [...byTask].map(([task, t]) => ({ task, ...t })),
+    byModel: [...byModel].map(([model, t]) => ({ model, ...t })),
+  };
+}
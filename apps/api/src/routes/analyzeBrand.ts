@@ -1,21 +1,36 @@
 import type { Request, Response } from "express";
-import { analyzeBrand, type BrandQuestionnaire } from "../lib/brandAnalyzer.js";
+import { analyzeBrand, type BrandProfile } from "../lib/brandAnalyzer.js";
+import { analyzeBrandRequestSchema, parseBody, type AnalyzeBrandResponse } from "../lib/apiSchemas.js";
+import { saveAnalyzedBrand } from "../lib/brandStore.js";
+import { startRun } from "../lib/runStore.js";
 
+/**
+ * Analyze a brand's site and save the profile to the brand store under its domain.
+ * A recent crawl of the same site is reused unless `refresh` is set.
+ */
 export async function analyzeBrandRoute(req: Request, res: Response) {
   try {
-    const { websiteUrl, brandName, questionnaire } = req.body as {
-      websiteUrl?: string;
-      brandName?: string;
-      questionnaire?: BrandQuestionnaire;
-    };
-
-    if (!websiteUrl || !brandName) {
-      res.status(400).json({ error: "websiteUrl and brandName are required." });
+    const parsed = parseBody(analyzeBrandRequestSchema, req.body);
+    if (!parsed.ok) {
+      res.status(400).json({ error: parsed.error });
       return;
     }
+    const { websiteUrl, brandName, questionnaire, refresh } = parsed.data;
+
+    const run = startRun();
+    const inputs = { websiteUrl, brandName, questionnaire };
+    let profile: BrandProfile;
+    try {
+      profile = await analyzeBrand(websiteUrl, brandName, questionnaire, run.llm, { refreshCrawl: refresh === true });
+    } catch (error) {
+      await run.finish({ kind: "analyze-brand", inputs, status: "failed", error: (error as Error).message });
+      throw error;
+    }
+    await run.finish({ kind: "analyze-brand", inputs, status: "done", output: { profile } });
 
-    const profile = await analyzeBrand(websiteUrl, brandName, questionnaire);
-    res.json({ profile });
+    /* The analysis itself succeeded; a save failure below is reported without rewriting the run */
+    const brand = await saveAnalyzedBrand({ websiteUrl, brandName, profile, questionnaire });
+    res.json({ profile, runId: run.id, brandId: brand.id } satisfies AnalyzeBrandResponse);
   } catch (error) {
     const message =
       error instanceof Error ? error.message : "Unknown error";
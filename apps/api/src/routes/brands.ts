@@ -0,0 +1,98 @@
+import type { Request, Response } from "express";
+import type { BrandProfile } from "../lib/brandAnalyzer.js";
+import { deleteBrand, getBrand, listBrands, updateBrand } from "../lib/brandStore.js";
+
+const VALID_ID = /^[a-z0-9_-]+$/i;
+
+const LIST_FIELDS = ["keyProducts", "uniqueSellingPoints", "keyDifferentiators"] as const;
+
+/* Edits are merged over the stored profile; only known fields of the right type are taken. */
+function readProfile(value: unknown, existing: BrandProfile): BrandProfile | string {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return "profile must be an object.";
+  const body = value as Record<string, unknown>;
+  const profile: BrandProfile = { ...existing };
+  const target = profile as unknown as Record<string, unknown>;
+
+  for (const key of Object.keys(existing) as (keyof BrandProfile)[]) {
+    if (body[key] === undefined) continue;
+    if ((LIST_FIELDS as readonly string[]).includes(key)) {
+      if (!Array.isArray(body[key]) || !(body[key] as unknown[]).every((v) => typeof v === "string")) {
+        return `${key} must be an array of strings.`;
+      }
+      target[key] = (body[key] as string[]).map((v) => v.trim()).filter(Boolean);
+    } else {
+      if (typeof body[key] !== "string") return `${key} must be a string.`;
+      target[key] = body[key];
+    }
+  }
+  return profile;
+}
+
+export async function listBrandsRoute(_req: Request, res: Response) {
+  try {
+    res.json(await listBrands());
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
+
+export async function getBrandRoute(req: Request, res: Response) {
+  const id = req.params.id as string;
+  if (!VALID_ID.test(id)) {
+    res.status(400).json({ error: "Invalid brand id." });
+    return;
+  }
+
+  const brand = await getBrand(id);
+  if (!brand) {
+    res.status(404).json({ error: `Brand "${id}" not found.` });
+    return;
+  }
+  res.json(brand);
+}
+
+export async function updateBrandRoute(req: Request, res: Response) {
+  const id = req.params.id as string;
+  if (!VALID_ID.test(id)) {
+    res.status(400).json({ error: "Invalid brand id." });
+    return;
+  }
+
+  const existing = await getBrand(id);
+  if (!existing) {
+    res.status(404).json({ error: `Brand "${id}" not found.` });
+    return;
+  }
+
+  const { brandName, profile } = req.body as { brandName?: unknown; profile?: unknown };
+  if (brandName !== undefined && (typeof brandName !== "string" || !brandName.trim())) {
+    res.status(400).json({ error: "brandName must be a non-empty string." });
+    return;
+  }
+  const nextProfile = profile === undefined ? undefined : readProfile(profile, existing.profile);
+  if (typeof nextProfile === "string") {
+    res.status(400).json({ error: nextProfile });
+    return;
+  }
+
+  try {
+    res.json(await updateBrand(id, { brandName: brandName?.trim(), profile: nextProfile }));
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
+
+export async function deleteBrandRoute(req: Request, res: Response) {
+  const id = req.params.id as string;
+  if (!VALID_ID.test(id)) {
+    res.status(400).json({ error: "Invalid brand id." });
+    return;
+  }
+
+  try {
+    await deleteBrand(id);
+    res.json({ success: true });
+  } catch (err) {
+    res.status(404).json({ error: (err as Error).message });
+  }
+}
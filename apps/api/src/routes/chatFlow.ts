@@ -1,25 +1,9 @@
 import type { Request, Response } from "express";
-import { getOpenAI } from "../lib/openai.js";
+import type { LlmMessage } from "../lib/llm.js";
+import { startRun, type RunRecorder } from "../lib/runStore.js";
 import type { BrandProfile } from "../lib/brandAnalyzer.js";
-import { validateFlowGraph, type GraphError } from "@flow/core";
-
-type ChatMessage = {
-  role: "user" | "assistant";
-  content: string;
-};
-
-type ChatFlowRequest = {
-  message: string;
-  history: ChatMessage[];
-  brandProfile?: BrandProfile;
-  currentFlowSpec?: unknown;
-};
-
-type ChatFlowResponse = {
-  reply: string;
-  flowSpec?: unknown;
-  action: "clarify" | "confirm" | "generate" | "modify";
-};
+import { chatFlowRequestSchema, parseBody, type ChatFlowResponse } from "../lib/apiSchemas.js";
+import { validateFlowGraph, type FlowSpec, type GraphError } from "@flow/core";
 
 const HISTORY_MAX_MESSAGES = 6;
 const MAX_REPAIR_ATTEMPTS = 2;
@@ -49,7 +33,8 @@ function normalizeFlowSpecCandidate(input: unknown): unknown {
     spec.nodes = spec.nodes.map((node) => {
       if (!node || typeof node !== "object") return node;
       const n = node as Record<string, unknown>;
-      if (n.type === "wait") {
+      /* Waits with an `until` are validated as they are; only fixed durations get repaired */
+      if (n.type === "wait" && !n.until) {
         const duration = (n.duration && typeof n.duration === "object")
           ? (n.duration as Record<string, unknown>)
           : {};
@@ -93,9 +78,11 @@ function skeletonizeFlowSpec(spec: unknown): unknown {
       case "trigger":
         return { id: n.id, type: "trigger", title: n.title, event: n.event };
       case "wait":
-        return { id: n.id, type: "wait", duration: n.duration };
+        return { id: n.id, type: "wait", duration: n.duration, until: n.until };
       case "split":
         return { id: n.id, type: "split", title: n.title, condition: n.condition, labels: n.labels };
+      case "abSplit":
+        return { id: n.id, type: "abSplit", title: n.title, variants: n.variants };
       case "merge":
         return { id: n.id, type: "merge", title: n.title || "Merge" };
       case "outcome":
@@ -152,6 +139,7 @@ function mergeWithOriginal(aiSpec: unknown, original: unknown): unknown {
 
   if (!ai.source) ai.source = orig.source ?? { mode: "manual" };
   if (!ai.defaults) ai.defaults = orig.defaults ?? { delay: { value: 2, unit: "days" } };
+  if (!ai.settings && orig.settings) ai.settings = orig.settings;
 
   return ai;
 }
@@ -160,15 +148,20 @@ const SYSTEM_PROMPT = `You are an expert email/SMS marketing flow architect. You
 
 Flow node types:
 - trigger: { id, type:"trigger", title, event }
-- wait: { id, type:"wait", duration:{ value:N, unit:"days"|"hours" } }
+- wait: { id, type:"wait", duration:{ value:N, unit:"days"|"hours" } }  OR, instead of duration, an "until":
+  - next time of day: until:{ kind:"time-of-day", time:"10:00", timezone:"profile" }
+  - next weekday: until:{ kind:"weekday", days:["tuesday","thursday"], time:"10:00" }
+  - relative to a date property: until:{ kind:"date-property", property:"Birthday", offsetDays:3, direction:"before" }
+  - wait for an event: until:{ kind:"event", metric:"Placed Order", timeout:{ value:3, unit:"days" }, labels:["Yes","No"] }  (branches like a split: "Yes" when the event happens, "No" on timeout)
 - message (email): { id, type:"message", channel:"email", title, copyHint, subjectLine, strategy:{ primaryFocus, secondaryFocus } }
 - message (sms): { id, type:"message", channel:"sms", title, copyHint, strategy:{ primaryFocus, secondaryFocus } }
 - split: { id, type:"split", title, condition, labels:["Yes","No"] }  (labels array can have 2+ items for multi-way splits)
+- abSplit: { id, type:"abSplit", title, variants:[{ label:"A", weight:50 }, { label:"B", weight:50 }] }  (random percentage split; integer weights must sum to 100, e.g. 33/33/34)
 - merge: { id, type:"merge", title:"Merge" }
 - outcome: { id, type:"outcome", title:"End", result:"Completed" }
 
 Edge: { id:"e_from_to", from:"source_id", to:"target_id", label:"optional" }
-Split edges MUST have label matching the split's labels. Node IDs: alphanumeric/underscore/dash only.
+Split edges (and the two edges of a wait for an event) MUST have labels matching the node's labels; each abSplit variant needs one edge labeled with the variant label. Node IDs: alphanumeric/underscore/dash only.
 
 STRUCTURAL RULES (CRITICAL — violations will be automatically detected and rejected):
 1. The flow is a directed acyclic graph (DAG). EVERY node must be reachable from the trigger. No orphan nodes.
@@ -205,7 +198,7 @@ Output format when generating/modifying — include BOTH a brief reply AND the J
 { "id":"...", "name":"...", "source":{"mode":"manual"}, "channels":["email","sms"], "defaults":{"delay":{"value":2,"unit":"days"}}, "nodes":[...], "edges":[...] }
 \`\`\``;
 
-function buildBrandContext(profile?: BrandProfile): string {
+function buildBrandContext(profile?: Partial<BrandProfile>): string {
   if (!profile?.brandName) return "";
   const parts = [`Brand: ${profile.brandName}`];
   if (profile.industry) parts.push(`Industry: ${profile.industry}`);
@@ -249,13 +242,16 @@ function formatGraphErrors(errors: GraphError[]): string {
 
 export async function chatFlowRoute(req: Request, res: Response) {
   const startedAt = Date.now();
+  let run: RunRecorder | null = null;
+  const parsed = parseBody(chatFlowRequestSchema, req.body);
+  if (!parsed.ok) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const body = parsed.data;
   try {
-    const body = req.body as ChatFlowRequest;
-    if (!body.message?.trim()) {
-      return res.status(400).json({ error: "message is required" });
-    }
 
-    const openai = getOpenAI();
+    run = startRun();
+    const llm = run.llm;
     const brandCtx = buildBrandContext(body.brandProfile);
 
     const skeleton = body.currentFlowSpec ? skeletonizeFlowSpec(body.currentFlowSpec) : null;
@@ -265,19 +261,19 @@ export async function chatFlowRoute(req: Request, res: Response) {
 
     const systemContent = SYSTEM_PROMPT + brandCtx + currentFlowCtx;
 
-    const messages: Array<{ role: "system" | "user" | "assistant"; content: string }> = [
+    const messages: LlmMessage[] = [
       { role: "system", content: systemContent }
     ];
 
-    const trimmedHistory = (body.history ?? []).slice(-HISTORY_MAX_MESSAGES);
+    const trimmedHistory = body.history.slice(-HISTORY_MAX_MESSAGES);
     for (const msg of trimmedHistory) {
       messages.push({ role: msg.role, content: msg.content.slice(0, 800) });
     }
     messages.push({ role: "user", content: body.message });
 
-    console.log(`[chat-flow] calling OpenAI (${messages.length} messages, system=${systemContent.length} chars)...`);
+    console.log(`[chat-flow] calling ${llm.name} (${messages.length} messages, system=${systemContent.length} chars)...`);
 
-    let flowSpec: unknown | null = null;
+    let flowSpec: FlowSpec | null = null;
     let rawReply = "";
     let hadBlock = false;
     let totalTokens = 0;
@@ -286,15 +282,16 @@ export async function chatFlowRoute(req: Request, res: Response) {
     for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
       const isRetry = attempt > 0;
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const completion = await llm.complete({
+        task: "chat-flow",
+        tier: "quality",
         messages,
         temperature: isRetry ? 0.3 : 0.7,
-        max_tokens: 8192,
+        maxTokens: 8192,
       });
 
-      totalTokens += completion.usage?.total_tokens ?? 0;
-      rawReply = completion.choices[0]?.message?.content ?? "I couldn't generate a response. Please try again.";
+      totalTokens += completion.usage?.totalTokens ?? 0;
+      rawReply = completion.content || "I couldn't generate a response. Please try again.";
       const extracted = extractFlowSpec(rawReply);
       hadBlock = extracted.hadBlock;
 
@@ -311,7 +308,7 @@ export async function chatFlowRoute(req: Request, res: Response) {
       // Run graph validation
       const graphResult = validateFlowGraph(candidate);
       if (graphResult.valid) {
-        flowSpec = candidate;
+        flowSpec = candidate as FlowSpec;
         console.log(`[chat-flow] attempt ${attempt + 1}: graph valid`);
         break;
       }
@@ -330,7 +327,7 @@ export async function chatFlowRoute(req: Request, res: Response) {
         console.log(`[chat-flow] requesting auto-repair (attempt ${attempt + 2})...`);
       } else {
         // Max retries exhausted — return what we have with error info
-        flowSpec = candidate;
+        flowSpec = candidate as FlowSpec;
         console.log(`[chat-flow] max repair attempts exhausted, returning with known issues`);
       }
     }
@@ -338,17 +335,30 @@ export async function chatFlowRoute(req: Request, res: Response) {
     const reply = cleanReply(rawReply, !!flowSpec);
     const action = determineAction(rawReply, !!flowSpec);
 
-    const response: ChatFlowResponse = { reply, action, ...(flowSpec ? { flowSpec } : {}) };
+    const response: Omit<ChatFlowResponse, "runId"> = { reply, action, ...(flowSpec ? { flowSpec } : {}) };
 
     if (!flowSpec && hadBlock) {
       response.reply = `${reply}\n\nThe JSON was malformed. Please say "regenerate" and I will output clean JSON.`;
     }
 
+    await run.finish({
+      kind: "chat-flow",
+      inputs: { message: body.message, history: trimmedHistory, currentFlowSpec: body.currentFlowSpec },
+      status: "done",
+      output: { reply: response.reply, ...(flowSpec ? { flows: [flowSpec] } : {}) },
+    });
+
     console.log(`[chat-flow] done in ${Date.now() - startedAt}ms (hasFlowSpec=${!!flowSpec}, totalTokens=${totalTokens})`);
-    return res.json(response);
+    return res.json({ ...response, runId: run.id } satisfies ChatFlowResponse);
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : "Unknown error";
     console.error(`[chat-flow] error after ${Date.now() - startedAt}ms:`, message);
+    await run?.finish({
+      kind: "chat-flow",
+      inputs: { message: body.message, history: body.history.slice(-HISTORY_MAX_MESSAGES), currentFlowSpec: body.currentFlowSpec },
+      status: "failed",
+      error: message,
+    });
     return res.status(500).json({ error: "AI request failed. Please try again." });
   }
 }
@@ -1,4 +1,5 @@
 import type { Request, Response } from "express";
+import { filloutLookupRequestSchema, parseBody, type FilloutLookupResponse } from "../lib/apiSchemas.js";
 
 type FilloutQuestion = {
   id: string;
@@ -26,14 +27,11 @@ export async function filloutLookupRoute(req: Request, res: Response) {
       return res.status(500).json({ error: "FILLOUT_API_KEY is not configured on the server" });
     }
 
-    const { formId, search } = req.body as {
-      formId?: string;
-      search?: string;
-    };
-
-    if (!formId) {
-      return res.status(400).json({ error: "formId is required" });
+    const parsed = parseBody(filloutLookupRequestSchema, req.body);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error });
     }
+    const { formId, search } = parsed.data;
 
     const params = new URLSearchParams({
       limit: "1",
@@ -83,7 +81,7 @@ export async function filloutLookupRoute(req: Request, res: Response) {
       submissionId: submission.submissionId,
       submissionTime: submission.submissionTime,
       responses,
-    });
+    } satisfies FilloutLookupResponse);
   } catch (err) {
     console.error("[fillout] Error:", err);
     return res.status(500).json({ error: "Failed to fetch from Fillout" });
@@ -0,0 +1,299 @@
+import type { Request, Response } from "express";
+import { getAllPlanKeys, getPlanDefinition, type FlowSpec, type PlanKey } from "@flow/core";
+import {
+  listGameplans,
+  getGameplan,
+  createGameplan,
+  updateGameplan,
+  deleteGameplan,
+  listRevisions,
+  getRevision,
+  type GameplanInput,
+  type RevisionInfo,
+} from "../lib/gameplanStore.js";
+import { renderFlowSvg } from "@flow/layout";
+import { renderGameplanPdf, type GameplanPdfInput } from "../lib/gameplanPdf.js";
+import { blueprintFromFlow, regenerateFlow } from "../lib/flowGenerator.js";
+import { detachRunsFromGameplan, linkRunsToGameplan, startRun } from "../lib/runStore.js";
+import { gameplanInputSchema, parseBody, type GameplanInputBody } from "../lib/apiSchemas.js";
+
+const VALID_ID = /^[a-z0-9_-]+$/i;
+
+function readInput(body: GameplanInputBody): Partial<GameplanInput> {
+  const { runIds: _runIds, revision: _revision, ...fields } = body;
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<GameplanInput>;
+}
+
+function readRunIds(body: GameplanInputBody): string[] {
+  return (body.runIds ?? []).filter((id) => VALID_ID.test(id));
+}
+
+function readRevisionInfo(body: { revision?: RevisionInfo }): RevisionInfo {
+  const info = body.revision;
+  if (!info || typeof info !== "object") return {};
+  return {
+    author: typeof info.author === "string" ? info.author : undefined,
+    message: typeof info.message === "string" ? info.message : undefined,
+  };
+}
+
+export async function listGameplansRoute(_req: Request, res: Response) {
+  try {
+    const gameplans = await listGameplans();
+    res.json(gameplans);
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
+
+export async function getGameplanRoute(req: Request, res: Response) {
+  const id = req.params.id as string;
+  if (!VALID_ID.test(id)) {
+    res.status(400).json({ error: "Invalid gameplan id." });
+    return;
+  }
+
+  const gameplan = await getGameplan(id);
+  if (!gameplan) {
+    res.status(404).json({ error: `Gameplan "${id}" not found.` });
+    return;
+  }
+  res.json(gameplan);
+}
+
+export async function createGameplanRoute(req: Request, res: Response) {
+  const parsed = parseBody(gameplanInputSchema, req.body);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  const input = readInput(parsed.data);
+  if (!input.brandName || !input.planKey || !input.flows) {
+    res.status(400).json({ error: "brandName, planKey, and flows are required." });
+    return;
+  }
+
+  try {
+    const gameplan = await createGameplan({
+      ...input,
+      name: input.name || `${input.brandName} — ${input.planName ?? input.planKey}`,
+      brandName: input.brandName,
+      planKey: input.planKey,
+      planName: input.planName ?? input.planKey,
+      flows: input.flows,
+    }, readRevisionInfo(parsed.data));
+    await linkRunsToGameplan(readRunIds(parsed.data), gameplan.id);
+    res.status(201).json(gameplan);
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
+
+export async function updateGameplanRoute(req: Request, res: Response) {
+  const id = req.params.id as string;
+  if (!VALID_ID.test(id)) {
+    res.status(400).json({ error: "Invalid gameplan id." });
+    return;
+  }
+
+  const parsed = parseBody(gameplanInputSchema, req.body);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+
+  try {
+    const updated = await updateGameplan(id, readInput(parsed.data), readRevisionInfo(parsed.data));
+    await linkRunsToGameplan(readRunIds(parsed.data), id);
+    res.json(updated);
+  } catch (err) {
+    res.status(404).json({ error: (err as Error).message });
+  }
+}
+
+export async function deleteGameplanRoute(req: Request, res: Response) {
+  const id = req.params.id as string;
+  if (!VALID_ID.test(id)) {
+    res.status(400).json({ error: "Invalid gameplan id." });
+    return;
+  }
+
+  try {
+    await deleteGameplan(id);
+    await detachRunsFromGameplan(id);
+    res.json({ success: true });
+  } catch (err) {
+    res.status(404).json({ error: (err as Error).message });
+  }
+}
+
+export async function listRevisionsRoute(req: Request, res: Response) {
+  const id = req.params.id as string;
+  if (!VALID_ID.test(id)) {
+    res.status(400).json({ error: "Invalid gameplan id." });
+    return;
+  }
+
+  const flowId = typeof req.query.flowId === "string" ? req.query.flowId : undefined;
+  try {
+    const revisions = await listRevisions(id, flowId);
+    res.json(revisions);
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
+
+export async function getRevisionRoute(req: Request, res: Response) {
+  const id = req.params.id as string;
+  const revisionId = req.params.revisionId as string;
+  if (!VALID_ID.test(id)) {
+    res.status(400).json({ error: "Invalid gameplan id." });
+    return;
+  }
+
+  const revision = await getRevision(id, revisionId);
+  if (!revision) {
+    res.status(404).json({ error: `Revision "${revisionId}" not found.` });
+    return;
+  }
+  res.json(revision);
+}
+
+function sendPdf(res: Response, pdf: Buffer, brandName: string) {
+  const filename = `${brandName.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "gameplan"}_gameplan.pdf`;
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.send(pdf);
+}
+
+export async function gameplanPdfRoute(req: Request, res: Response) {
+  const id = req.params.id as string;
+  if (!VALID_ID.test(id)) {
+    res.status(400).json({ error: "Invalid gameplan id." });
+    return;
+  }
+
+  const gameplan = await getGameplan(id);
+  if (!gameplan) {
+    res.status(404).json({ error: `Gameplan "${id}" not found.` });
+    return;
+  }
+  try {
+    sendPdf(res, await renderGameplanPdf(gameplan), gameplan.brandName);
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
+
+/** Renders an unsaved (or locally edited) gameplan posted in the body. */
+export async function renderGameplanPdfRoute(req: Request, res: Response) {
+  const parsed = parseBody(gameplanInputSchema, req.body);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  const input = readInput(parsed.data);
+  if (!input.brandName || !input.flows?.length) {
+    res.status(400).json({ error: "brandName and flows are required." });
+    return;
+  }
+
+  try {
+    const pdf = await renderGameplanPdf({ ...input, planKey: input.planKey ?? "", planName: input.planName ?? "" } as GameplanPdfInput);
+    sendPdf(res, pdf, input.brandName);
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
+
+export async function flowSvgRoute(req: Request, res: Response) {
+  const id = req.params.id as string;
+  const flowId = req.params.flowId as string;
+  if (!VALID_ID.test(id) || !VALID_ID.test(flowId)) {
+    res.status(400).json({ error: "Invalid gameplan or flow id." });
+    return;
+  }
+
+  const gameplan = await getGameplan(id);
+  const flow = gameplan?.flows.find((f) => f.id === flowId);
+  if (!gameplan || !flow) {
+    res.status(404).json({ error: `Flow "${flowId}" not found in gameplan "${id}".` });
+    return;
+  }
+  try {
+    const accentColor = /^#[0-9a-f]{6}$/i.test(gameplan.brandColor ?? "") ? gameplan.brandColor : undefined;
+    res.setHeader("Content-Type", "image/svg+xml; charset=utf-8");
+    res.send(renderFlowSvg(flow, { accentColor }));
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
+
+/**
+ * Generate one flow of a saved gameplan again with the stored brand profile and
+ * save it in place, recorded as a new revision of that flow.
+ */
+export async function regenerateFlowRoute(req: Request, res: Response) {
+  const id = req.params.id as string;
+  const flowId = req.params.flowId as string;
+  if (!VALID_ID.test(id) || !VALID_ID.test(flowId)) {
+    res.status(400).json({ error: "Invalid gameplan or flow id." });
+    return;
+  }
+
+  const gameplan = await getGameplan(id);
+  const flow = gameplan?.flows.find((f) => f.id === flowId);
+  if (!gameplan || !flow) {
+    res.status(404).json({ error: `Flow "${flowId}" not found in gameplan "${id}".` });
+    return;
+  }
+  if (!gameplan.brandProfile) {
+    res.status(400).json({ error: "This gameplan has no brand profile to generate from." });
+    return;
+  }
+
+  const brandProfile = gameplan.brandProfile;
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort(new Error("Client closed the connection."));
+  });
+
+  try {
+    /* Prefer the plan's own blueprint; custom plans are rebuilt from the flow itself */
+    const planBlueprint = getAllPlanKeys().includes(gameplan.planKey as PlanKey)
+      ? getPlanDefinition(gameplan.planKey as PlanKey).flows.find((b) => b.flowId === flowId)
+      : undefined;
+    const blueprint = planBlueprint ? { ...planBlueprint, mirrorsFlow: undefined } : blueprintFromFlow(flow);
+    const run = startRun({ gameplanId: id });
+    let regenerated: FlowSpec;
+    try {
+      regenerated = (await regenerateFlow(blueprint, brandProfile, { signal: controller.signal, llm: run.llm })) as FlowSpec;
+    } catch (err) {
+      await run.finish({
+        kind: "regenerate-flow",
+        inputs: { blueprint, brandProfile },
+        status: controller.signal.aborted ? "cancelled" : "failed",
+        error: (err as Error).message,
+      });
+      throw err;
+    }
+    await run.finish({ kind: "regenerate-flow", inputs: { blueprint, brandProfile }, status: "done", output: { flows: [regenerated] } });
+
+    /* Generation takes a while; apply the result to the gameplan as it is now, not as it was read above */
+    const latest = await getGameplan(id);
+    if (!latest?.flows.some((f) => f.id === flowId)) {
+      res.status(409).json({ error: `Flow "${flowId}" was removed from gameplan "${id}" while it was being regenerated.` });
+      return;
+    }
+    const revision = readRevisionInfo(req.body ?? {});
+    const updated = await updateGameplan(
+      id,
+      { flows: latest.flows.map((f) => (f.id === flowId ? regenerated : f)) },
+      { author: revision.author, message: revision.message ?? "Regenerated with AI" }
+    );
+    res.json({ gameplan: updated, flow: regenerated, runId: run.id });
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
@@ -1,9 +1,12 @@
 import type { Request, Response } from "express";
-import { getPlanDefinition, getAllPlanKeys, type PlanKey, type FlowBlueprint, type FlowTemplate } from "@flow/core";
+import { getPlanDefinition, getAllPlanKeys, type PlanDefinition, type PlanKey, type FlowBlueprint, type FlowSpec, type FlowTemplate } from "@flow/core";
 import type { BrandProfile } from "../lib/brandAnalyzer.js";
+import { generateFlowsRequestSchema, parseBody, type GenerateFlowsResponse } from "../lib/apiSchemas.js";
 import { generateFlowsForPlan } from "../lib/flowGenerator.js";
 import { getAllTemplates } from "../lib/libraryStore.js";
 import { parseFlowText } from "../lib/flowTextParser.js";
+import type { LlmProvider } from "../lib/llm.js";
+import { startRun, type RunRecorder } from "../lib/runStore.js";
 
 function templateToBlueprint(template: FlowTemplate): FlowBlueprint {
   return {
@@ -39,57 +42,160 @@ async function buildCustomPlan(templateIds: string[]) {
   };
 }
 
-export async function generateFlowsRoute(req: Request, res: Response) {
-  try {
-    const { planKey, brandProfile, customTemplateIds, customFlowText } = req.body as {
-      planKey?: string;
-      brandProfile?: BrandProfile;
-      customTemplateIds?: string[];
-      customFlowText?: string;
-    };
-
-    if (!brandProfile) {
-      res.status(400).json({ error: "brandProfile is required." });
-      return;
+type ResolvedRequest =
+  | { ok: true; plan: PlanDefinition; planKey: string; brandProfile: BrandProfile }
+  | { ok: false; error: string };
+
+/** Validate the request body and pick the plan to generate; shared by the JSON and streaming routes. */
+async function resolveGenerateRequest(body: unknown, llm: LlmProvider): Promise<ResolvedRequest> {
+  const parsed = parseBody(generateFlowsRequestSchema, body);
+  if (!parsed.ok) return parsed;
+  const { planKey, brandProfile, customTemplateIds, customFlowText } = parsed.data;
+
+  if (customFlowText?.trim()) {
+    return { ok: true, plan: await parseFlowText(customFlowText.trim(), llm), planKey: "custom", brandProfile };
+  }
+  if (customTemplateIds && customTemplateIds.length > 0) {
+    return { ok: true, plan: await buildCustomPlan(customTemplateIds), planKey: "custom", brandProfile };
+  }
+  if (planKey) {
+    const validKeys = getAllPlanKeys();
+    if (!validKeys.includes(planKey as PlanKey)) {
+      return { ok: false, error: `Invalid planKey. Must be one of: ${validKeys.join(", ")}` };
     }
+    return { ok: true, plan: getPlanDefinition(planKey as PlanKey), planKey, brandProfile };
+  }
+  return { ok: false, error: "planKey, customTemplateIds, or customFlowText is required." };
+}
 
-    let plan;
-    let resolvedPlanKey = planKey ?? "custom";
-
-    if (customFlowText?.trim()) {
-      plan = await parseFlowText(customFlowText.trim());
-      resolvedPlanKey = "custom";
-    } else if (customTemplateIds && customTemplateIds.length > 0) {
-      plan = await buildCustomPlan(customTemplateIds);
-      resolvedPlanKey = "custom";
-    } else if (planKey) {
-      const validKeys = getAllPlanKeys();
-      if (!validKeys.includes(planKey as PlanKey)) {
-        res.status(400).json({ error: `Invalid planKey. Must be one of: ${validKeys.join(", ")}` });
-        return;
-      }
-      plan = getPlanDefinition(planKey as PlanKey);
-    } else {
-      res.status(400).json({ error: "planKey, customTemplateIds, or customFlowText is required." });
+/** Save the run record for a generation. */
+async function finishGenerateRun(
+  run: RunRecorder,
+  resolved: Extract<ResolvedRequest, { ok: true }>,
+  result: { status: "done" | "failed" | "cancelled"; flows?: FlowSpec[]; error?: string }
+) {
+  const { plan, planKey, brandProfile } = resolved;
+  await run.finish({
+    kind: "generate-flows",
+    inputs: { planKey, plan, brandProfile },
+    status: result.status,
+    error: result.error,
+    output: result.flows ? { flows: result.flows } : undefined,
+  });
+}
+
+export async function generateFlowsRoute(req: Request, res: Response) {
+  try {
+    const run = startRun();
+    const resolved = await resolveGenerateRequest(req.body, run.llm);
+    if (!resolved.ok) {
+      res.status(400).json({ error: resolved.error });
       return;
     }
+    const { plan, planKey, brandProfile } = resolved;
 
     console.log(`Generating ${plan.flows.length} flows for plan "${plan.name}" / brand "${brandProfile.brandName}"...`);
 
-    const flows = await generateFlowsForPlan(plan, brandProfile);
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort(new Error("Client closed the connection."));
+    });
+    let flows: FlowSpec[];
+    try {
+      flows = (await generateFlowsForPlan(plan, brandProfile, { signal: controller.signal, llm: run.llm })) as FlowSpec[];
+    } catch (error) {
+      const cancelled = controller.signal.aborted;
+      await finishGenerateRun(run, resolved, { status: cancelled ? "cancelled" : "failed", error: (error as Error).message });
+      throw error;
+    }
+    await finishGenerateRun(run, resolved, { status: "done", flows });
 
     console.log(`Done. Generated ${flows.length} flows.`);
 
     res.json({
-      planKey: resolvedPlanKey,
+      runId: run.id,
+      planKey,
       planName: plan.name,
       brandName: brandProfile.brandName,
       flowCount: flows.length,
       flows
-    });
+    } satisfies GenerateFlowsResponse);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("generate-flows error:", message);
     res.status(500).json({ error: message });
   }
 }
+
+/**
+ * Same input as /api/generate-flows, answered as Server-Sent Events:
+ * `plan` once, `progress` per flow step, `flow` per finished FlowSpec, then `done` or `error`.
+ */
+export async function generateFlowsStreamRoute(req: Request, res: Response) {
+  let run: RunRecorder;
+  let resolved: ResolvedRequest;
+  try {
+    run = startRun();
+    resolved = await resolveGenerateRequest(req.body, run.llm);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({ error: message });
+    return;
+  }
+  if (!resolved.ok) {
+    res.status(400).json({ error: resolved.error });
+    return;
+  }
+  const { plan, planKey, brandProfile } = resolved;
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  /* The client going away (including its cancel button) aborts in-flight model calls */
+  const controller = new AbortController();
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+    controller.abort(new Error("Client closed the connection."));
+  });
+  const send = (event: string, data: unknown) => {
+    if (!closed) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  send("plan", {
+    runId: run.id,
+    planKey,
+    planName: plan.name,
+    brandName: brandProfile.brandName,
+    flows: plan.flows.map((f) => ({ flowId: f.flowId, name: f.name })),
+  });
+
+  try {
+    console.log(`Streaming ${plan.flows.length} flows for plan "${plan.name}" / brand "${brandProfile.brandName}"...`);
+    const flows = await generateFlowsForPlan(plan, brandProfile, {
+      signal: controller.signal,
+      llm: run.llm,
+      onProgress: (event) => {
+        if (event.type === "assembled") send("flow", { index: event.index, flow: event.flow });
+        else send("progress", event);
+      },
+    });
+    await finishGenerateRun(run, resolved, { status: "done", flows: flows as FlowSpec[] });
+    send("done", { flowCount: flows.length });
+  } catch (error) {
+    await finishGenerateRun(run, resolved, { status: closed ? "cancelled" : "failed", error: (error as Error).message });
+    if (closed) {
+      console.log(`Generation for "${brandProfile.brandName}" cancelled by the client.`);
+      return;
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("generate-flows stream error:", message);
+    send("error", { error: message });
+  }
+  res.end();
+}
@@ -0,0 +1,53 @@
+import type { Request, Response } from "express";
+import { parseFlowSpecSafe } from "@flow/core";
+import { exportFlowToKlaviyo, fetchKlaviyoFlow, importKlaviyoFlow, type KlaviyoApiError } from "@flow/klaviyo";
+
+function isKlaviyoApiError(err: unknown): err is KlaviyoApiError {
+  return !!err && typeof err === "object" && "status" in err && "body" in err;
+}
+
+export async function klaviyoExportRoute(req: Request, res: Response) {
+  const apiKey = process.env.KLAVIYO_API_KEY;
+  if (!apiKey) {
+    return res.status(500).json({ error: "KLAVIYO_API_KEY is not configured on the server" });
+  }
+
+  const parsed = parseFlowSpecSafe((req.body as { flowSpec?: unknown }).flowSpec);
+  if (!parsed.success) {
+    return res.status(400).json({ error: `Invalid flowSpec: ${parsed.error.issues.map((i) => i.message).join("; ")}` });
+  }
+
+  try {
+    const result = await exportFlowToKlaviyo({ apiKey, flowSpec: parsed.data });
+    res.json({ flowId: result.flowId, templateCount: Object.keys(result.templateIds).length, warnings: result.warnings });
+  } catch (err) {
+    if (isKlaviyoApiError(err)) {
+      return res.status(502).json({ error: `Klaviyo API error (${err.status})`, details: err.body });
+    }
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
+
+export async function klaviyoImportRoute(req: Request, res: Response) {
+  const { flowId, definition } = req.body as { flowId?: string; definition?: unknown };
+  if (!flowId && !definition) {
+    return res.status(400).json({ error: "flowId or definition is required" });
+  }
+
+  try {
+    if (definition) {
+      return res.json(importKlaviyoFlow(definition));
+    }
+
+    const apiKey = process.env.KLAVIYO_API_KEY;
+    if (!apiKey) {
+      return res.status(500).json({ error: "KLAVIYO_API_KEY is not configured on the server" });
+    }
+    res.json(await fetchKlaviyoFlow({ apiKey, flowId: flowId! }));
+  } catch (err) {
+    if (isKlaviyoApiError(err)) {
+      return res.status(502).json({ error: `Klaviyo API error (${err.status})`, details: err.body });
+    }
+    res.status(400).json({ error: (err as Error).message });
+  }
+}
@@ -1,5 +1,6 @@
 import type { Request, Response } from "express";
-import { FLOW_TYPE_LABELS, type FlowType, type FlowTemplate } from "@flow/core";
+import { FLOW_TYPE_LABELS, type FlowType } from "@flow/core";
+import { createTemplateRequestSchema, parseBody, updateTemplateRequestSchema } from "../lib/apiSchemas.js";
 import {
   getAllTemplates,
   getTemplates,
@@ -44,11 +45,12 @@ export async function createTemplateRoute(req: Request, res: Response) {
     return;
   }
 
-  const body = req.body as Partial<FlowTemplate>;
-  if (!body.name || body.emailCount == null || body.smsCount == null || !body.triggerEvent) {
-    res.status(400).json({ error: "name, triggerEvent, emailCount, and smsCount are required." });
+  const parsed = parseBody(createTemplateRequestSchema, req.body);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.error });
     return;
   }
+  const body = parsed.data;
 
   try {
     const template = await createTemplate({
@@ -80,8 +82,14 @@ export async function updateTemplateRoute(req: Request, res: Response) {
     return;
   }
 
+  const parsed = parseBody(updateTemplateRequestSchema, req.body);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+
   try {
-    const updated = await updateTemplate(flowType, templateId, req.body);
+    const updated = await updateTemplate(flowType, templateId, parsed.data);
     res.json(updated);
   } catch (err) {
     res.status(404).json({ error: (err as Error).message });
@@ -0,0 +1,79 @@
+import type { Request, Response } from "express";
+import type { FlowSpec } from "@flow/core";
+import { generateFlowsForPlan, regenerateFlow } from "../lib/flowGenerator.js";
+import { getRun, listRuns, runInputs, startRun } from "../lib/runStore.js";
+
+const VALID_ID = /^[a-z0-9_-]+$/i;
+
+export async function listRunsRoute(req: Request, res: Response) {
+  const gameplanId = typeof req.query.gameplanId === "string" ? req.query.gameplanId : undefined;
+  const ids = typeof req.query.ids === "string" ? req.query.ids.split(",").filter((id) => VALID_ID.test(id)) : undefined;
+  try {
+    res.json(await listRuns({ gameplanId, ids }));
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
+
+export async function getRunRoute(req: Request, res: Response) {
+  const id = req.params.id as string;
+  if (!VALID_ID.test(id)) {
+    res.status(400).json({ error: "Invalid run id." });
+    return;
+  }
+
+  const run = await getRun(id);
+  if (!run) {
+    res.status(404).json({ error: `Run "${id}" not found.` });
+    return;
+  }
+  res.json(run);
+}
+
+/**
+ * Run a generation again with the recorded plan and brand profile, through the
+ * current prompts and provider. The result is a new run pointing back at this one;
+ * nothing is saved to the gameplan.
+ */
+export async function replayRunRoute(req: Request, res: Response) {
+  const id = req.params.id as string;
+  if (!VALID_ID.test(id)) {
+    res.status(400).json({ error: "Invalid run id." });
+    return;
+  }
+
+  const original = await getRun(id);
+  if (!original) {
+    res.status(404).json({ error: `Run "${id}" not found.` });
+    return;
+  }
+  if (original.kind !== "generate-flows" && original.kind !== "regenerate-flow") {
+    res.status(400).json({ error: "Only flow generation runs can be replayed." });
+    return;
+  }
+
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort(new Error("Client closed the connection."));
+  });
+
+  try {
+    const run = startRun({ gameplanId: original.gameplanId, replayOf: original.id });
+    const options = { signal: controller.signal, llm: run.llm };
+    let flows: FlowSpec[];
+    try {
+      flows = original.kind === "generate-flows"
+        ? (await generateFlowsForPlan(original.inputs.plan, original.inputs.brandProfile, options)) as FlowSpec[]
+        : [(await regenerateFlow(original.inputs.blueprint, original.inputs.brandProfile, options)) as FlowSpec];
+    } catch (err) {
+      const status = controller.signal.aborted ? "cancelled" : "failed";
+      await run.finish({ ...runInputs(original), status, error: (err as Error).message });
+      throw err;
+    }
+    await run.finish({ ...runInputs(original), status: "done", output: { flows } });
+    res.json({ runId: run.id, replayOf: original.id, flows });
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
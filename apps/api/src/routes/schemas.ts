@@ -0,0 +1,25 @@
+import type { Request, Response } from "express";
+import { flowSpecJsonSchema } from "@flow/core";
+import { buildOpenApiDocument } from "../lib/openapi.js";
+
+/* Both documents only change with the code, so they are built once per process */
+let openApiDocument: Record<string, unknown> | null = null;
+let flowSpecSchemaDocument: Record<string, unknown> | null = null;
+
+export function openApiRoute(_req: Request, res: Response) {
+  try {
+    openApiDocument ??= buildOpenApiDocument();
+    res.json(openApiDocument);
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
+
+export function flowSpecSchemaRoute(_req: Request, res: Response) {
+  try {
+    flowSpecSchemaDocument ??= flowSpecJsonSchema();
+    res.json(flowSpecSchemaDocument);
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
@@ -0,0 +1,30 @@
+import type { Request, Response } from "express";
+import { listGameplans } from "../lib/gameplanStore.js";
+import { listRunRecords } from "../lib/runStore.js";
+import { buildUsageReport } from "../lib/usage.js";
+
+const VALID_ID = /^[a-z0-9_-]+$/i;
+
+/**
+ * Token usage and cost from recorded runs, totalled and broken down per day,
+ * gameplan, task and model. `days` limits the window; `gameplanId` and `ids`
+ * narrow it to one gameplan and/or specific runs.
+ */
+export async function usageRoute(req: Request, res: Response) {
+  const gameplanId = typeof req.query.gameplanId === "string" && VALID_ID.test(req.query.gameplanId) ? req.query.gameplanId : undefined;
+  const ids = typeof req.query.ids === "string" ? req.query.ids.split(",").filter((id) => VALID_ID.test(id)) : undefined;
+  const days = Number(req.query.days);
+  const since = Number.isFinite(days) && days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+
+  try {
+    const [runs, gameplans] = await Promise.all([listRunRecords({ gameplanId, ids }), listGameplans()]);
+    const report = buildUsageReport(runs, { since });
+    const names = new Map(gameplans.map((g) => [g.id, g.name]));
+    res.json({
+      ...report,
+      byGameplan: report.byGameplan.map((g) => ({ ...g, name: g.gameplanId ? names.get(g.gameplanId) ?? g.gameplanId : "Unsaved results" })),
+    });
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+}
@@ -2,7 +2,7 @@ import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { analyzeBrandRoute } from "./routes/analyzeBrand.js";
-import { generateFlowsRoute } from "./routes/generateFlows.js";
+import { generateFlowsRoute, generateFlowsStreamRoute } from "./routes/generateFlows.js";
 import {
   listAllTemplates,
   listTemplatesByType,
@@ -10,9 +10,28 @@ import {
   updateTemplateRoute,
   deleteTemplateRoute,
 } from "./routes/library.js";
+import {
+  listGameplansRoute,
+  getGameplanRoute,
+  createGameplanRoute,
+  updateGameplanRoute,
+  deleteGameplanRoute,
+  listRevisionsRoute,
+  getRevisionRoute,
+  gameplanPdfRoute,
+  flowSvgRoute,
+  regenerateFlowRoute,
+  renderGameplanPdfRoute,
+} from "./routes/gameplans.js";
 import { chatFlowRoute } from "./routes/chatFlow.js";
+import { listRunsRoute, getRunRoute, replayRunRoute } from "./routes/runs.js";
+import { usageRoute } from "./routes/usage.js";
+import { listBrandsRoute, getBrandRoute, updateBrandRoute, deleteBrandRoute } from "./routes/brands.js";
 import { filloutLookupRoute } from "./routes/fillout.js";
+import { klaviyoExportRoute, klaviyoImportRoute } from "./routes/klaviyo.js";
+import { openApiRoute, flowSpecSchemaRoute } from "./routes/schemas.js";
 import { seedLibraryIfEmpty } from "./lib/librarySeed.js";
+import { attachCollabHub } from "./lib/collabHub.js";
 
 const app = express();
 const PORT = Number(process.env.PORT) || 3001;
@@ -23,11 +42,16 @@ app.use(express.json({ limit: "2mb" }));
 app.get("/api/health", (_req, res) => {
   res.json({ status: "ok" });
 });
+app.get("/api/openapi.json", openApiRoute);
+app.get("/api/schemas/flow-spec.json", flowSpecSchemaRoute);
 
 app.post("/api/analyze-brand", analyzeBrandRoute);
 app.post("/api/generate-flows", generateFlowsRoute);
+app.post("/api/generate-flows/stream", generateFlowsStreamRoute);
 app.post("/api/chat-flow", chatFlowRoute);
 app.post("/api/fillout-lookup", filloutLookupRoute);
+app.post("/api/klaviyo/export", klaviyoExportRoute);
+app.post("/api/klaviyo/import", klaviyoImportRoute);
 
 app.get("/api/library", listAllTemplates);
 app.get("/api/library/:flowType", listTemplatesByType);
@@ -35,8 +59,31 @@ app.post("/api/library/:flowType", createTemplateRoute);
 app.put("/api/library/:flowType/:templateId", updateTemplateRoute);
 app.delete("/api/library/:flowType/:templateId", deleteTemplateRoute);
 
+app.get("/api/brands", listBrandsRoute);
+app.get("/api/brands/:id", getBrandRoute);
+app.put("/api/brands/:id", updateBrandRoute);
+app.delete("/api/brands/:id", deleteBrandRoute);
+
+app.get("/api/gameplans", listGameplansRoute);
+app.post("/api/gameplans/pdf", renderGameplanPdfRoute);
+app.get("/api/gameplans/:id", getGameplanRoute);
+app.post("/api/gameplans", createGameplanRoute);
+app.put("/api/gameplans/:id", updateGameplanRoute);
+app.delete("/api/gameplans/:id", deleteGameplanRoute);
+app.get("/api/gameplans/:id/revisions", listRevisionsRoute);
+app.get("/api/gameplans/:id/revisions/:revisionId", getRevisionRoute);
+app.get("/api/gameplans/:id/pdf", gameplanPdfRoute);
+app.get("/api/gameplans/:id/flows/:flowId/svg", flowSvgRoute);
+app.post("/api/gameplans/:id/flows/:flowId/regenerate", regenerateFlowRoute);
+app.get("/api/runs", listRunsRoute);
+app.get("/api/runs/:id", getRunRoute);
+app.post("/api/runs/:id/replay", replayRunRoute);
+app.get("/api/usage", usageRoute);
+
 seedLibraryIfEmpty().catch((err) => console.warn("Library seed failed:", err));
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`API server running on http://localhost:${PORT}`);
 });
+
+attachCollabHub(server);
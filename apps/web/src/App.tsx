@@ -6,6 +6,7 @@ import ReactFlow, {
   Background,
   Controls,
   MiniMap,
+  Panel,
   ReactFlowProvider,
   type Connection,
   type Edge,
@@ -14,22 +15,29 @@ import ReactFlow, {
   type NodeChange,
   type ReactFlowInstance,
 } from "reactflow";
-import { parseFlowSpecSafe, validateFlowGraph, FLOW_TYPE_LABELS, type FlowNode, type FlowSpec, type FlowType, type MessageStatus } from "@flow/core";
-import { buildLayout } from "@flow/layout";
+import { CURRENT_FLOW_SCHEMA_VERSION, describeCondition, invertEditorOperation, lintFlowGraph, migrateFlowSpec, parseFlowSpecSafe, validateFlowGraph, validateGameplan, FLOW_TYPE_LABELS, type EditorOperation, type FlowNode, type FlowSettings, type FlowSpec, type FlowType, type GraphWarning, type MessageStatus } from "@flow/core";
+import { buildLayout, renderFlowSvg } from "@flow/layout";
 import { exportFlowToMiro } from "@flow/miro";
+import { buildKlaviyoFlowDefinition, importKlaviyoFlow } from "@flow/klaviyo";
 import { toPng } from "html-to-image";
-import { Pencil, Download, RotateCcw, FileJson, Image, Upload, Send, ClipboardList, CheckCircle2, Info, Moon, Sun } from "lucide-react";
+import { Pencil, Download, RotateCcw, FileJson, Image, Upload, Send, ClipboardList, CheckCircle2, Info, Moon, Sun, Save, History, FileText, PenTool, Undo2, Redo2, Clock, RefreshCw, X, ScrollText, Sparkles } from "lucide-react";
 import { ThemeProvider, useTheme } from "./components/ThemeProvider";
 import { toast, Toaster } from "sonner";
 
-import type { AppNodeData, AppTab, BrandProfile, BrandQuestionnaire as BrandQuestionnaireData, GeneratedResult, NodeCallbacks, NodeKind, PlanKey, TemplateChoice } from "./types/flow";
+import type { AppNodeData, AppTab, BrandProfile, BrandQuestionnaire as BrandQuestionnaireData, Gameplan, GeneratedResult, GenerationFlowStatus, GenerationProgressEntry, NodeCallbacks, NodeKind, PlanKey, RevisionInfo, SavedBrand, SavedBrandSummary, TemplateChoice } from "./types/flow";
 import { storeNodeForEdit, loadSavedNode, clearSavedNode } from "./utils/nodeStore";
 import { API_BASE, EDGE_STYLE, PLAN_OPTIONS, VIEWER_CHOICES, rfContainerWidth } from "./constants";
 import { FlowCanvasNode } from "./components/FlowCanvasNode";
 import { SmartEdge } from "./components/SmartEdge";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import { LibraryView, FLOW_TYPES } from "./components/LibraryView";
+import { GameplansView } from "./components/GameplansView";
+import { PlanForecastCard } from "./components/PlanForecastCard";
+import { SaveGameplanDialog } from "./components/SaveGameplanDialog";
+import { RevisionHistoryDialog } from "./components/RevisionHistoryDialog";
+import { RunLogDialog } from "./components/RunLogDialog";
 import { BrandQuestionnaire } from "./components/BrandQuestionnaire";
+import { BrandProfileDialog } from "./components/BrandProfileDialog";
 import { ChatPanel, type ChatMessage } from "./components/ChatPanel";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
@@ -38,16 +46,30 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import {
+  applyOperationToCanvas,
   createFlowNode,
   downloadBlob,
+  editorFlowMeta,
   editorToFlowSpec,
   getSpecFromChoice,
   nodeSubtitle,
+  planMirrors,
+  sanitizeId,
   specToRfEdges,
   specToRfNodes,
   toRfNode,
+  type EditorFlowMeta,
 } from "./utils/flowHelpers";
+import { readEventStream } from "./utils/eventStream";
 import { useAutoPosition } from "./hooks/useAutoPosition";
+import { useCollaboration } from "./hooks/useCollaboration";
+import { useEditorHistory } from "./hooks/useEditorHistory";
+import { CollaborationCard } from "./components/CollaborationCard";
+import { FlowSettingsCard } from "./components/FlowSettingsCard";
+import { FlowLintCard } from "./components/FlowLintCard";
+import { GameplanChecksCard } from "./components/GameplanChecksCard";
+import { UsageCard } from "./components/UsageCard";
+import { CollaboratorCursors } from "./components/CollaboratorCursors";
 
 function asPositiveInt(value: unknown, fallback = 1): number {
   const n = typeof value === "number" ? value : Number(value);
@@ -55,6 +77,12 @@ function asPositiveInt(value: unknown, fallback = 1): number {
   return Math.max(1, Math.round(Math.abs(n)));
 }
 
+/* Exported JSON records the schema version it was written with, so later versions can migrate it */
+function withSchemaVersion(spec: FlowSpec): FlowSpec {
+  const { schemaVersion: _previous, ...rest } = spec;
+  return { schemaVersion: CURRENT_FLOW_SCHEMA_VERSION, ...rest };
+}
+
 function normalizeFlowSpecCandidate(input: unknown): unknown {
   if (!input || typeof input !== "object") return input;
   const spec = structuredClone(input) as Record<string, unknown>;
@@ -76,7 +104,8 @@ function normalizeFlowSpecCandidate(input: unknown): unknown {
     spec.nodes = spec.nodes.map((node) => {
       if (!node || typeof node !== "object") return node;
       const n = node as Record<string, unknown>;
-      if (n.type === "wait") {
+      /* Waits with an `until` are left to the schema; only fixed durations are repaired */
+      if (n.type === "wait" && !n.until) {
         const duration = (n.duration && typeof n.duration === "object")
           ? (n.duration as Record<string, unknown>)
           : {};
@@ -128,13 +157,32 @@ function AppInner() {
   const [genPlan, setGenPlan] = useState<PlanKey>("custom");
   const [genUrl, setGenUrl] = useState("");
   const [genBrand, setGenBrand] = useState("");
+  const [forecastAov, setForecastAov] = useState("");
+  const [forecastListSize, setForecastListSize] = useState("");
+  const [forecastIndustry, setForecastIndustry] = useState<string | undefined>();
   const [genBusy, setGenBusy] = useState(false);
   const [questionnaireData, setQuestionnaireData] = useState<BrandQuestionnaireData>({});
   const [questionnaireOpen, setQuestionnaireOpen] = useState(false);
+  /* Saved brands: picking one skips analysis; its profile can be edited before generating */
+  const [savedBrands, setSavedBrands] = useState<SavedBrandSummary[]>([]);
+  const [selectedBrand, setSelectedBrand] = useState<SavedBrand | null>(null);
+  const [brandProfileOpen, setBrandProfileOpen] = useState(false);
+  const [busyAnalyze, setBusyAnalyze] = useState(false);
+  /* Analysis run not yet attached to a generated result */
+  const pendingAnalyzeRunRef = useRef<string | null>(null);
   const [genStep, setGenStep] = useState<"form" | "analyzing" | "generating" | "done">("form");
+  /* Per-flow status while a generation stream is open */
+  const [genProgress, setGenProgress] = useState<GenerationProgressEntry[] | null>(null);
   const [genResult, setGenResult] = useState<GeneratedResult | null>(null);
+  const genAbortRef = useRef<AbortController | null>(null);
+  const [regeneratingFlowId, setRegeneratingFlowId] = useState<string | null>(null);
   const [genError, setGenError] = useState("");
   const [activeFlowIndex, setActiveFlowIndex] = useState(0);
+  const [busySaveGameplan, setBusySaveGameplan] = useState(false);
+  const [busyPdfExport, setBusyPdfExport] = useState(false);
+  const [saveDialogTarget, setSaveDialogTarget] = useState<"generate" | "editor" | null>(null);
+  const [historyFlowId, setHistoryFlowId] = useState<string | null>(null);
+  const [runLogFlowId, setRunLogFlowId] = useState<string | null>(null);
   const [customFlowText, setCustomFlowText] = useState("");
   const [flowSpecModalOpen, setFlowSpecModalOpen] = useState(false);
   const [flowSpecInfoOpen, setFlowSpecInfoOpen] = useState(false);
@@ -152,6 +200,67 @@ function AppInner() {
   const [editorPreset, setEditorPreset] = useState<string>("");
   const [editorFlows, setEditorFlows] = useState<FlowSpec[]>([]);
   const [activeEditorFlowIndex, setActiveEditorFlowIndex] = useState(0);
+  /* id of the generated/saved gameplan flow currently loaded in the editor */
+  const [editorGameplanFlowId, setEditorGameplanFlowId] = useState<string | null>(null);
+  const editorNodesRef = useRef(editorNodes);
+  editorNodesRef.current = editorNodes;
+  const editorEdgesRef = useRef(editorEdges);
+  editorEdgesRef.current = editorEdges;
+  /* Flow-level settings of the flow on the canvas; not part of any node */
+  const [editorSettings, setEditorSettings] = useState<FlowSettings | undefined>();
+  const editorSettingsRef = useRef(editorSettings);
+  editorSettingsRef.current = editorSettings;
+  /* id, name, channels and defaults of the flow loaded into the editor, kept for specs built from the canvas */
+  const [editorMeta, setEditorMeta] = useState<EditorFlowMeta | undefined>();
+  const editorMetaRef = useRef(editorMeta);
+  editorMetaRef.current = editorMeta;
+  const dragStartRef = useRef(new Map<string, { x: number; y: number }>());
+
+  /* live collaboration */
+  const [collabRoomId, setCollabRoomId] = useState("");
+  const [collabName, setCollabName] = useState("");
+  const collab = useCollaboration({
+    onRemoteOperation: applyCanvasOperation,
+    onSync: (spec) => {
+      const nodes = specToRfNodes(spec);
+      setEditorNodes(nodes);
+      setEditorEdges(specToRfEdges(spec, nodes));
+      setEditorSettings(spec.settings);
+      setEditorMeta(editorFlowMeta(spec));
+    },
+    onReject: ({ reason, message, operation, conflictWith }) => {
+      if (reason === "conflict" && operation.type === "updateNode") {
+        const who = conflictWith?.peer?.name ?? "Someone";
+        toast.error(`${who} edited "${"title" in operation.node ? operation.node.title : operation.node.id}" at the same time.`, {
+          description: "Their version is now shown. Keep yours to overwrite it.",
+          action: { label: "Keep mine", onClick: () => { applyCanvasOperation(operation); collab.sendOperation(operation); } },
+        });
+        return;
+      }
+      toast.error(message);
+    },
+    onDisconnect: () => toast.error("Live session disconnected."),
+  });
+  const isLive = collab.status === "live";
+
+  /* undo / redo: steps replay through the canvas and the live session like any local edit */
+  const history = useEditorHistory((operations) => {
+    for (const operation of operations) {
+      applyCanvasOperation(operation);
+      collab.sendOperation(operation);
+    }
+  });
+
+  /* Every local editor change goes through here: it becomes one undo step and is shared live. */
+  const commitOperations = useCallback((
+    operations: EditorOperation[],
+    options: { undo?: EditorOperation[]; coalesceKey?: string } = {}
+  ) => {
+    const before = editorToFlowSpec(editorNodesRef.current, editorEdgesRef.current, { ...editorMetaRef.current, settings: editorSettingsRef.current });
+    const undo = options.undo ?? operations.map((op) => invertEditorOperation(before, op)).reverse().flat();
+    history.record({ redo: operations, undo, coalesceKey: options.coalesceKey });
+    for (const operation of operations) collab.sendOperation(operation);
+  }, [history.record, collab.sendOperation]);
 
   /* shared */
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
@@ -159,10 +268,14 @@ function AppInner() {
   /* notice replaced by sonner toast */
   const [busyPngExport, setBusyPngExport] = useState(false);
   const [busyMiroExport, setBusyMiroExport] = useState(false);
+  const [busyKlaviyoExport, setBusyKlaviyoExport] = useState(false);
+  const [busyKlaviyoImport, setBusyKlaviyoImport] = useState(false);
+  const [klaviyoFlowId, setKlaviyoFlowId] = useState("");
   const [miroBoardId, setMiroBoardId] = useState("");
   const [miroToken, setMiroToken] = useState("");
 
   const importInputRef = useRef<HTMLInputElement | null>(null);
+  const klaviyoImportInputRef = useRef<HTMLInputElement | null>(null);
   const canvasCaptureRef = useRef<HTMLDivElement | null>(null);
   const reactFlowRef = useRef<ReactFlowInstance | null>(null);
   const nodeTypes = useMemo(() => ({ flowNode: FlowCanvasNode }), []);
@@ -184,10 +297,16 @@ function AppInner() {
     return null;
   }, [tab, genResult, activeFlowIndex]);
 
+  /* Cross-flow checks (overlapping triggers, weekly volume, shared codes, mirror suppression) */
+  const gameplanIssues = useMemo(
+    () => (genResult ? validateGameplan(genResult.flows, { mirrors: planMirrors(genResult.planKey) }) : []),
+    [genResult]
+  );
+
   const genNodes = useMemo<Node<AppNodeData>[]>(() => {
     if (!activeGenFlow) return [];
     try {
-      const layout = buildLayout(activeGenFlow as FlowSpec, {});
+      const layout = buildLayout(activeGenFlow as FlowSpec, { positionOverrides: activeGenFlow.ui?.nodePositions ?? {} });
       return layout.nodes.map((ln) => {
         const raw = activeGenFlow.nodes.find((n: any) => n.id === ln.id);
         const flowNode = raw ?? ({ id: ln.id, type: "outcome", title: ln.title, result: "" } as FlowNode);
@@ -229,12 +348,67 @@ function AppInner() {
   const flowEdges = baseEdges;
   const nodeCallbacksRef = useRef<NodeCallbacks | null>(null);
 
+  /* Best-practice warnings for whatever flow is on the canvas */
+  const canvasLints = useMemo(() => {
+    if (isEditorActive) {
+      return lintFlowGraph(editorToFlowSpec(editorNodes, editorEdges, { ...editorMeta, settings: editorSettings }));
+    }
+    return tab === "generate" && activeGenFlow ? lintFlowGraph(activeGenFlow) : [];
+  }, [isEditorActive, editorNodes, editorEdges, editorMeta, editorSettings, tab, activeGenFlow]);
+
   const showNodeMenus = isCanvasActive;
   const flowNodes = useMemo(() => {
-    if (!showNodeMenus || !nodeCallbacksRef.current) return autoNodes;
+    /* Outline nodes a collaborator has selected, in their colour */
+    const peerSelections = new Map(
+      isEditorActive ? collab.peers.filter((p) => p.selectedNodeId).map((p) => [p.selectedNodeId!, p.color]) : []
+    );
+    const lintsByNode = new Map<string, GraphWarning[]>();
+    for (const lint of canvasLints) {
+      for (const id of lint.nodeIds ?? []) lintsByNode.set(id, [...(lintsByNode.get(id) ?? []), lint]);
+    }
+    const flowSettings = isEditorActive ? editorSettings : activeGenFlow?.settings;
+    const withPresence = autoNodes.map((n) => {
+      const color = peerSelections.get(n.id);
+      const lints = lintsByNode.get(n.id);
+      const settings = n.data.nodeType === "trigger" ? flowSettings : undefined;
+      /* Nodes copied from another canvas may carry stale lints and settings in their data */
+      if (!color && !lints && !n.data.lints && !settings && !n.data.flowSettings) return n;
+      return {
+        ...n,
+        ...(lints || n.data.lints || settings || n.data.flowSettings ? { data: { ...n.data, lints, flowSettings: settings } } : {}),
+        ...(color ? { style: { ...n.style, outline: `2px solid ${color}`, outlineOffset: 4, borderRadius: 12 } } : {}),
+      };
+    });
+    if (!showNodeMenus || !nodeCallbacksRef.current) return withPresence;
     const cbs = nodeCallbacksRef.current;
-    return autoNodes.map(n => ({ ...n, data: { ...n.data, callbacks: cbs } }));
-  }, [autoNodes, showNodeMenus]);
+    return withPresence.map(n => ({ ...n, data: { ...n.data, callbacks: cbs } }));
+  }, [autoNodes, showNodeMenus, isEditorActive, collab.peers, canvasLints, editorSettings, activeGenFlow]);
+
+  useEffect(() => {
+    fetchSavedBrands();
+  }, []);
+
+  /* Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl+Y redo; text fields keep their own undo */
+  useEffect(() => {
+    if (!isEditorActive) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      const key = event.key.toLowerCase();
+      const wantsRedo = (key === "z" && event.shiftKey) || key === "y";
+      if (key !== "z" && !wantsRedo) return;
+      event.preventDefault();
+      if (wantsRedo) history.redo();
+      else history.undo();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [isEditorActive, history.undo, history.redo]);
+
+  useEffect(() => {
+    if (isLive) collab.sendPresence({ selectedNodeId });
+  }, [isLive, selectedNodeId, collab.sendPresence]);
 
   /* Re-fit view after auto-position correction */
   useEffect(() => {
@@ -279,14 +453,42 @@ function AppInner() {
 
   const handleConnect = useCallback((connection: Connection) => {
     if (!isEditorActive || !connection.source || !connection.target) return;
-    setEditorEdges((eds) => rfAddEdge({ ...connection, ...EDGE_STYLE }, eds));
+    const id = sanitizeId(`edge_${connection.source}_${connection.target}_${Date.now()}`);
+    setEditorEdges((eds) => rfAddEdge({ ...connection, id, ...EDGE_STYLE }, eds));
+    commitOperations([{ type: "addEdge", edge: { id, from: connection.source, to: connection.target } }]);
     toast.success("Connected nodes.");
-  }, [isEditorActive]);
+  }, [isEditorActive, commitOperations]);
+
+  /* Remote or re-applied operations: nodes and edges are separate state, so each updater takes its half. */
+  function applyCanvasOperation(operation: EditorOperation) {
+    if (operation.type === "updateSettings") setEditorSettings(operation.settings);
+    setEditorNodes((nds) => applyOperationToCanvas(nds, [], operation).nodes);
+    setEditorEdges((eds) => applyOperationToCanvas([], eds, operation).edges);
+  }
+
+  function endLiveSession() {
+    if (collab.status === "idle") return;
+    collab.leave();
+    toast("Left live session.");
+  }
+
+  /* Called before the canvas is replaced wholesale (preset, import, flow switch) */
+  function resetEditorSession() {
+    endLiveSession();
+    history.clear();
+  }
+
+  function handleJoinLiveSession() {
+    if (!isEditorActive) return;
+    collab.join(sanitizeId(collabRoomId), collabName.trim() || "Guest", getExportSpec());
+  }
 
   function appendEditorNode(kind: NodeKind, position?: { x: number; y: number }) {
     if (!isEditorActive) return;
     const fn = createFlowNode(kind);
-    setEditorNodes((nds) => [...nds, toRfNode(fn, position ?? { x: 200, y: 80 + editorNodes.length * 140 })]);
+    const at = position ?? { x: 200, y: 80 + editorNodes.length * 140 };
+    setEditorNodes((nds) => [...nds, toRfNode(fn, at)]);
+    commitOperations([{ type: "addNode", node: fn, position: at }]);
     setSelectedNodeId(fn.id);
     toast.success("Node added.");
   }
@@ -295,6 +497,7 @@ function AppInner() {
     if (!isEditorActive || !selectedNodeId) return;
     setEditorNodes((nds) => nds.filter((n) => n.id !== selectedNodeId));
     setEditorEdges((eds) => eds.filter((e) => e.source !== selectedNodeId && e.target !== selectedNodeId));
+    commitOperations([{ type: "removeNode", nodeId: selectedNodeId }]);
     setSelectedNodeId(null);
     toast("Node removed.");
   }
@@ -302,11 +505,14 @@ function AppInner() {
   function deleteSelectedEdge() {
     if (!isEditorActive || !selectedEdgeId) return;
     setEditorEdges((eds) => eds.filter((e) => e.id !== selectedEdgeId));
+    commitOperations([{ type: "removeEdge", edgeId: selectedEdgeId }]);
     setSelectedEdgeId(null);
     toast("Edge removed.");
   }
 
   function updateEditorNodeData(nodeId: string, updater: (fn: FlowNode) => FlowNode) {
+    const current = editorNodesRef.current.find((n) => n.id === nodeId)?.data.flowNode;
+    if (current) commitOperations([{ type: "updateNode", node: updater(current) }], { coalesceKey: `node:${nodeId}` });
     setEditorNodes((nds) => nds.map((n) => {
       if (n.id !== nodeId) return n;
       const updated = updater(n.data.flowNode);
@@ -314,8 +520,14 @@ function AppInner() {
     }));
   }
 
+  function updateEditorSettings(settings: FlowSettings | undefined) {
+    commitOperations([{ type: "updateSettings", settings }], { coalesceKey: "settings" });
+    setEditorSettings(settings);
+  }
+
   function updateEditorEdgeLabel(edgeId: string, label: string) {
     setEditorEdges((eds) => eds.map((e) => (e.id === edgeId ? { ...e, label: label || undefined } : e)));
+    commitOperations([{ type: "updateEdgeLabel", edgeId, label }], { coalesceKey: `edge:${edgeId}` });
   }
 
   /* ── email node actions (preview / edit / delete / status) ── */
@@ -357,6 +569,7 @@ function AppInner() {
     if (isEditorActive) {
       setEditorNodes((nds) => nds.filter((n) => n.id !== nodeId));
       setEditorEdges((eds) => eds.filter((e) => e.source !== nodeId && e.target !== nodeId));
+      commitOperations([{ type: "removeNode", nodeId }]);
     } else if (tab === "generate" && genResult) {
       setGenResult(prev => {
         if (!prev) return prev;
@@ -373,7 +586,7 @@ function AppInner() {
     }
     if (selectedNodeId === nodeId) setSelectedNodeId(null);
     toast("Node deleted.");
-  }, [isEditorActive, tab, genResult, activeFlowIndex, selectedNodeId]);
+  }, [isEditorActive, tab, genResult, activeFlowIndex, selectedNodeId, commitOperations]);
 
   const handleNodeStatusChange = useCallback((nodeId: string, status: MessageStatus) => {
     if (isEditorActive) {
@@ -441,11 +654,12 @@ function AppInner() {
   function switchEditorFlow(targetIndex: number) {
     if (targetIndex === activeEditorFlowIndex) return;
     if (targetIndex < 0 || targetIndex >= editorFlows.length) return;
+    resetEditorSession();
 
     /* Save current editor state back into editorFlows */
     const current = editorFlows[activeEditorFlowIndex];
     const snapshot = editorToFlowSpec(editorNodes, editorEdges, {
-      id: current.id, name: current.name, channels: current.channels, defaults: current.defaults,
+      id: current.id, name: current.name, channels: current.channels, defaults: current.defaults, settings: editorSettings,
     });
     setEditorFlows((flows) => flows.map((f, i) => (i === activeEditorFlowIndex ? snapshot : f)));
 
@@ -454,6 +668,8 @@ function AppInner() {
     const nodes = specToRfNodes(target);
     setEditorNodes(nodes);
     setEditorEdges(specToRfEdges(target, nodes));
+    setEditorSettings(target.settings);
+    setEditorMeta(editorFlowMeta(target));
     setActiveEditorFlowIndex(targetIndex);
     setSelectedNodeId(null);
     setSelectedEdgeId(null);
@@ -461,29 +677,38 @@ function AppInner() {
   }
 
   function resetEditorFlow() {
-    setEditorNodes([]); setEditorEdges([]);
+    resetEditorSession();
+    setEditorNodes([]); setEditorEdges([]); setEditorSettings(undefined); setEditorMeta(undefined);
     setEditorFlows([]); setActiveEditorFlowIndex(0);
+    setEditorGameplanFlowId(null);
     setSelectedNodeId(null); setSelectedEdgeId(null);
     toast("Editor reset.");
   }
 
   function loadPresetIntoEditor(choice: TemplateChoice) {
+    resetEditorSession();
     const spec = getSpecFromChoice(choice);
     const nodes = specToRfNodes(spec);
     setEditorNodes(nodes);
     setEditorEdges(specToRfEdges(spec, nodes));
+    setEditorSettings(spec.settings);
+    setEditorMeta(editorFlowMeta(spec));
     setEditorFlows([]); setActiveEditorFlowIndex(0);
+    setEditorGameplanFlowId(null);
     setSelectedNodeId(null);
     setSelectedEdgeId(null);
     toast.success(`Loaded "${spec.name}" preset into editor.`);
   }
 
   function openFlowInEditor(spec: FlowSpec) {
+    resetEditorSession();
     /* Use current auto-positioned nodes if they match the spec
-       (avoids recomputing from scratch with estimated heights). */
+       (avoids recomputing from scratch with estimated heights).
+       Saved positions from a stored gameplan always win. */
     const currentIds = new Set(flowNodes.map((n) => n.id));
     const specIds = new Set(spec.nodes.map((n) => n.id));
-    const match = specIds.size > 0 && [...specIds].every((id) => currentIds.has(id));
+    const hasSavedPositions = Object.keys(spec.ui?.nodePositions ?? {}).length > 0;
+    const match = !hasSavedPositions && specIds.size > 0 && [...specIds].every((id) => currentIds.has(id));
 
     if (match) {
       setEditorNodes(flowNodes.map((n) => ({ ...n, draggable: undefined })));
@@ -493,15 +718,190 @@ function AppInner() {
       setEditorNodes(nodes);
       setEditorEdges(specToRfEdges(spec, nodes));
     }
+    setEditorSettings(spec.settings);
+    setEditorMeta(editorFlowMeta(spec));
     setEditorFlows([]); setActiveEditorFlowIndex(0);
+    setEditorGameplanFlowId(spec.id);
     setSelectedNodeId(null);
     setSelectedEdgeId(null);
     setTab("editor");
     toast.success(`Loaded "${spec.name}" into editor.`);
   }
 
+  /* ── saved gameplans ── */
+
+  async function persistGameplan(result: GeneratedResult, revision: RevisionInfo): Promise<GeneratedResult> {
+    const body = {
+      brandName: result.brandName,
+      websiteUrl: result.websiteUrl,
+      brandProfile: result.brandProfile,
+      brandLogoUrl: result.brandLogoUrl,
+      brandColor: result.brandColor,
+      planKey: result.planKey,
+      planName: result.planName,
+      flows: result.flows,
+      runIds: result.runIds,
+      revision,
+    };
+    const res = await fetch(
+      result.gameplanId ? `${API_BASE}/api/gameplans/${result.gameplanId}` : `${API_BASE}/api/gameplans`,
+      {
+        method: result.gameplanId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }
+    );
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: "Saving gameplan failed" }));
+      throw new Error(err.error || "Saving gameplan failed");
+    }
+    const saved = (await res.json()) as Gameplan;
+    return { ...result, gameplanId: saved.id };
+  }
+
+  async function handleSaveGameplan(revision: RevisionInfo) {
+    if (!genResult) return;
+    setBusySaveGameplan(true);
+    try {
+      const saved = await persistGameplan(genResult, revision);
+      setGenResult(saved);
+      setSaveDialogTarget(null);
+      toast.success(genResult.gameplanId ? "Gameplan updated." : "Gameplan saved.");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Saving gameplan failed.");
+    } finally { setBusySaveGameplan(false); }
+  }
+
+  async function handleSaveEditorToGameplan(revision: RevisionInfo) {
+    if (!genResult || !editorGameplanFlowId) return;
+    const original = genResult.flows.find((f) => f.id === editorGameplanFlowId);
+    if (!original) { toast.error("This flow is no longer part of the gameplan."); return; }
+
+    const snapshot = editorToFlowSpec(editorNodes, editorEdges, {
+      id: original.id, name: original.name, channels: original.channels, defaults: original.defaults, settings: editorSettings,
+    });
+    const next = { ...genResult, flows: genResult.flows.map((f) => (f.id === original.id ? snapshot : f)) };
+
+    setBusySaveGameplan(true);
+    try {
+      const saved = await persistGameplan(next, revision);
+      setGenResult(saved);
+      setSaveDialogTarget(null);
+      toast.success(`Saved "${original.name}" to gameplan.`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Saving gameplan failed.");
+    } finally { setBusySaveGameplan(false); }
+  }
+
+  function openGameplan(gameplan: Gameplan) {
+    setGenResult({
+      gameplanId: gameplan.id,
+      websiteUrl: gameplan.websiteUrl,
+      brandProfile: gameplan.brandProfile,
+      planKey: gameplan.planKey,
+      planName: gameplan.planName,
+      brandName: gameplan.brandName,
+      brandLogoUrl: gameplan.brandLogoUrl,
+      brandColor: gameplan.brandColor,
+      flows: gameplan.flows,
+    });
+    setEditorGameplanFlowId(null);
+    prefillForecast(gameplan.brandProfile);
+    setGenBrand(gameplan.brandName);
+    setGenUrl(gameplan.websiteUrl ?? "");
+    setActiveFlowIndex(0);
+    setGenStep("done");
+    setGenError("");
+    switchTab("generate");
+    toast.success(`Opened "${gameplan.name}".`);
+  }
+
   /* ── generate flow gameplan ── */
 
+  function prefillForecast(profile: BrandProfile | undefined) {
+    if (!profile) return;
+    setForecastIndustry(profile.industry);
+    if (!forecastAov && profile.averageOrderValue !== "unknown") setForecastAov(profile.averageOrderValue);
+    if (!forecastListSize && profile.emailListSize !== "unknown") setForecastListSize(profile.emailListSize);
+  }
+
+
+  async function fetchSavedBrands() {
+    try {
+      const res = await fetch(`${API_BASE}/api/brands`);
+      if (res.ok) setSavedBrands((await res.json()) as SavedBrandSummary[]);
+    } catch {
+      /* the picker just stays empty */
+    }
+  }
+
+  async function loadSavedBrand(id: string): Promise<SavedBrand> {
+    const res = await fetch(`${API_BASE}/api/brands/${encodeURIComponent(id)}`);
+    if (!res.ok) throw new Error("Failed to load brand");
+    const brand = (await res.json()) as SavedBrand;
+    setSelectedBrand(brand);
+    setGenUrl(brand.websiteUrl);
+    setGenBrand(brand.brandName);
+    prefillForecast(brand.profile);
+    return brand;
+  }
+
+  async function handleSelectBrand(id: string) {
+    pendingAnalyzeRunRef.current = null;
+    if (!id) {
+      setSelectedBrand(null);
+      return;
+    }
+    try {
+      await loadSavedBrand(id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load brand.");
+    }
+  }
+
+  /* Analyzes the site and saves the profile as a brand; `refresh` skips the crawl cache */
+  async function analyzeAndSaveBrand(refresh: boolean, signal?: AbortSignal): Promise<SavedBrand> {
+    const hasQuestionnaire = questionnaireAnsweredCount > 0 || hasFilloutData;
+    const analyzeRes = await fetch(`${API_BASE}/api/analyze-brand`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      signal,
+      body: JSON.stringify({
+        websiteUrl: genUrl.trim(),
+        brandName: genBrand.trim(),
+        refresh,
+        ...(hasQuestionnaire ? { questionnaire: questionnaireData } : {})
+      })
+    });
+    if (!analyzeRes.ok) {
+      const err = await analyzeRes.json().catch(() => ({ error: "Brand analysis failed" }));
+      throw new Error(err.error || "Brand analysis failed");
+    }
+    const { runId, brandId } = (await analyzeRes.json()) as { profile: BrandProfile; runId?: string; brandId: string };
+    pendingAnalyzeRunRef.current = runId ?? null;
+    const brand = await loadSavedBrand(brandId);
+    fetchSavedBrands();
+    return brand;
+  }
+
+  async function handleAnalyzeBrand() {
+    if (!genUrl.trim() || !genBrand.trim()) {
+      setGenError("Please enter a website URL and brand name.");
+      return;
+    }
+    const reanalyze = !!selectedBrand;
+    setBusyAnalyze(true);
+    setGenError("");
+    try {
+      const brand = await analyzeAndSaveBrand(reanalyze);
+      toast.success(reanalyze ? `Re-analyzed ${brand.domain}.` : `Saved ${brand.domain}. Review the profile, then generate.`);
+      if (!reanalyze) setBrandProfileOpen(true);
+    } catch (err) {
+      setGenError(err instanceof Error ? err.message : "Brand analysis failed.");
+    } finally {
+      setBusyAnalyze(false);
+    }
+  }
 
   async function handleGenerate() {
     if (!genUrl.trim() || !genBrand.trim()) {
@@ -512,62 +912,150 @@ function AppInner() {
       setGenError("Please describe your flows.");
       return;
     }
+    const controller = new AbortController();
+    genAbortRef.current = controller;
     setGenBusy(true);
     setGenError("");
-    setGenStep("analyzing");
+    setGenStep(selectedBrand ? "generating" : "analyzing");
+    /* Filled in by stream callbacks, so kept in an object rather than narrowed locals */
+    const run: { result: GeneratedResult | null; slots: (FlowSpec | undefined)[]; fallbacks: number; error: string; done: boolean } = {
+      result: null, slots: [], fallbacks: 0, error: "", done: false
+    };
 
     try {
-      const hasQuestionnaire = questionnaireAnsweredCount > 0 || hasFilloutData;
-      const analyzeRes = await fetch(`${API_BASE}/api/analyze-brand`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          websiteUrl: genUrl.trim(),
-          brandName: genBrand.trim(),
-          ...(hasQuestionnaire ? { questionnaire: questionnaireData } : {})
-        })
-      });
-      if (!analyzeRes.ok) {
-        const err = await analyzeRes.json().catch(() => ({ error: "Brand analysis failed" }));
-        throw new Error(err.error || "Brand analysis failed");
-      }
-      const { profile } = (await analyzeRes.json()) as { profile: BrandProfile };
+      /* A saved brand is generated from as-is, edits included; otherwise analyze and save it first */
+      const { profile } = selectedBrand ?? (await analyzeAndSaveBrand(false, controller.signal));
+      const analyzeRunId = pendingAnalyzeRunRef.current;
+      pendingAnalyzeRunRef.current = null;
 
       setGenStep("generating");
       const genBody = genPlan === "custom"
         ? { customFlowText: customFlowText.trim(), brandProfile: profile }
         : { planKey: genPlan, brandProfile: profile };
 
-      const generateRes = await fetch(`${API_BASE}/api/generate-flows`, {
+      /* Aborting closes the stream, which stops the server's in-flight model calls */
+      const generateRes = await fetch(`${API_BASE}/api/generate-flows/stream`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
+        signal: controller.signal,
         body: JSON.stringify(genBody)
       });
       if (!generateRes.ok) {
         const err = await generateRes.json().catch(() => ({ error: "Flow generation failed" }));
         throw new Error(err.error || "Flow generation failed");
       }
-      const result = (await generateRes.json()) as GeneratedResult;
-      result.brandLogoUrl = profile.brandLogoUrl;
-      result.brandColor = profile.brandColor;
 
-      if (!result.flows || result.flows.length === 0) {
-        throw new Error("No flows were generated.");
-      }
+      /* Flows are shown as soon as the first one arrives; the rest fill in the sidebar list */
+      const setStatus = (flowId: string, status: GenerationFlowStatus) =>
+        setGenProgress((prev) => prev?.map((p) => (p.flowId === flowId ? { ...p, status } : p)) ?? prev);
+      await readEventStream(generateRes, (event, data) => {
+        if (event === "plan") {
+          const plan = data as { runId?: string; planKey: string; planName: string; brandName: string; flows: { flowId: string; name: string }[] };
+          run.result = {
+            planKey: plan.planKey,
+            planName: plan.planName,
+            brandName: plan.brandName,
+            brandLogoUrl: profile.brandLogoUrl,
+            brandColor: profile.brandColor,
+            websiteUrl: genUrl.trim(),
+            brandProfile: profile,
+            flows: [],
+            runIds: [analyzeRunId, plan.runId].filter((id): id is string => !!id)
+          };
+          setGenProgress(plan.flows.map((f) => ({ ...f, status: "pending" })));
+        } else if (event === "progress") {
+          const progress = data as { type: string; flowId: string };
+          if (progress.type === "started") setStatus(progress.flowId, "generating");
+          if (progress.type === "retry") setStatus(progress.flowId, "retrying");
+          if (progress.type === "fallback") {
+            run.fallbacks += 1;
+            setStatus(progress.flowId, "fallback");
+          }
+        } else if (event === "flow" && run.result) {
+          /* Flows finish in any order; each goes to its plan position so the list and the save keep plan order */
+          const { index, flow } = data as { index: number; flow: FlowSpec };
+          if (!Array.isArray(flow.nodes)) flow.nodes = [];
+          if (!Array.isArray(flow.edges)) flow.edges = [];
+          run.slots[index] = flow;
+          const position = run.slots.slice(0, index).filter(Boolean).length;
+          run.result = { ...run.result, flows: run.slots.filter((f): f is FlowSpec => !!f) };
+          setGenResult(run.result);
+          setStatus(flow.id, "done");
+          if (run.result.flows.length === 1) {
+            setEditorGameplanFlowId(null);
+            setActiveFlowIndex(0);
+            setGenStep("done");
+          } else {
+            /* Keep the open flow open when an earlier one lands in front of it */
+            setActiveFlowIndex((i) => (position <= i ? i + 1 : i));
+          }
+        } else if (event === "error") {
+          run.error = (data as { error?: string }).error || "Flow generation failed";
+        } else if (event === "done") {
+          run.done = true;
+        }
+      });
 
-      for (const flow of result.flows) {
-        if (!Array.isArray(flow.nodes)) flow.nodes = [];
-        if (!Array.isArray(flow.edges)) flow.edges = [];
+      if (!run.done && !run.error) run.error = "The connection closed before generation finished.";
+      if (!run.result || run.result.flows.length === 0) {
+        throw new Error(run.error || "No flows were generated.");
       }
-
-      setGenResult(result);
-      setActiveFlowIndex(0);
-      setGenStep("done");
+      if (run.error) toast.error(`Generation stopped after ${run.result.flows.length} flows: ${run.error}`);
+      else if (run.fallbacks > 0) toast.warning(`${run.fallbacks} flow${run.fallbacks > 1 ? "s" : ""} used placeholder content because the AI response could not be read.`);
     } catch (error) {
-      setGenError(error instanceof Error ? error.message : "Something went wrong.");
-      setGenStep("form");
+      const kept = run.result?.flows.length ?? 0;
+      if (controller.signal.aborted) {
+        toast(kept > 0 ? `Generation cancelled. Kept ${kept} finished flow${kept > 1 ? "s" : ""}.` : "Generation cancelled.");
+        if (kept === 0) setGenStep("form");
+      } else if (kept > 0) {
+        toast.error(error instanceof Error ? error.message : "Flow generation was interrupted.");
+      } else {
+        setGenError(error instanceof Error ? error.message : "Something went wrong.");
+        setGenStep("form");
+      }
     } finally {
+      if (genAbortRef.current === controller) genAbortRef.current = null;
       setGenBusy(false);
+      setGenProgress(null);
+    }
+  }
+
+  function handleRunReplayed({ runId, flows }: { runId: string; flows: FlowSpec[] }) {
+    const byId = new Map(flows.map((f) => [f.id, f]));
+    setGenResult((prev) => prev && {
+      ...prev,
+      flows: prev.flows.map((f) => byId.get(f.id) ?? f),
+      runIds: [...(prev.runIds ?? []), runId],
+    });
+    setRunLogFlowId(null);
+    toast.success(`Re-ran ${flows.length} flow${flows.length > 1 ? "s" : ""}. Save the gameplan to keep the new version; Flow History compares it with the old one.`);
+  }
+
+  function handleCancelGenerate() {
+    genAbortRef.current?.abort();
+  }
+
+  async function handleRegenerateFlow() {
+    const flow = genResult?.flows[activeFlowIndex];
+    if (!genResult?.gameplanId || !flow) return;
+    setRegeneratingFlowId(flow.id);
+    try {
+      const res = await fetch(`${API_BASE}/api/gameplans/${genResult.gameplanId}/flows/${flow.id}/regenerate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ revision: { message: `Regenerated "${flow.name}"` } })
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Regenerating flow failed" }));
+        throw new Error(err.error || "Regenerating flow failed");
+      }
+      const { flow: regenerated } = (await res.json()) as { flow: FlowSpec };
+      setGenResult((prev) => prev && { ...prev, flows: prev.flows.map((f) => (f.id === regenerated.id ? regenerated : f)) });
+      toast.success(`Regenerated "${flow.name}".`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Regenerating flow failed.");
+    } finally {
+      setRegeneratingFlowId(null);
     }
   }
 
@@ -597,7 +1085,7 @@ function AppInner() {
         throw new Error(err.error || "Chat request failed");
       }
 
-      const data = await res.json() as { reply: string; flowSpec?: unknown; action: string };
+      const data = await res.json() as { reply: string; flowSpec?: unknown; action: string; runId?: string };
       setChatMessages(prev => [...prev, { role: "assistant", content: data.reply }]);
 
       if (data.flowSpec) {
@@ -627,7 +1115,8 @@ function AppInner() {
           brandName: genBrand || "Custom",
           brandLogoUrl: genResult?.brandLogoUrl,
           brandColor: genResult?.brandColor,
-          flows: [spec]
+          flows: [spec],
+          runIds: data.runId ? [data.runId] : undefined
         };
         setGenResult(result);
         setActiveFlowIndex(0);
@@ -644,41 +1133,62 @@ function AppInner() {
   /* ── export / import ── */
 
   function getExportSpec(): FlowSpec {
-    if (isEditorActive) {
-      if (isMultiFlowEditor) {
-        const current = editorFlows[activeEditorFlowIndex];
-        return editorToFlowSpec(editorNodes, editorEdges, {
-          id: current.id, name: current.name, channels: current.channels, defaults: current.defaults,
-        });
-      }
-      return editorToFlowSpec(editorNodes, editorEdges);
-    }
-    if (tab === "generate" && activeGenFlow) return activeGenFlow as FlowSpec;
-    return editorToFlowSpec(editorNodes, editorEdges);
+    if (!isEditorActive && tab === "generate" && activeGenFlow) return activeGenFlow as FlowSpec;
+    return editorToFlowSpec(editorNodes, editorEdges, { ...editorMeta, settings: editorSettings });
   }
 
   function handleExportJson() {
     const spec = getExportSpec();
-    downloadBlob(new Blob([JSON.stringify(spec, null, 2)], { type: "application/json;charset=utf-8" }), `${spec.id}.json`);
+    downloadBlob(new Blob([JSON.stringify(withSchemaVersion(spec), null, 2)], { type: "application/json;charset=utf-8" }), `${spec.id}.json`);
     toast.success("Exported JSON.");
   }
 
   function handleExportAllJson() {
     if (!genResult) return;
     downloadBlob(
-      new Blob([JSON.stringify(genResult.flows, null, 2)], { type: "application/json;charset=utf-8" }),
+      new Blob([JSON.stringify(genResult.flows.map(withSchemaVersion), null, 2)], { type: "application/json;charset=utf-8" }),
       `${genResult.planKey}_all_flows.json`
     );
     toast.success("Exported all flows.");
   }
 
+  async function handleExportPdf() {
+    if (!genResult) return;
+    setBusyPdfExport(true);
+    try {
+      const res = await fetch(`${API_BASE}/api/gameplans/pdf`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: `${genResult.brandName} — ${genResult.planName}`,
+          brandName: genResult.brandName,
+          websiteUrl: genResult.websiteUrl,
+          brandProfile: genResult.brandProfile,
+          brandLogoUrl: genResult.brandLogoUrl,
+          brandColor: genResult.brandColor,
+          planKey: genResult.planKey,
+          planName: genResult.planName,
+          flows: genResult.flows,
+        })
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "PDF export failed" }));
+        throw new Error(err.error || "PDF export failed");
+      }
+      downloadBlob(await res.blob(), `${sanitizeId(genResult.brandName) || "gameplan"}_gameplan.pdf`);
+      toast.success("Exported gameplan PDF.");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "PDF export failed.");
+    } finally { setBusyPdfExport(false); }
+  }
+
   function handleExportAllEditorFlows() {
     if (!isMultiFlowEditor) return;
     /* Snapshot current editor state into the flows array before exporting */
     const current = editorFlows[activeEditorFlowIndex];
     const allFlows = editorFlows.map((flow, idx) =>
       idx === activeEditorFlowIndex
-        ? editorToFlowSpec(editorNodes, editorEdges, { id: current.id, name: current.name, channels: current.channels, defaults: current.defaults })
+        ? editorToFlowSpec(editorNodes, editorEdges, { id: current.id, name: current.name, channels: current.channels, defaults: current.defaults, settings: editorSettings })
         : flow
     );
     downloadBlob(
@@ -702,6 +1212,13 @@ function AppInner() {
     finally { setBusyPngExport(false); }
   }
 
+  function handleExportSvg() {
+    const spec = getExportSpec();
+    const svg = renderFlowSvg(spec, { accentColor: (tab === "generate" && genResult?.brandColor) || undefined });
+    downloadBlob(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }), `${spec.id}.svg`);
+    toast.success("Exported SVG.");
+  }
+
   async function handleImportJson(event: ChangeEvent<HTMLInputElement>) {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -711,30 +1228,46 @@ function AppInner() {
 
       const items: unknown[] = Array.isArray(raw) ? raw : [raw];
 
-      /* Validate and parse every flow in the file */
+      /* Upgrade older exports to the current schema, then validate and parse every flow in the file */
       const specs: FlowSpec[] = [];
+      let upgraded = 0;
+      let tooNew = 0;
       for (const item of items) {
         if (!item || typeof item !== "object") continue;
         const obj = item as Record<string, unknown>;
         if (!Array.isArray(obj.nodes) || !Array.isArray(obj.edges)) continue;
 
-        const normalized = normalizeFlowSpecCandidate(obj);
+        const migration = migrateFlowSpec(obj);
+        if (migration.fromVersion > CURRENT_FLOW_SCHEMA_VERSION) {
+          tooNew += 1;
+          continue;
+        }
+        if (migration.applied.length > 0) upgraded += 1;
+        const normalized = normalizeFlowSpecCandidate(migration.spec);
         const result = parseFlowSpecSafe(normalized);
         specs.push(result.success ? result.data : normalized as FlowSpec);
       }
 
+      if (tooNew > 0) {
+        toast.error(`Skipped ${tooNew} flow${tooNew > 1 ? "s" : ""} saved by a newer version of the app (schema version above ${CURRENT_FLOW_SCHEMA_VERSION}).`);
+      }
       if (specs.length === 0) {
-        toast.error("Invalid flow JSON — no valid flows found.");
+        if (tooNew === 0) toast.error("Invalid flow JSON — no valid flows found.");
         return;
       }
+      if (upgraded > 0) toast(`Upgraded ${upgraded} flow${upgraded > 1 ? "s" : ""} from an older export format.`);
 
+      resetEditorSession();
       setSelectedNodeId(null);
       setSelectedEdgeId(null);
+      setEditorGameplanFlowId(null);
 
       /* Load first flow into editor canvas */
       const nodes = specToRfNodes(specs[0]);
       setEditorNodes(nodes);
       setEditorEdges(specToRfEdges(specs[0], nodes));
+      setEditorSettings(specs[0].settings);
+      setEditorMeta(editorFlowMeta(specs[0]));
 
       if (specs.length === 1) {
         /* Single flow → clear multi-flow state */
@@ -771,7 +1304,82 @@ function AppInner() {
     } finally { setBusyMiroExport(false); }
   }
 
+  function handleExportKlaviyoJson() {
+    const spec = getExportSpec();
+    const draft = buildKlaviyoFlowDefinition(spec);
+    downloadBlob(
+      new Blob([JSON.stringify(draft, null, 2)], { type: "application/json;charset=utf-8" }),
+      `${spec.id}_klaviyo.json`
+    );
+    if (draft.warnings.length > 0) toast.warning(`Exported Klaviyo JSON with ${draft.warnings.length} warning(s) — see the "warnings" field.`);
+    else toast.success("Exported Klaviyo JSON.");
+  }
+
+  async function handleExportKlaviyo() {
+    setBusyKlaviyoExport(true);
+    try {
+      const res = await fetch(`${API_BASE}/api/klaviyo/export`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ flowSpec: getExportSpec() })
+      });
+      const data = await res.json().catch(() => ({ error: "Klaviyo export failed" }));
+      if (!res.ok) throw new Error(data.error || "Klaviyo export failed");
+      const { flowId, warnings } = data as { flowId: string; warnings: string[] };
+      if (warnings.length > 0) console.warn("Klaviyo export warnings:", warnings);
+      toast.success(`Created draft Klaviyo flow ${flowId}${warnings.length ? ` (${warnings.length} warning(s), see console)` : ""}.`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Klaviyo export failed.");
+    } finally { setBusyKlaviyoExport(false); }
+  }
+
+  function loadKlaviyoImport(spec: FlowSpec, warnings: string[]) {
+    resetEditorSession();
+    const nodes = specToRfNodes(spec);
+    setEditorNodes(nodes);
+    setEditorEdges(specToRfEdges(spec, nodes));
+    setEditorSettings(spec.settings);
+    setEditorMeta(editorFlowMeta(spec));
+    setEditorFlows([]); setActiveEditorFlowIndex(0);
+    setEditorGameplanFlowId(null);
+    setSelectedNodeId(null); setSelectedEdgeId(null);
+    if (warnings.length > 0) console.warn("Klaviyo import warnings:", warnings);
+    toast.success(`Imported "${spec.name}" from Klaviyo${warnings.length ? ` (${warnings.length} warning(s), see console)` : ""}.`);
+  }
+
+  async function handleImportKlaviyoJson(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const { flowSpec, warnings } = importKlaviyoFlow(JSON.parse(await file.text()));
+      loadKlaviyoImport(flowSpec, warnings);
+    } catch (err) {
+      console.error("Klaviyo import failed:", err);
+      toast.error("Could not convert this file into a flow.");
+    }
+    finally { event.target.value = ""; }
+  }
+
+  async function handlePullKlaviyoFlow() {
+    if (!klaviyoFlowId.trim()) { toast.error("Enter a Klaviyo flow ID."); return; }
+    setBusyKlaviyoImport(true);
+    try {
+      const res = await fetch(`${API_BASE}/api/klaviyo/import`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ flowId: klaviyoFlowId.trim() })
+      });
+      const data = await res.json().catch(() => ({ error: "Klaviyo import failed" }));
+      if (!res.ok) throw new Error(data.error || "Klaviyo import failed");
+      const { flowSpec, warnings } = data as { flowSpec: FlowSpec; warnings: string[] };
+      loadKlaviyoImport(flowSpec, warnings);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Klaviyo import failed.");
+    } finally { setBusyKlaviyoImport(false); }
+  }
+
   function switchTab(next: AppTab) {
+    if (next !== "editor") endLiveSession();
     setSelectedNodeId(null);
     setSelectedEdgeId(null);
     setTab(next);
@@ -781,6 +1389,7 @@ function AppInner() {
 
   const TAB_ITEMS: { value: AppTab; label: string }[] = [
     { value: "generate", label: "Generate" },
+    { value: "gameplans", label: "Gameplans" },
     { value: "library", label: "Library" },
     { value: "editor", label: "Editor" },
   ];
@@ -816,6 +1425,14 @@ function AppInner() {
                 </div>
               )}
 
+              {/* gameplans sidebar */}
+              {tab === "gameplans" && (
+                <div className="rounded-xl border border-sidebar-border bg-sidebar-card p-3 flex flex-col gap-1">
+                  <p className="text-xs font-semibold text-sidebar-section-header uppercase tracking-wider px-1 pb-1">Saved Gameplans</p>
+                  <p className="text-xs text-sidebar-muted px-1">Open a saved gameplan to keep editing it. Saving from the Generate tab or the editor updates the stored copy.</p>
+                </div>
+              )}
+
               {/* generate sidebar */}
               {tab === "generate" && (
                 genStep === "done" && genResult ? (
@@ -824,7 +1441,9 @@ function AppInner() {
                     <div className="rounded-xl border border-sidebar-border bg-sidebar-card p-3 flex flex-col gap-2">
                       <div className="px-1">
                         <p className="text-xs font-semibold text-sidebar-section-header uppercase tracking-wider">Generated Flows</p>
-                        <p className="text-[13px] font-medium text-sidebar-muted mt-0.5">{genResult.brandName} · {genResult.flows.length} flows</p>
+                        <p className="text-[13px] font-medium text-sidebar-muted mt-0.5">
+                          {genResult.brandName} · {genProgress ? `${genResult.flows.length} of ${genProgress.length} flows` : `${genResult.flows.length} flows`}
+                        </p>
                       </div>
                       <div className="flex flex-col gap-1 max-h-[360px] overflow-y-auto">
                         {genResult.flows.map((flow, idx) => (
@@ -841,8 +1460,25 @@ function AppInner() {
                             <span className="block truncate">{flow.name}</span>
                           </button>
                         ))}
+                        {genProgress?.filter((p) => p.status !== "done").map((p) => (
+                          <div key={p.flowId} className="flex items-center gap-2 px-3 py-2.5 rounded-lg text-[13px] text-sidebar-muted border border-transparent">
+                            {p.status === "generating" || p.status === "retrying"
+                              ? <div className="w-3 h-3 border-2 border-muted border-t-primary rounded-full animate-spin shrink-0" />
+                              : <Clock className="w-3 h-3 shrink-0" />}
+                            <span className="truncate">{p.name}</span>
+                            <span className="ml-auto text-[11px] shrink-0">{p.status === "generating" ? "Writing..." : p.status === "retrying" ? "Retrying..." : p.status === "fallback" ? "Placeholder" : "Queued"}</span>
+                          </div>
+                        ))}
                       </div>
+                      {genBusy && (
+                        <Button variant="outline" size="sm" onClick={handleCancelGenerate}>
+                          <X className="w-3.5 h-3.5 mr-1.5" />
+                          Cancel Generation
+                        </Button>
+                      )}
                     </div>
+                    <GameplanChecksCard issues={gameplanIssues} flows={genResult.flows} onSelectFlow={setActiveFlowIndex} />
+                    <UsageCard gameplanId={genResult.gameplanId} runIds={genResult.runIds ?? []} busy={genBusy || regeneratingFlowId !== null} />
                     {/* Actions card */}
                     <div className="rounded-xl border border-sidebar-border bg-sidebar-card p-3 flex flex-col gap-2">
                       <p className="text-xs font-semibold text-sidebar-section-header uppercase tracking-wider px-1">Actions</p>
@@ -850,10 +1486,40 @@ function AppInner() {
                         <Pencil className="w-3.5 h-3.5 mr-1.5" />
                         Edit in Editor
                       </Button>
+                      <Button variant="outline" size="sm" onClick={() => setSaveDialogTarget("generate")} disabled={busySaveGameplan || genBusy}>
+                        <Save className="w-3.5 h-3.5 mr-1.5" />
+                        {busySaveGameplan ? "Saving..." : genResult.gameplanId ? "Update Gameplan" : "Save Gameplan"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleRegenerateFlow}
+                        disabled={!genResult.gameplanId || genBusy || regeneratingFlowId !== null}
+                        title={genResult.gameplanId ? "Generate this flow again and save it as a new revision" : "Save the gameplan first"}
+                      >
+                        <RefreshCw className={`w-3.5 h-3.5 mr-1.5 ${regeneratingFlowId ? "animate-spin" : ""}`} />
+                        {regeneratingFlowId ? "Regenerating..." : "Regenerate Flow"}
+                      </Button>
+                      {genResult.gameplanId && (
+                        <Button variant="outline" size="sm" onClick={() => setHistoryFlowId(genResult.flows[activeFlowIndex]?.id ?? null)}>
+                          <History className="w-3.5 h-3.5 mr-1.5" />
+                          Flow History
+                        </Button>
+                      )}
+                      {(genResult.gameplanId || (genResult.runIds?.length ?? 0) > 0) && (
+                        <Button variant="outline" size="sm" onClick={() => setRunLogFlowId(genResult.flows[activeFlowIndex]?.id ?? null)}>
+                          <ScrollText className="w-3.5 h-3.5 mr-1.5" />
+                          Generation Log
+                        </Button>
+                      )}
                       <Button variant="outline" size="sm" onClick={handleExportAllJson}>
                         <Download className="w-3.5 h-3.5 mr-1.5" />
                         Export All (JSON)
                       </Button>
+                      <Button variant="outline" size="sm" onClick={handleExportPdf} disabled={busyPdfExport}>
+                        <FileText className="w-3.5 h-3.5 mr-1.5" />
+                        {busyPdfExport ? "Rendering..." : "Export PDF"}
+                      </Button>
                       <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive hover:bg-destructive/10" onClick={() => { setGenStep("form"); setGenResult(null); }}>
                         <RotateCcw className="w-3.5 h-3.5 mr-1.5" />
                         New Generation
@@ -901,17 +1567,67 @@ function AppInner() {
                       )}
                     </div>
 
+                    {genPlan !== "custom" && (
+                      <PlanForecastCard
+                        averageOrderValue={forecastAov}
+                        emailListSize={forecastListSize}
+                        industry={forecastIndustry}
+                        selectedPlan={genPlan}
+                        disabled={genBusy}
+                        onChange={(field, value) => (field === "averageOrderValue" ? setForecastAov(value) : setForecastListSize(value))}
+                      />
+                    )}
+
                     {/* Brand details card */}
                     <div className="rounded-xl border border-sidebar-border bg-sidebar-card p-4 flex flex-col gap-3">
                       <p className="text-xs font-semibold text-sidebar-section-header uppercase tracking-wider">Brand</p>
+                      {savedBrands.length > 0 && (
+                        <div className="flex flex-col gap-1.5">
+                          <Label htmlFor="gen-saved-brand" className="text-[13px] font-medium text-sidebar-foreground">Saved brand</Label>
+                          <select
+                            id="gen-saved-brand"
+                            className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-[13px] text-foreground ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                            value={selectedBrand?.id ?? ""}
+                            onChange={(e) => handleSelectBrand(e.target.value)}
+                            disabled={genBusy || busyAnalyze}
+                          >
+                            <option value="">New brand</option>
+                            {savedBrands.map((b) => (
+                              <option key={b.id} value={b.id}>{b.brandName} · {b.domain}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+
                       <div className="flex flex-col gap-1.5">
                         <Label htmlFor="gen-url" className="text-[13px] font-medium text-sidebar-foreground">Client website URL</Label>
-                        <Input id="gen-url" type="url" placeholder="https://example.com" value={genUrl} onChange={(e) => setGenUrl(e.target.value)} disabled={genBusy} />
+                        <Input id="gen-url" type="url" placeholder="https://example.com" value={genUrl} onChange={(e) => setGenUrl(e.target.value)} disabled={genBusy || busyAnalyze || !!selectedBrand} />
                       </div>
 
                       <div className="flex flex-col gap-1.5">
                         <Label htmlFor="gen-brand" className="text-[13px] font-medium text-sidebar-foreground">Brand name</Label>
-                        <Input id="gen-brand" type="text" placeholder="Brand Name" value={genBrand} onChange={(e) => setGenBrand(e.target.value)} disabled={genBusy} />
+                        <Input id="gen-brand" type="text" placeholder="Brand Name" value={genBrand} onChange={(e) => setGenBrand(e.target.value)} disabled={genBusy || busyAnalyze || !!selectedBrand} />
+                      </div>
+
+                      <div className="flex flex-col gap-1.5">
+                        <Label className="text-[13px] font-medium text-sidebar-foreground">Brand Profile</Label>
+                        <div className="flex gap-2">
+                          {selectedBrand && (
+                            <Button variant="outline" size="sm" className="flex-1 justify-start" onClick={() => setBrandProfileOpen(true)} disabled={genBusy || busyAnalyze}>
+                              <Pencil className="w-4 h-4 mr-1.5" />
+                              Edit profile
+                            </Button>
+                          )}
+                          <Button variant="outline" size="sm" className="flex-1 justify-start" onClick={handleAnalyzeBrand} disabled={genBusy || busyAnalyze}>
+                            <Sparkles className="w-4 h-4 mr-1.5" />
+                            {busyAnalyze ? "Analyzing..." : selectedBrand ? "Re-analyze" : "Analyze only"}
+                          </Button>
+                        </div>
+                        <p className="text-xs text-sidebar-muted">
+                          {selectedBrand
+                            ? `Analyzed ${new Date(selectedBrand.analyzedAt).toLocaleDateString()}${selectedBrand.editedAt ? ", edited since" : ""}. Generating reuses this profile.`
+                            : "Analyze first to review the profile before generating, or generate straight away."}
+                        </p>
                       </div>
 
                       <div className="flex flex-col gap-1.5">
@@ -947,6 +1663,12 @@ function AppInner() {
                         : <>Generate Gameplan</>
                       }
                     </Button>
+                    {genBusy && (
+                      <Button variant="outline" className="w-full" onClick={handleCancelGenerate}>
+                        <X className="w-4 h-4 mr-1.5" />
+                        Cancel
+                      </Button>
+                    )}
 
                     {genError && <p className="text-[13px] font-medium text-destructive">{genError}</p>}
                   </div>
@@ -982,6 +1704,18 @@ function AppInner() {
                     </div>
                   )}
 
+                  {/* ── Live session card ── */}
+                  <CollaborationCard
+                    status={collab.status}
+                    peers={collab.peers}
+                    roomId={collabRoomId}
+                    name={collabName}
+                    onRoomIdChange={setCollabRoomId}
+                    onNameChange={setCollabName}
+                    onJoin={handleJoinLiveSession}
+                    onLeave={endLiveSession}
+                  />
+
                   {/* ── Preset card ── */}
                   <div className="rounded-xl border border-sidebar-border bg-sidebar-card p-3 flex flex-col gap-2">
                     <p className="text-xs font-semibold text-sidebar-section-header uppercase tracking-wider px-1">Preset</p>
@@ -1008,13 +1742,13 @@ function AppInner() {
                     {([
                       { label: "Actions", kinds: ["trigger", "email", "sms", "outcome"] as NodeKind[] },
                       { label: "Timing", kinds: ["wait"] as NodeKind[] },
-                      { label: "Logic", kinds: ["split", "profileFilter", "merge"] as NodeKind[] },
+                      { label: "Logic", kinds: ["split", "abSplit", "profileFilter", "merge"] as NodeKind[] },
                     ]).map((category) => (
                       <div key={category.label}>
                         <p className="text-[11px] font-medium text-sidebar-muted uppercase tracking-wide mb-1.5 px-1">{category.label}</p>
                         <div className="grid grid-cols-2 gap-1.5">
                           {category.kinds.map((kind) => {
-                            const displayLabel = kind === "profileFilter" ? "Filter" : kind.charAt(0).toUpperCase() + kind.slice(1);
+                            const displayLabel = kind === "profileFilter" ? "Filter" : kind === "abSplit" ? "A/B Split" : kind.charAt(0).toUpperCase() + kind.slice(1);
                             return (
                               <button key={kind} type="button" draggable
                                 onDragStart={(e) => { e.dataTransfer.setData("application/flow-node-kind", kind); e.dataTransfer.effectAllowed = "move"; }}
@@ -1029,6 +1763,35 @@ function AppInner() {
                     <p className="text-xs text-sidebar-muted px-1">Drag onto canvas or click to append.</p>
                   </div>
 
+                  {/* ── Flow settings card ── */}
+                  {editorNodes.length > 0 && (
+                    <FlowSettingsCard
+                      settings={editorSettings}
+                      hasSms={editorNodes.some((n) => n.data.flowNode.type === "message" && n.data.flowNode.channel === "sms")}
+                      onChange={updateEditorSettings}
+                    />
+                  )}
+
+                  {/* ── Gameplan card ── */}
+                  {editorGameplanFlowId && genResult && (
+                    <div className="rounded-xl border border-sidebar-border bg-sidebar-card p-3 flex flex-col gap-2">
+                      <div className="px-1">
+                        <p className="text-xs font-semibold text-sidebar-section-header uppercase tracking-wider">Gameplan</p>
+                        <p className="text-[13px] font-medium text-sidebar-muted mt-0.5 truncate">{genResult.brandName} · {genResult.planName}</p>
+                      </div>
+                      <Button size="sm" onClick={() => setSaveDialogTarget("editor")} disabled={busySaveGameplan}>
+                        <Save className="w-3.5 h-3.5 mr-1.5" />
+                        {busySaveGameplan ? "Saving..." : "Save to Gameplan"}
+                      </Button>
+                      {genResult.gameplanId && (
+                        <Button variant="outline" size="sm" onClick={() => setHistoryFlowId(editorGameplanFlowId)}>
+                          <History className="w-3.5 h-3.5 mr-1.5" />
+                          Flow History
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
                   {/* ── Reset ── */}
                   <Button variant="ghost" size="sm" className="text-destructive/80 hover:text-destructive hover:bg-destructive/10" onClick={resetEditorFlow}>
                     <RotateCcw className="w-3.5 h-3.5 mr-1.5" />
@@ -1036,10 +1799,17 @@ function AppInner() {
                   </Button>
                 </div>
               )}
+
+              {isCanvasActive && canvasLints.length > 0 && (
+                <FlowLintCard
+                  lints={canvasLints}
+                  onSelectNode={(nodeId) => { setSelectedNodeId(nodeId); setSelectedEdgeId(null); }}
+                />
+              )}
             </div>
 
             {/* ── export section (bottom of sidebar) ── */}
-            {tab !== "library" && (
+            {tab !== "library" && tab !== "gameplans" && (
               <div className="border-t border-sidebar-border bg-sidebar-card px-3 py-4 flex flex-col gap-3">
                 <div className="rounded-xl border border-sidebar-border bg-sidebar p-3 flex flex-col gap-2">
                   <p className="text-xs font-semibold text-sidebar-section-header uppercase tracking-wider px-1">Export</p>
@@ -1052,6 +1822,10 @@ function AppInner() {
                       <Image className="w-3.5 h-3.5 mr-1" />
                       {busyPngExport ? "..." : "PNG"}
                     </Button>
+                    <Button variant="outline" size="sm" className="flex-1" onClick={handleExportSvg} disabled={!hasContent}>
+                      <PenTool className="w-3.5 h-3.5 mr-1" />
+                      SVG
+                    </Button>
                   </div>
                   {isEditorActive && (
                     <>
@@ -1078,6 +1852,32 @@ function AppInner() {
                     {busyMiroExport ? "Exporting..." : "Export to Miro"}
                   </Button>
                 </div>
+                <div className="rounded-xl border border-sidebar-border bg-sidebar p-3 flex flex-col gap-2">
+                  <p className="text-xs font-semibold text-sidebar-section-header uppercase tracking-wider px-1">Klaviyo</p>
+                  <Button variant="outline" size="sm" onClick={handleExportKlaviyoJson} disabled={!hasContent}>
+                    <FileJson className="w-3.5 h-3.5 mr-1.5" />
+                    Klaviyo JSON
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleExportKlaviyo} disabled={!hasContent || busyKlaviyoExport}>
+                    <Send className="w-3.5 h-3.5 mr-1.5" />
+                    {busyKlaviyoExport ? "Exporting..." : "Push to Klaviyo"}
+                  </Button>
+                  {isEditorActive && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => klaviyoImportInputRef.current?.click()}>
+                        <Upload className="w-3.5 h-3.5 mr-1.5" />
+                        Import Klaviyo JSON
+                      </Button>
+                      <input ref={klaviyoImportInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportKlaviyoJson} />
+                      <div className="flex gap-2">
+                        <Input className="h-8 text-[13px] rounded-lg" placeholder="Klaviyo flow ID" value={klaviyoFlowId} onChange={(e) => setKlaviyoFlowId(e.target.value)} />
+                        <Button variant="outline" size="sm" className="h-8 shrink-0" onClick={handlePullKlaviyoFlow} disabled={busyKlaviyoImport}>
+                          {busyKlaviyoImport ? "..." : "Pull"}
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </div>
               </div>
             )}
           </aside>
@@ -1110,6 +1910,8 @@ function AppInner() {
             <div className="flex-1 bg-canvas relative" ref={canvasCaptureRef}>
               {tab === "library" ? (
                 <LibraryView activeType={libraryActiveType} />
+              ) : tab === "gameplans" ? (
+                <GameplansView onOpen={openGameplan} />
               ) : tab === "generate" && genStep !== "done" ? (
                 <div className="flex items-center justify-center h-full">
                   <div className="text-center max-w-md px-6">
@@ -1117,7 +1919,15 @@ function AppInner() {
                       <>
                         <div className="w-10 h-10 border-4 border-muted border-t-primary rounded-full animate-spin mx-auto mb-4" />
                         <p className="text-muted-foreground">{genStep === "analyzing" ? "Analyzing brand website..." : "Generating tailored flows..."}</p>
-                        <p className="text-xs text-muted-foreground mt-2">This may take 30-60 seconds depending on the plan size.</p>
+                        <p className="text-xs text-muted-foreground mt-2">
+                          {genProgress?.some((p) => p.status === "generating")
+                            ? `Writing ${genProgress.filter((p) => p.status === "generating").map((p) => p.name).join(", ")}. Each flow appears as soon as it is ready.`
+                            : "This may take 30-60 seconds depending on the plan size."}
+                        </p>
+                        <Button variant="outline" size="sm" className="mt-4" onClick={handleCancelGenerate}>
+                          <X className="w-3.5 h-3.5 mr-1.5" />
+                          Cancel
+                        </Button>
                       </>
                     ) : (
                       <>
@@ -1143,6 +1953,27 @@ function AppInner() {
                   onNodesChange={handleNodesChange}
                   onEdgesChange={handleEdgesChange}
                   onConnect={handleConnect}
+                  onNodeDragStart={(_, node, dragged) => {
+                    dragStartRef.current = new Map((dragged.length > 0 ? dragged : [node]).map((n) => [n.id, { ...n.position }]));
+                  }}
+                  onNodeDragStop={(_, node, dragged) => {
+                    if (!isEditorActive) return;
+                    /* One undo step per drag, however many nodes moved */
+                    const moved = (dragged.length > 0 ? dragged : [node]).filter((n) => {
+                      const start = dragStartRef.current.get(n.id);
+                      return start && (start.x !== n.position.x || start.y !== n.position.y);
+                    });
+                    if (moved.length === 0) return;
+                    commitOperations(
+                      moved.map((n) => ({ type: "moveNode", nodeId: n.id, position: n.position })),
+                      { undo: moved.map((n) => ({ type: "moveNode", nodeId: n.id, position: dragStartRef.current.get(n.id)! })) }
+                    );
+                  }}
+                  onMouseMove={(event) => {
+                    if (!isLive || !reactFlowRef.current) return;
+                    collab.sendPresence({ cursor: reactFlowRef.current.screenToFlowPosition({ x: event.clientX, y: event.clientY }) });
+                  }}
+                  onMouseLeave={() => { if (isLive) collab.sendPresence({ cursor: null }); }}
                   onNodeClick={(_, node) => { setSelectedNodeId(node.id); setSelectedEdgeId(null); }}
                   onEdgeClick={(_, edge) => { setSelectedEdgeId(edge.id); setSelectedNodeId(null); }}
                   onPaneClick={() => { setSelectedNodeId(null); setSelectedEdgeId(null); }}
@@ -1151,7 +1982,7 @@ function AppInner() {
                     if (!isEditorActive || !reactFlowRef.current) return;
                     event.preventDefault();
                     const rawKind = event.dataTransfer.getData("application/flow-node-kind");
-                    const allowed: NodeKind[] = ["trigger", "email", "sms", "wait", "split", "outcome", "profileFilter", "merge"];
+                    const allowed: NodeKind[] = ["trigger", "email", "sms", "wait", "split", "abSplit", "outcome", "profileFilter", "merge"];
                     if (!allowed.includes(rawKind as NodeKind)) return;
                     appendEditorNode(rawKind as NodeKind, reactFlowRef.current.screenToFlowPosition({ x: event.clientX, y: event.clientY }));
                   }}
@@ -1162,6 +1993,17 @@ function AppInner() {
                   <Background color={theme === "dark" ? "rgba(255,255,255,0.06)" : "#e2e8f0"} gap={24} />
                   <MiniMap pannable zoomable />
                   <Controls />
+                  {isEditorActive && (
+                    <Panel position="top-left" className="flex gap-1">
+                      <Button variant="outline" size="sm" onClick={history.undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)">
+                        <Undo2 className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={history.redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)">
+                        <Redo2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </Panel>
+                  )}
+                  {isEditorActive && isLive && <CollaboratorCursors peers={collab.peers} />}
                 </ReactFlow>
               )}
               {tab === "generate" && (
@@ -1211,6 +2053,36 @@ function AppInner() {
                   </div>
                 )}
 
+                {selectedFlowNode.type === "abSplit" && (
+                  <div className="flex flex-col gap-1.5">
+                    <Label>Variant weights (%)</Label>
+                    {selectedFlowNode.variants.map((variant, index) => (
+                      <div key={variant.label} className="flex items-center gap-2">
+                        <span className="w-16 truncate text-sm font-medium">{variant.label}</span>
+                        <Input type="number" min={1} max={99} value={variant.weight} disabled={!isEditorActive} aria-label={`${variant.label} weight`}
+                          onChange={(e) => {
+                            if (!isEditorActive) return;
+                            const weight = Math.min(99, Math.max(1, Math.round(+e.target.value) || 1));
+                            updateEditorNodeData(selectedFlowNode.id, (fn) => fn.type === "abSplit"
+                              ? { ...fn, variants: fn.variants.map((v, i) => (i === index ? { ...v, weight } : v)) }
+                              : fn);
+                          }} />
+                      </div>
+                    ))}
+                    {selectedFlowNode.variants.reduce((sum, v) => sum + v.weight, 0) !== 100 && (
+                      <p className="text-xs text-destructive">Weights add up to {selectedFlowNode.variants.reduce((sum, v) => sum + v.weight, 0)}%; they must total 100%.</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">Label each outgoing edge with its variant name.</p>
+                  </div>
+                )}
+
+                {"rule" in selectedFlowNode && selectedFlowNode.rule && (
+                  <div className="flex flex-col gap-1.5">
+                    <Label>Structured rule</Label>
+                    <Textarea value={describeCondition(selectedFlowNode.rule)} disabled rows={2} />
+                  </div>
+                )}
+
                 {"copyHint" in selectedFlowNode && selectedFlowNode.copyHint && (
                   <div className="flex flex-col gap-1.5">
                     <Label>Copy hint</Label>
@@ -1315,6 +2187,46 @@ function AppInner() {
         data={questionnaireData}
         onSave={setQuestionnaireData}
       />
+      <BrandProfileDialog
+        open={brandProfileOpen}
+        onOpenChange={setBrandProfileOpen}
+        brand={selectedBrand}
+        onSaved={(brand) => {
+          setSelectedBrand(brand);
+          setGenBrand(brand.brandName);
+          fetchSavedBrands();
+          toast.success("Brand profile saved.");
+        }}
+      />
+
+      <SaveGameplanDialog
+        open={saveDialogTarget !== null}
+        onOpenChange={(open) => { if (!open) setSaveDialogTarget(null); }}
+        busy={busySaveGameplan}
+        onSave={(info) => (saveDialogTarget === "editor" ? handleSaveEditorToGameplan(info) : handleSaveGameplan(info))}
+      />
+
+      {genResult?.gameplanId && historyFlowId && (
+        <RevisionHistoryDialog
+          open
+          onOpenChange={(open) => { if (!open) setHistoryFlowId(null); }}
+          gameplanId={genResult.gameplanId}
+          flowId={historyFlowId}
+          flowName={genResult.flows.find((f) => f.id === historyFlowId)?.name ?? historyFlowId}
+        />
+      )}
+
+      {genResult && runLogFlowId && (
+        <RunLogDialog
+          open
+          onOpenChange={(open) => { if (!open) setRunLogFlowId(null); }}
+          gameplanId={genResult.gameplanId}
+          runIds={genResult.runIds ?? []}
+          flowId={runLogFlowId}
+          flowName={genResult.flows.find((f) => f.id === runLogFlowId)?.name ?? runLogFlowId}
+          onReplayed={handleRunReplayed}
+        />
+      )}
     </ReactFlowProvider>
   );
 }
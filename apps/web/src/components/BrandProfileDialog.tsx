@@ -0,0 +1,160 @@
+import { useEffect, useState, type ChangeEvent } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Check } from "lucide-react";
+import type { BrandProfile, SavedBrand } from "@/types/flow";
+import { API_BASE } from "@/constants";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  brand: SavedBrand | null;
+  onSaved: (brand: SavedBrand) => void;
+};
+
+type Form = {
+  brandName: string;
+  keyProducts: string;
+  uniqueSellingPoints: string;
+  brandVoice: string;
+  brandTone: string;
+  targetAudience: string;
+  discountApproach: string;
+  specialInstructions: string;
+};
+
+/* List fields are edited one item per line */
+function toForm(brand: SavedBrand): Form {
+  const p = brand.profile;
+  return {
+    brandName: brand.brandName,
+    keyProducts: p.keyProducts.join("\n"),
+    uniqueSellingPoints: p.uniqueSellingPoints.join("\n"),
+    brandVoice: p.brandVoice,
+    brandTone: p.brandTone,
+    targetAudience: p.targetAudience,
+    discountApproach: p.discountApproach,
+    specialInstructions: p.specialInstructions,
+  };
+}
+
+function lines(value: string): string[] {
+  return value.split("\n").map((l) => l.trim()).filter(Boolean);
+}
+
+export function BrandProfileDialog({ open, onOpenChange, brand, onSaved }: Props) {
+  const [form, setForm] = useState<Form | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (open && brand) {
+      setForm(toForm(brand));
+      setError("");
+    }
+  }, [open, brand]);
+
+  if (!brand || !form) return null;
+
+  const set = (field: keyof Form) => (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm((prev) => prev && { ...prev, [field]: e.target.value });
+
+  async function handleSave() {
+    if (!brand || !form) return;
+    setSaving(true);
+    setError("");
+    const profile: Partial<BrandProfile> = {
+      brandName: form.brandName.trim() || brand.brandName,
+      keyProducts: lines(form.keyProducts),
+      uniqueSellingPoints: lines(form.uniqueSellingPoints),
+      brandVoice: form.brandVoice.trim(),
+      brandTone: form.brandTone.trim(),
+      targetAudience: form.targetAudience.trim(),
+      discountApproach: form.discountApproach.trim(),
+      specialInstructions: form.specialInstructions.trim(),
+    };
+    try {
+      const res = await fetch(`${API_BASE}/api/brands/${encodeURIComponent(brand.id)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ brandName: profile.brandName, profile }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Saving brand failed" }));
+        throw new Error(err.error || "Saving brand failed");
+      }
+      onSaved((await res.json()) as SavedBrand);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Saving brand failed.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Brand Profile — {brand.domain}</DialogTitle>
+          <DialogDescription>
+            What the AI knows about this brand. Edits are used by every gameplan generated for it until the site is re-analyzed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto px-1 pb-2">
+          <div>
+            <Label htmlFor="bp-name" className="text-sm font-semibold mb-2 block">Brand name</Label>
+            <Input id="bp-name" value={form.brandName} onChange={set("brandName")} />
+          </div>
+          <div>
+            <Label htmlFor="bp-products" className="text-sm font-semibold mb-2 block">
+              Key products <span className="text-gray-400 font-normal">(one per line)</span>
+            </Label>
+            <Textarea id="bp-products" rows={4} value={form.keyProducts} onChange={set("keyProducts")} />
+          </div>
+          <div>
+            <Label htmlFor="bp-usps" className="text-sm font-semibold mb-2 block">
+              Unique selling points <span className="text-gray-400 font-normal">(one per line)</span>
+            </Label>
+            <Textarea id="bp-usps" rows={4} value={form.uniqueSellingPoints} onChange={set("uniqueSellingPoints")} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="bp-voice" className="text-sm font-semibold mb-2 block">Brand voice</Label>
+              <Input id="bp-voice" value={form.brandVoice} onChange={set("brandVoice")} />
+            </div>
+            <div>
+              <Label htmlFor="bp-tone" className="text-sm font-semibold mb-2 block">Tone</Label>
+              <Input id="bp-tone" value={form.brandTone} onChange={set("brandTone")} />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="bp-audience" className="text-sm font-semibold mb-2 block">Target audience</Label>
+            <Textarea id="bp-audience" rows={2} value={form.targetAudience} onChange={set("targetAudience")} />
+          </div>
+          <div>
+            <Label htmlFor="bp-discount" className="text-sm font-semibold mb-2 block">Discount approach</Label>
+            <Textarea id="bp-discount" rows={3} value={form.discountApproach} onChange={set("discountApproach")} />
+          </div>
+          <div>
+            <Label htmlFor="bp-instructions" className="text-sm font-semibold mb-2 block">
+              Special instructions <span className="text-gray-400 font-normal">(optional)</span>
+            </Label>
+            <Textarea id="bp-instructions" rows={2} value={form.specialInstructions} onChange={set("specialInstructions")} />
+          </div>
+          {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saving} className="bg-green-600 hover:bg-green-700">
+            <Check className="w-4 h-4 mr-1" /> {saving ? "Saving..." : "Save Profile"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
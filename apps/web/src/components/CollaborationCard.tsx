@@ -0,0 +1,53 @@
+import type { CollabPeer } from "@flow/core";
+import type { CollabStatus } from "../hooks/useCollaboration";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface CollaborationCardProps {
+  status: CollabStatus;
+  peers: CollabPeer[];
+  roomId: string;
+  name: string;
+  onRoomIdChange: (value: string) => void;
+  onNameChange: (value: string) => void;
+  onJoin: () => void;
+  onLeave: () => void;
+}
+
+export function CollaborationCard({ status, peers, roomId, name, onRoomIdChange, onNameChange, onJoin, onLeave }: CollaborationCardProps) {
+  const idle = status === "idle";
+
+  return (
+    <div className="rounded-xl border border-sidebar-border bg-sidebar-card p-3 flex flex-col gap-2">
+      <div className="flex items-baseline justify-between px-1">
+        <p className="text-xs font-semibold text-sidebar-section-header uppercase tracking-wider">Live Session</p>
+        {status === "live" && <span className="text-[11px] text-green-600 font-medium">{peers.length + 1} editing</span>}
+      </div>
+      <div className="flex flex-col gap-1.5">
+        <Label htmlFor="collab-name" className="text-[13px] font-medium text-sidebar-foreground">Your name</Label>
+        <Input id="collab-name" placeholder="Strategist" value={name} onChange={(e) => onNameChange(e.target.value)} disabled={!idle} />
+      </div>
+      <div className="flex flex-col gap-1.5">
+        <Label htmlFor="collab-room" className="text-[13px] font-medium text-sidebar-foreground">Session id</Label>
+        <Input id="collab-room" placeholder="client_welcome" value={roomId} onChange={(e) => onRoomIdChange(e.target.value)} disabled={!idle} />
+      </div>
+      {idle ? (
+        <Button variant="outline" size="sm" onClick={onJoin} disabled={!roomId.trim()}>Start or join</Button>
+      ) : (
+        <Button variant="outline" size="sm" onClick={onLeave}>{status === "connecting" ? "Connecting..." : "Leave session"}</Button>
+      )}
+      {peers.length > 0 && (
+        <ul className="flex flex-col gap-1 px-1">
+          {peers.map((peer) => (
+            <li key={peer.clientId} className="flex items-center gap-2 text-[13px] text-sidebar-foreground">
+              <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: peer.color }} />
+              <span className="truncate">{peer.name}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-sidebar-muted px-1">Share the session id; everyone who joins edits this flow together.</p>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { useViewport } from "reactflow";
+import type { CollabPeer } from "@flow/core";
+
+/* Rendered as a ReactFlow child so cursors follow pan and zoom. */
+export function CollaboratorCursors({ peers }: { peers: CollabPeer[] }) {
+  const { x, y, zoom } = useViewport();
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden" style={{ zIndex: 5 }}>
+      {peers.filter((peer) => peer.cursor).map((peer) => (
+        <div
+          key={peer.clientId}
+          className="absolute flex items-start gap-1 transition-transform duration-75"
+          style={{ transform: `translate(${peer.cursor!.x * zoom + x}px, ${peer.cursor!.y * zoom + y}px)` }}
+        >
+          <svg width="14" height="18" viewBox="0 0 14 18"><path d="M0 0 L14 10 L6 11 L3 18 Z" fill={peer.color} /></svg>
+          <span className="rounded px-1.5 py-0.5 text-[11px] font-medium text-white whitespace-nowrap" style={{ backgroundColor: peer.color }}>
+            {peer.name}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
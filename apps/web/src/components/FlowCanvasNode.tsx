@@ -1,8 +1,8 @@
 import { Handle, Position, type NodeProps } from "reactflow";
-import { MoreHorizontal, Eye, Pencil, Trash2, ChevronDown } from "lucide-react";
+import { MoreHorizontal, Eye, Pencil, Trash2, ChevronDown, AlertTriangle } from "lucide-react";
 import { NodeIcons } from "./NodeIcons";
 import type { AppNodeData } from "../types/flow";
-import type { MessageStatus } from "@flow/core";
+import { describeFlowSettings, describeNodeCondition, describeWait, type MessageStatus } from "@flow/core";
 import {
   DropdownMenu,
   DropdownMenuTrigger,
@@ -49,6 +49,16 @@ function NodeDeleteMenu({ nodeId, callbacks, className }: { nodeId: string; call
   );
 }
 
+function LintBadge({ lints }: { lints: AppNodeData["lints"] }) {
+  if (!lints?.length) return null;
+  return (
+    <span className="flow-lint-badge" title={lints.map((l) => l.message).join("\n")}>
+      <AlertTriangle className="w-3 h-3" />
+      {lints.length}
+    </span>
+  );
+}
+
 function EmailNodeMenu({ nodeId, callbacks }: { nodeId: string; callbacks: AppNodeData["callbacks"] }) {
   return (
     <DropdownMenu>
@@ -179,6 +189,7 @@ export function FlowCanvasNode({ data, selected, id }: NodeProps<AppNodeData>) {
 
         <div className="flow-msg__header">
           <span className="flow-msg__header-text">{data.title}</span>
+          <LintBadge lints={data.lints} />
           {hasCallbacks && (
             isEmail
               ? <EmailNodeMenu nodeId={id} callbacks={data.callbacks} />
@@ -256,7 +267,8 @@ export function FlowCanvasNode({ data, selected, id }: NodeProps<AppNodeData>) {
         <Handle type="target" position={Position.Top} className="flow-handle" />
         <div className="flow-card__header">
           <div className="flow-card__icon flow-card__icon--wait">{NodeIcons.wait}</div>
-          <span className="flow-card__title">Wait {fn.duration.value} {fn.duration.unit}</span>
+          <span className="flow-card__title">{describeWait(fn)}</span>
+          <LintBadge lints={data.lints} />
           {data.callbacks && <NodeDeleteMenu nodeId={id} callbacks={data.callbacks} />}
         </div>
         <Handle type="source" position={Position.Bottom} className="flow-handle" />
@@ -264,6 +276,30 @@ export function FlowCanvasNode({ data, selected, id }: NodeProps<AppNodeData>) {
     );
   }
 
+  if (fn.type === "abSplit") {
+    return (
+      <div className={`flow-card flow-card--abSplit ${selected ? "flow-card--selected" : ""}`}>
+        <Handle type="target" position={Position.Top} className="flow-handle" />
+        <div className="flow-card__header">
+          <div className="flow-card__icon flow-card__icon--abSplit">{NodeIcons.abSplit}</div>
+          <div className="flow-card__title">{fn.title}</div>
+          <LintBadge lints={data.lints} />
+          {data.callbacks && <NodeDeleteMenu nodeId={id} callbacks={data.callbacks} />}
+        </div>
+        <ul className="flow-card__variants">
+          {fn.variants.map((variant) => (
+            <li key={variant.label}>
+              <span className="flow-card__variant-label">{variant.label}</span>
+              <span className="flow-card__variant-bar"><span style={{ width: `${variant.weight}%` }} /></span>
+              <span className="flow-card__variant-weight">{variant.weight}%</span>
+            </li>
+          ))}
+        </ul>
+        <Handle type="source" position={Position.Bottom} className="flow-handle" />
+      </div>
+    );
+  }
+
   if (fn.type === "merge") {
     return (
       <div className={`flow-merge ${selected ? "flow-merge--selected" : ""}`}>
@@ -294,8 +330,8 @@ export function FlowCanvasNode({ data, selected, id }: NodeProps<AppNodeData>) {
 
   let subtitle = "";
   if (fn.type === "trigger") subtitle = fn.event;
-  else if (fn.type === "split") subtitle = fn.condition;
-  else if (fn.type === "profileFilter") subtitle = fn.filters.join(", ");
+  else if (fn.type === "split" || fn.type === "profileFilter") subtitle = describeNodeCondition(fn)!;
+  const settingLines = fn.type === "trigger" ? describeFlowSettings(data.flowSettings) : [];
 
   return (
     <div className={`flow-card flow-card--${typeKey} ${selected ? "flow-card--selected" : ""}`}>
@@ -305,9 +341,15 @@ export function FlowCanvasNode({ data, selected, id }: NodeProps<AppNodeData>) {
       <div className="flow-card__header">
         <div className={`flow-card__icon flow-card__icon--${typeKey}`}>{icon}</div>
         <div className="flow-card__title">{data.title}</div>
+        <LintBadge lints={data.lints} />
         {data.callbacks && <NodeDeleteMenu nodeId={id} callbacks={data.callbacks} />}
       </div>
       {subtitle && <div className="flow-card__subtitle">{subtitle}</div>}
+      {settingLines.length > 0 && (
+        <ul className="flow-card__settings">
+          {settingLines.map((line) => <li key={line}>{line}</li>)}
+        </ul>
+      )}
       <Handle type="source" position={Position.Bottom} className="flow-handle" />
     </div>
   );
@@ -0,0 +1,37 @@
+import { AlertTriangle } from "lucide-react";
+import type { GraphWarning } from "@flow/core";
+
+interface FlowLintCardProps {
+  lints: GraphWarning[];
+  /** Select the first node a warning points at. */
+  onSelectNode: (nodeId: string) => void;
+}
+
+export function FlowLintCard({ lints, onSelectNode }: FlowLintCardProps) {
+  return (
+    <div className="rounded-xl border border-sidebar-border bg-sidebar-card p-3 flex flex-col gap-2">
+      <div className="flex items-baseline justify-between px-1">
+        <p className="text-xs font-semibold text-sidebar-section-header uppercase tracking-wider">Warnings</p>
+        <span className="text-[11px] text-amber-600 font-medium">{lints.length}</span>
+      </div>
+      <ul className="flex flex-col gap-1">
+        {lints.map((lint, i) => {
+          const nodeId = lint.nodeIds?.[0];
+          return (
+            <li key={`${lint.code}-${nodeId ?? i}`}>
+              <button
+                type="button"
+                className="w-full flex gap-2 items-start text-left rounded-md px-1.5 py-1 text-[12px] leading-snug text-sidebar-foreground hover:bg-sidebar-item-hover disabled:cursor-default disabled:hover:bg-transparent"
+                onClick={() => nodeId && onSelectNode(nodeId)}
+                disabled={!nodeId}
+              >
+                <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-amber-500" />
+                <span>{lint.message}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
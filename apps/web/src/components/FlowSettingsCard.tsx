@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { describeCondition, type FlowSettings, type Reentry } from "@flow/core";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const SELECT_CLASS =
+  "flex h-9 w-full rounded-lg border border-input bg-background px-3 py-1.5 text-[13px] text-foreground ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+const DEFAULT_QUIET_HOURS = { start: "21:00", end: "09:00" };
+const DEFAULT_REENTRY_DAYS = 30;
+
+interface FlowSettingsCardProps {
+  settings?: FlowSettings;
+  /** Quiet hours are only offered for flows that send SMS (or already have them). */
+  hasSms: boolean;
+  onChange: (settings: FlowSettings | undefined) => void;
+}
+
+/* Unset fields are dropped so a flow with nothing configured has no settings block at all */
+function compact(settings: FlowSettings): FlowSettings | undefined {
+  const entries = Object.entries(settings).filter(([, value]) => value !== undefined && value !== false);
+  return entries.length > 0 ? (Object.fromEntries(entries) as FlowSettings) : undefined;
+}
+
+export function FlowSettingsCard({ settings = {}, hasSms, onChange }: FlowSettingsCardProps) {
+  const [filterMetric, setFilterMetric] = useState("");
+  const update = (patch: Partial<FlowSettings>) => onChange(compact({ ...settings, ...patch }));
+
+  function handleReentryMode(mode: string) {
+    if (!mode) return update({ reentry: undefined });
+    const reentry: Reentry = mode === "once-per-period"
+      ? { mode, days: DEFAULT_REENTRY_DAYS }
+      : { mode: mode as "every-time" | "once" };
+    update({ reentry });
+  }
+
+  function addFilter() {
+    const metric = filterMetric.trim();
+    if (!metric) return;
+    update({
+      flowFilters: [
+        ...(settings.flowFilters ?? []),
+        { kind: "metric", metric, operator: "equals", count: 0, window: { type: "flow-start" } },
+      ],
+    });
+    setFilterMetric("");
+  }
+
+  function removeFilter(index: number) {
+    const flowFilters = (settings.flowFilters ?? []).filter((_, i) => i !== index);
+    update({ flowFilters: flowFilters.length > 0 ? flowFilters : undefined });
+  }
+
+  function updateQuietHours(patch: { start?: string; end?: string }) {
+    const next = { ...(settings.smsQuietHours ?? DEFAULT_QUIET_HOURS), ...patch };
+    /* Cleared, half-typed or empty windows are ignored until they are valid again */
+    if (/^\d{2}:\d{2}$/.test(next.start) && /^\d{2}:\d{2}$/.test(next.end) && next.start !== next.end) update({ smsQuietHours: next });
+  }
+
+  const reentry = settings.reentry;
+
+  return (
+    <div className="rounded-xl border border-sidebar-border bg-sidebar-card p-3 flex flex-col gap-3">
+      <p className="text-xs font-semibold text-sidebar-section-header uppercase tracking-wider px-1">Flow Settings</p>
+
+      <div className="flex flex-col gap-1.5">
+        <Label htmlFor="flow-reentry" className="text-[13px] font-medium text-sidebar-foreground">Re-entry</Label>
+        <select id="flow-reentry" className={SELECT_CLASS} value={reentry?.mode ?? ""} onChange={(e) => handleReentryMode(e.target.value)}>
+          <option value="">ESP default</option>
+          <option value="every-time">Every time</option>
+          <option value="once">Once ever</option>
+          <option value="once-per-period">Once per N days</option>
+        </select>
+        {reentry?.mode === "once-per-period" && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={1}
+              className="w-20"
+              aria-label="Days between entries"
+              value={reentry.days}
+              onChange={(e) => update({ reentry: { mode: "once-per-period", days: Math.max(1, Math.round(+e.target.value) || 1) } })}
+            />
+            <span className="text-[13px] text-sidebar-muted">days between entries</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-1.5">
+        <Label htmlFor="flow-filter-metric" className="text-[13px] font-medium text-sidebar-foreground">Flow filters</Label>
+        {settings.flowFilters && (
+          <ul className="flex flex-col gap-1">
+            {settings.flowFilters.map((filter, index) => (
+              <li key={index} className="flex items-start gap-1.5 text-[13px] text-sidebar-foreground">
+                <span className="flex-1">{describeCondition(filter)}</span>
+                <button type="button" className="text-sidebar-muted hover:text-destructive" title="Remove filter" onClick={() => removeFilter(index)}>
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-1.5">
+          <Input
+            id="flow-filter-metric"
+            placeholder="Placed Order"
+            value={filterMetric}
+            onChange={(e) => setFilterMetric(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter") addFilter(); }}
+          />
+          <Button variant="outline" size="sm" className="h-9" onClick={addFilter} disabled={!filterMetric.trim()}>Add</Button>
+        </div>
+        <p className="text-xs text-sidebar-muted px-1">Exits anyone who has done this since starting the flow.</p>
+      </div>
+
+      {(hasSms || settings.smsQuietHours) && (
+        <div className="flex flex-col gap-1.5">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="flow-quiet-hours"
+              checked={!!settings.smsQuietHours}
+              onCheckedChange={(checked) => update({ smsQuietHours: checked ? DEFAULT_QUIET_HOURS : undefined })}
+            />
+            <Label htmlFor="flow-quiet-hours" className="cursor-pointer text-[13px] font-medium text-sidebar-foreground">SMS quiet hours</Label>
+          </div>
+          {settings.smsQuietHours && (
+            <div className="flex items-center gap-2">
+              <Input type="time" aria-label="Quiet hours start" value={settings.smsQuietHours.start} onChange={(e) => updateQuietHours({ start: e.target.value })} />
+              <span className="text-[13px] text-sidebar-muted">to</span>
+              <Input type="time" aria-label="Quiet hours end" value={settings.smsQuietHours.end} onChange={(e) => updateQuietHours({ end: e.target.value })} />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="flow-recipient-tz"
+          checked={!!settings.sendInRecipientTimezone}
+          onCheckedChange={(checked) => update({ sendInRecipientTimezone: !!checked })}
+        />
+        <Label htmlFor="flow-recipient-tz" className="cursor-pointer text-[13px] font-medium text-sidebar-foreground">Send in recipient's timezone</Label>
+      </div>
+    </div>
+  );
+}
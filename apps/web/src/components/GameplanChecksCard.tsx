@@ -0,0 +1,46 @@
+import { AlertTriangle, CircleAlert } from "lucide-react";
+import type { FlowSpec, GameplanIssue } from "@flow/core";
+
+interface GameplanChecksCardProps {
+  issues: GameplanIssue[];
+  flows: FlowSpec[];
+  /** Show the first flow an issue names. */
+  onSelectFlow: (index: number) => void;
+}
+
+export function GameplanChecksCard({ issues, flows, onSelectFlow }: GameplanChecksCardProps) {
+  const errorCount = issues.filter((i) => i.severity === "error").length;
+
+  return (
+    <div className="rounded-xl border border-sidebar-border bg-sidebar-card p-3 flex flex-col gap-2">
+      <div className="flex items-baseline justify-between px-1">
+        <p className="text-xs font-semibold text-sidebar-section-header uppercase tracking-wider">Gameplan Checks</p>
+        {issues.length === 0 ? (
+          <span className="text-[11px] text-green-600 font-medium">All clear</span>
+        ) : (
+          <span className={`text-[11px] font-medium ${errorCount > 0 ? "text-red-600" : "text-amber-600"}`}>{issues.length}</span>
+        )}
+      </div>
+      {issues.length > 0 && (
+        <ul className="flex flex-col gap-1">
+          {issues.map((issue, i) => {
+            const index = flows.findIndex((f) => f.id === issue.flowIds[0]);
+            const Icon = issue.severity === "error" ? CircleAlert : AlertTriangle;
+            return (
+              <li key={`${issue.code}-${i}`}>
+                <button
+                  type="button"
+                  className="w-full flex gap-2 items-start text-left rounded-md px-1.5 py-1 text-[12px] leading-snug text-sidebar-foreground hover:bg-sidebar-item-hover"
+                  onClick={() => index >= 0 && onSelectFlow(index)}
+                >
+                  <Icon className={`w-3.5 h-3.5 mt-0.5 shrink-0 ${issue.severity === "error" ? "text-red-500" : "text-amber-500"}`} />
+                  <span>{issue.message}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Gameplan, GameplanSummary, UsageReport } from "../types/flow";
+import { API_BASE } from "../constants";
+import { fetchUsage, formatUsd } from "../utils/usage";
+import { UsageOverview } from "./UsageCard";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { FolderOpen, Trash2 } from "lucide-react";
+
+interface GameplansViewProps {
+  onOpen: (gameplan: Gameplan) => void;
+}
+
+const USAGE_DAYS = 30;
+
+function formatDate(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString();
+}
+
+export function GameplansView({ onOpen }: GameplansViewProps) {
+  const [gameplans, setGameplans] = useState<GameplanSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+
+  const fetchGameplans = useCallback(async () => {
+    try {
+      const res = await fetch(`${API_BASE}/api/gameplans`);
+      if (!res.ok) throw new Error("Failed to fetch gameplans");
+      setGameplans(await res.json());
+      /* Usage is a nice-to-have; the list still shows if it fails */
+      setUsage(await fetchUsage({ days: USAGE_DAYS }).catch(() => null));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchGameplans();
+  }, [fetchGameplans]);
+
+  async function handleOpen(summary: GameplanSummary) {
+    setOpeningId(summary.id);
+    setError("");
+    try {
+      const res = await fetch(`${API_BASE}/api/gameplans/${summary.id}`);
+      if (!res.ok) throw new Error("Failed to load gameplan");
+      onOpen((await res.json()) as Gameplan);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setOpeningId(null);
+    }
+  }
+
+  async function handleDelete(summary: GameplanSummary) {
+    if (!confirm(`Delete "${summary.name}"?`)) return;
+    try {
+      await fetch(`${API_BASE}/api/gameplans/${summary.id}`, { method: "DELETE" });
+      await fetchGameplans();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+        Loading gameplans...
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-6">
+      <div className="flex items-center justify-between mb-5">
+        <h2 className="text-xl font-semibold text-foreground">Saved Gameplans</h2>
+      </div>
+
+      {error && <p className="text-sm font-medium text-destructive mb-4">{error}</p>}
+
+      {usage && usage.totals.calls > 0 && <UsageOverview report={usage} days={USAGE_DAYS} />}
+
+      {gameplans.length === 0 ? (
+        <p className="text-sm text-muted-foreground mt-6">
+          No saved gameplans yet. Generate a gameplan and click <b>Save Gameplan</b> to keep it.
+        </p>
+      ) : (
+        <div className="grid grid-cols-[repeat(auto-fill,minmax(280px,1fr))] gap-3">
+          {gameplans.map((gp) => {
+            const spend = usage?.byGameplan.find((g) => g.gameplanId === gp.id);
+            return (
+              <div key={gp.id} className="bg-card border border-border rounded-xl p-4 hover:border-slate-300 dark:hover:border-slate-600 transition-colors">
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  <h4 className="text-sm font-semibold text-foreground leading-snug">{gp.name}</h4>
+                  <Badge variant="secondary" className="text-[10px] shrink-0">{gp.planName}</Badge>
+                </div>
+                {gp.websiteUrl && <p className="text-xs text-muted-foreground mb-2 truncate">{gp.websiteUrl}</p>}
+                <div className="flex gap-1.5 mb-2">
+                  <span className="text-[11px] font-bold bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 px-2 py-0.5 rounded">{gp.flowCount} flows</span>
+                  {spend && (
+                    <span className="text-[11px] font-bold bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 px-2 py-0.5 rounded" title={`${spend.totalTokens} tokens in the last ${USAGE_DAYS} days`}>
+                      {formatUsd(spend.costUsd)}
+                    </span>
+                  )}
+                </div>
+                <p className="text-[11px] text-muted-foreground">Updated {formatDate(gp.updatedAt)}</p>
+                <div className="flex gap-2 mt-3">
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => handleOpen(gp)} disabled={openingId === gp.id}>
+                    <FolderOpen className="w-3 h-3 mr-1" />
+                    {openingId === gp.id ? "Opening..." : "Open"}
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 text-xs text-destructive hover:text-destructive hover:bg-destructive/10" onClick={() => handleDelete(gp)}>
+                    <Trash2 className="w-3 h-3 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useMemo } from "react";
+import { forecastPlan, getAllPlans, parseProfileNumber } from "@flow/core";
+import type { PlanKey } from "../types/flow";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface PlanForecastCardProps {
+  averageOrderValue: string;
+  emailListSize: string;
+  industry?: string;
+  selectedPlan: PlanKey;
+  disabled?: boolean;
+  onChange: (field: "averageOrderValue" | "emailListSize", value: string) => void;
+}
+
+const currency = new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+
+export function PlanForecastCard({ averageOrderValue, emailListSize, industry, selectedPlan, disabled, onChange }: PlanForecastCardProps) {
+  const forecasts = useMemo(() => {
+    const aov = parseProfileNumber(averageOrderValue);
+    const listSize = parseProfileNumber(emailListSize);
+    if (!aov || !listSize) return null;
+    return getAllPlans().map((plan) => forecastPlan(plan, { averageOrderValue: aov, emailListSize: listSize, industry }));
+  }, [averageOrderValue, emailListSize, industry]);
+
+  const baseline = forecasts?.[0];
+  const selected = forecasts?.find((f) => f.planKey === selectedPlan);
+
+  return (
+    <div className="rounded-xl border border-sidebar-border bg-sidebar-card p-4 flex flex-col gap-3">
+      <p className="text-xs font-semibold text-sidebar-section-header uppercase tracking-wider">Revenue Forecast</p>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="forecast-aov" className="text-[13px] font-medium text-sidebar-foreground">Avg order value</Label>
+          <Input id="forecast-aov" placeholder="$60" value={averageOrderValue} onChange={(e) => onChange("averageOrderValue", e.target.value)} disabled={disabled} />
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="forecast-list" className="text-[13px] font-medium text-sidebar-foreground">Email list size</Label>
+          <Input id="forecast-list" placeholder="20,000" value={emailListSize} onChange={(e) => onChange("emailListSize", e.target.value)} disabled={disabled} />
+        </div>
+      </div>
+
+      {!forecasts ? (
+        <p className="text-xs text-sidebar-muted">Enter AOV and list size to estimate monthly flow revenue per plan.</p>
+      ) : (
+        <>
+          <div className="flex flex-col gap-1">
+            {forecasts.map((f) => (
+              <div
+                key={f.planKey}
+                className={`flex items-center justify-between gap-2 rounded-lg px-2 py-1.5 text-[13px] ${f.planKey === selectedPlan ? "bg-primary/10 text-foreground" : "text-sidebar-foreground"}`}
+              >
+                <span className="truncate">{f.planName} <span className="text-sidebar-muted">· {f.price}</span></span>
+                <span className="font-semibold tabular-nums whitespace-nowrap">
+                  {currency.format(f.monthlyRevenue)}/mo
+                  {baseline && f !== baseline && f.monthlyRevenue > baseline.monthlyRevenue && (
+                    <span className="ml-1 text-xs font-normal text-green-600">+{currency.format(f.monthlyRevenue - baseline.monthlyRevenue)}</span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {selected && (
+            <details className="text-xs text-sidebar-muted">
+              <summary className="cursor-pointer">
+                {selected.planName}: {currency.format(selected.annualRevenue)}/yr
+                {selected.paybackMonths !== undefined && ` · pays back in ~${selected.paybackMonths} mo`}
+              </summary>
+              <ul className="mt-1.5 flex flex-col gap-0.5">
+                {selected.flows.map((flow) => (
+                  <li key={flow.flowId} className="flex justify-between gap-2">
+                    <span className="truncate">{flow.name}</span>
+                    <span className="tabular-nums">{currency.format(flow.monthlyRevenue)}</span>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+          <p className="text-[11px] text-sidebar-muted">Estimates from industry benchmarks, not account data.</p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useMemo, useState } from "react";
+import { diffFlowSpecs, type FieldChange, type FlowDiff } from "@flow/core";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import type { FlowRevision, FlowRevisionSummary } from "@/types/flow";
+import { API_BASE } from "@/constants";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  gameplanId: string;
+  flowId: string;
+  flowName: string;
+};
+
+const SELECT_CLASS =
+  "flex h-9 w-full rounded-lg border border-input bg-background px-3 py-1.5 text-[13px] text-foreground ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value || '""';
+  return JSON.stringify(value);
+}
+
+function revisionLabel(rev: FlowRevisionSummary): string {
+  const when = new Date(rev.createdAt).toLocaleString();
+  return `#${rev.number} · ${rev.author} · ${when}`;
+}
+
+function ChangeList({ changes }: { changes: FieldChange[] }) {
+  return (
+    <ul className="flex flex-col gap-1 mt-1">
+      {changes.map((c) => (
+        <li key={c.field} className="text-xs">
+          <span className="font-mono font-semibold text-foreground">{c.field}</span>
+          <span className="text-muted-foreground">: </span>
+          <span className="line-through text-red-600 dark:text-red-400">{formatValue(c.before)}</span>
+          <span className="text-muted-foreground"> → </span>
+          <span className="text-green-700 dark:text-green-400">{formatValue(c.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function DiffSummary({ diff }: { diff: FlowDiff }) {
+  if (!diff.hasChanges) {
+    return <p className="text-sm text-muted-foreground">No structural changes between these revisions.</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {diff.flowChanges.length > 0 && (
+        <section>
+          <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Flow</p>
+          <ChangeList changes={diff.flowChanges} />
+        </section>
+      )}
+      {(diff.addedNodes.length > 0 || diff.removedNodes.length > 0) && (
+        <section>
+          <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Nodes</p>
+          <ul className="flex flex-col gap-1 mt-1 text-xs">
+            {diff.addedNodes.map((n) => (
+              <li key={`+${n.id}`} className="text-green-700 dark:text-green-400">+ {n.type} <span className="font-mono">{n.id}</span>{"title" in n ? ` — ${n.title}` : ""}</li>
+            ))}
+            {diff.removedNodes.map((n) => (
+              <li key={`-${n.id}`} className="text-red-600 dark:text-red-400">− {n.type} <span className="font-mono">{n.id}</span>{"title" in n ? ` — ${n.title}` : ""}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+      {(diff.addedEdges.length > 0 || diff.removedEdges.length > 0 || diff.rewiredEdges.length > 0) && (
+        <section>
+          <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Edges</p>
+          <ul className="flex flex-col gap-1 mt-1 text-xs font-mono">
+            {diff.addedEdges.map((e) => (
+              <li key={`+${e.id}`} className="text-green-700 dark:text-green-400">+ {e.from} → {e.to}{e.label ? ` [${e.label}]` : ""}</li>
+            ))}
+            {diff.removedEdges.map((e) => (
+              <li key={`-${e.id}`} className="text-red-600 dark:text-red-400">− {e.from} → {e.to}{e.label ? ` [${e.label}]` : ""}</li>
+            ))}
+            {diff.rewiredEdges.map((r) => (
+              <li key={`~${r.edgeId}`} className="text-amber-700 dark:text-amber-400">
+                ~ {r.before.from} → {r.before.to}{r.before.label ? ` [${r.before.label}]` : ""} ⇒ {r.after.from} → {r.after.to}{r.after.label ? ` [${r.after.label}]` : ""}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+      {diff.changedNodes.map((n) => (
+        <section key={n.nodeId}>
+          <p className="text-xs font-semibold text-foreground">{n.title} <span className="font-mono font-normal text-muted-foreground">({n.nodeId})</span></p>
+          <ChangeList changes={n.changes} />
+        </section>
+      ))}
+    </div>
+  );
+}
+
+export function RevisionHistoryDialog({ open, onOpenChange, gameplanId, flowId, flowName }: Props) {
+  const [revisions, setRevisions] = useState<FlowRevisionSummary[]>([]);
+  const [baseId, setBaseId] = useState("");
+  const [compareId, setCompareId] = useState("");
+  const [specs, setSpecs] = useState<Record<string, FlowRevision>>({});
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setError("");
+    fetch(`${API_BASE}/api/gameplans/${gameplanId}/revisions?flowId=${encodeURIComponent(flowId)}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load revisions");
+        return res.json() as Promise<FlowRevisionSummary[]>;
+      })
+      .then((list) => {
+        setRevisions(list);
+        setCompareId(list[0]?.id ?? "");
+        setBaseId(list[1]?.id ?? list[0]?.id ?? "");
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [open, gameplanId, flowId]);
+
+  useEffect(() => {
+    for (const id of [baseId, compareId]) {
+      if (!id || specs[id]) continue;
+      fetch(`${API_BASE}/api/gameplans/${gameplanId}/revisions/${encodeURIComponent(id)}`)
+        .then((res) => {
+          if (!res.ok) throw new Error("Failed to load revision");
+          return res.json() as Promise<FlowRevision>;
+        })
+        .then((rev) => setSpecs((prev) => ({ ...prev, [rev.id]: rev })))
+        .catch((err: Error) => setError(err.message));
+    }
+  }, [baseId, compareId, gameplanId, specs]);
+
+  const diff = useMemo(() => {
+    const base = specs[baseId];
+    const compare = specs[compareId];
+    if (!base || !compare) return null;
+    return diffFlowSpecs(base.spec, compare.spec);
+  }, [specs, baseId, compareId]);
+
+  const compareRevision = revisions.find((r) => r.id === compareId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>History — {flowName}</DialogTitle>
+          <DialogDescription>Compare any two saved revisions of this flow.</DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions saved for this flow yet.</p>
+        ) : (
+          <div className="flex flex-col gap-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="flex flex-col gap-1.5">
+                <Label htmlFor="rev-base">From</Label>
+                <select id="rev-base" className={SELECT_CLASS} value={baseId} onChange={(e) => setBaseId(e.target.value)}>
+                  {revisions.map((r) => <option key={r.id} value={r.id}>{revisionLabel(r)}</option>)}
+                </select>
+              </div>
+              <div className="flex flex-col gap-1.5">
+                <Label htmlFor="rev-compare">To</Label>
+                <select id="rev-compare" className={SELECT_CLASS} value={compareId} onChange={(e) => setCompareId(e.target.value)}>
+                  {revisions.map((r) => <option key={r.id} value={r.id}>{revisionLabel(r)}</option>)}
+                </select>
+              </div>
+            </div>
+            {compareRevision?.message && (
+              <p className="text-xs text-muted-foreground italic">“{compareRevision.message}”</p>
+            )}
+            <div className="rounded-lg border border-border p-3">
+              {diff ? <DiffSummary diff={diff} /> : <p className="text-sm text-muted-foreground">Loading revisions...</p>}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useState } from "react";
+import type { FlowSpec } from "@flow/core";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import type { GenerationRun, LlmCallRecord, RunSummary } from "@/types/flow";
+import { API_BASE } from "@/constants";
+import { formatTokens, formatUsd } from "@/utils/usage";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  gameplanId?: string;
+  /** Runs not tied to a gameplan yet. */
+  runIds: string[];
+  flowId: string;
+  flowName: string;
+  onReplayed: (result: { runId: string; flows: FlowSpec[] }) => void;
+};
+
+const SELECT_CLASS =
+  "flex h-9 w-full rounded-lg border border-input bg-background px-3 py-1.5 text-[13px] text-foreground ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+const PRE_CLASS = "mt-1 max-h-64 overflow-y-auto whitespace-pre-wrap break-words rounded-md bg-muted p-2 font-mono text-[11px] text-foreground";
+
+const KIND_LABELS: Record<RunSummary["kind"], string> = {
+  "analyze-brand": "Brand analysis",
+  "generate-flows": "Generation",
+  "regenerate-flow": "Regenerate flow",
+  "chat-flow": "AI chat",
+};
+
+function runLabel(run: RunSummary): string {
+  const when = new Date(run.createdAt).toLocaleString();
+  const replay = run.replayOf ? " (re-run)" : "";
+  return `${KIND_LABELS[run.kind]}${replay} · ${run.status} · ${when} · ${run.callCount} calls · ${formatTokens(run.totalTokens)} · ${formatUsd(run.costUsd)}`;
+}
+
+/* Generation calls are filed under their flow id; analysis, parsing and chat calls concern every flow */
+function callBelongsToFlow(call: LlmCallRecord, flowId: string): boolean {
+  return call.task !== "generate-flow" || call.fixtureKey === flowId;
+}
+
+function CallDetails({ call }: { call: LlmCallRecord }) {
+  const settings = [
+    `tier ${call.tier}`,
+    call.temperature !== undefined ? `temperature ${call.temperature}` : null,
+    call.maxTokens ? `max tokens ${call.maxTokens}` : null,
+    call.json ? "JSON mode" : null,
+    `provider ${call.provider}`,
+    `hash ${call.hash}`,
+  ].filter(Boolean).join(" · ");
+
+  return (
+    <details className="rounded-lg border border-border p-2">
+      <summary className="cursor-pointer text-xs text-foreground">
+        <span className="font-semibold">{call.task}</span>
+        {call.fixtureKey && <span className="font-mono text-muted-foreground"> {call.fixtureKey}</span>}
+        <span className="text-muted-foreground"> · {call.model || "no reply"} · {call.usage ? `${call.usage.totalTokens} tokens` : "no usage"} · {call.latencyMs} ms</span>
+        {call.error && <span className="text-destructive"> · failed</span>}
+      </summary>
+      <div className="mt-2 flex flex-col gap-2">
+        <p className="text-[11px] text-muted-foreground">{settings}</p>
+        {call.messages.map((m, i) => (
+          <div key={i}>
+            <p className="text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">{m.role}</p>
+            <pre className={PRE_CLASS}>{m.content}</pre>
+          </div>
+        ))}
+        <div>
+          <p className="text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">{call.error ? "Error" : "Response"}</p>
+          <pre className={PRE_CLASS}>{call.error ?? call.response}</pre>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+export function RunLogDialog({ open, onOpenChange, gameplanId, runIds, flowId, flowName, onReplayed }: Props) {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [details, setDetails] = useState<Record<string, GenerationRun>>({});
+  const [onlyThisFlow, setOnlyThisFlow] = useState(true);
+  const [replaying, setReplaying] = useState(false);
+  const [error, setError] = useState("");
+  const runIdsKey = runIds.join(",");
+
+  useEffect(() => {
+    if (!open) return;
+    setError("");
+    const params = new URLSearchParams();
+    if (gameplanId) params.set("gameplanId", gameplanId);
+    if (runIdsKey) params.set("ids", runIdsKey);
+    if (!gameplanId && !runIdsKey) {
+      setRuns([]);
+      return;
+    }
+    fetch(`${API_BASE}/api/runs?${params}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load generation runs");
+        return res.json() as Promise<RunSummary[]>;
+      })
+      .then((list) => {
+        setRuns(list);
+        setSelectedId((list.find((r) => r.flowIds.includes(flowId)) ?? list[0])?.id ?? "");
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [open, gameplanId, runIdsKey, flowId]);
+
+  useEffect(() => {
+    if (!selectedId || details[selectedId]) return;
+    fetch(`${API_BASE}/api/runs/${encodeURIComponent(selectedId)}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load run");
+        return res.json() as Promise<GenerationRun>;
+      })
+      .then((run) => setDetails((prev) => ({ ...prev, [run.id]: run })))
+      .catch((err: Error) => setError(err.message));
+  }, [selectedId, details]);
+
+  const selected = details[selectedId];
+  const calls = useMemo(
+    () => (selected ? selected.calls.filter((c) => !onlyThisFlow || callBelongsToFlow(c, flowId)) : []),
+    [selected, onlyThisFlow, flowId]
+  );
+  const canReplay = selected?.kind === "generate-flows" || selected?.kind === "regenerate-flow";
+
+  async function handleReplay() {
+    setReplaying(true);
+    setError("");
+    try {
+      const res = await fetch(`${API_BASE}/api/runs/${encodeURIComponent(selectedId)}/replay`, { method: "POST" });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: "Re-running failed" }));
+        throw new Error(err.error || "Re-running failed");
+      }
+      onReplayed((await res.json()) as { runId: string; flows: FlowSpec[] });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Re-running failed.");
+    } finally {
+      setReplaying(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Generation Log — {flowName}</DialogTitle>
+          <DialogDescription>The model calls behind this flow: prompts, settings, raw responses, tokens and timing.</DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+
+        {runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No recorded runs for this result.</p>
+        ) : (
+          <div className="flex flex-col gap-3">
+            <div className="flex flex-col gap-1.5">
+              <Label htmlFor="run-select">Run</Label>
+              <select id="run-select" className={SELECT_CLASS} value={selectedId} onChange={(e) => setSelectedId(e.target.value)}>
+                {runs.map((r) => <option key={r.id} value={r.id}>{runLabel(r)}</option>)}
+              </select>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                <input type="checkbox" checked={onlyThisFlow} onChange={(e) => setOnlyThisFlow(e.target.checked)} />
+                Only calls for this flow
+              </label>
+              {canReplay && (
+                <Button variant="outline" size="sm" onClick={handleReplay} disabled={replaying}>
+                  {replaying ? "Re-running..." : "Re-run with current prompts"}
+                </Button>
+              )}
+            </div>
+            {selected?.error && <p className="text-xs text-destructive">Run {selected.status}: {selected.error}</p>}
+            {!selected ? (
+              <p className="text-sm text-muted-foreground">Loading run...</p>
+            ) : calls.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No model calls for this flow in this run (mirrored flows reuse their source's content).</p>
+            ) : (
+              <div className="flex flex-col gap-2">
+                {calls.map((call, i) => <CallDetails key={`${call.hash}-${i}`} call={call} />)}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { RevisionInfo } from "@/types/flow";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  busy: boolean;
+  onSave: (info: RevisionInfo) => void;
+};
+
+const AUTHOR_STORAGE = "gameplan_author";
+
+export function SaveGameplanDialog({ open, onOpenChange, busy, onSave }: Props) {
+  const [author, setAuthor] = useState(() => localStorage.getItem(AUTHOR_STORAGE) ?? "");
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    if (open) setMessage("");
+  }, [open]);
+
+  const handleSave = () => {
+    if (author.trim()) localStorage.setItem(AUTHOR_STORAGE, author.trim());
+    onSave({ author: author.trim(), message: message.trim() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Save Gameplan</DialogTitle>
+          <DialogDescription>Each changed flow gets a new revision you can compare against later.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4 py-2">
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="save-author">Author</Label>
+            <Input id="save-author" value={author} onChange={(e) => setAuthor(e.target.value)} placeholder="Your name" />
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="save-message">Message</Label>
+            <Textarea id="save-message" rows={3} value={message} onChange={(e) => setMessage(e.target.value)} placeholder="e.g. Client feedback: softer discount in email 2" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={busy}>{busy ? "Saving..." : "Save"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import type { LlmCallRecord, UsageReport } from "../types/flow";
+import { fetchUsage, formatTokens, formatUsd } from "../utils/usage";
+
+interface UsageCardProps {
+  gameplanId?: string;
+  runIds: string[];
+  /** Usage is fetched again when this turns false, once a generation or chat call finishes. */
+  busy?: boolean;
+}
+
+const TASK_LABELS: Record<LlmCallRecord["task"], string> = {
+  "analyze-brand": "Brand analysis",
+  "generate-flow": "Flow generation",
+  "parse-flow-text": "Text import",
+  "chat-flow": "AI chat",
+};
+
+/** Tokens and cost spent on the current result, saved or not. */
+export function UsageCard({ gameplanId, runIds, busy }: UsageCardProps) {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const runIdsKey = runIds.join(",");
+
+  useEffect(() => {
+    if (busy || (!gameplanId && !runIdsKey)) return;
+    let cancelled = false;
+    fetchUsage({ gameplanId, ids: runIdsKey ? runIdsKey.split(",") : undefined })
+      .then((r) => { if (!cancelled) setReport(r); })
+      .catch(() => { if (!cancelled) setReport(null); });
+    return () => { cancelled = true; };
+  }, [gameplanId, runIdsKey, busy]);
+
+  if (!report || report.totals.calls === 0) return null;
+  const { totals } = report;
+
+  return (
+    <div className="rounded-xl border border-sidebar-border bg-sidebar-card p-3 flex flex-col gap-2">
+      <p className="text-xs font-semibold text-sidebar-section-header uppercase tracking-wider px-1">Model Usage</p>
+      <div className="px-1 flex items-baseline justify-between gap-2">
+        <span className="text-lg font-semibold tabular-nums text-foreground">{formatUsd(totals.costUsd)}</span>
+        <span className="text-xs text-sidebar-muted">{formatTokens(totals.totalTokens)} · {totals.calls} calls</span>
+      </div>
+      <div className="flex flex-col gap-0.5 px-1">
+        {report.byTask.map((t) => (
+          <div key={t.task} className="flex items-center justify-between gap-2 text-[12px] text-sidebar-foreground">
+            <span className="truncate">{TASK_LABELS[t.task]}</span>
+            <span className="tabular-nums whitespace-nowrap text-sidebar-muted">{formatTokens(t.totalTokens)} · {formatUsd(t.costUsd)}</span>
+          </div>
+        ))}
+      </div>
+      {totals.unpricedTokens > 0 && (
+        <p className="text-[11px] text-sidebar-muted px-1">{formatTokens(totals.unpricedTokens)} from models without a price are not costed.</p>
+      )}
+    </div>
+  );
+}
+
+/** Spend over the report window: totals, a bar per day and the costliest gameplans. */
+export function UsageOverview({ report, days }: { report: UsageReport; days: number }) {
+  const { totals } = report;
+  const maxDayTokens = Math.max(1, ...report.byDay.map((d) => d.totalTokens));
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-4 mb-5 flex flex-col gap-3">
+      <div className="flex items-baseline justify-between gap-3">
+        <h3 className="text-sm font-semibold text-foreground">Model usage · last {days} days</h3>
+        <span className="text-xs text-muted-foreground">{formatTokens(totals.totalTokens)} · {totals.calls} calls</span>
+      </div>
+      <p className="text-2xl font-semibold tabular-nums text-foreground">{formatUsd(totals.costUsd)}</p>
+
+      {report.byDay.length > 0 && (
+        <div className="flex items-end gap-1 h-16" aria-label="Tokens per day">
+          {report.byDay.map((d) => (
+            <div
+              key={d.day}
+              className="flex-1 min-w-[4px] max-w-6 rounded-t bg-primary/70"
+              style={{ height: `${Math.max(4, (d.totalTokens / maxDayTokens) * 100)}%` }}
+              title={`${d.day}: ${formatTokens(d.totalTokens)} · ${formatUsd(d.costUsd)}`}
+            />
+          ))}
+        </div>
+      )}
+
+      {report.byGameplan.length > 0 && (
+        <div className="flex flex-col gap-0.5">
+          {report.byGameplan.slice(0, 5).map((g) => (
+            <div key={g.gameplanId ?? "unsaved"} className="flex items-center justify-between gap-2 text-xs">
+              <span className={`truncate ${g.gameplanId ? "text-foreground" : "text-muted-foreground italic"}`}>{g.name}</span>
+              <span className="tabular-nums whitespace-nowrap text-muted-foreground">{formatTokens(g.totalTokens)} · {formatUsd(g.costUsd)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {totals.unpricedTokens > 0 && (
+        <p className="text-[11px] text-muted-foreground">{formatTokens(totals.unpricedTokens)} from models without a price are not costed.</p>
+      )}
+    </div>
+  );
+}
@@ -172,7 +172,7 @@ function recomputePositions(
       const pY = newY.get(pid) ?? pNode.position.y;
       const pH = measured.get(pid) ?? 100;
       const gap =
-        pNode.data.nodeType === "split"
+        pNode.data.nodeType === "split" || pNode.data.nodeType === "abSplit"
           ? ROW_SPACING * SPLIT_GAP_MULTIPLIER
           : ROW_SPACING;
       const candidate = pY + pH + gap;
@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  CollabPeer,
+  CollabRejectReason,
+  CollabServerMessage,
+  EditorOperation,
+  FlowNode,
+  FlowSpec,
+  NodePosition,
+} from "@flow/core";
+import { API_BASE } from "../constants";
+
+export type CollabStatus = "idle" | "connecting" | "live";
+
+export type CollabRejection = {
+  reason: CollabRejectReason;
+  message: string;
+  /** The operation that was refused, so the caller can offer to re-apply it. */
+  operation: EditorOperation;
+  conflictWith?: { peer?: CollabPeer; node?: FlowNode };
+};
+
+type CollaborationHandlers = {
+  /** Another participant's operation, to apply to the local canvas. */
+  onRemoteOperation: (operation: EditorOperation) => void;
+  /** Replace local state with the server's copy (on join and after a rejection). */
+  onSync: (spec: FlowSpec) => void;
+  onReject: (rejection: CollabRejection) => void;
+  onDisconnect?: () => void;
+};
+
+const COLLAB_URL = `${API_BASE.replace(/^http/, "ws")}/api/collab`;
+const PRESENCE_INTERVAL_MS = 50;
+
+/**
+ * Live editing session for one flow. Local operations are applied optimistically
+ * by the caller and sent with the last server version seen; the server either
+ * echoes them back (acknowledged) or rejects them with its current spec.
+ */
+export function useCollaboration(handlers: CollaborationHandlers) {
+  const [status, setStatus] = useState<CollabStatus>("idle");
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+  const socketRef = useRef<WebSocket | null>(null);
+  const clientIdRef = useRef("");
+  const versionRef = useRef(0);
+  const pendingRef = useRef(new Map<string, EditorOperation>());
+  /* Own operations still in flight when a resync replaced local state; applied again when acknowledged. */
+  const replayRef = useRef(new Set<string>());
+  const opCounterRef = useRef(0);
+  const peersRef = useRef(peers);
+  peersRef.current = peers;
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const lastPresenceRef = useRef(0);
+
+  const handleMessage = useCallback((message: CollabServerMessage) => {
+    switch (message.type) {
+      case "welcome":
+        clientIdRef.current = message.clientId;
+        versionRef.current = message.version;
+        setPeers(message.peers);
+        setStatus("live");
+        handlersRef.current.onSync(message.spec);
+        break;
+      case "op":
+        versionRef.current = message.version;
+        if (message.clientId === clientIdRef.current && !replayRef.current.has(message.opId)) {
+          pendingRef.current.delete(message.opId);
+        } else {
+          replayRef.current.delete(message.opId);
+          pendingRef.current.delete(message.opId);
+          handlersRef.current.onRemoteOperation(message.operation);
+        }
+        break;
+      case "reject": {
+        const operation = pendingRef.current.get(message.opId);
+        pendingRef.current.delete(message.opId);
+        for (const opId of pendingRef.current.keys()) replayRef.current.add(opId);
+        versionRef.current = message.version;
+        handlersRef.current.onSync(message.spec);
+        if (operation) {
+          const peer = peersRef.current.find((p) => p.clientId === message.conflictWith?.clientId);
+          handlersRef.current.onReject({
+            reason: message.reason,
+            message: message.message,
+            operation,
+            conflictWith: message.conflictWith ? { peer, node: message.conflictWith.node } : undefined,
+          });
+        }
+        break;
+      }
+      case "presence":
+        setPeers((prev) => [...prev.filter((p) => p.clientId !== message.peer.clientId), message.peer]);
+        break;
+      case "leave":
+        setPeers((prev) => prev.filter((p) => p.clientId !== message.clientId));
+        break;
+      case "error":
+        console.warn("Collaboration error:", message.message);
+        break;
+    }
+  }, []);
+
+  const leave = useCallback(() => {
+    const socket = socketRef.current;
+    socketRef.current = null;
+    socket?.close();
+    pendingRef.current.clear();
+    replayRef.current.clear();
+    setPeers([]);
+    setStatus("idle");
+  }, []);
+
+  const join = useCallback((roomId: string, name: string, spec: FlowSpec) => {
+    socketRef.current?.close();
+    setStatus("connecting");
+    const socket = new WebSocket(COLLAB_URL);
+    socketRef.current = socket;
+    socket.onopen = () => socket.send(JSON.stringify({ type: "join", roomId, name, spec }));
+    socket.onmessage = (event) => {
+      if (socketRef.current !== socket) return;
+      try {
+        handleMessage(JSON.parse(event.data as string) as CollabServerMessage);
+      } catch (err) {
+        console.error("Bad collaboration message:", err);
+      }
+    };
+    socket.onclose = () => {
+      if (socketRef.current !== socket) return;
+      socketRef.current = null;
+      setPeers([]);
+      setStatus("idle");
+      handlersRef.current.onDisconnect?.();
+    };
+  }, [handleMessage]);
+
+  const sendOperation = useCallback((operation: EditorOperation) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN || !clientIdRef.current) return;
+    const opId = `${clientIdRef.current}:${(opCounterRef.current += 1)}`;
+    pendingRef.current.set(opId, operation);
+    socket.send(JSON.stringify({ type: "op", opId, baseVersion: versionRef.current, operation }));
+  }, []);
+
+  const sendPresence = useCallback((presence: { cursor?: NodePosition | null; selectedNodeId?: string | null }) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+    /* Cursor moves are throttled; selection changes always go out. */
+    if (presence.selectedNodeId === undefined && presence.cursor) {
+      const now = Date.now();
+      if (now - lastPresenceRef.current < PRESENCE_INTERVAL_MS) return;
+      lastPresenceRef.current = now;
+    }
+    socket.send(JSON.stringify({ type: "presence", ...presence }));
+  }, []);
+
+  useEffect(() => () => { socketRef.current?.close(); }, []);
+
+  return { status, peers, join, leave, sendOperation, sendPresence };
+}
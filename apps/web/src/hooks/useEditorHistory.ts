@@ -0,0 +1,70 @@
+import { useCallback, useRef, useState } from "react";
+import type { EditorOperation } from "@flow/core";
+
+export type HistoryEntry = {
+  /** Operations that redo the change, in order. */
+  redo: EditorOperation[];
+  /** Operations that undo the change, in order. */
+  undo: EditorOperation[];
+  /** Consecutive entries with the same key inside COALESCE_MS merge into one step (e.g. typing in a field). */
+  coalesceKey?: string;
+};
+
+type StackEntry = HistoryEntry & { at: number };
+
+const MAX_HISTORY = 100;
+const COALESCE_MS = 1000;
+
+/**
+ * Undo/redo stacks of editor operations. The hook only stores steps; `apply`
+ * runs operations against the canvas (and anything else that should see them).
+ */
+export function useEditorHistory(apply: (operations: EditorOperation[]) => void) {
+  const undoRef = useRef<StackEntry[]>([]);
+  const redoRef = useRef<StackEntry[]>([]);
+  const [counts, setCounts] = useState({ undo: 0, redo: 0 });
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+
+  const sync = () => setCounts({ undo: undoRef.current.length, redo: redoRef.current.length });
+
+  const record = useCallback((entry: HistoryEntry) => {
+    if (entry.redo.length === 0 || entry.undo.length === 0) return;
+    const now = Date.now();
+    const top = undoRef.current[undoRef.current.length - 1];
+    if (entry.coalesceKey && top?.coalesceKey === entry.coalesceKey && now - top.at < COALESCE_MS) {
+      /* Keep the oldest undo, take the newest redo */
+      undoRef.current[undoRef.current.length - 1] = { ...top, redo: entry.redo, at: now };
+    } else {
+      undoRef.current = [...undoRef.current, { ...entry, at: now }].slice(-MAX_HISTORY);
+    }
+    redoRef.current = [];
+    sync();
+  }, []);
+
+  const undo = useCallback(() => {
+    const entry = undoRef.current.pop();
+    if (!entry) return false;
+    redoRef.current.push(entry);
+    applyRef.current(entry.undo);
+    sync();
+    return true;
+  }, []);
+
+  const redo = useCallback(() => {
+    const entry = redoRef.current.pop();
+    if (!entry) return false;
+    undoRef.current.push({ ...entry, coalesceKey: undefined });
+    applyRef.current(entry.redo);
+    sync();
+    return true;
+  }, []);
+
+  const clear = useCallback(() => {
+    undoRef.current = [];
+    redoRef.current = [];
+    sync();
+  }, []);
+
+  return { record, undo, redo, clear, canUndo: counts.undo > 0, canRedo: counts.redo > 0 };
+}
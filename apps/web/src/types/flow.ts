@@ -1,9 +1,9 @@
-import type { FlowNode, FlowSpec, MessageStatus } from "@flow/core";
+import type { FlowNode, FlowSettings, FlowSpec, GraphWarning, MessageStatus } from "@flow/core";
 
-export type AppTab = "generate" | "editor" | "library";
+export type AppTab = "generate" | "gameplans" | "editor" | "library";
 export type TemplateChoice = "welcome-series" | "core-foundation" | "growth-engine" | "full-system" | "custom";
 export type PlanKey = "core-foundation" | "growth-engine" | "full-system" | "custom";
-export type NodeKind = "trigger" | "email" | "sms" | "wait" | "split" | "outcome" | "profileFilter" | "merge";
+export type NodeKind = "trigger" | "email" | "sms" | "wait" | "split" | "abSplit" | "outcome" | "profileFilter" | "merge";
 
 export type NodeCallbacks = {
   onPreview?: (nodeId: string) => void;
@@ -18,6 +18,10 @@ export type AppNodeData = {
   nodeType: FlowNode["type"];
   flowNode: FlowNode;
   callbacks?: NodeCallbacks;
+  /** Best-practice warnings that point at this node. */
+  lints?: GraphWarning[];
+  /** The flow's settings; only set on the trigger, which shows them. */
+  flowSettings?: FlowSettings;
 };
 
 export type BrandQuestionnaire = {
@@ -48,11 +52,146 @@ export type BrandProfile = {
   brandColor?: string;
 };
 
+/** An analyzed brand saved under its domain, reusable across gameplans. */
+export type SavedBrand = {
+  id: string;
+  domain: string;
+  websiteUrl: string;
+  brandName: string;
+  profile: BrandProfile;
+  questionnaire?: BrandQuestionnaire;
+  analyzedAt: string;
+  editedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SavedBrandSummary = Omit<SavedBrand, "profile" | "questionnaire"> & {
+  industry: string;
+  brandLogoUrl?: string;
+};
+
 export type GeneratedResult = {
+  /** Set once the result has been saved as a gameplan on the server. */
+  gameplanId?: string;
+  websiteUrl?: string;
+  brandProfile?: BrandProfile;
   planKey: string;
   planName: string;
   brandName: string;
   brandLogoUrl?: string;
   brandColor?: string;
   flows: FlowSpec[];
+  /** Recorded model runs behind this result; tied to the gameplan when it is saved. */
+  runIds?: string[];
+};
+
+/** Where one flow of a streaming generation run has got to. */
+export type GenerationFlowStatus = "pending" | "generating" | "retrying" | "fallback" | "done";
+
+export type GenerationProgressEntry = {
+  flowId: string;
+  name: string;
+  status: GenerationFlowStatus;
+};
+
+export type Gameplan = {
+  id: string;
+  name: string;
+  brandName: string;
+  websiteUrl?: string;
+  brandProfile?: BrandProfile;
+  brandLogoUrl?: string;
+  brandColor?: string;
+  planKey: string;
+  planName: string;
+  flows: FlowSpec[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type GameplanSummary = Omit<Gameplan, "flows" | "brandProfile"> & {
+  flowCount: number;
+};
+
+export type FlowRevisionSummary = {
+  id: string;
+  gameplanId: string;
+  flowId: string;
+  flowName: string;
+  number: number;
+  author: string;
+  message: string;
+  createdAt: string;
+};
+
+export type FlowRevision = FlowRevisionSummary & {
+  spec: FlowSpec;
+};
+
+export type RevisionInfo = {
+  author?: string;
+  message?: string;
+};
+
+export type LlmCallRecord = {
+  task: "analyze-brand" | "generate-flow" | "parse-flow-text" | "chat-flow";
+  tier: "fast" | "quality";
+  provider: string;
+  model: string;
+  messages: { role: "system" | "user" | "assistant"; content: string }[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;
+  /** The flow id for generate-flow calls. */
+  fixtureKey?: string;
+  hash: string;
+  response?: string;
+  error?: string;
+  usage?: { promptTokens: number; completionTokens: number; totalTokens: number };
+  startedAt: string;
+  latencyMs: number;
+};
+
+export type RunKind = "analyze-brand" | "generate-flows" | "regenerate-flow" | "chat-flow";
+
+export type RunSummary = {
+  id: string;
+  kind: RunKind;
+  status: "done" | "failed" | "cancelled";
+  gameplanId?: string;
+  replayOf?: string;
+  error?: string;
+  createdAt: string;
+  finishedAt: string;
+  callCount: number;
+  totalTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  flowIds: string[];
+};
+
+export type GenerationRun = Omit<RunSummary, "callCount" | "totalTokens" | "costUsd" | "latencyMs" | "flowIds"> & {
+  inputs: Record<string, unknown>;
+  output?: { flows?: FlowSpec[]; reply?: string };
+  calls: LlmCallRecord[];
+};
+
+export type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** Tokens from models without a known price, not included in `costUsd`. */
+  unpricedTokens: number;
+};
+
+export type UsageReport = {
+  since?: string;
+  totals: UsageTotals;
+  byDay: Array<{ day: string } & UsageTotals>;
+  byGameplan: Array<{ gameplanId: string | null; name: string } & UsageTotals>;
+  byTask: Array<{ task: LlmCallRecord["task"] } & UsageTotals>;
+  byModel: Array<{ model: string } & UsageTotals>;
 };
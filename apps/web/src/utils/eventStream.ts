@@ -0,0 +1,32 @@
+/**
+ * Read a Server-Sent Events body from a fetch response (EventSource only does GET).
+ * Calls `onEvent` with each event name and its JSON-parsed data, in order.
+ */
+export async function readEventStream(response: Response, onEvent: (event: string, data: unknown) => void): Promise<void> {
+  if (!response.body) throw new Error("Response has no body to stream.");
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+    }
+    if (data.length > 0) onEvent(event, JSON.parse(data.join("\n")));
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value.replace(/\r\n/g, "\n");
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+  if (buffer.trim()) dispatch(buffer);
+}
@@ -1,9 +1,17 @@
 import type { Edge, Node } from "reactflow";
 import {
+  describeAbSplit,
+  describeNodeCondition,
+  describeWait,
   expandPackageTemplate,
+  isPackageTemplateKey,
   parseFlowSpec,
+  waitBranchLabels,
   welcomeSeriesFixture,
+  type EditorOperation,
+  type ExpandedPackage,
   type FlowNode,
+  type FlowSettings,
   type FlowSpec
 } from "@flow/core";
 import { buildLayout } from "@flow/layout";
@@ -17,14 +25,21 @@ export function getSpecFromChoice(choice: TemplateChoice): FlowSpec {
   return expandPackageTemplate(choice).flows[0];
 }
 
+/** Mirror pairs for a template plan key ("core-foundation", ...); other plans have none. */
+export function planMirrors(planKey: string): ExpandedPackage["mirrors"] {
+  if (!isPackageTemplateKey(planKey)) return [];
+  return expandPackageTemplate(planKey).mirrors;
+}
+
 export function sanitizeId(input: string): string {
   return input.toLowerCase().replace(/[^a-z0-9_-]/g, "_").replace(/_{2,}/g, "_").replace(/^_+|_+$/g, "");
 }
 
 export function nodeSubtitle(node: FlowNode): string {
   if (node.type === "message") return node.channel.toUpperCase();
-  if (node.type === "wait") return `${node.duration.value} ${node.duration.unit}`;
-  if (node.type === "split") return node.condition;
+  if (node.type === "wait") return node.duration ? `${node.duration.value} ${node.duration.unit}` : describeWait(node);
+  if (node.type === "split" || node.type === "profileFilter") return describeNodeCondition(node)!;
+  if (node.type === "abSplit") return describeAbSplit(node);
   if (node.type === "trigger") return node.event;
   if (node.type === "note") return node.body;
   if (node.type === "strategy") return node.primaryFocus;
@@ -54,6 +69,7 @@ export function createFlowNode(kind: NodeKind): FlowNode {
   };
   if (kind === "wait") return { id, type: "wait", duration: { value: 1, unit: "days" } };
   if (kind === "split") return { id, type: "split", title: "Conditional Split", condition: "Condition", labels: ["Yes", "No"] };
+  if (kind === "abSplit") return { id, type: "abSplit", title: "A/B Split", variants: [{ label: "A", weight: 50 }, { label: "B", weight: 50 }] };
   if (kind === "profileFilter") return { id, type: "profileFilter", title: "Profile Filters", filters: ["Filter"] };
   if (kind === "merge") return { id, type: "merge", title: "Merge" };
   return { id, type: "outcome", title: "Outcome", result: "Completed" };
@@ -102,8 +118,10 @@ export function specToRfEdges(spec: FlowSpec, rfNodes?: Node<AppNodeData>[]): Ed
   const BRANCH_COLORS = ["#2563eb", "#6b7280", "#7c3aed", "#d97706", "#059669", "#dc2626"];
   const splitLabelMap = new Map<string, number>();
   for (const n of spec.nodes) {
-    if (n.type === "split") {
-      const labels: string[] = Array.isArray(n.labels) ? n.labels : ["Yes", "No"];
+    if (n.type === "split" || n.type === "abSplit" || n.type === "wait") {
+      const labels: string[] = n.type === "wait" ? waitBranchLabels(n)
+        : n.type === "abSplit" ? n.variants.map((v) => v.label)
+        : Array.isArray(n.labels) ? n.labels : ["Yes", "No"];
       labels.forEach((l, i) => splitLabelMap.set(`${n.id}::${l.trim().toLowerCase()}`, i));
     }
   }
@@ -118,7 +136,7 @@ export function specToRfEdges(spec: FlowSpec, rfNodes?: Node<AppNodeData>[]): Ed
 
     let branchLabelStyle: Record<string, unknown> = {};
     const sourceNode = nodeById.get(e.from);
-    if (sourceNode?.type === "split" && normalizedLabel) {
+    if ((sourceNode?.type === "split" || sourceNode?.type === "abSplit" || (sourceNode?.type === "wait" && sourceNode.until?.kind === "event")) && normalizedLabel) {
       const idx = splitLabelMap.get(`${e.from}::${normalizedLabel}`) ?? 0;
       const color = BRANCH_COLORS[idx % BRANCH_COLORS.length];
       branchLabelStyle = {
@@ -150,12 +168,19 @@ export function specToRfEdges(spec: FlowSpec, rfNodes?: Node<AppNodeData>[]): Ed
   });
 }
 
+/** Flow-level fields of a loaded flow that the canvas does not hold. */
+export type EditorFlowMeta = Pick<FlowSpec, "id" | "name" | "channels" | "defaults">;
+
+export function editorFlowMeta(spec: FlowSpec): EditorFlowMeta {
+  return { id: spec.id, name: spec.name, channels: spec.channels, defaults: spec.defaults };
+}
+
 export function editorToFlowSpec(
   rfNodes: Node<AppNodeData>[],
   rfEdges: Edge[],
-  overrides?: { id?: string; name?: string; channels?: ("email" | "sms")[]; defaults?: { delay: { value: number; unit: "minutes" | "hours" | "days" } } },
+  overrides?: Partial<EditorFlowMeta> & { settings?: FlowSettings },
 ): FlowSpec {
-  const channels = new Set<"email" | "sms">(["email"]);
+  const channels = new Set<"email" | "sms">();
   const flowNodes: FlowNode[] = rfNodes.map((n) => {
     const fn = n.data.flowNode;
     if (fn.type === "message") channels.add(fn.channel);
@@ -171,8 +196,51 @@ export function editorToFlowSpec(
     id: overrides?.id ?? "editor_flow",
     name: overrides?.name ?? "Custom Editor Flow",
     source: { mode: "manual" },
-    channels: overrides?.channels ?? [...channels],
+    channels: overrides?.channels ?? (channels.size > 0 ? [...channels] : ["email"]),
     defaults: overrides?.defaults ?? { delay: { value: 2, unit: "days" } },
+    ...(overrides?.settings ? { settings: overrides.settings } : {}),
     nodes: flowNodes, edges: flowEdges, ui: { nodePositions: positions }
   } as FlowSpec;
 }
+
+/** Apply an editor operation (e.g. from a collaborator) to React Flow canvas state. */
+export function applyOperationToCanvas(
+  rfNodes: Node<AppNodeData>[],
+  rfEdges: Edge[],
+  operation: EditorOperation,
+): { nodes: Node<AppNodeData>[]; edges: Edge[] } {
+  const withNode = (nodeId: string, update: (n: Node<AppNodeData>) => Node<AppNodeData>) =>
+    rfNodes.map((n) => (n.id === nodeId ? update(n) : n));
+  const withFlowNode = (n: Node<AppNodeData>, fn: FlowNode): Node<AppNodeData> =>
+    ({ ...n, data: { ...n.data, title: "title" in fn ? fn.title : fn.type, subtitle: nodeSubtitle(fn), flowNode: fn } });
+
+  switch (operation.type) {
+    case "addNode":
+      return { nodes: [...rfNodes, toRfNode(operation.node, operation.position ?? { x: 200, y: 80 + rfNodes.length * 140 })], edges: rfEdges };
+    case "removeNode":
+      return {
+        nodes: rfNodes.filter((n) => n.id !== operation.nodeId),
+        edges: rfEdges.filter((e) => e.source !== operation.nodeId && e.target !== operation.nodeId),
+      };
+    case "updateNode":
+      return { nodes: withNode(operation.node.id, (n) => withFlowNode(n, operation.node)), edges: rfEdges };
+    case "updateNodeTitle":
+      return {
+        nodes: withNode(operation.nodeId, (n) => "title" in n.data.flowNode ? withFlowNode(n, { ...n.data.flowNode, title: operation.title } as FlowNode) : n),
+        edges: rfEdges,
+      };
+    case "moveNode":
+      return { nodes: withNode(operation.nodeId, (n) => ({ ...n, position: operation.position })), edges: rfEdges };
+    case "addEdge": {
+      const { id, from, to, label } = operation.edge;
+      return { nodes: rfNodes, edges: [...rfEdges.filter((e) => e.id !== id), { id, source: from, target: to, label, ...EDGE_STYLE }] };
+    }
+    case "removeEdge":
+      return { nodes: rfNodes, edges: rfEdges.filter((e) => e.id !== operation.edgeId) };
+    case "updateEdgeLabel":
+      return { nodes: rfNodes, edges: rfEdges.map((e) => (e.id === operation.edgeId ? { ...e, label: operation.label || undefined } : e)) };
+    /* Settings live beside the canvas, not on it */
+    case "updateSettings":
+      return { nodes: rfNodes, edges: rfEdges };
+  }
+}
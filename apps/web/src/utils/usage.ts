@@ -0,0 +1,24 @@
+import { API_BASE } from "../constants";
+import type { UsageReport } from "../types/flow";
+
+const usd = new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 2, maximumFractionDigits: 4 });
+const compact = new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 });
+
+/** Cents are too coarse for single runs, so small amounts keep up to four decimals. */
+export function formatUsd(value: number): string {
+  return value > 0 && value < 0.0001 ? "<$0.0001" : usd.format(value);
+}
+
+export function formatTokens(value: number): string {
+  return `${compact.format(value)} tokens`;
+}
+
+export async function fetchUsage(query: { days?: number; gameplanId?: string; ids?: string[] }): Promise<UsageReport> {
+  const params = new URLSearchParams();
+  if (query.days) params.set("days", String(query.days));
+  if (query.gameplanId) params.set("gameplanId", query.gameplanId);
+  if (query.ids?.length) params.set("ids", query.ids.join(","));
+  const res = await fetch(`${API_BASE}/api/usage?${params}`);
+  if (!res.ok) throw new Error("Failed to load usage");
+  return (await res.json()) as UsageReport;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { welcomeSeriesFixture } from "../fixtures/welcomeSeries.js";
+import type { FlowSpec } from "../schema/flowSpec.js";
+import { diffFlowSpecs } from "./flowDiff.js";
+
+function clone(spec: FlowSpec): FlowSpec {
+  return JSON.parse(JSON.stringify(spec)) as FlowSpec;
+}
+
+describe("diffFlowSpecs", () => {
+  it("reports no changes for identical specs", () => {
+    const diff = diffFlowSpecs(welcomeSeriesFixture, clone(welcomeSeriesFixture));
+    expect(diff.hasChanges).toBe(false);
+  });
+
+  it("ignores canvas position changes", () => {
+    const moved = clone(welcomeSeriesFixture);
+    moved.ui = { nodePositions: { email_welcome: { x: 10, y: 20 } } };
+    expect(diffFlowSpecs(welcomeSeriesFixture, moved).hasChanges).toBe(false);
+  });
+
+  it("detects added and removed nodes", () => {
+    const next = clone(welcomeSeriesFixture);
+    next.nodes = next.nodes.filter((n) => n.id !== "sms_yes_referral");
+    next.nodes.push({ id: "note_1", type: "note", title: "Note", body: "Check copy" });
+
+    const diff = diffFlowSpecs(welcomeSeriesFixture, next);
+    expect(diff.removedNodes.map((n) => n.id)).toEqual(["sms_yes_referral"]);
+    expect(diff.addedNodes.map((n) => n.id)).toEqual(["note_1"]);
+  });
+
+  it("reports changed message fields by dotted path", () => {
+    const next = clone(welcomeSeriesFixture);
+    const node = next.nodes.find((n) => n.id === "sms_yes_referral");
+    if (!node || node.type !== "message") throw new Error("fixture changed");
+    node.copyHint = "New copy direction";
+    node.discountCode = { included: true, code: "REFER10", description: node.discountCode?.description };
+
+    const diff = diffFlowSpecs(welcomeSeriesFixture, next);
+    expect(diff.changedNodes).toHaveLength(1);
+    const fields = diff.changedNodes[0].changes.map((c) => c.field);
+    expect(fields).toContain("copyHint");
+    expect(fields).toContain("discountCode.code");
+    expect(diff.changedNodes[0].changes.find((c) => c.field === "discountCode.code")).toMatchObject({
+      before: undefined,
+      after: "REFER10"
+    });
+  });
+
+  it("detects edge rewiring and ignores regenerated edge ids", () => {
+    const next = clone(welcomeSeriesFixture);
+    next.edges = next.edges.map((e) => {
+      if (e.id === "e9") return { ...e, to: "outcome_no" };
+      if (e.id === "e1") return { ...e, id: "edge_trigger" };
+      return e;
+    });
+
+    const diff = diffFlowSpecs(welcomeSeriesFixture, next);
+    expect(diff.rewiredEdges).toEqual([
+      {
+        edgeId: "e9",
+        before: { from: "sms_yes_referral", to: "outcome_yes" },
+        after: { from: "sms_yes_referral", to: "outcome_no" }
+      }
+    ]);
+    expect(diff.addedEdges).toEqual([]);
+    expect(diff.removedEdges).toEqual([]);
+  });
+
+  it("reports flow-level changes", () => {
+    const next = clone(welcomeSeriesFixture);
+    next.name = "Welcome Series v2";
+    const diff = diffFlowSpecs(welcomeSeriesFixture, next);
+    expect(diff.flowChanges).toEqual([{ field: "name", before: welcomeSeriesFixture.name, after: "Welcome Series v2" }]);
+  });
+
+  it("reports flow settings changes", () => {
+    const next = clone(welcomeSeriesFixture);
+    next.settings = { reentry: { mode: "once-per-period", days: 30 }, smsQuietHours: { start: "21:00", end: "09:00" } };
+    const diff = diffFlowSpecs(welcomeSeriesFixture, next);
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.flowChanges.map((c) => c.field)).toEqual(["settings"]);
+
+    const changed = clone(next);
+    changed.settings!.reentry = { mode: "once" };
+    expect(diffFlowSpecs(next, changed).flowChanges).toEqual([
+      { field: "settings.reentry.mode", before: "once-per-period", after: "once" },
+      { field: "settings.reentry.days", before: 30, after: undefined }
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import type { FlowEdge, FlowNode, FlowSpec } from "../schema/flowSpec.js";
+
+export type FieldChange = {
+  /** Dotted path of the changed field, e.g. `copyHint` or `discountCode.code`. */
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type NodeDiff = {
+  nodeId: string;
+  type: FlowNode["type"];
+  title: string;
+  changes: FieldChange[];
+};
+
+export type EdgeEndpoints = Pick<FlowEdge, "from" | "to" | "label">;
+
+export type EdgeRewire = {
+  edgeId: string;
+  before: EdgeEndpoints;
+  after: EdgeEndpoints;
+};
+
+export type FlowDiff = {
+  flowChanges: FieldChange[];
+  addedNodes: FlowNode[];
+  removedNodes: FlowNode[];
+  changedNodes: NodeDiff[];
+  addedEdges: FlowEdge[];
+  removedEdges: FlowEdge[];
+  rewiredEdges: EdgeRewire[];
+  hasChanges: boolean;
+};
+
+/* Flow-level fields worth reporting; `ui` only holds canvas positions. */
+const FLOW_FIELDS = ["name", "source", "channels", "defaults", "settings"] as const;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function collectChanges(before: unknown, after: unknown, prefix: string, out: FieldChange[]) {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      collectChanges(before[key], after[key], prefix ? `${prefix}.${key}` : key, out);
+    }
+    return;
+  }
+  if (!sameValue(before, after)) out.push({ field: prefix, before, after });
+}
+
+function nodeTitle(node: FlowNode): string {
+  return "title" in node && typeof node.title === "string" ? node.title : node.id;
+}
+
+function endpoints(edge: FlowEdge): EdgeEndpoints {
+  return edge.label === undefined ? { from: edge.from, to: edge.to } : { from: edge.from, to: edge.to, label: edge.label };
+}
+
+function edgeKey(edge: FlowEdge): string {
+  return `${edge.from}->${edge.to}::${edge.label ?? ""}`;
+}
+
+/**
+ * Structural diff between two revisions of a flow. Nodes and edges are matched
+ * by id; edges whose ids changed but still connect the same nodes with the same
+ * label are treated as unchanged so regenerated ids don't show up as noise.
+ */
+export function diffFlowSpecs(before: FlowSpec, after: FlowSpec): FlowDiff {
+  const flowChanges: FieldChange[] = [];
+  for (const field of FLOW_FIELDS) {
+    collectChanges(before[field], after[field], field, flowChanges);
+  }
+
+  const beforeNodes = new Map(before.nodes.map((n) => [n.id, n]));
+  const afterNodes = new Map(after.nodes.map((n) => [n.id, n]));
+
+  const addedNodes = after.nodes.filter((n) => !beforeNodes.has(n.id));
+  const removedNodes = before.nodes.filter((n) => !afterNodes.has(n.id));
+  const changedNodes: NodeDiff[] = [];
+
+  for (const node of after.nodes) {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) continue;
+    const changes: FieldChange[] = [];
+    collectChanges(previous, node, "", changes);
+    if (changes.length > 0) {
+      changedNodes.push({ nodeId: node.id, type: node.type, title: nodeTitle(node), changes });
+    }
+  }
+
+  const beforeEdges = new Map(before.edges.map((e) => [e.id, e]));
+  const afterEdges = new Map(after.edges.map((e) => [e.id, e]));
+  const rewiredEdges: EdgeRewire[] = [];
+
+  for (const edge of after.edges) {
+    const previous = beforeEdges.get(edge.id);
+    if (previous && !sameValue(endpoints(previous), endpoints(edge))) {
+      rewiredEdges.push({ edgeId: edge.id, before: endpoints(previous), after: endpoints(edge) });
+    }
+  }
+
+  const beforeKeys = new Set(before.edges.map(edgeKey));
+  const afterKeys = new Set(after.edges.map(edgeKey));
+  const addedEdges = after.edges.filter((e) => !beforeEdges.has(e.id) && !beforeKeys.has(edgeKey(e)));
+  const removedEdges = before.edges.filter((e) => !afterEdges.has(e.id) && !afterKeys.has(edgeKey(e)));
+
+  const hasChanges =
+    flowChanges.length > 0 ||
+    addedNodes.length > 0 ||
+    removedNodes.length > 0 ||
+    changedNodes.length > 0 ||
+    addedEdges.length > 0 ||
+    removedEdges.length > 0 ||
+    rewiredEdges.length > 0;
+
+  return { flowChanges, addedNodes, removedNodes, changedNodes, addedEdges, removedEdges, rewiredEdges, hasChanges };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { welcomeSeriesFixture } from "../fixtures/welcomeSeries.js";
+import type { FlowNode } from "../schema/flowSpec.js";
+import { createCollabDocument, submitOperation, type CollabDocument } from "./collabSession.js";
+import { applyEditorOperation, operationsConflict, type EditorOperation } from "./editorOps.js";
+
+function welcomeEmail(title: string): FlowNode {
+  const node = welcomeSeriesFixture.nodes.find((n) => n.id === "email_welcome")!;
+  return { ...node, title } as FlowNode;
+}
+
+function submit(document: CollabDocument, clientId: string, baseVersion: number, operation: EditorOperation) {
+  const result = submitOperation(document, clientId, baseVersion, operation);
+  if (!result.ok) throw new Error(result.message);
+  return result.document;
+}
+
+describe("applyEditorOperation", () => {
+  it("allows in-progress graphs when validation is off but keeps references intact", () => {
+    const split: FlowNode = { id: "split_new", type: "split", title: "New split", condition: "Clicked", labels: ["Yes", "No"] };
+    const op: EditorOperation = { type: "addNode", node: split, position: { x: 10, y: 20 } };
+
+    expect(() => applyEditorOperation(welcomeSeriesFixture, op)).toThrow(/missing outgoing edge/);
+    const spec = applyEditorOperation(welcomeSeriesFixture, op, { validate: false });
+    expect(spec.ui?.nodePositions?.split_new).toEqual({ x: 10, y: 20 });
+
+    expect(() =>
+      applyEditorOperation(spec, { type: "addEdge", edge: { id: "e_bad", from: "split_new", to: "ghost" } }, { validate: false })
+    ).toThrow(/missing destination node ghost/);
+  });
+
+  it("flags concurrent content edits and removals but not moves", () => {
+    const edit: EditorOperation = { type: "updateNode", node: welcomeEmail("A") };
+    expect(operationsConflict(edit, { type: "updateNode", node: welcomeEmail("B") })).toBe(true);
+    expect(operationsConflict({ type: "removeNode", nodeId: "email_welcome" }, edit)).toBe(true);
+    expect(operationsConflict(edit, { type: "moveNode", nodeId: "email_welcome", position: { x: 0, y: 0 } })).toBe(false);
+    expect(operationsConflict(edit, { type: "updateNode", node: { ...welcomeEmail("C"), id: "email_brand_story" } as FlowNode })).toBe(false);
+  });
+});
+
+describe("submitOperation", () => {
+  it("rebases non-conflicting operations made against an older version", () => {
+    let doc = createCollabDocument(welcomeSeriesFixture);
+    doc = submit(doc, "alice", 0, { type: "updateNode", node: welcomeEmail("Alice's welcome") });
+    doc = submit(doc, "bob", 0, { type: "updateEdgeLabel", edgeId: "e2", label: "next" });
+
+    expect(doc.version).toBe(2);
+    expect(doc.spec.nodes.find((n) => n.id === "email_welcome")).toMatchObject({ title: "Alice's welcome" });
+    expect(doc.spec.edges.find((e) => e.id === "e2")?.label).toBe("next");
+  });
+
+  it("rejects the second concurrent edit to the same message node", () => {
+    let doc = createCollabDocument(welcomeSeriesFixture);
+    doc = submit(doc, "alice", 0, { type: "updateNode", node: welcomeEmail("Alice's welcome") });
+
+    const result = submitOperation(doc, "bob", 0, { type: "updateNode", node: welcomeEmail("Bob's welcome") });
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.reason).toBe("conflict");
+    expect(result.conflictWith?.clientId).toBe("alice");
+    expect(result.message).toContain("Alice's welcome");
+
+    /* Once Bob has seen Alice's edit, overwriting is allowed. */
+    expect(submitOperation(doc, "bob", 1, { type: "updateNode", node: welcomeEmail("Bob's welcome") }).ok).toBe(true);
+  });
+
+  it("does not treat a client's own earlier operations as conflicts", () => {
+    let doc = createCollabDocument(welcomeSeriesFixture);
+    doc = submit(doc, "alice", 0, { type: "updateNode", node: welcomeEmail("Draft 1") });
+    doc = submit(doc, "alice", 0, { type: "updateNode", node: welcomeEmail("Draft 2") });
+    expect(doc.spec.nodes.find((n) => n.id === "email_welcome")).toMatchObject({ title: "Draft 2" });
+  });
+
+  it("reports invalid and stale operations without changing the document", () => {
+    const doc = createCollabDocument(welcomeSeriesFixture);
+    const invalid = submitOperation(doc, "alice", 0, { type: "removeEdge", edgeId: "missing" });
+    expect(invalid).toMatchObject({ ok: false, reason: "invalid" });
+    expect(submitOperation(doc, "alice", 5, { type: "removeEdge", edgeId: "e1" })).toMatchObject({ ok: false, reason: "stale" });
+    expect(doc.version).toBe(0);
+  });
+});
@@ -0,0 +1,102 @@
+import type { FlowNode, FlowSpec } from "../schema/flowSpec.js";
+import { applyEditorOperation, operationsConflict, type EditorOperation, type NodePosition } from "./editorOps.js";
+
+export type CollabPeer = {
+  clientId: string;
+  name: string;
+  color: string;
+  /** Pointer in flow (canvas) coordinates, null when outside the canvas. */
+  cursor?: NodePosition | null;
+  selectedNodeId?: string | null;
+};
+
+export type CollabClientMessage =
+  | { type: "join"; roomId: string; name: string; spec: FlowSpec }
+  | { type: "op"; opId: string; baseVersion: number; operation: EditorOperation }
+  | { type: "presence"; cursor?: NodePosition | null; selectedNodeId?: string | null };
+
+export type CollabRejectReason = "conflict" | "invalid" | "stale";
+
+export type CollabServerMessage =
+  | { type: "welcome"; clientId: string; version: number; spec: FlowSpec; peers: CollabPeer[] }
+  | { type: "op"; opId: string; clientId: string; version: number; operation: EditorOperation }
+  | {
+      type: "reject";
+      opId: string;
+      reason: CollabRejectReason;
+      message: string;
+      /** Authoritative state to resync from. */
+      version: number;
+      spec: FlowSpec;
+      /** For conflicts, the peer whose change won and the node as they left it. */
+      conflictWith?: { clientId: string; node?: FlowNode };
+    }
+  | { type: "presence"; peer: CollabPeer }
+  | { type: "leave"; clientId: string }
+  | { type: "error"; message: string };
+
+export type AppliedOperation = { version: number; clientId: string; operation: EditorOperation };
+
+export type CollabDocument = {
+  spec: FlowSpec;
+  version: number;
+  /** Recent operations, oldest first, for checking late submissions against. */
+  log: AppliedOperation[];
+};
+
+export type SubmitResult =
+  | { ok: true; document: CollabDocument; applied: AppliedOperation }
+  | { ok: false; reason: CollabRejectReason; message: string; conflictWith?: AppliedOperation };
+
+export const MAX_OPERATION_LOG = 500;
+
+export function createCollabDocument(spec: FlowSpec): CollabDocument {
+  return { spec, version: 0, log: [] };
+}
+
+/**
+ * Apply an operation made against `baseVersion`. Operations from other clients
+ * since then are checked with `operationsConflict`; the submitter's own earlier
+ * operations never conflict since it applied them locally before this one.
+ */
+export function submitOperation(
+  document: CollabDocument,
+  clientId: string,
+  baseVersion: number,
+  operation: EditorOperation
+): SubmitResult {
+  const oldestKnown = document.log[0]?.version ?? document.version + 1;
+  if (baseVersion < oldestKnown - 1 || baseVersion > document.version) {
+    return { ok: false, reason: "stale", message: "Your copy is too far behind; reloaded the latest version." };
+  }
+
+  const conflictWith = document.log.find(
+    (entry) => entry.version > baseVersion && entry.clientId !== clientId && operationsConflict(entry.operation, operation)
+  );
+  if (conflictWith) {
+    return { ok: false, reason: "conflict", message: describeConflict(conflictWith.operation), conflictWith };
+  }
+
+  let spec: FlowSpec;
+  try {
+    spec = applyEditorOperation(document.spec, operation, { validate: false });
+  } catch (err) {
+    return { ok: false, reason: "invalid", message: (err as Error).message };
+  }
+
+  const applied: AppliedOperation = { version: document.version + 1, clientId, operation };
+  return {
+    ok: true,
+    applied,
+    document: { spec, version: applied.version, log: [...document.log, applied].slice(-MAX_OPERATION_LOG) }
+  };
+}
+
+function describeConflict(operation: EditorOperation): string {
+  if (operation.type === "removeNode") return "Someone removed this node while you were editing it.";
+  if (operation.type === "removeEdge") return "Someone removed this connection while you were editing it.";
+  if (operation.type === "updateNode" && operation.node.type === "message") {
+    return `Someone else saved changes to "${operation.node.title}" first.`;
+  }
+  return "Someone else changed this first.";
+}
@@ -1,6 +1,24 @@
 import { describe, expect, it } from "vitest";
 import { welcomeSeriesFixture } from "../fixtures/welcomeSeries.js";
-import { addEdge, addNode, removeEdge, removeNode, updateEdgeLabel, updateNodeTitle } from "./editorOps.js";
+import {
+  addEdge,
+  addNode,
+  applyEditorOperation,
+  convertSegmentToSplit,
+  duplicateSubtree,
+  insertNodeBetween,
+  invertEditorOperation,
+  moveNodeToEdge,
+  removeEdge,
+  removeNode,
+  renumberStepIndexes,
+  swapMessageChannel,
+  updateEdgeLabel,
+  updateNodeFields,
+  updateNodeTitle,
+  type EditorOperation
+} from "./editorOps.js";
+import type { FlowSpec } from "../schema/flowSpec.js";
 
 describe("editorOps", () => {
   it("updates node title safely", () => {
@@ -49,3 +67,100 @@ describe("editorOps", () => {
     expect(edge?.label).toBe("next");
   });
 });
+
+describe("invertEditorOperation", () => {
+  const positioned: FlowSpec = {
+    ...welcomeSeriesFixture,
+    ui: { nodePositions: { email_welcome: { x: 100, y: 200 }, wait_1: { x: 100, y: 340 } } }
+  };
+
+  function roundTrip(operation: EditorOperation) {
+    const inverse = invertEditorOperation(positioned, operation);
+    const after = applyEditorOperation(positioned, operation, { validate: false });
+    return inverse.reduce((spec, op) => applyEditorOperation(spec, op, { validate: false }), after);
+  }
+
+  it("restores a removed node with its position and connected edges", () => {
+    const restored = roundTrip({ type: "removeNode", nodeId: "email_welcome" });
+    expect(restored.nodes.map((n) => n.id).sort()).toEqual(positioned.nodes.map((n) => n.id).sort());
+    expect(restored.edges.map((e) => e.id).sort()).toEqual(positioned.edges.map((e) => e.id).sort());
+    expect(restored.ui?.nodePositions?.email_welcome).toEqual({ x: 100, y: 200 });
+  });
+
+  it("undoes content, label and position changes", () => {
+    const email = positioned.nodes.find((n) => n.id === "email_welcome")!;
+    expect(roundTrip({ type: "updateNode", node: { ...email, title: "Changed" } as typeof email }).nodes)
+      .toContainEqual(email);
+    expect(roundTrip({ type: "updateEdgeLabel", edgeId: "e6_yes", label: "Bought" }).edges.find((e) => e.id === "e6_yes")?.label)
+      .toBe("Yes");
+    expect(roundTrip({ type: "moveNode", nodeId: "wait_1", position: { x: 0, y: 0 } }).ui?.nodePositions?.wait_1)
+      .toEqual({ x: 100, y: 340 });
+  });
+
+  it("undoes settings changes, including clearing settings that were never set", () => {
+    expect(roundTrip({ type: "updateSettings", settings: { reentry: { mode: "once" } } }).settings).toBeUndefined();
+    const withSettings: FlowSpec = { ...positioned, settings: { sendInRecipientTimezone: true } };
+    const inverse = invertEditorOperation(withSettings, { type: "updateSettings" });
+    expect(inverse).toEqual([{ type: "updateSettings", settings: { sendInRecipientTimezone: true } }]);
+  });
+});
+
+describe("graph editing operations", () => {
+  const outgoing = (spec: FlowSpec, id: string) => spec.edges.filter((e) => e.from === id);
+  const node = (spec: FlowSpec, id: string) => spec.nodes.find((n) => n.id === id);
+
+  it("inserts a node into a connection, keeping the branch label on the first hop", () => {
+    const spec = insertNodeBetween(welcomeSeriesFixture, "e6_yes", { id: "wait_extra", type: "wait", duration: { value: 4, unit: "hours" } });
+    expect(spec.edges.find((e) => e.id === "e6_yes")).toMatchObject({ from: "split_purchased", to: "wait_extra", label: "Yes" });
+    expect(outgoing(spec, "wait_extra").map((e) => e.to)).toEqual(["email_yes_thankyou"]);
+  });
+
+  it("moves a node to another connection and closes the gap it left", () => {
+    const spec = moveNodeToEdge(welcomeSeriesFixture, "wait_1", "e12");
+    expect(outgoing(spec, "email_welcome").map((e) => e.to)).toEqual(["email_brand_story"]);
+    expect(outgoing(spec, "email_no_offer").map((e) => e.to)).toEqual(["wait_1"]);
+    expect(outgoing(spec, "wait_1").map((e) => e.to)).toEqual(["wait_no_2"]);
+    expect(() => moveNodeToEdge(welcomeSeriesFixture, "split_purchased", "e2")).toThrow(/split/);
+  });
+
+  it("duplicates a branch with fresh ids and optionally attaches it", () => {
+    const { spec, idMap } = duplicateSubtree(welcomeSeriesFixture, "email_yes_thankyou");
+    expect(Object.keys(idMap).sort()).toEqual(["email_yes_thankyou", "outcome_yes", "sms_yes_referral", "wait_yes_1"]);
+    expect(idMap.email_yes_thankyou).toBe("email_yes_thankyou_copy");
+    expect(outgoing(spec, idMap.wait_yes_1).map((e) => e.to)).toEqual([idMap.sms_yes_referral]);
+    expect(spec.edges.some((e) => e.to === idMap.email_yes_thankyou)).toBe(false);
+
+    const again = duplicateSubtree(spec, "email_yes_thankyou", { from: "outcome_no" });
+    expect(again.idMap.email_yes_thankyou).toBe("email_yes_thankyou_copy_2");
+    expect(outgoing(again.spec, "outcome_no").map((e) => e.to)).toEqual(["email_yes_thankyou_copy_2"]);
+  });
+
+  it("converts a linear segment into a split with a copy per extra branch", () => {
+    const spec = convertSegmentToSplit(welcomeSeriesFixture, "email_brand_story", { title: "Engaged?", condition: "Opened any email" });
+    const split = spec.nodes.find((n) => n.type === "split" && n.title === "Engaged?")!;
+    expect(spec.edges.find((e) => e.id === "e3")?.to).toBe(split.id);
+    const branches = outgoing(spec, split.id);
+    expect(branches.map((e) => [e.label, e.to])).toEqual([["Yes", "email_brand_story"], ["No", "email_brand_story_copy"]]);
+    /* The segment ends at the existing split, so the copy carries it and both of its branches */
+    expect(node(spec, "split_purchased_copy")).toBeDefined();
+    expect(node(spec, "email_no_offer_copy")).toBeUndefined();
+  });
+
+  it("updates arbitrary fields, renumbers steps and swaps channels", () => {
+    const patched = updateNodeFields(welcomeSeriesFixture, "email_welcome", { messagingFocus: "Welcome", copyHint: undefined });
+    expect(node(patched, "email_welcome")).toMatchObject({ messagingFocus: "Welcome" });
+    expect(node(patched, "email_welcome")).not.toHaveProperty("copyHint");
+    expect(() => updateNodeFields(welcomeSeriesFixture, "email_welcome", { type: "wait" } as never)).toThrow(/id and type/);
+
+    const inserted = insertNodeBetween(welcomeSeriesFixture, "e1", { id: "email_first", type: "message", channel: "email", title: "Email 0" });
+    const renumbered = renumberStepIndexes(inserted);
+    expect(node(renumbered, "email_first")).toMatchObject({ stepIndex: 1 });
+    expect(node(renumbered, "email_welcome")).toMatchObject({ stepIndex: 2 });
+    expect(node(renumbered, "email_yes_thankyou")).toMatchObject({ stepIndex: 4 });
+    expect(node(renumbered, "email_no_social_proof")).toMatchObject({ stepIndex: 4 });
+
+    const swapped = swapMessageChannel({ ...inserted, channels: ["email"] }, "email_first");
+    expect(node(swapped, "email_first")).toMatchObject({ channel: "sms", title: "SMS 0" });
+    expect(swapped.channels).toEqual(["email", "sms"]);
+  });
+});
@@ -1,5 +1,31 @@
 import type { FlowEdge, FlowNode, FlowSpec } from "../schema/flowSpec.js";
 import { parseFlowSpecSafe } from "../schema/flowSpec.js";
+import { describeCondition, type FlowCondition } from "../schema/flowCondition.js";
+import type { FlowSettings } from "../schema/flowSettings.js";
+
+export type NodePosition = { x: number; y: number };
+
+/** A single editor change, serialisable so it can be replayed on another client. */
+export type EditorOperation =
+  | { type: "addNode"; node: FlowNode; position?: NodePosition }
+  | { type: "removeNode"; nodeId: string }
+  | { type: "updateNode"; node: FlowNode }
+  | { type: "moveNode"; nodeId: string; position: NodePosition }
+  | { type: "addEdge"; edge: FlowEdge }
+  | { type: "removeEdge"; edgeId: string }
+  | { type: "updateEdgeLabel"; edgeId: string; label: string }
+  | { type: "updateNodeTitle"; nodeId: string; title: string }
+  /** Replaces the flow settings wholesale; `undefined` clears them. */
+  | { type: "updateSettings"; settings?: FlowSettings };
+
+export type ApplyOperationOptions = {
+  /**
+   * Run full FlowSpec validation after applying (default). Live editing passes
+   * false: a split without its branches yet is a normal in-progress state, so
+   * only referential integrity is checked.
+   */
+  validate?: boolean;
+};
 
 function cloneSpec(spec: FlowSpec): FlowSpec {
   return JSON.parse(JSON.stringify(spec)) as FlowSpec;
@@ -22,47 +48,493 @@ function validateOrThrow(spec: FlowSpec): FlowSpec {
   return parsed.data;
 }
 
-export function addNode(spec: FlowSpec, node: FlowNode): FlowSpec {
-  const draft = cloneSpec(spec);
+function assertReferences(spec: FlowSpec): FlowSpec {
+  const nodeIds = new Set<string>();
+  for (const node of spec.nodes) {
+    if (nodeIds.has(node.id)) throw new Error(`Duplicate node id: ${node.id}`);
+    nodeIds.add(node.id);
+  }
+  const edgeIds = new Set<string>();
+  for (const edge of spec.edges) {
+    if (edgeIds.has(edge.id)) throw new Error(`Duplicate edge id: ${edge.id}`);
+    edgeIds.add(edge.id);
+    if (!nodeIds.has(edge.from)) throw new Error(`Edge ${edge.id} references missing source node ${edge.from}.`);
+    if (!nodeIds.has(edge.to)) throw new Error(`Edge ${edge.id} references missing destination node ${edge.to}.`);
+  }
+  return spec;
+}
+
+function requireNode(spec: FlowSpec, nodeId: string) {
+  if (!spec.nodes.some((node) => node.id === nodeId)) throw new Error(`Node ${nodeId} does not exist.`);
+}
+
+function requireEdge(spec: FlowSpec, edgeId: string) {
+  if (!spec.edges.some((edge) => edge.id === edgeId)) throw new Error(`Edge ${edgeId} does not exist.`);
+}
+
+/* Draft mutators: work in place on a cloned spec, callers decide how strictly to check the result. */
+
+function addNodeDraft(draft: FlowSpec, node: FlowNode, position?: NodePosition) {
   draft.nodes.push(node);
-  return validateOrThrow(draft);
+  if (position) draft.ui = { ...draft.ui, nodePositions: { ...draft.ui?.nodePositions, [node.id]: position } };
 }
 
-export function removeNode(spec: FlowSpec, nodeId: string): FlowSpec {
-  const draft = cloneSpec(spec);
+function removeNodeDraft(draft: FlowSpec, nodeId: string) {
   draft.nodes = draft.nodes.filter((node) => node.id !== nodeId);
   draft.edges = draft.edges.filter((edge) => edge.from !== nodeId && edge.to !== nodeId);
   if (draft.ui?.nodePositions) {
     delete draft.ui.nodePositions[nodeId];
   }
+}
+
+function updateNodeDraft(draft: FlowSpec, node: FlowNode) {
+  requireNode(draft, node.id);
+  draft.nodes = draft.nodes.map((current) => (current.id === node.id ? node : current));
+}
+
+function moveNodeDraft(draft: FlowSpec, nodeId: string, position: NodePosition) {
+  requireNode(draft, nodeId);
+  draft.ui = { ...draft.ui, nodePositions: { ...draft.ui?.nodePositions, [nodeId]: position } };
+}
+
+function addEdgeDraft(draft: FlowSpec, edge: Omit<FlowEdge, "id"> & { id?: string }) {
+  const id = edge.id ?? nextId("edge", draft.edges.map((current) => current.id));
+  draft.edges.push({ id, from: edge.from, to: edge.to, label: edge.label });
+}
+
+function removeEdgeDraft(draft: FlowSpec, edgeId: string) {
+  draft.edges = draft.edges.filter((edge) => edge.id !== edgeId);
+}
+
+function updateEdgeLabelDraft(draft: FlowSpec, edgeId: string, label: string) {
+  draft.edges = draft.edges.map((edge) =>
+    edge.id === edgeId ? { ...edge, label: label.trim() || undefined } : edge
+  );
+}
+
+function updateNodeTitleDraft(draft: FlowSpec, nodeId: string, title: string) {
+  draft.nodes = draft.nodes.map((node) =>
+    node.id === nodeId && "title" in node ? { ...node, title } : node
+  );
+}
+
+function updateSettingsDraft(draft: FlowSpec, settings: FlowSettings | undefined) {
+  if (settings) draft.settings = settings;
+  else delete draft.settings;
+}
+
+export function addNode(spec: FlowSpec, node: FlowNode): FlowSpec {
+  const draft = cloneSpec(spec);
+  addNodeDraft(draft, node);
+  return validateOrThrow(draft);
+}
+
+export function removeNode(spec: FlowSpec, nodeId: string): FlowSpec {
+  const draft = cloneSpec(spec);
+  removeNodeDraft(draft, nodeId);
+  return validateOrThrow(draft);
+}
+
+/** Replace a node's content wholesale, keeping its id, edges and position. */
+export function updateNode(spec: FlowSpec, node: FlowNode): FlowSpec {
+  const draft = cloneSpec(spec);
+  updateNodeDraft(draft, node);
+  return validateOrThrow(draft);
+}
+
+export function moveNode(spec: FlowSpec, nodeId: string, position: NodePosition): FlowSpec {
+  const draft = cloneSpec(spec);
+  moveNodeDraft(draft, nodeId, position);
   return validateOrThrow(draft);
 }
 
 export function addEdge(spec: FlowSpec, edge: Omit<FlowEdge, "id"> & { id?: string }): FlowSpec {
   const draft = cloneSpec(spec);
-  const id = edge.id ?? nextId("edge", draft.edges.map((current) => current.id));
-  draft.edges.push({ id, from: edge.from, to: edge.to, label: edge.label });
+  addEdgeDraft(draft, edge);
   return validateOrThrow(draft);
 }
 
 export function removeEdge(spec: FlowSpec, edgeId: string): FlowSpec {
   const draft = cloneSpec(spec);
-  draft.edges = draft.edges.filter((edge) => edge.id !== edgeId);
+  removeEdgeDraft(draft, edgeId);
   return validateOrThrow(draft);
 }
 
 export function updateEdgeLabel(spec: FlowSpec, edgeId: string, label: string): FlowSpec {
   const draft = cloneSpec(spec);
-  draft.edges = draft.edges.map((edge) =>
-    edge.id === edgeId ? { ...edge, label: label.trim() || undefined } : edge
-  );
+  updateEdgeLabelDraft(draft, edgeId, label);
   return validateOrThrow(draft);
 }
 
 export function updateNodeTitle(spec: FlowSpec, nodeId: string, title: string): FlowSpec {
   const draft = cloneSpec(spec);
+  updateNodeTitleDraft(draft, nodeId, title);
+  return validateOrThrow(draft);
+}
+
+export function updateSettings(spec: FlowSpec, settings: FlowSettings | undefined): FlowSpec {
+  const draft = cloneSpec(spec);
+  updateSettingsDraft(draft, settings);
+  return validateOrThrow(draft);
+}
+
+/* Editable fields of any node type; `id` and `type` are fixed. */
+export type NodeFieldPatch = {
+  [T in FlowNode["type"]]: Partial<Omit<Extract<FlowNode, { type: T }>, "id" | "type">>;
+}[FlowNode["type"]];
+
+export type SplitInput = {
+  title: string;
+  condition?: string;
+  rule?: FlowCondition;
+  labels?: string[];
+};
+
+export type DuplicateResult = {
+  spec: FlowSpec;
+  /** Original node id -> id of its copy. */
+  idMap: Record<string, string>;
+};
+
+/* Horizontal offset for copied nodes so they don't land on top of the originals. */
+const COPY_OFFSET_X = 360;
+
+function findNode(spec: FlowSpec, nodeId: string): FlowNode {
+  const node = spec.nodes.find((current) => current.id === nodeId);
+  if (!node) throw new Error(`Node ${nodeId} does not exist.`);
+  return node;
+}
+
+function findEdge(spec: FlowSpec, edgeId: string): FlowEdge {
+  const edge = spec.edges.find((current) => current.id === edgeId);
+  if (!edge) throw new Error(`Edge ${edgeId} does not exist.`);
+  return edge;
+}
+
+function freshId(base: string, taken: Set<string>): string {
+  let id = base;
+  let index = 2;
+  while (taken.has(id)) {
+    id = `${base}_${index}`;
+    index += 1;
+  }
+  taken.add(id);
+  return id;
+}
+
+function pushEdge(draft: FlowSpec, from: string, to: string, label?: string): FlowEdge {
+  const edge = { id: nextId("edge", draft.edges.map((current) => current.id)), from, to, ...(label ? { label } : {}) };
+  draft.edges.push(edge);
+  return edge;
+}
+
+/* Root plus everything reachable from it, stopping before merge nodes shared with other branches. */
+function collectSubtree(spec: FlowSpec, rootId: string): string[] {
+  const seen = new Set<string>([rootId]);
+  const queue = [rootId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of spec.edges) {
+      if (edge.from !== current || seen.has(edge.to)) continue;
+      if (findNode(spec, edge.to).type === "merge") continue;
+      seen.add(edge.to);
+      queue.push(edge.to);
+    }
+  }
+  return [...seen];
+}
+
+/* Start node and the single-exit chain after it, up to (not including) a merge and ending at the first branch or leaf. */
+function collectSegment(spec: FlowSpec, startId: string): string[] {
+  const segment = [startId];
+  let current = startId;
+  for (;;) {
+    const outgoing = spec.edges.filter((edge) => edge.from === current);
+    if (outgoing.length !== 1) return segment;
+    const next = outgoing[0].to;
+    if (segment.includes(next) || findNode(spec, next).type === "merge") return segment;
+    segment.push(next);
+    current = next;
+  }
+}
+
+/**
+ * Copy nodes (and the edges between them) into the draft with fresh ids. Edges
+ * leaving the set are copied too, so a copied branch rejoins the same merge.
+ */
+function copyNodes(draft: FlowSpec, nodeIds: string[], offsetX: number): Record<string, string> {
+  const taken = new Set(draft.nodes.map((node) => node.id));
+  const idMap: Record<string, string> = {};
+  for (const id of nodeIds) idMap[id] = freshId(`${id}_copy`, taken);
+
+  for (const id of nodeIds) {
+    const original = findNode(draft, id);
+    draft.nodes.push({ ...JSON.parse(JSON.stringify(original)), id: idMap[id] } as FlowNode);
+    const position = draft.ui?.nodePositions?.[id];
+    if (position) draft.ui!.nodePositions![idMap[id]] = { x: position.x + offsetX, y: position.y };
+  }
+  for (const edge of draft.edges.filter((current) => idMap[current.from])) {
+    pushEdge(draft, idMap[edge.from], idMap[edge.to] ?? edge.to, edge.label);
+  }
+  return idMap;
+}
+
+function assertLinear(spec: FlowSpec, node: FlowNode) {
+  if (node.type === "trigger" || node.type === "split" || node.type === "abSplit") {
+    throw new Error(`Node ${node.id} is a ${node.type} and can't be moved between other nodes.`);
+  }
+  const incoming = spec.edges.filter((edge) => edge.to === node.id);
+  const outgoing = spec.edges.filter((edge) => edge.from === node.id);
+  if (incoming.length > 1 || outgoing.length > 1) {
+    throw new Error(`Node ${node.id} has more than one connection on a side; move its branch instead.`);
+  }
+}
+
+/* Remove a single-in/single-out node from its chain and reconnect its neighbours. */
+function detachDraft(draft: FlowSpec, nodeId: string) {
+  const incoming = draft.edges.find((edge) => edge.to === nodeId);
+  const outgoing = draft.edges.find((edge) => edge.from === nodeId);
+  draft.edges = draft.edges.filter((edge) => edge.from !== nodeId && edge.to !== nodeId);
+  if (incoming && outgoing) pushEdge(draft, incoming.from, outgoing.to, incoming.label);
+}
+
+function insertBetweenDraft(draft: FlowSpec, edgeId: string, nodeId: string) {
+  const edge = findEdge(draft, edgeId);
+  draft.edges = draft.edges.filter((current) => current.id !== edgeId);
+  draft.edges.push({ ...edge, to: nodeId });
+  pushEdge(draft, nodeId, edge.to);
+}
+
+/**
+ * Splice a new node into an existing connection: `from -> node -> to`. The
+ * original edge keeps its id and label (so split branches stay labelled).
+ */
+export function insertNodeBetween(spec: FlowSpec, edgeId: string, node: FlowNode): FlowSpec {
+  if (node.type === "split") throw new Error("Use convertSegmentToSplit to insert a split.");
+  const draft = cloneSpec(spec);
+  findEdge(draft, edgeId);
+  addNodeDraft(draft, node);
+  insertBetweenDraft(draft, edgeId, node.id);
+  return validateOrThrow(draft);
+}
+
+/** Take a node out of its current place in the graph and splice it into another connection. */
+export function moveNodeToEdge(spec: FlowSpec, nodeId: string, edgeId: string): FlowSpec {
+  const draft = cloneSpec(spec);
+  assertLinear(draft, findNode(draft, nodeId));
+  const target = findEdge(draft, edgeId);
+  if (target.from === nodeId || target.to === nodeId) throw new Error(`Edge ${edgeId} is already connected to ${nodeId}.`);
+  detachDraft(draft, nodeId);
+  insertBetweenDraft(draft, edgeId, nodeId);
+  return validateOrThrow(draft);
+}
+
+/**
+ * Copy a node and everything downstream of it with fresh ids (`<id>_copy`).
+ * The copy is unattached unless `attachTo` names a node (and branch label) to hang it from.
+ */
+export function duplicateSubtree(
+  spec: FlowSpec,
+  rootId: string,
+  attachTo?: { from: string; label?: string }
+): DuplicateResult {
+  const draft = cloneSpec(spec);
+  if (findNode(draft, rootId).type === "trigger") throw new Error("The trigger can't be duplicated.");
+  const idMap = copyNodes(draft, collectSubtree(draft, rootId), COPY_OFFSET_X);
+  if (attachTo) {
+    findNode(draft, attachTo.from);
+    pushEdge(draft, attachTo.from, idMap[rootId], attachTo.label);
+  }
+  return { spec: validateOrThrow(draft), idMap };
+}
+
+/**
+ * Put a split in front of `startNodeId`. The existing linear segment from that
+ * node continues on the first label; every other label gets its own copy of the
+ * segment to edit independently.
+ */
+export function convertSegmentToSplit(spec: FlowSpec, startNodeId: string, input: SplitInput): FlowSpec {
+  const draft = cloneSpec(spec);
+  const start = findNode(draft, startNodeId);
+  if (start.type === "trigger") throw new Error("A split can't come before the trigger.");
+  if (!input.condition && !input.rule) throw new Error("Split needs a condition or a rule.");
+
+  const labels = input.labels ?? ["Yes", "No"];
+  const splitId = freshId("split", new Set(draft.nodes.map((node) => node.id)));
+  const segment = collectSegment(draft, startNodeId);
+  addNodeDraft(draft, {
+    id: splitId,
+    type: "split",
+    title: input.title,
+    condition: input.condition ?? describeCondition(input.rule!),
+    ...(input.rule ? { rule: input.rule } : {}),
+    labels
+  }, draft.ui?.nodePositions?.[startNodeId]);
+
+  draft.edges = draft.edges.map((edge) => (edge.to === startNodeId ? { ...edge, to: splitId } : edge));
+  pushEdge(draft, splitId, startNodeId, labels[0]);
+  labels.slice(1).forEach((label, index) => {
+    const idMap = copyNodes(draft, segment, COPY_OFFSET_X * (index + 1));
+    pushEdge(draft, splitId, idMap[startNodeId], label);
+  });
+  return validateOrThrow(draft);
+}
+
+/** Shallow-merge fields into a node. Fields set to `undefined` are removed. */
+export function updateNodeFields(spec: FlowSpec, nodeId: string, fields: NodeFieldPatch): FlowSpec {
+  if ("id" in fields || "type" in fields) throw new Error("Node id and type can't be changed.");
+  const draft = cloneSpec(spec);
+  const node = findNode(draft, nodeId);
+  updateNodeDraft(draft, JSON.parse(JSON.stringify({ ...node, ...fields })) as FlowNode);
+  return validateOrThrow(draft);
+}
+
+/**
+ * Number message nodes by their position along each path from the trigger, so
+ * parallel branches both continue from the count before the split.
+ */
+export function renumberStepIndexes(spec: FlowSpec): FlowSpec {
+  const draft = cloneSpec(spec);
+  const trigger = draft.nodes.find((node) => node.type === "trigger");
+  if (!trigger) throw new Error("Flow has no trigger.");
+
+  const steps = new Map<string, number>();
+  const visit = (nodeId: string, count: number, path: Set<string>) => {
+    if (path.has(nodeId)) return;
+    const node = findNode(draft, nodeId);
+    let next = count;
+    if (node.type === "message") {
+      if (steps.has(nodeId)) return;
+      next = count + 1;
+      steps.set(nodeId, next);
+    }
+    const onPath = new Set(path).add(nodeId);
+    for (const edge of draft.edges.filter((current) => current.from === nodeId)) visit(edge.to, next, onPath);
+  };
+  visit(trigger.id, 0, new Set());
+
   draft.nodes = draft.nodes.map((node) =>
-    node.id === nodeId && "title" in node ? { ...node, title } : node
+    node.type === "message" && steps.has(node.id) ? { ...node, stepIndex: steps.get(node.id) } : node
   );
   return validateOrThrow(draft);
 }
+
+/**
+ * Switch a message between email and SMS. Email-only content is dropped when
+ * moving to SMS, a leading "Email"/"SMS" in the title follows the channel, and
+ * the flow's channel list gains the new channel if needed.
+ */
+export function swapMessageChannel(spec: FlowSpec, nodeId: string): FlowSpec {
+  const draft = cloneSpec(spec);
+  const node = findNode(draft, nodeId);
+  if (node.type !== "message") throw new Error(`Node ${nodeId} is not a message.`);
+
+  const channel = node.channel === "email" ? "sms" : "email";
+  const { emailContent, ...rest } = node;
+  const title = node.title.replace(/^(email|sms)\b/i, channel === "sms" ? "SMS" : "Email");
+  updateNodeDraft(draft, { ...rest, ...(channel === "email" && emailContent ? { emailContent } : {}), channel, title });
+  if (!draft.channels.includes(channel)) draft.channels = [...draft.channels, channel];
+  return validateOrThrow(draft);
+}
+
+export function applyEditorOperation(
+  spec: FlowSpec,
+  operation: EditorOperation,
+  options: ApplyOperationOptions = {}
+): FlowSpec {
+  const draft = cloneSpec(spec);
+  switch (operation.type) {
+    case "addNode": addNodeDraft(draft, operation.node, operation.position); break;
+    case "removeNode": requireNode(draft, operation.nodeId); removeNodeDraft(draft, operation.nodeId); break;
+    case "updateNode": updateNodeDraft(draft, operation.node); break;
+    case "moveNode": moveNodeDraft(draft, operation.nodeId, operation.position); break;
+    case "addEdge": addEdgeDraft(draft, operation.edge); break;
+    case "removeEdge": requireEdge(draft, operation.edgeId); removeEdgeDraft(draft, operation.edgeId); break;
+    case "updateEdgeLabel": requireEdge(draft, operation.edgeId); updateEdgeLabelDraft(draft, operation.edgeId, operation.label); break;
+    case "updateNodeTitle": requireNode(draft, operation.nodeId); updateNodeTitleDraft(draft, operation.nodeId, operation.title); break;
+    case "updateSettings": updateSettingsDraft(draft, operation.settings); break;
+  }
+  return options.validate === false ? assertReferences(draft) : validateOrThrow(draft);
+}
+
+/**
+ * Operations that undo `operation`, computed from the spec as it was before
+ * the operation ran. Removing a node also restores its position and edges.
+ */
+export function invertEditorOperation(before: FlowSpec, operation: EditorOperation): EditorOperation[] {
+  const nodeById = (id: string) => before.nodes.find((node) => node.id === id);
+  const edgeById = (id: string) => before.edges.find((edge) => edge.id === id);
+  const positionOf = (id: string) => before.ui?.nodePositions?.[id];
+
+  switch (operation.type) {
+    case "addNode": return [{ type: "removeNode", nodeId: operation.node.id }];
+    case "removeNode": {
+      const node = nodeById(operation.nodeId);
+      if (!node) return [];
+      const edges = before.edges.filter((edge) => edge.from === node.id || edge.to === node.id);
+      return [
+        { type: "addNode", node, position: positionOf(node.id) },
+        ...edges.map((edge): EditorOperation => ({ type: "addEdge", edge }))
+      ];
+    }
+    case "updateNode": {
+      const node = nodeById(operation.node.id);
+      return node ? [{ type: "updateNode", node }] : [];
+    }
+    case "moveNode": {
+      const position = positionOf(operation.nodeId);
+      return position ? [{ type: "moveNode", nodeId: operation.nodeId, position }] : [];
+    }
+    case "addEdge": return [{ type: "removeEdge", edgeId: operation.edge.id }];
+    case "removeEdge": {
+      const edge = edgeById(operation.edgeId);
+      return edge ? [{ type: "addEdge", edge }] : [];
+    }
+    case "updateEdgeLabel": {
+      const edge = edgeById(operation.edgeId);
+      return edge ? [{ type: "updateEdgeLabel", edgeId: edge.id, label: edge.label ?? "" }] : [];
+    }
+    case "updateNodeTitle": {
+      const node = nodeById(operation.nodeId);
+      return node && "title" in node ? [{ type: "updateNodeTitle", nodeId: node.id, title: node.title }] : [];
+    }
+    case "updateSettings": return [{ type: "updateSettings", settings: before.settings }];
+  }
+}
+
+/**
+ * Node and edge ids an operation reads or writes; used to detect concurrent edits.
+ * Settings touch neither, so concurrent settings edits resolve last write wins.
+ */
+export function operationTargets(operation: EditorOperation): { nodeIds: string[]; edgeIds: string[] } {
+  switch (operation.type) {
+    case "addNode":
+    case "updateNode": return { nodeIds: [operation.node.id], edgeIds: [] };
+    case "removeNode":
+    case "moveNode":
+    case "updateNodeTitle": return { nodeIds: [operation.nodeId], edgeIds: [] };
+    case "addEdge": return { nodeIds: [operation.edge.from, operation.edge.to], edgeIds: [operation.edge.id] };
+    case "removeEdge":
+    case "updateEdgeLabel": return { nodeIds: [], edgeIds: [operation.edgeId] };
+    case "updateSettings": return { nodeIds: [], edgeIds: [] };
+  }
+}
+
+const CONTENT_EDITS = new Set<EditorOperation["type"]>(["updateNode", "updateNodeTitle"]);
+
+/**
+ * Whether `incoming` was made without seeing `applied` and would silently
+ * overwrite or dangle on it. Position moves never conflict (last write wins);
+ * two content edits to the same node, or any edit racing a removal, do.
+ */
+export function operationsConflict(applied: EditorOperation, incoming: EditorOperation): boolean {
+  const a = operationTargets(applied);
+  const b = operationTargets(incoming);
+  const sharedNodes = a.nodeIds.filter((id) => b.nodeIds.includes(id));
+  const sharedEdges = a.edgeIds.filter((id) => b.edgeIds.includes(id));
+
+  if (sharedEdges.length > 0) return true;
+  if (sharedNodes.length === 0) return false;
+  if (applied.type === "removeNode" || incoming.type === "removeNode") return true;
+  return CONTENT_EDITS.has(applied.type) && CONTENT_EDITS.has(incoming.type);
+}
@@ -0,0 +1,93 @@
+import type { FlowType } from "../library/flowTemplate.js";
+
+export type ChannelBenchmark = {
+  /** Share of recipients that open (email only). */
+  openRate?: number;
+  /** Share of recipients that click. */
+  clickRate: number;
+  /** Share of recipients that place an order attributed to the message. */
+  conversionRate: number;
+};
+
+export type FlowBenchmark = {
+  /** Share of the list that enters the flow in a month. */
+  monthlyEntryRate: number;
+  email: ChannelBenchmark;
+  sms: ChannelBenchmark;
+};
+
+/**
+ * Bundled per-flow-type benchmarks for the first message of each flow. These are
+ * directional mid-market e-commerce figures for sales conversations, not account
+ * data; later messages in a flow convert less (see MESSAGE_DECAY).
+ */
+export const FLOW_BENCHMARKS: Record<FlowType, FlowBenchmark> = {
+  "email-welcome": {
+    monthlyEntryRate: 0.04,
+    email: { openRate: 0.5, clickRate: 0.05, conversionRate: 0.025 },
+    sms: { clickRate: 0.1, conversionRate: 0.03 }
+  },
+  "sms-welcome": {
+    monthlyEntryRate: 0.06,
+    email: { openRate: 0.45, clickRate: 0.04, conversionRate: 0.02 },
+    sms: { clickRate: 0.12, conversionRate: 0.035 }
+  },
+  "checkout-abandonment": {
+    monthlyEntryRate: 0.02,
+    email: { openRate: 0.48, clickRate: 0.07, conversionRate: 0.035 },
+    sms: { clickRate: 0.14, conversionRate: 0.045 }
+  },
+  "cart-abandonment": {
+    monthlyEntryRate: 0.03,
+    email: { openRate: 0.45, clickRate: 0.055, conversionRate: 0.025 },
+    sms: { clickRate: 0.11, conversionRate: 0.035 }
+  },
+  "browse-abandonment": {
+    monthlyEntryRate: 0.06,
+    email: { openRate: 0.45, clickRate: 0.045, conversionRate: 0.01 },
+    sms: { clickRate: 0.08, conversionRate: 0.015 }
+  },
+  "site-abandonment": {
+    monthlyEntryRate: 0.05,
+    email: { openRate: 0.4, clickRate: 0.03, conversionRate: 0.006 },
+    sms: { clickRate: 0.06, conversionRate: 0.01 }
+  },
+  "post-purchase": {
+    monthlyEntryRate: 0.015,
+    email: { openRate: 0.55, clickRate: 0.04, conversionRate: 0.012 },
+    sms: { clickRate: 0.08, conversionRate: 0.015 }
+  },
+  winback: {
+    monthlyEntryRate: 0.03,
+    email: { openRate: 0.35, clickRate: 0.02, conversionRate: 0.006 },
+    sms: { clickRate: 0.05, conversionRate: 0.01 }
+  },
+  sunset: {
+    monthlyEntryRate: 0.04,
+    email: { openRate: 0.2, clickRate: 0.01, conversionRate: 0.002 },
+    sms: { clickRate: 0.02, conversionRate: 0.003 }
+  },
+  custom: {
+    monthlyEntryRate: 0.02,
+    email: { openRate: 0.4, clickRate: 0.03, conversionRate: 0.01 },
+    sms: { clickRate: 0.07, conversionRate: 0.015 }
+  }
+};
+
+/** Each further message in a flow converts at this fraction of the one before it. */
+export const MESSAGE_DECAY = 0.7;
+
+/** Assumed SMS list size relative to the email list when the brand has not given one. */
+export const DEFAULT_SMS_LIST_SHARE = 0.2;
+
+/* Conversion multipliers by industry, matched against BrandProfile.industry. */
+export const INDUSTRY_MULTIPLIERS: { pattern: RegExp; multiplier: number }[] = [
+  { pattern: /food|beverage|coffee|snack|grocery/i, multiplier: 1.15 },
+  { pattern: /beauty|cosmetic|skin|hair/i, multiplier: 1.1 },
+  { pattern: /supplement|health|wellness|vitamin/i, multiplier: 1.1 },
+  { pattern: /pet/i, multiplier: 1.1 },
+  { pattern: /apparel|fashion|clothing|shoe|footwear/i, multiplier: 1 },
+  { pattern: /home|furniture|decor|kitchen/i, multiplier: 0.9 },
+  { pattern: /jewel|luxury|watch/i, multiplier: 0.85 },
+  { pattern: /electronic|tech|gadget/i, multiplier: 0.8 }
+];
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { welcomeSeriesFixture } from "../fixtures/welcomeSeries.js";
+import { flowTypeFromName } from "../library/flowTemplate.js";
+import type { FlowSpec } from "../schema/flowSpec.js";
+import { getPlanDefinition } from "../plans/planRegistry.js";
+import {
+  forecastFlowSpec,
+  forecastInputsFromProfile,
+  forecastPlan,
+  parseProfileNumber
+} from "./revenueForecast.js";
+
+const INPUTS = { averageOrderValue: 60, emailListSize: 20_000 };
+
+describe("parseProfileNumber", () => {
+  it("reads loose brand analyzer values", () => {
+    expect(parseProfileNumber("$45")).toBe(45);
+    expect(parseProfileNumber("12,000 subscribers")).toBe(12_000);
+    expect(parseProfileNumber("15k")).toBe(15_000);
+    expect(parseProfileNumber("$40-60")).toBe(50);
+    expect(parseProfileNumber("unknown")).toBeUndefined();
+  });
+
+  it("needs both AOV and list size to build inputs", () => {
+    expect(forecastInputsFromProfile({ averageOrderValue: "$45", emailListSize: "unknown" })).toBeUndefined();
+    expect(forecastInputsFromProfile({ averageOrderValue: "$45", emailListSize: "8k", industry: "Beauty" }))
+      .toEqual({ averageOrderValue: 45, emailListSize: 8_000, industry: "Beauty" });
+  });
+});
+
+describe("forecastPlan", () => {
+  it("estimates more revenue for larger plans", () => {
+    const core = forecastPlan(getPlanDefinition("core-foundation"), INPUTS);
+    const growth = forecastPlan(getPlanDefinition("growth-engine"), INPUTS);
+    const full = forecastPlan(getPlanDefinition("full-system"), INPUTS);
+
+    expect(core.flows).toHaveLength(6);
+    expect(core.monthlyRevenue).toBeGreaterThan(0);
+    expect(growth.monthlyRevenue).toBeGreaterThan(core.monthlyRevenue);
+    expect(full.monthlyRevenue).toBeGreaterThan(growth.monthlyRevenue);
+    expect(core.annualRevenue).toBe(core.monthlyRevenue * 12);
+    expect(core.paybackMonths).toBeCloseTo(3200 / core.monthlyRevenue, 1);
+  });
+
+  it("scales linearly with AOV and applies industry multipliers", () => {
+    const plan = getPlanDefinition("core-foundation");
+    const base = forecastPlan(plan, INPUTS).monthlyRevenue;
+    expect(forecastPlan(plan, { ...INPUTS, averageOrderValue: 120 }).monthlyRevenue).toBeCloseTo(base * 2, -1);
+    expect(forecastPlan(plan, { ...INPUTS, industry: "Consumer electronics" }).monthlyRevenue).toBeLessThan(base);
+  });
+});
+
+describe("forecastFlowSpec", () => {
+  it("averages split branches instead of counting every message", () => {
+    const forecast = forecastFlowSpec(welcomeSeriesFixture, INPUTS);
+    expect(forecast.flowType).toBe("email-welcome");
+    /* 2 emails before the split, then 1 email + 1 SMS or 2 emails + 1 SMS */
+    expect(forecast.messagesSent).toBe(Math.round(forecast.monthlyEntrants * 3.5 + forecast.monthlyEntrants * 0.2));
+    expect(forecast.monthlyRevenue).toBeGreaterThan(0);
+  });
+
+  it("weights A/B split branches by their variant weights", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      nodes: welcomeSeriesFixture.nodes.map((n) =>
+        n.id === "split_purchased"
+          ? { id: n.id, type: "abSplit", title: "Offer test", variants: [{ label: "Yes", weight: 80 }, { label: "No", weight: 20 }] }
+          : n
+      )
+    };
+    const forecast = forecastFlowSpec(spec, INPUTS);
+    /* 2 emails, then 80% take 1 email and 20% take 2 */
+    expect(forecast.messagesSent).toBe(Math.round(forecast.monthlyEntrants * 3.2 + forecast.monthlyEntrants * 0.2));
+  });
+
+  it("averages the branches of an event wait like a split", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      nodes: welcomeSeriesFixture.nodes.map((n) =>
+        n.id === "split_purchased"
+          ? { id: n.id, type: "wait", until: { kind: "event", metric: "Placed Order", timeout: { value: 3, unit: "days" }, labels: ["Yes", "No"] } }
+          : n
+      )
+    };
+    const forecast = forecastFlowSpec(spec, INPUTS);
+    expect(forecast.messagesSent).toBe(Math.round(forecast.monthlyEntrants * 3.5 + forecast.monthlyEntrants * 0.2));
+  });
+});
+
+describe("flowTypeFromName", () => {
+  it("maps plan and generated flow names", () => {
+    expect(flowTypeFromName("Checkout Abandonment")).toBe("checkout-abandonment");
+    expect(flowTypeFromName("Welcome Series (SMS)")).toBe("sms-welcome");
+    expect(flowTypeFromName("Abandoned Cart — Acme")).toBe("cart-abandonment");
+    expect(flowTypeFromName("VIP Birthday")).toBe("custom");
+  });
+});
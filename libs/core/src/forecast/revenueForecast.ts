@@ -0,0 +1,196 @@
+import { flowTypeFromName, type FlowType } from "../library/flowTemplate.js";
+import type { PlanDefinition } from "../plans/planRegistry.js";
+import { branchLabelKey, type FlowSpec } from "../schema/flowSpec.js";
+import {
+  DEFAULT_SMS_LIST_SHARE,
+  FLOW_BENCHMARKS,
+  INDUSTRY_MULTIPLIERS,
+  MESSAGE_DECAY,
+  type ChannelBenchmark
+} from "./benchmarks.js";
+
+export type ForecastInputs = {
+  averageOrderValue: number;
+  emailListSize: number;
+  /** Defaults to DEFAULT_SMS_LIST_SHARE of the email list. */
+  smsListSize?: number;
+  /** Free-text industry from the brand profile; adjusts conversion rates. */
+  industry?: string;
+};
+
+export type FlowForecast = {
+  flowId: string;
+  name: string;
+  flowType: FlowType;
+  monthlyEntrants: number;
+  messagesSent: number;
+  opens: number;
+  clicks: number;
+  orders: number;
+  monthlyRevenue: number;
+};
+
+export type PlanForecast = {
+  planKey: string;
+  planName: string;
+  price: string;
+  flows: FlowForecast[];
+  monthlyRevenue: number;
+  annualRevenue: number;
+  /** Months of attributed revenue needed to cover the plan price; undefined without a price or revenue. */
+  paybackMonths?: number;
+};
+
+/* Messages one entrant receives; fractional when split branches differ in length. */
+type MessageCounts = { flowId: string; name: string; emailCount: number; smsCount: number };
+
+/* ── profile parsing ── */
+
+/**
+ * Read a number out of the loose strings the brand analyzer produces:
+ * "$45", "45.50 USD", "12,000", "15k", "$40-60" (midpoint). Undefined for "unknown".
+ */
+export function parseProfileNumber(text: string | undefined): number | undefined {
+  if (!text) return undefined;
+  const matches = [...text.replace(/,/g, "").matchAll(/(\d+(?:\.\d+)?)\s*([km])?\b/gi)];
+  if (matches.length === 0) return undefined;
+  const values = matches.slice(0, 2).map(([, num, suffix]) => {
+    const scale = suffix?.toLowerCase() === "k" ? 1_000 : suffix?.toLowerCase() === "m" ? 1_000_000 : 1;
+    return Number(num) * scale;
+  });
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/** Forecast inputs from a brand profile; undefined when AOV or list size is not known. */
+export function forecastInputsFromProfile(profile: {
+  averageOrderValue?: string;
+  emailListSize?: string;
+  industry?: string;
+}): ForecastInputs | undefined {
+  const averageOrderValue = parseProfileNumber(profile.averageOrderValue);
+  const emailListSize = parseProfileNumber(profile.emailListSize);
+  if (!averageOrderValue || !emailListSize) return undefined;
+  return { averageOrderValue, emailListSize, industry: profile.industry };
+}
+
+/* ── model ── */
+
+function industryMultiplier(industry: string | undefined): number {
+  if (!industry) return 1;
+  return INDUSTRY_MULTIPLIERS.find((m) => m.pattern.test(industry))?.multiplier ?? 1;
+}
+
+/* Geometric series: the first message converts at 1, the next at MESSAGE_DECAY, ... */
+function decayedMessages(count: number): number {
+  return (1 - MESSAGE_DECAY ** count) / (1 - MESSAGE_DECAY);
+}
+
+/* Entrants are assumed to divide evenly between the branches of a split. */
+function blueprintCounts(blueprint: PlanDefinition["flows"][number]): MessageCounts {
+  const { yes, no } = blueprint.splitSegments ?? { yes: { email: 0, sms: 0 }, no: { email: 0, sms: 0 } };
+  return {
+    flowId: blueprint.flowId,
+    name: blueprint.name,
+    emailCount: blueprint.emailCount - (yes.email + no.email) / 2,
+    smsCount: blueprint.smsCount - (yes.sms + no.sms) / 2
+  };
+}
+
+function flowSpecCounts(spec: FlowSpec): MessageCounts {
+  const nodeMap = new Map(spec.nodes.map((n) => [n.id, n]));
+  const outEdges = new Map<string, FlowSpec["edges"]>();
+  for (const edge of spec.edges) {
+    if (!outEdges.has(edge.from)) outEdges.set(edge.from, []);
+    outEdges.get(edge.from)!.push(edge);
+  }
+
+  /* Split branches count equally; A/B split branches by their variant weight */
+  function branchWeight(node: FlowSpec["nodes"][number], label: string | undefined): number {
+    if (node.type !== "abSplit") return 1;
+    return node.variants.find((v) => branchLabelKey(v.label) === branchLabelKey(label))?.weight ?? 0;
+  }
+
+  function walk(nodeId: string, seen: Set<string>): { email: number; sms: number } {
+    const node = nodeMap.get(nodeId);
+    if (!node || seen.has(nodeId) || node.type === "note" || node.type === "strategy") return { email: 0, sms: 0 };
+    const nextSeen = new Set(seen).add(nodeId);
+    const edges = outEdges.get(nodeId) ?? [];
+    const branching = node.type === "split" || node.type === "abSplit" || (node.type === "wait" && node.until?.kind === "event");
+    const taken = (branching ? edges : edges.slice(0, 1)).map((edge) => ({ ...walk(edge.to, nextSeen), weight: branchWeight(node, edge.label) }));
+    const totalWeight = taken.reduce((sum, c) => sum + c.weight, 0);
+    const rest = totalWeight === 0
+      ? { email: 0, sms: 0 }
+      : {
+          email: taken.reduce((sum, c) => sum + c.email * c.weight, 0) / totalWeight,
+          sms: taken.reduce((sum, c) => sum + c.sms * c.weight, 0) / totalWeight
+        };
+    return {
+      email: rest.email + (node.type === "message" && node.channel === "email" ? 1 : 0),
+      sms: rest.sms + (node.type === "message" && node.channel === "sms" ? 1 : 0)
+    };
+  }
+
+  const trigger = spec.nodes.find((n) => n.type === "trigger");
+  const counts = trigger ? walk(trigger.id, new Set()) : { email: 0, sms: 0 };
+  return { flowId: spec.id, name: spec.name, emailCount: counts.email, smsCount: counts.sms };
+}
+
+function channelTotals(recipients: number, count: number, rates: ChannelBenchmark, multiplier: number) {
+  const weighted = recipients * decayedMessages(count);
+  return {
+    sent: recipients * count,
+    opens: weighted * (rates.openRate ?? 0),
+    clicks: weighted * rates.clickRate,
+    orders: weighted * rates.conversionRate * multiplier
+  };
+}
+
+function forecastCounts(counts: MessageCounts, inputs: ForecastInputs): FlowForecast {
+  const flowType = flowTypeFromName(counts.name);
+  const benchmark = FLOW_BENCHMARKS[flowType];
+  const smsListSize = inputs.smsListSize ?? inputs.emailListSize * DEFAULT_SMS_LIST_SHARE;
+  const multiplier = industryMultiplier(inputs.industry);
+
+  /* SMS Welcome grows from the SMS list; every other flow from the email list, with
+     only the SMS-subscribed share of entrants receiving its texts. */
+  const baseList = flowType === "sms-welcome" ? smsListSize : inputs.emailListSize;
+  const entrants = baseList * benchmark.monthlyEntryRate;
+  const smsReach = flowType === "sms-welcome" ? 1 : Math.min(1, smsListSize / Math.max(inputs.emailListSize, 1));
+
+  const email = channelTotals(entrants, counts.emailCount, benchmark.email, multiplier);
+  const sms = channelTotals(entrants * smsReach, counts.smsCount, benchmark.sms, multiplier);
+  const orders = email.orders + sms.orders;
+
+  return {
+    flowId: counts.flowId,
+    name: counts.name,
+    flowType,
+    monthlyEntrants: Math.round(entrants),
+    messagesSent: Math.round(email.sent + sms.sent),
+    opens: Math.round(email.opens),
+    clicks: Math.round(email.clicks + sms.clicks),
+    orders: Math.round(orders * 10) / 10,
+    monthlyRevenue: Math.round(orders * inputs.averageOrderValue)
+  };
+}
+
+/** Estimated monthly attributed revenue for one generated or edited flow. */
+export function forecastFlowSpec(spec: FlowSpec, inputs: ForecastInputs): FlowForecast {
+  return forecastCounts(flowSpecCounts(spec), inputs);
+}
+
+/** Estimated monthly attributed revenue for every flow in a plan, plus the plan total. */
+export function forecastPlan(plan: PlanDefinition, inputs: ForecastInputs): PlanForecast {
+  const flows = plan.flows.map((blueprint) => forecastCounts(blueprintCounts(blueprint), inputs));
+  const monthlyRevenue = flows.reduce((sum, f) => sum + f.monthlyRevenue, 0);
+  const price = parseProfileNumber(plan.price);
+  return {
+    planKey: plan.key,
+    planName: plan.name,
+    price: plan.price,
+    flows,
+    monthlyRevenue,
+    annualRevenue: monthlyRevenue * 12,
+    paybackMonths: price && monthlyRevenue > 0 ? Math.round((price / monthlyRevenue) * 10) / 10 : undefined
+  };
+}
@@ -1,7 +1,17 @@
 export * from "./schema/flowSpec.js";
+export * from "./schema/flowSpecMigrations.js";
+export * from "./schema/flowSpecJsonSchema.js";
+export * from "./schema/flowCondition.js";
+export * from "./schema/flowSettings.js";
 export * from "./fixtures/welcomeSeries.js";
 export * from "./templates/packageTemplates.js";
 export * from "./editor/editorOps.js";
+export * from "./editor/collabSession.js";
 export * from "./plans/planRegistry.js";
 export * from "./library/flowTemplate.js";
 export * from "./validation/graphValidator.js";
+export * from "./validation/gameplanValidator.js";
+export * from "./diff/flowDiff.js";
+export * from "./simulation/flowSimulator.js";
+export * from "./forecast/benchmarks.js";
+export * from "./forecast/revenueForecast.js";
@@ -23,6 +23,30 @@ export const FLOW_TYPE_LABELS: Record<FlowType, string> = {
   "custom": "Custom",
 };
 
+const LABEL_TO_TYPE = new Map(
+  (Object.entries(FLOW_TYPE_LABELS) as [FlowType, string][]).map(([type, label]) => [label.toLowerCase(), type])
+);
+
+/* Order matters: "checkout" before "cart", "browse" before "site". */
+const FLOW_TYPE_KEYWORDS: { pattern: RegExp; type: FlowType }[] = [
+  { pattern: /sms.*welcome|welcome.*sms/i, type: "sms-welcome" },
+  { pattern: /welcome/i, type: "email-welcome" },
+  { pattern: /checkout/i, type: "checkout-abandonment" },
+  { pattern: /cart/i, type: "cart-abandonment" },
+  { pattern: /browse/i, type: "browse-abandonment" },
+  { pattern: /site/i, type: "site-abandonment" },
+  { pattern: /post.?purchase|thank you/i, type: "post-purchase" },
+  { pattern: /win.?back/i, type: "winback" },
+  { pattern: /sunset/i, type: "sunset" }
+];
+
+/** Flow type for a plan blueprint or generated flow name ("Email Welcome", "Checkout Abandonment — Acme"). */
+export function flowTypeFromName(name: string): FlowType {
+  const exact = LABEL_TO_TYPE.get(name.trim().toLowerCase());
+  if (exact) return exact;
+  return FLOW_TYPE_KEYWORDS.find((k) => k.pattern.test(name))?.type ?? "custom";
+}
+
 export type FlowTemplate = {
   id: string;
   flowType: FlowType;
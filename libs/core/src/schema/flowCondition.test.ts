@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { describeCondition, flowConditionSchema } from "./flowCondition.js";
+
+describe("describeCondition", () => {
+  it("renders metric windows and counts", () => {
+    const parse = (input: unknown) => flowConditionSchema.parse(input);
+    expect(describeCondition(parse({ kind: "metric", metric: "Placed Order", operator: "equals", count: 0, window: { type: "flow-start" } })))
+      .toBe("Has not Placed Order since starting this flow");
+    expect(describeCondition(parse({ kind: "metric", metric: "Opened Email", operator: "greater-than-or-equal", count: 3, window: { type: "in-the-last", value: 30, unit: "days" } })))
+      .toBe("Opened Email count is at least 3 in the last 30 days");
+    expect(describeCondition(parse({ kind: "metric", metric: "Viewed Product", window: { type: "in-the-last", value: 1, unit: "weeks" } })))
+      .toBe("Has Viewed Product at least once in the last 1 week");
+  });
+
+  it("parenthesises nested groups", () => {
+    const rule = flowConditionSchema.parse({
+      kind: "group",
+      combinator: "and",
+      conditions: [
+        { kind: "property", property: "Accepts Marketing", operator: "equals", value: true },
+        {
+          kind: "group",
+          combinator: "or",
+          conditions: [
+            { kind: "property", property: "Country", operator: "equals", value: "US" },
+            { kind: "property", property: "Phone", operator: "is-set" }
+          ]
+        }
+      ]
+    });
+    expect(describeCondition(rule)).toBe('Accepts Marketing is true AND (Country is "US" OR Phone is set)');
+  });
+
+  it("rejects empty groups", () => {
+    expect(flowConditionSchema.safeParse({ kind: "group", combinator: "or", conditions: [] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+import { z } from "zod";
+
+/*
+ * Structured conditions for split and profileFilter nodes. They sit next to the
+ * legacy free-text `condition` / `filters` fields: text stays valid on its own,
+ * and when a rule is present it is the source of truth for renderers, exporters
+ * and the simulator.
+ */
+
+export const conditionComparisonSchema = z.enum([
+  "equals",
+  "not-equals",
+  "greater-than",
+  "greater-than-or-equal",
+  "less-than",
+  "less-than-or-equal"
+]);
+export type ConditionComparison = z.infer<typeof conditionComparisonSchema>;
+
+export const propertyOperatorSchema = z.enum([
+  ...conditionComparisonSchema.options,
+  "contains",
+  "not-contains",
+  "is-set",
+  "is-not-set"
+]);
+export type PropertyOperator = z.infer<typeof propertyOperatorSchema>;
+
+export const conditionWindowSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("all-time") }),
+  z.object({ type: z.literal("flow-start") }),
+  z.object({
+    type: z.literal("in-the-last"),
+    value: z.number().int().positive(),
+    unit: z.enum(["hours", "days", "weeks"])
+  })
+]);
+export type ConditionWindow = z.infer<typeof conditionWindowSchema>;
+
+const metricConditionSchema = z.object({
+  kind: z.literal("metric"),
+  metric: z.string().min(1),
+  operator: conditionComparisonSchema.default("greater-than"),
+  count: z.number().int().nonnegative().default(0),
+  window: conditionWindowSchema.default({ type: "all-time" })
+});
+export type MetricCondition = z.infer<typeof metricConditionSchema>;
+
+const propertyConditionSchema = z.object({
+  kind: z.literal("property"),
+  property: z.string().min(1),
+  operator: propertyOperatorSchema,
+  value: z.union([z.string(), z.number(), z.boolean()]).optional()
+}).superRefine((value, ctx) => {
+  const needsValue = value.operator !== "is-set" && value.operator !== "is-not-set";
+  if (needsValue && value.value === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Property condition "${value.property}" needs a value for operator "${value.operator}".`,
+      path: ["value"]
+    });
+  }
+});
+export type PropertyCondition = z.infer<typeof propertyConditionSchema>;
+
+export type ConditionGroup = {
+  kind: "group";
+  combinator: "and" | "or";
+  conditions: FlowCondition[];
+};
+
+export type FlowCondition = MetricCondition | PropertyCondition | ConditionGroup;
+
+const conditionGroupSchema = z.object({
+  kind: z.literal("group"),
+  combinator: z.enum(["and", "or"]),
+  conditions: z.array(z.lazy((): z.ZodType<FlowCondition> => flowConditionSchema)).min(1)
+});
+
+export const flowConditionSchema: z.ZodType<FlowCondition> = z.lazy(() =>
+  z.discriminatedUnion("kind", [metricConditionSchema, propertyConditionSchema, conditionGroupSchema])
+);
+
+/* ── renderer ── */
+
+const COMPARISON_TEXT: Record<ConditionComparison, string> = {
+  equals: "is",
+  "not-equals": "is not",
+  "greater-than": "is more than",
+  "greater-than-or-equal": "is at least",
+  "less-than": "is less than",
+  "less-than-or-equal": "is at most"
+};
+
+function describeWindow(window: ConditionWindow): string {
+  if (window.type === "flow-start") return " since starting this flow";
+  if (window.type === "in-the-last") {
+    const unit = window.value === 1 ? window.unit.replace(/s$/, "") : window.unit;
+    return ` in the last ${window.value} ${unit}`;
+  }
+  return "";
+}
+
+function describeValue(value: PropertyCondition["value"]): string {
+  return typeof value === "string" ? `"${value}"` : String(value);
+}
+
+/**
+ * Plain-English rendering of a condition, e.g.
+ * `Has not Placed Order since starting this flow AND Country is "US"`.
+ * Nested groups are parenthesised.
+ */
+export function describeCondition(condition: FlowCondition): string {
+  switch (condition.kind) {
+    case "metric": {
+      const window = describeWindow(condition.window);
+      if (condition.count === 0 && condition.operator === "equals") return `Has not ${condition.metric}${window}`;
+      if (condition.count === 0 && condition.operator === "greater-than") return `Has ${condition.metric} at least once${window}`;
+      return `${condition.metric} count ${COMPARISON_TEXT[condition.operator]} ${condition.count}${window}`;
+    }
+    case "property":
+      if (condition.operator === "is-set") return `${condition.property} is set`;
+      if (condition.operator === "is-not-set") return `${condition.property} is not set`;
+      if (condition.operator === "contains") return `${condition.property} contains ${describeValue(condition.value)}`;
+      if (condition.operator === "not-contains") return `${condition.property} does not contain ${describeValue(condition.value)}`;
+      return `${condition.property} ${COMPARISON_TEXT[condition.operator]} ${describeValue(condition.value)}`;
+    case "group":
+      return condition.conditions
+        .map((child) => (child.kind === "group" && child.conditions.length > 1 ? `(${describeCondition(child)})` : describeCondition(child)))
+        .join(condition.combinator === "and" ? " AND " : " OR ");
+  }
+}
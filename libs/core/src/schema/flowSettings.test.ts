@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { welcomeSeriesFixture } from "../fixtures/welcomeSeries.js";
+import { parseFlowSpecSafe } from "./flowSpec.js";
+import { describeFlowSettings, flowSettingsSchema } from "./flowSettings.js";
+
+describe("flow settings", () => {
+  it("describes each setting on its own line", () => {
+    const settings = flowSettingsSchema.parse({
+      reentry: { mode: "once-per-period", days: 30 },
+      flowFilters: [{ kind: "metric", metric: "Placed Order", operator: "equals", count: 0, window: { type: "flow-start" } }],
+      smsQuietHours: { start: "21:00", end: "09:00" },
+      sendInRecipientTimezone: true
+    });
+    expect(describeFlowSettings(settings)).toEqual([
+      "Re-entry: Once every 30 days",
+      "Flow filter: Has not Placed Order since starting this flow",
+      "SMS quiet hours: 21:00–09:00",
+      "Sends in recipient's timezone"
+    ]);
+    expect(describeFlowSettings({ reentry: { mode: "once-per-period", days: 1 } })).toEqual(["Re-entry: Once a day"]);
+    expect(describeFlowSettings(undefined)).toEqual([]);
+  });
+
+  it("rejects malformed quiet hours and re-entry periods", () => {
+    expect(flowSettingsSchema.safeParse({ smsQuietHours: { start: "9pm", end: "09:00" } }).success).toBe(false);
+    expect(flowSettingsSchema.safeParse({ smsQuietHours: { start: "09:00", end: "09:00" } }).success).toBe(false);
+    expect(flowSettingsSchema.safeParse({ reentry: { mode: "once-per-period", days: 0 } }).success).toBe(false);
+  });
+
+  it("is optional on FlowSpec and kept when present", () => {
+    expect(parseFlowSpecSafe(welcomeSeriesFixture).success).toBe(true);
+    const result = parseFlowSpecSafe({ ...welcomeSeriesFixture, settings: { reentry: { mode: "once" } } });
+    expect(result.success && result.data.settings).toEqual({ reentry: { mode: "once" } });
+  });
+});
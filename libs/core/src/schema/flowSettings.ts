@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { describeCondition, flowConditionSchema } from "./flowCondition.js";
+
+/*
+ * Flow-wide settings that ESPs keep outside the graph: who may enter again,
+ * filters checked before every step, SMS quiet hours and local-time sending.
+ * Every field is optional; a missing field means the ESP default.
+ */
+
+export const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM (24-hour).");
+
+export const reentrySchema = z.discriminatedUnion("mode", [
+  z.object({ mode: z.literal("every-time") }),
+  z.object({ mode: z.literal("once") }),
+  z.object({ mode: z.literal("once-per-period"), days: z.number().int().positive() })
+]);
+export type Reentry = z.infer<typeof reentrySchema>;
+
+/* A window that ends before it starts runs overnight, e.g. 21:00–09:00. */
+export const quietHoursSchema = z.object({
+  start: timeOfDaySchema,
+  end: timeOfDaySchema
+}).superRefine((value, ctx) => {
+  if (value.start === value.end) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Quiet hours need different start and end times.", path: ["end"] });
+  }
+});
+export type QuietHours = z.infer<typeof quietHoursSchema>;
+
+export const flowSettingsSchema = z.object({
+  reentry: reentrySchema.optional(),
+  /** All must hold before every step; a profile that stops matching leaves the flow. */
+  flowFilters: z.array(flowConditionSchema).min(1).optional(),
+  /** SMS due inside the window waits until it ends. */
+  smsQuietHours: quietHoursSchema.optional(),
+  sendInRecipientTimezone: z.boolean().optional()
+});
+export type FlowSettings = z.infer<typeof flowSettingsSchema>;
+
+export function describeReentry(reentry: Reentry): string {
+  switch (reentry.mode) {
+    case "every-time": return "Every time the trigger fires";
+    case "once": return "Once ever";
+    case "once-per-period": return reentry.days === 1 ? "Once a day" : `Once every ${reentry.days} days`;
+  }
+}
+
+/**
+ * One line per setting that is set, e.g. `Re-entry: Once every 30 days` or
+ * `Flow filter: Has not Placed Order since starting this flow`, for cards and exports.
+ */
+export function describeFlowSettings(settings: FlowSettings | undefined): string[] {
+  if (!settings) return [];
+  const lines: string[] = [];
+  if (settings.reentry) lines.push(`Re-entry: ${describeReentry(settings.reentry)}`);
+  for (const filter of settings.flowFilters ?? []) lines.push(`Flow filter: ${describeCondition(filter)}`);
+  if (settings.smsQuietHours) lines.push(`SMS quiet hours: ${settings.smsQuietHours.start}–${settings.smsQuietHours.end}`);
+  if (settings.sendInRecipientTimezone) lines.push("Sends in recipient's timezone");
+  return lines;
+}
@@ -1,6 +1,10 @@
 import { describe, expect, it } from "vitest";
 import { welcomeSeriesFixture } from "../fixtures/welcomeSeries.js";
 import {
+  abSplitEdgeLabel,
+  describeAbSplit,
+  describeNodeCondition,
+  describeWait,
   formatDelay,
   parseFlowSpecSafe
 } from "./flowSpec.js";
@@ -49,6 +53,41 @@ describe("flowSpec schema", () => {
   });
 });
 
+describe("structured conditions", () => {
+  const withSplit = (split: Record<string, unknown>) => ({
+    ...welcomeSeriesFixture,
+    nodes: welcomeSeriesFixture.nodes.map((n) => (n.id === "split_purchased" ? { ...split, id: n.id, type: "split", title: "Purchased?" } : n))
+  });
+
+  it("fills the text condition from a rule", () => {
+    const result = parseFlowSpecSafe(withSplit({
+      rule: { kind: "metric", metric: "Placed Order", window: { type: "flow-start" } }
+    }));
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const split = result.data.nodes.find((n) => n.id === "split_purchased")!;
+    expect(split.type === "split" && split.condition).toBe("Has Placed Order at least once since starting this flow");
+  });
+
+  it("prefers the rule over legacy text when describing a node", () => {
+    const result = parseFlowSpecSafe(withSplit({
+      condition: "Bought something?",
+      rule: { kind: "property", property: "Country", operator: "equals", value: "US" }
+    }));
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const split = result.data.nodes.find((n) => n.id === "split_purchased")!;
+    expect(describeNodeCondition(split)).toBe('Country is "US"');
+  });
+
+  it("rejects splits with neither text nor rule, and malformed rules", () => {
+    expect(parseFlowSpecSafe(withSplit({})).success).toBe(false);
+    expect(parseFlowSpecSafe(withSplit({
+      rule: { kind: "property", property: "Country", operator: "equals" }
+    })).success).toBe(false);
+  });
+});
+
 describe("formatDelay", () => {
   it("formats delay values consistently", () => {
     expect(formatDelay(1, "hours")).toBe("1 hour");
@@ -56,3 +95,67 @@ describe("formatDelay", () => {
     expect(formatDelay(30, "minutes")).toBe("30 minutes");
   });
 });
+
+describe("wait modes", () => {
+  const withWait = (wait: Record<string, unknown>) => ({
+    ...welcomeSeriesFixture,
+    nodes: welcomeSeriesFixture.nodes.map((n) => (n.id === "wait_1" ? { ...wait, id: n.id, type: "wait" } : n))
+  });
+
+  it("accepts an until in place of a duration, filling defaults", () => {
+    const result = parseFlowSpecSafe(withWait({ until: { kind: "date-property", property: "Birthday", offsetDays: 3 } }));
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const wait = result.data.nodes.find((n) => n.id === "wait_1")!;
+    expect(wait.type === "wait" && wait.until).toEqual({ kind: "date-property", property: "Birthday", offsetDays: 3, direction: "before" });
+  });
+
+  it("needs exactly one of duration and until", () => {
+    expect(parseFlowSpecSafe(withWait({})).success).toBe(false);
+    expect(parseFlowSpecSafe(withWait({
+      duration: { value: 1, unit: "days" },
+      until: { kind: "time-of-day", time: "10:00" }
+    })).success).toBe(false);
+    expect(parseFlowSpecSafe(withWait({ until: { kind: "time-of-day", time: "25:00" } })).success).toBe(false);
+  });
+
+  it("describes every wait mode", () => {
+    expect(describeWait({ duration: { value: 2, unit: "days" } })).toBe("Wait 2 days");
+    expect(describeWait({ until: { kind: "time-of-day", time: "10:00", timezone: "profile" } })).toBe("Wait until 10:00 profile time");
+    expect(describeWait({ until: { kind: "weekday", days: ["tuesday", "thursday"], timezone: "profile" } })).toBe("Wait until Tuesday or Thursday");
+    expect(describeWait({ until: { kind: "date-property", property: "Renewal Date", offsetDays: 1, direction: "before" } }))
+      .toBe("Wait until 1 day before Renewal Date");
+    expect(describeWait({ until: { kind: "event", metric: "Placed Order", timeout: { value: 3, unit: "days" }, labels: ["Yes", "No"] } }))
+      .toBe("Wait up to 3 days for Placed Order");
+  });
+});
+
+describe("A/B split", () => {
+  const withAbSplit = (variants: { label: string; weight: number }[]) => ({
+    ...welcomeSeriesFixture,
+    nodes: welcomeSeriesFixture.nodes.map((n) => (n.id === "split_purchased" ? { id: n.id, type: "abSplit", title: "Offer test", variants } : n))
+  });
+
+  it("accepts weighted variants that sum to 100 with an edge each", () => {
+    const result = parseFlowSpecSafe(withAbSplit([{ label: "Yes", weight: 50 }, { label: "No", weight: 50 }]));
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects weights that do not sum to 100 and variants without an edge", () => {
+    const messages = (input: unknown) => {
+      const result = parseFlowSpecSafe(input);
+      return result.success ? [] : result.error.issues.map((issue) => issue.message);
+    };
+    expect(messages(withAbSplit([{ label: "Yes", weight: 50 }, { label: "No", weight: 40 }])))
+      .toContain("A/B split weights must sum to 100 (got 90).");
+    expect(messages(withAbSplit([{ label: "Yes", weight: 33 }, { label: "No", weight: 33 }, { label: "C", weight: 34 }])))
+      .toContain('A/B split split_purchased is missing outgoing edge for variant "C".');
+  });
+
+  it("describes variants and labels their edges with percentages", () => {
+    const node = { variants: [{ label: "A", weight: 33 }, { label: "B", weight: 33 }, { label: "C", weight: 34 }] };
+    expect(describeAbSplit(node)).toBe("A 33% / B 33% / C 34%");
+    expect(abSplitEdgeLabel(node, "c")).toBe("C · 34%");
+    expect(abSplitEdgeLabel(node, "D")).toBe("D");
+  });
+});
@@ -1,4 +1,7 @@
 import { z } from "zod";
+import { describeCondition, flowConditionSchema } from "./flowCondition.js";
+import { flowSettingsSchema, timeOfDaySchema } from "./flowSettings.js";
+import { CURRENT_FLOW_SCHEMA_VERSION, migrateFlowSpec } from "./flowSpecMigrations.js";
 
 const nodeIdSchema = z
   .string()
@@ -44,37 +47,113 @@ const triggerNodeSchema = z.object({
   description: z.string().optional()
 });
 
+/* Text is optional when a structured rule is given; it is then filled from the rule. */
 const profileFilterNodeSchema = z.object({
   id: nodeIdSchema,
   type: z.literal("profileFilter"),
   title: z.string().min(1),
-  filters: z.array(z.string().min(1)).min(1)
-});
+  filters: z.array(z.string().min(1)).min(1).optional(),
+  rule: flowConditionSchema.optional()
+}).superRefine((value, ctx) => {
+  if (!value.filters && !value.rule) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Profile filter needs filters or a rule.", path: ["filters"] });
+  }
+}).transform(({ filters, ...rest }) => ({ ...rest, filters: filters ?? [describeCondition(rest.rule!)] }));
 
-const splitLabelsSchema = z.union([
-  z.object({
-    yes: z.string().min(1).default("Yes"),
-    no: z.string().min(1).default("No")
-  }).transform(obj => [obj.yes, obj.no]),
-  z.array(z.string().min(1)).min(2)
-]).default(["Yes", "No"]);
+/* The legacy `{ yes, no }` object shape is upgraded by the schema version 1 migration */
+const splitLabelsSchema = z.array(z.string().min(1)).min(2).default(["Yes", "No"]);
 
 const splitNodeSchema = z.object({
   id: nodeIdSchema,
   type: z.literal("split"),
   title: z.string().min(1),
-  condition: z.string().min(1),
+  condition: z.string().min(1).optional(),
+  rule: flowConditionSchema.optional(),
   labels: splitLabelsSchema
+}).superRefine((value, ctx) => {
+  if (!value.condition && !value.rule) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Split needs a condition or a rule.", path: ["condition"] });
+  }
+}).transform(({ condition, ...rest }) => ({ ...rest, condition: condition ?? describeCondition(rest.rule!) }));
+
+/*
+ * Random percentage split: each profile takes one variant at random, in
+ * proportion to its weight. Outgoing edges are labeled with the variant label.
+ */
+export const abVariantSchema = z.object({
+  label: z.string().min(1),
+  /** Percent of profiles; the weights of a split sum to 100. */
+  weight: z.number().int().min(1).max(99)
+});
+export type AbVariant = z.infer<typeof abVariantSchema>;
+
+const abSplitNodeSchema = z.object({
+  id: nodeIdSchema,
+  type: z.literal("abSplit"),
+  title: z.string().min(1),
+  variants: z.array(abVariantSchema).min(2)
+}).superRefine((value, ctx) => {
+  const total = value.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (total !== 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `A/B split weights must sum to 100 (got ${total}).`, path: ["variants"] });
+  }
+  const labels = value.variants.map((variant) => variant.label.trim().toLowerCase());
+  if (new Set(labels).size !== labels.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A/B split variant labels must be unique.", path: ["variants"] });
+  }
 });
 
+const durationSchema = z.object({
+  value: z.number().int().positive(),
+  unit: delayUnitSchema
+});
+
+export const weekdaySchema = z.enum(["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"]);
+export type Weekday = z.infer<typeof weekdaySchema>;
+
+/* Calendar waits run in the profile's timezone unless the account's is asked for. */
+const waitTimezoneSchema = z.enum(["profile", "account"]).default("profile");
+
+/*
+ * What a wait waits for when it is not a fixed duration: the next occurrence of
+ * a time of day or weekday, a date relative to a profile property (birthday,
+ * renewal), or an event with a timeout. Event waits branch: the first label is
+ * taken when the event happens, the second when the timeout runs out.
+ */
+export const waitUntilSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("time-of-day"), time: timeOfDaySchema, timezone: waitTimezoneSchema }),
+  z.object({ kind: z.literal("weekday"), days: z.array(weekdaySchema).min(1), time: timeOfDaySchema.optional(), timezone: waitTimezoneSchema }),
+  z.object({
+    kind: z.literal("date-property"),
+    property: z.string().min(1),
+    offsetDays: z.number().int().min(0).default(0),
+    direction: z.enum(["before", "after"]).default("before"),
+    time: timeOfDaySchema.optional()
+  }),
+  z.object({
+    kind: z.literal("event"),
+    metric: z.string().min(1),
+    timeout: durationSchema,
+    labels: z.tuple([z.string().min(1), z.string().min(1)]).default(["Yes", "No"])
+  })
+]);
+export type WaitUntil = z.infer<typeof waitUntilSchema>;
+
+/* Either a fixed `duration` or an `until`, never both; checking one narrows the other. */
+type WaitNodeVariant =
+  | { id: string; type: "wait"; duration: z.infer<typeof durationSchema>; until?: undefined }
+  | { id: string; type: "wait"; duration?: undefined; until: WaitUntil };
+
 const waitNodeSchema = z.object({
   id: nodeIdSchema,
   type: z.literal("wait"),
-  duration: z.object({
-    value: z.number().int().positive(),
-    unit: delayUnitSchema
-  })
-});
+  duration: durationSchema.optional(),
+  until: waitUntilSchema.optional()
+}).superRefine((value, ctx) => {
+  if (!value.duration === !value.until) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Wait needs either a duration or an until, not both.", path: ["duration"] });
+  }
+}).transform((value) => value as WaitNodeVariant);
 
 const objectiveFocusSchema = z.object({
   title: z.string().min(1),
@@ -163,6 +242,7 @@ export const flowNodeSchema = z.discriminatedUnion("type", [
   triggerNodeSchema,
   profileFilterNodeSchema,
   splitNodeSchema,
+  abSplitNodeSchema,
   waitNodeSchema,
   messageNodeSchema,
   outcomeNodeSchema,
@@ -180,7 +260,19 @@ export const flowEdgeSchema = z.object({
 });
 export type FlowEdge = z.infer<typeof flowEdgeSchema>;
 
+/** Edge labels name branches case-insensitively, ignoring surrounding whitespace. */
+export function branchLabelKey(label: string | undefined): string | undefined {
+  return label?.trim().toLowerCase();
+}
+
 export const flowSpecSchema = z.object({
+  /** Written on export; input is migrated up to `CURRENT_FLOW_SCHEMA_VERSION` by `parseFlowSpec`. */
+  schemaVersion: z
+    .number()
+    .int()
+    .positive()
+    .max(CURRENT_FLOW_SCHEMA_VERSION, `Flow was saved with a newer schema version than this app supports (${CURRENT_FLOW_SCHEMA_VERSION}).`)
+    .optional(),
   id: z
     .string()
     .min(1)
@@ -194,6 +286,7 @@ export const flowSpecSchema = z.object({
       unit: delayUnitSchema.default("days")
     }).default({ value: 2, unit: "days" })
   }).default({ delay: { value: 2, unit: "days" } }),
+  settings: flowSettingsSchema.optional(),
   ui: z.object({
     nodePositions: z.record(
       nodeIdSchema,
@@ -248,8 +341,8 @@ export const flowSpecSchema = z.object({
     const splitNodes = spec.nodes.filter((n) => n.type === "split");
     for (const splitNode of splitNodes) {
       const outgoing = spec.edges.filter((edge) => edge.from === splitNode.id);
-      const outLabels = new Set(outgoing.map((edge) => edge.label?.trim().toLowerCase()));
-      const requiredLabels = splitNode.labels.map((l: string) => l.trim().toLowerCase());
+      const outLabels = new Set(outgoing.map((edge) => branchLabelKey(edge.label)));
+      const requiredLabels = splitNode.labels.map((l: string) => branchLabelKey(l)!);
       for (const required of requiredLabels) {
         if (!outLabels.has(required)) {
           ctx.addIssue({
@@ -262,6 +355,20 @@ export const flowSpecSchema = z.object({
     }
   }
 
+  for (const abSplit of spec.nodes) {
+    if (abSplit.type !== "abSplit") continue;
+    const outLabels = new Set(spec.edges.filter((edge) => edge.from === abSplit.id).map((edge) => branchLabelKey(edge.label)));
+    for (const variant of abSplit.variants) {
+      if (!outLabels.has(branchLabelKey(variant.label))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `A/B split ${abSplit.id} is missing outgoing edge for variant "${variant.label}".`,
+          path: ["edges"]
+        });
+      }
+    }
+  }
+
   for (const edge of spec.edges) {
     if (edgeIdSet.has(edge.id)) {
       ctx.addIssue({
@@ -303,12 +410,13 @@ export const flowSpecSchema = z.object({
 
 export type FlowSpec = z.infer<typeof flowSpecSchema>;
 
+/** Migrates older spec JSON to the current schema version, then validates it. */
 export function parseFlowSpec(input: unknown): FlowSpec {
-  return flowSpecSchema.parse(input);
+  return flowSpecSchema.parse(migrateFlowSpec(input).spec);
 }
 
 export function parseFlowSpecSafe(input: unknown) {
-  return flowSpecSchema.safeParse(input);
+  return flowSpecSchema.safeParse(migrateFlowSpec(input).spec);
 }
 
 export function formatDelay(value: number, unit: DelayUnit): string {
@@ -321,3 +429,55 @@ export function formatDelay(value: number, unit: DelayUnit): string {
   const noun = normalized === 1 ? singularMap[unit] : unit;
   return `${normalized} ${noun}`;
 }
+
+export type WaitNode = Extract<FlowNode, { type: "wait" }>;
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+function listWithOr(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(", ")} or ${items[items.length - 1]}` : items[0];
+}
+
+/** "Wait 2 days", "Wait until 10:00 profile time", "Wait up to 3 days for Placed Order", … */
+export function describeWait(node: Pick<WaitNode, "duration" | "until">): string {
+  const until = node.until;
+  if (!until) return node.duration ? `Wait ${formatDelay(node.duration.value, node.duration.unit)}` : "Wait";
+  switch (until.kind) {
+    case "time-of-day":
+      return `Wait until ${until.time} ${until.timezone} time`;
+    case "weekday": {
+      const at = until.time ? ` at ${until.time} ${until.timezone} time` : "";
+      return `Wait until ${listWithOr(until.days.map(capitalize))}${at}`;
+    }
+    case "date-property": {
+      const at = until.time ? ` at ${until.time}` : "";
+      if (until.offsetDays === 0) return `Wait until ${until.property}${at}`;
+      return `Wait until ${formatDelay(until.offsetDays, "days")} ${until.direction} ${until.property}${at}`;
+    }
+    case "event":
+      return `Wait up to ${formatDelay(until.timeout.value, until.timeout.unit)} for ${until.metric}`;
+  }
+}
+
+/** Branch labels of an event wait (event happened, timed out); none for other waits. */
+export function waitBranchLabels(node: Pick<WaitNode, "until">): string[] {
+  return node.until?.kind === "event" ? [...node.until.labels] : [];
+}
+
+/** "A 50% / B 50%" */
+export function describeAbSplit(node: { variants: AbVariant[] }): string {
+  return node.variants.map((variant) => `${variant.label} ${variant.weight}%`).join(" / ");
+}
+
+/** Edge text for an A/B split branch, e.g. "A · 50%"; the edge's own label when it names no variant. */
+export function abSplitEdgeLabel(node: { variants: AbVariant[] }, label: string | undefined): string | undefined {
+  const variant = node.variants.find((v) => branchLabelKey(v.label) === branchLabelKey(label));
+  return variant ? `${variant.label} · ${variant.weight}%` : label;
+}
+
+/** Display text for a split's condition or a profile filter; the structured rule wins over legacy text. */
+export function describeNodeCondition(node: FlowNode): string | undefined {
+  if (node.type === "split") return node.rule ? describeCondition(node.rule) : node.condition;
+  if (node.type === "profileFilter") return node.rule ? describeCondition(node.rule) : node.filters.join(", ");
+  return undefined;
+}
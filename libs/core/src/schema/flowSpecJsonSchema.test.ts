@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { welcomeSeriesFixture } from "../fixtures/welcomeSeries.js";
+import { flowSpecJsonSchema } from "./flowSpecJsonSchema.js";
+import { CURRENT_FLOW_SCHEMA_VERSION } from "./flowSpecMigrations.js";
+
+type JsonSchema = {
+  properties?: Record<string, JsonSchema & { const?: string; maximum?: number }>;
+  required?: string[];
+  oneOf?: JsonSchema[];
+  $defs?: Record<string, JsonSchema>;
+};
+
+describe("flowSpecJsonSchema", () => {
+  const schema = flowSpecJsonSchema() as JsonSchema;
+  const nodeBranches = schema.$defs!.FlowNode.oneOf!;
+
+  it("names the node, edge, condition and settings definitions", () => {
+    expect(Object.keys(schema.$defs!).sort()).toEqual(["FlowCondition", "FlowEdge", "FlowNode", "FlowSettings"]);
+  });
+
+  it("has one branch per node type in the discriminated union", () => {
+    const types = nodeBranches.map((b) => b.properties!.type.const).sort();
+    expect(types).toEqual(["abSplit", "merge", "message", "note", "outcome", "profileFilter", "split", "strategy", "trigger", "wait"]);
+  });
+
+  it("describes input files: defaulted fields are optional and the version is capped", () => {
+    expect(schema.required).toEqual(expect.arrayContaining(["id", "name", "channels", "nodes", "edges"]));
+    expect(schema.required).not.toContain("source");
+    expect(schema.required).not.toContain("defaults");
+    expect(schema.properties!.schemaVersion.maximum).toBe(CURRENT_FLOW_SCHEMA_VERSION);
+  });
+
+  it("covers every field the welcome series fixture uses", () => {
+    for (const key of Object.keys(welcomeSeriesFixture)) expect(schema.properties).toHaveProperty(key);
+    for (const node of welcomeSeriesFixture.nodes) {
+      const branch = nodeBranches.find((b) => b.properties!.type.const === node.type)!;
+      for (const key of Object.keys(node)) expect(branch.properties).toHaveProperty(key);
+      for (const key of branch.required ?? []) expect(node).toHaveProperty(key);
+    }
+  });
+});
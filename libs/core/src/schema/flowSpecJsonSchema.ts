@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { flowConditionSchema } from "./flowCondition.js";
+import { flowSettingsSchema } from "./flowSettings.js";
+import { flowEdgeSchema, flowNodeSchema, flowSpecSchema } from "./flowSpec.js";
+import { CURRENT_FLOW_SCHEMA_VERSION } from "./flowSpecMigrations.js";
+
+/* Named parts become `$defs` entries instead of being inlined at every use */
+const definitions = z.registry<{ id: string; description?: string }>();
+definitions.add(flowNodeSchema, { id: "FlowNode", description: "One step of a flow, discriminated by `type`." });
+definitions.add(flowEdgeSchema, { id: "FlowEdge" });
+definitions.add(flowConditionSchema, { id: "FlowCondition", description: "Structured condition for split and profileFilter nodes and flow filters." });
+definitions.add(flowSettingsSchema, { id: "FlowSettings", description: "Re-entry, flow filters, SMS quiet hours and timezone sending." });
+
+/**
+ * JSON Schema (draft 2020-12) for FlowSpec files as they are written by hand or by
+ * scripts: fields with defaults are optional. Cross-references between nodes and
+ * edges (one trigger, known ids, split labels) are only checked by `parseFlowSpec`.
+ */
+export function flowSpecJsonSchema(): Record<string, unknown> {
+  const schema = z.toJSONSchema(flowSpecSchema, { io: "input", metadata: definitions, target: "draft-2020-12" }) as Record<string, unknown>;
+  return {
+    ...schema,
+    title: "FlowSpec",
+    description: `An email/SMS flow: trigger, steps and the edges between them. Schema version ${CURRENT_FLOW_SCHEMA_VERSION}.`
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { welcomeSeriesFixture } from "../fixtures/welcomeSeries.js";
+import { parseFlowSpec, parseFlowSpecSafe } from "./flowSpec.js";
+import {
+  CURRENT_FLOW_SCHEMA_VERSION,
+  LEGACY_FLOW_SCHEMA_VERSION,
+  flowSpecMigrations,
+  flowSpecVersion,
+  migrateFlowSpec
+} from "./flowSpecMigrations.js";
+
+/* The welcome series as it was exported before versioning: no schemaVersion, object split labels */
+const legacyExport = {
+  ...welcomeSeriesFixture,
+  nodes: welcomeSeriesFixture.nodes.map((n) => (n.type === "split" ? { ...n, labels: { yes: "Yes", no: "No" } } : n))
+};
+
+describe("flowSpec migrations", () => {
+  it("has one migration per version step up to the current version", () => {
+    const froms = flowSpecMigrations.map((m) => m.from).sort((a, b) => a - b);
+    const expected = Array.from({ length: CURRENT_FLOW_SCHEMA_VERSION - LEGACY_FLOW_SCHEMA_VERSION }, (_, i) => LEGACY_FLOW_SCHEMA_VERSION + i);
+    expect(froms).toEqual(expected);
+  });
+
+  it("treats a missing or malformed version as legacy", () => {
+    expect(flowSpecVersion({})).toBe(LEGACY_FLOW_SCHEMA_VERSION);
+    expect(flowSpecVersion({ schemaVersion: "2" })).toBe(LEGACY_FLOW_SCHEMA_VERSION);
+    expect(flowSpecVersion({ schemaVersion: 2 })).toBe(2);
+  });
+
+  it("upgrades legacy split labels and stamps the current version", () => {
+    const result = migrateFlowSpec(legacyExport);
+    expect(result.fromVersion).toBe(LEGACY_FLOW_SCHEMA_VERSION);
+    expect(result.toVersion).toBe(CURRENT_FLOW_SCHEMA_VERSION);
+    expect(result.applied).toHaveLength(CURRENT_FLOW_SCHEMA_VERSION - LEGACY_FLOW_SCHEMA_VERSION);
+
+    const spec = result.spec as typeof legacyExport & { schemaVersion: number };
+    expect(spec.schemaVersion).toBe(CURRENT_FLOW_SCHEMA_VERSION);
+    expect(spec.nodes.find((n) => n.type === "split")!.labels).toEqual(["Yes", "No"]);
+  });
+
+  it("fills missing legacy labels with the old defaults and leaves the input alone", () => {
+    const input = {
+      ...welcomeSeriesFixture,
+      nodes: welcomeSeriesFixture.nodes.map((n) => (n.type === "split" ? { ...n, labels: { yes: "Bought" } } : n))
+    };
+    const spec = migrateFlowSpec(input).spec as typeof input;
+    expect(spec.nodes.find((n) => n.type === "split")!.labels).toEqual(["Bought", "No"]);
+    expect(input.nodes.find((n) => n.type === "split")!.labels).toEqual({ yes: "Bought" });
+  });
+
+  it("runs nothing for current specs and passes non-objects through", () => {
+    expect(migrateFlowSpec({ ...welcomeSeriesFixture, schemaVersion: CURRENT_FLOW_SCHEMA_VERSION }).applied).toEqual([]);
+    expect(migrateFlowSpec(null).spec).toBeNull();
+    expect(migrateFlowSpec([1, 2]).spec).toEqual([1, 2]);
+  });
+
+  it("lets old exports parse through parseFlowSpec", () => {
+    const spec = parseFlowSpec(legacyExport);
+    expect(spec.schemaVersion).toBe(CURRENT_FLOW_SCHEMA_VERSION);
+    expect(spec.nodes.find((n) => n.type === "split")!.type === "split").toBe(true);
+  });
+
+  it("rejects specs from a newer schema version", () => {
+    const result = parseFlowSpecSafe({ ...welcomeSeriesFixture, schemaVersion: CURRENT_FLOW_SCHEMA_VERSION + 1 });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.issues[0]?.path).toEqual(["schemaVersion"]);
+  });
+});
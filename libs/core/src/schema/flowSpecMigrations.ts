@@ -0,0 +1,80 @@
+/*
+ * FlowSpec JSON is exported and kept around (files, saved gameplans, Klaviyo drafts),
+ * so older shapes have to keep parsing. Each migration upgrades a spec by exactly one
+ * version; `migrateFlowSpec` runs them in order before the schema sees the input.
+ */
+
+/** Version written by this code. Bump it together with a new migration. */
+export const CURRENT_FLOW_SCHEMA_VERSION = 2;
+
+/** Specs exported before versioning existed have no `schemaVersion`. */
+export const LEGACY_FLOW_SCHEMA_VERSION = 1;
+
+type RawSpec = Record<string, unknown>;
+
+export type FlowSpecMigration = {
+  /** Version this migration upgrades from; it produces `from + 1`. */
+  from: number;
+  description: string;
+  /** Must not mutate its input. */
+  migrate: (spec: RawSpec) => RawSpec;
+};
+
+function mapNodes(spec: RawSpec, fn: (node: RawSpec) => RawSpec): RawSpec {
+  if (!Array.isArray(spec.nodes)) return spec;
+  return {
+    ...spec,
+    nodes: spec.nodes.map((node: unknown) => (node && typeof node === "object" ? fn(node as RawSpec) : node))
+  };
+}
+
+export const flowSpecMigrations: FlowSpecMigration[] = [
+  {
+    from: 1,
+    description: "Split labels are a [yes, no] array instead of a { yes, no } object.",
+    migrate: (spec) =>
+      mapNodes(spec, (node) => {
+        if (node.type !== "split" || !node.labels || typeof node.labels !== "object" || Array.isArray(node.labels)) return node;
+        const labels = node.labels as { yes?: unknown; no?: unknown };
+        return { ...node, labels: [labels.yes ?? "Yes", labels.no ?? "No"] };
+      })
+  }
+];
+
+export type FlowSpecMigrationResult = {
+  /** The upgraded spec, or the input untouched when it is not an object or is newer than this code. */
+  spec: unknown;
+  fromVersion: number;
+  toVersion: number;
+  /** Descriptions of the migrations that ran, oldest first. */
+  applied: string[];
+};
+
+/** The declared schema version of raw spec JSON; missing means legacy. */
+export function flowSpecVersion(input: unknown): number {
+  if (!input || typeof input !== "object") return LEGACY_FLOW_SCHEMA_VERSION;
+  const version = (input as RawSpec).schemaVersion;
+  return typeof version === "number" && Number.isInteger(version) && version > 0 ? version : LEGACY_FLOW_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade raw spec JSON to `CURRENT_FLOW_SCHEMA_VERSION`, one version at a time.
+ * Specs from a newer version are passed through for the schema to reject.
+ */
+export function migrateFlowSpec(input: unknown): FlowSpecMigrationResult {
+  const fromVersion = flowSpecVersion(input);
+  if (!input || typeof input !== "object" || Array.isArray(input) || fromVersion > CURRENT_FLOW_SCHEMA_VERSION) {
+    return { spec: input, fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  let spec = input as RawSpec;
+  const applied: string[] = [];
+  for (let version = fromVersion; version < CURRENT_FLOW_SCHEMA_VERSION; version += 1) {
+    const migration = flowSpecMigrations.find((m) => m.from === version);
+    if (!migration) throw new Error(`No FlowSpec migration from schema version ${version}.`);
+    spec = migration.migrate(spec);
+    applied.push(migration.description);
+  }
+
+  return { spec: { ...spec, schemaVersion: CURRENT_FLOW_SCHEMA_VERSION }, fromVersion, toVersion: CURRENT_FLOW_SCHEMA_VERSION, applied };
+}
@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import { welcomeSeriesFixture } from "../fixtures/welcomeSeries.js";
+import type { FlowSpec } from "../schema/flowSpec.js";
+import { formatSimulationTime, simulateFlow } from "./flowSimulator.js";
+
+const DAY = 1440;
+
+describe("simulateFlow", () => {
+  it("sends the purchase branch to a subscriber who buys on day 2", () => {
+    const { profiles } = simulateFlow(welcomeSeriesFixture, [
+      { id: "buyer", events: [{ name: "Placed Order", at: 2 * DAY }] }
+    ]);
+    const [buyer] = profiles;
+
+    expect(buyer.exitReason).toBe("completed");
+    expect(buyer.messages.map((m) => [m.nodeId, m.at])).toEqual([
+      ["email_welcome", 0],
+      ["email_brand_story", DAY],
+      ["email_yes_thankyou", 3 * DAY],
+      ["sms_yes_referral", 5 * DAY]
+    ]);
+    expect(buyer.entries.find((e) => e.kind === "split")?.branch).toBe("Yes");
+    expect(buyer.warnings).toEqual([]);
+  });
+
+  it("only counts events that happened before the split is reached", () => {
+    const { profiles } = simulateFlow(welcomeSeriesFixture, [
+      { id: "late", events: [{ name: "Placed Order", at: 4 * DAY }] }
+    ]);
+    expect(profiles[0].messages.map((m) => m.nodeId)).toContain("email_no_offer");
+  });
+
+  it("uses branch overrides and warns when a condition cannot be evaluated", () => {
+    const { profiles } = simulateFlow(welcomeSeriesFixture, [
+      { id: "unknown", events: [{ name: "Viewed Product", at: 0 }] },
+      { id: "forced", events: [], branchOverrides: { split_purchased: "Yes" } }
+    ]);
+
+    expect(profiles[0].entries.find((e) => e.kind === "split")?.branch).toBe("No");
+    expect(profiles[0].warnings[0]).toContain("split_purchased");
+    expect(profiles[1].messages.map((m) => m.nodeId)).toContain("email_yes_thankyou");
+    expect(profiles[1].warnings).toEqual([]);
+  });
+
+  it("matches branch edges regardless of label case and spacing", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      edges: welcomeSeriesFixture.edges.map((e) => (e.label ? { ...e, label: ` ${e.label.toLowerCase()} ` } : e))
+    };
+    const { profiles } = simulateFlow(spec, [{ id: "buyer", events: [{ name: "Placed Order", at: 2 * DAY }] }]);
+    expect(profiles[0].exitReason).toBe("completed");
+    expect(profiles[0].messages.map((m) => m.nodeId)).toContain("email_yes_thankyou");
+  });
+
+  it("exits profiles that fail a profile filter", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      nodes: [
+        ...welcomeSeriesFixture.nodes,
+        { id: "filter_no_order", type: "profileFilter", title: "Filter", filters: ["Has not placed order since starting this flow"] }
+      ],
+      edges: welcomeSeriesFixture.edges.map((e) =>
+        e.id === "e3" ? { ...e, to: "filter_no_order" } : e
+      ).concat({ id: "e_filter", from: "filter_no_order", to: "email_brand_story" })
+    };
+
+    const { profiles } = simulateFlow(spec, [{ id: "buyer", events: [{ name: "Placed Order", at: 60 }] }]);
+    expect(profiles[0].exitReason).toBe("filtered");
+    expect(profiles[0].exitedAt).toBe(DAY);
+    expect(profiles[0].messages.map((m) => m.nodeId)).toEqual(["email_welcome"]);
+  });
+
+  it("evaluates structured rules against events and properties", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      nodes: welcomeSeriesFixture.nodes.map((n) =>
+        n.type === "split"
+          ? {
+              ...n,
+              rule: {
+                kind: "group",
+                combinator: "or",
+                conditions: [
+                  { kind: "metric", metric: "Placed Order", operator: "greater-than", count: 0, window: { type: "in-the-last", value: 1, unit: "days" } },
+                  { kind: "property", property: "VIP", operator: "equals", value: true }
+                ]
+              }
+            }
+          : n
+      )
+    };
+
+    const { profiles } = simulateFlow(spec, [
+      { id: "old-order", events: [{ name: "Placed Order", at: 60 }] },
+      { id: "recent-order", events: [{ name: "Placed Order", at: 2 * DAY + 60 }] },
+      { id: "vip", events: [], properties: { VIP: true } }
+    ]);
+    expect(profiles.map((p) => p.entries.find((e) => e.kind === "split")?.branch)).toEqual(["No", "Yes", "Yes"]);
+    expect(profiles.every((p) => p.warnings.length === 0)).toBe(true);
+  });
+
+  it("reports dead ends and loops", () => {
+    const deadEnd: FlowSpec = {
+      ...welcomeSeriesFixture,
+      edges: welcomeSeriesFixture.edges.filter((e) => e.id !== "e3")
+    };
+    expect(simulateFlow(deadEnd, [{ id: "p", events: [] }]).profiles[0].exitReason).toBe("dead-end");
+
+    const loop: FlowSpec = {
+      ...welcomeSeriesFixture,
+      edges: welcomeSeriesFixture.edges.map((e) => (e.id === "e3" ? { ...e, to: "email_welcome" } : e))
+    };
+    const result = simulateFlow(loop, [{ id: "p", events: [] }], { maxSteps: 20 });
+    expect(result.profiles[0].exitReason).toBe("loop");
+  });
+});
+
+describe("wait modes", () => {
+  /* The purchase split becomes a wait of up to 3 days for Placed Order */
+  const eventWait: FlowSpec = {
+    ...welcomeSeriesFixture,
+    nodes: welcomeSeriesFixture.nodes
+      .filter((n) => n.id !== "split_purchased")
+      .map((n) => n.id === "wait_2"
+        ? { id: n.id, type: "wait", until: { kind: "event", metric: "Placed Order", timeout: { value: 3, unit: "days" }, labels: ["Yes", "No"] } }
+        : n),
+    edges: welcomeSeriesFixture.edges
+      .filter((e) => e.id !== "e5")
+      .map((e) => (e.from === "split_purchased" ? { ...e, from: "wait_2" } : e))
+  };
+
+  it("leaves an event wait as soon as the event happens, or on timeout", () => {
+    const { profiles } = simulateFlow(eventWait, [
+      { id: "buyer", events: [{ name: "Placed Order", at: 2 * DAY }] },
+      { id: "browser", events: [] }
+    ]);
+    const [buyer, browser] = profiles;
+
+    expect(buyer.entries.find((e) => e.nodeId === "wait_2")).toMatchObject({ at: 2 * DAY, branch: "Yes" });
+    expect(buyer.messages[2]).toMatchObject({ nodeId: "email_yes_thankyou", at: 2 * DAY });
+    expect(browser.entries.find((e) => e.nodeId === "wait_2")).toMatchObject({ at: 4 * DAY, branch: "No" });
+    expect(buyer.warnings).toEqual([]);
+    expect(browser.warnings).toEqual([]);
+  });
+
+  it("assumes a typical length for calendar waits and says so", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      nodes: welcomeSeriesFixture.nodes.map((n) =>
+        n.id === "wait_1" ? { id: n.id, type: "wait", until: { kind: "time-of-day", time: "10:00", timezone: "profile" } } : n
+      )
+    };
+    const [profile] = simulateFlow(spec, [{ id: "p", events: [] }]).profiles;
+    expect(profile.messages[1]).toMatchObject({ nodeId: "email_brand_story", at: 720 });
+    expect(profile.warnings[0]).toBe("Wait until 10:00 profile time at wait_1 depends on the calendar; assumed 12h.");
+  });
+});
+
+describe("A/B splits", () => {
+  const abTest: FlowSpec = {
+    ...welcomeSeriesFixture,
+    nodes: welcomeSeriesFixture.nodes.map((n) =>
+      n.id === "split_purchased"
+        ? { id: n.id, type: "abSplit", title: "Offer test", variants: [{ label: "Yes", weight: 80 }, { label: "No", weight: 20 }] }
+        : n
+    )
+  };
+
+  it("assigns variants stably and roughly by weight", () => {
+    const profiles = Array.from({ length: 200 }, (_, i) => ({ id: `p${i}`, events: [] }));
+    const first = simulateFlow(abTest, profiles).profiles;
+    const branches = first.map((p) => p.entries.find((e) => e.nodeId === "split_purchased")?.branch);
+
+    expect(simulateFlow(abTest, profiles).profiles.map((p) => p.entries.find((e) => e.nodeId === "split_purchased")?.branch)).toEqual(branches);
+    const yesShare = branches.filter((b) => b === "Yes").length / branches.length;
+    expect(yesShare).toBeGreaterThan(0.65);
+    expect(yesShare).toBeLessThan(0.95);
+    expect(first.every((p) => p.exitReason === "completed" && p.warnings.length === 0)).toBe(true);
+  });
+
+  it("follows a branch override", () => {
+    const [profile] = simulateFlow(abTest, [{ id: "p", events: [], branchOverrides: { split_purchased: "No" } }]).profiles;
+    expect(profile.messages.map((m) => m.nodeId)).toContain("email_no_offer");
+  });
+});
+
+describe("formatSimulationTime", () => {
+  it("formats minute offsets", () => {
+    expect(formatSimulationTime(0)).toBe("T+0");
+    expect(formatSimulationTime(2 * DAY + 180)).toBe("T+2d 3h");
+  });
+});
@@ -0,0 +1,381 @@
+import type { ConditionComparison, ConditionWindow, FlowCondition } from "../schema/flowCondition.js";
+import { branchLabelKey, describeAbSplit, describeNodeCondition, describeWait, type Channel, type DelayUnit, type FlowEdge, type FlowNode, type FlowSpec, type WaitNode } from "../schema/flowSpec.js";
+
+export type SimulationEvent = {
+  /** Event/metric name, e.g. "Placed Order". */
+  name: string;
+  /** Minutes after the profile entered the flow (the trigger fires at 0). */
+  at: number;
+};
+
+export type SyntheticProfile = {
+  id: string;
+  label?: string;
+  events: SimulationEvent[];
+  /** Profile properties read by structured property conditions. */
+  properties?: Record<string, string | number | boolean>;
+  /**
+   * Forced branch per split/filter node id, for conditions the simulator cannot
+   * evaluate. Splits and A/B splits take a branch label; filters take "pass" or "fail".
+   */
+  branchOverrides?: Record<string, string>;
+};
+
+export type TimelineEntryKind = "trigger" | "wait" | "split" | "filter" | "message" | "outcome";
+
+export type TimelineEntry = {
+  at: number;
+  nodeId: string;
+  kind: TimelineEntryKind;
+  detail: string;
+  channel?: Channel;
+  branch?: string;
+};
+
+export type ExitReason = "completed" | "filtered" | "dead-end" | "loop";
+
+export type ProfileTimeline = {
+  profileId: string;
+  label?: string;
+  entries: TimelineEntry[];
+  /** Messages that would send, in order. */
+  messages: { nodeId: string; title: string; channel: Channel; at: number }[];
+  exitedAt: number;
+  exitReason: ExitReason;
+  warnings: string[];
+};
+
+export type SimulationResult = {
+  flowId: string;
+  profiles: ProfileTimeline[];
+};
+
+export type SimulateFlowOptions = {
+  /** Guard against cycles; a profile stops after visiting this many nodes. */
+  maxSteps?: number;
+};
+
+const UNIT_MINUTES: Record<DelayUnit | "weeks", number> = { minutes: 1, hours: 60, days: 1440, weeks: 10080 };
+
+/* Phrases that mean the same thing as a standard event name. */
+const EVENT_SYNONYMS: { pattern: RegExp; event: string }[] = [
+  { pattern: /purchas|bought|made an? order|ordered/i, event: "placed order" },
+  { pattern: /checked out|started checkout/i, event: "started checkout" },
+  { pattern: /clicked/i, event: "clicked email" },
+  { pattern: /opened/i, event: "opened email" }
+];
+
+const NEGATION = /\b(has not|hasn't|have not|did not|didn't|not|never|no)\b/i;
+
+/* ── helpers ── */
+
+export function durationToMinutes(value: number, unit: DelayUnit): number {
+  return value * UNIT_MINUTES[unit];
+}
+
+/**
+ * Minutes a wait holds a profile. Fixed waits are exact and event waits count
+ * their full timeout. Calendar waits depend on when the profile arrives, so
+ * they get a typical value: half a day for a time of day, half the gap between
+ * the chosen weekdays, and nothing for a date property, which varies per profile.
+ */
+export function waitMinutes(node: Pick<WaitNode, "duration" | "until">): number {
+  const until = node.until;
+  if (!until) return node.duration ? durationToMinutes(node.duration.value, node.duration.unit) : 0;
+  switch (until.kind) {
+    case "time-of-day": return 720;
+    case "weekday": return Math.round(UNIT_MINUTES.weeks / until.days.length / 2);
+    case "date-property": return 0;
+    case "event": return durationToMinutes(until.timeout.value, until.timeout.unit);
+  }
+}
+
+/* A stable 0–99 bucket per profile and A/B split, so reruns pick the same variants. */
+function abBucket(profileId: string, nodeId: string): number {
+  let hash = 0;
+  for (const char of `${profileId}:${nodeId}`) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return hash % 100;
+}
+
+/** "T+0", "T+4h", "T+2d 3h" */
+export function formatSimulationTime(minutes: number): string {
+  if (minutes <= 0) return "T+0";
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+  const parts = [days ? `${days}d` : "", hours ? `${hours}h` : "", mins ? `${mins}m` : ""].filter(Boolean);
+  return `T+${parts.join(" ")}`;
+}
+
+function stem(word: string): string {
+  return word.toLowerCase().replace(/(ing|ed|es|s)$/, "");
+}
+
+function tokens(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).map(stem);
+}
+
+/* Which of the profile's event names a free-text condition talks about. */
+function referencedEvent(condition: string, eventNames: string[]): string | undefined {
+  const conditionTokens = new Set(tokens(condition));
+  const direct = eventNames.find((name) => {
+    const nameTokens = tokens(name);
+    return nameTokens.length > 0 && nameTokens.every((t) => conditionTokens.has(t));
+  });
+  if (direct) return direct;
+
+  const synonym = EVENT_SYNONYMS.find((s) => s.pattern.test(condition));
+  if (!synonym) return undefined;
+  return eventNames.find((name) => name.toLowerCase() === synonym.event) ?? synonym.event;
+}
+
+/**
+ * Evaluate a free-text condition as "has the profile done <event> since entering
+ * the flow?". Returns undefined when no event can be matched.
+ */
+function evaluateTextCondition(condition: string, profile: SyntheticProfile, now: number): boolean | undefined {
+  const eventNames = [...new Set(profile.events.map((e) => e.name))];
+  const event = referencedEvent(condition, eventNames);
+  if (!event) return undefined;
+  const happened = profile.events.some((e) => e.name.toLowerCase() === event.toLowerCase() && e.at <= now);
+  return NEGATION.test(condition) ? !happened : happened;
+}
+
+function compare(actual: number, operator: ConditionComparison, expected: number): boolean {
+  switch (operator) {
+    case "equals": return actual === expected;
+    case "not-equals": return actual !== expected;
+    case "greater-than": return actual > expected;
+    case "greater-than-or-equal": return actual >= expected;
+    case "less-than": return actual < expected;
+    case "less-than-or-equal": return actual <= expected;
+  }
+}
+
+function inWindow(at: number, window: ConditionWindow, now: number): boolean {
+  if (at > now) return false;
+  if (window.type === "flow-start") return at >= 0;
+  if (window.type === "in-the-last") return at >= now - window.value * UNIT_MINUTES[window.unit];
+  return true;
+}
+
+/* Structured rules are fully evaluable: metrics count events, properties read `profile.properties`. */
+function evaluateRule(rule: FlowCondition, profile: SyntheticProfile, now: number): boolean {
+  switch (rule.kind) {
+    case "group":
+      return rule.combinator === "and"
+        ? rule.conditions.every((c) => evaluateRule(c, profile, now))
+        : rule.conditions.some((c) => evaluateRule(c, profile, now));
+    case "metric": {
+      const metric = rule.metric.toLowerCase();
+      const count = profile.events.filter((e) => e.name.toLowerCase() === metric && inWindow(e.at, rule.window, now)).length;
+      return compare(count, rule.operator, rule.count);
+    }
+    case "property": {
+      const actual = profile.properties?.[rule.property];
+      if (rule.operator === "is-set") return actual !== undefined && actual !== "";
+      if (rule.operator === "is-not-set") return actual === undefined || actual === "";
+      if (actual === undefined) return rule.operator === "not-equals" || rule.operator === "not-contains";
+      if (rule.operator === "contains") return String(actual).toLowerCase().includes(String(rule.value).toLowerCase());
+      if (rule.operator === "not-contains") return !String(actual).toLowerCase().includes(String(rule.value).toLowerCase());
+      if (typeof actual === "number" && typeof rule.value === "number") return compare(actual, rule.operator, rule.value);
+      if (rule.operator === "equals") return String(actual) === String(rule.value);
+      if (rule.operator === "not-equals") return String(actual) !== String(rule.value);
+      return compare(Number(actual), rule.operator, Number(rule.value));
+    }
+  }
+}
+
+/* ── simulator ── */
+
+function simulateProfile(
+  spec: FlowSpec,
+  profile: SyntheticProfile,
+  outEdges: Map<string, FlowEdge[]>,
+  nodeMap: Map<string, FlowNode>,
+  maxSteps: number
+): ProfileTimeline {
+  const entries: TimelineEntry[] = [];
+  const messages: ProfileTimeline["messages"] = [];
+  const warnings: string[] = [];
+  const finish = (exitedAt: number, exitReason: ExitReason): ProfileTimeline => ({
+    profileId: profile.id,
+    label: profile.label,
+    entries,
+    messages,
+    exitedAt,
+    exitReason,
+    warnings
+  });
+
+  const trigger = spec.nodes.find((n) => n.type === "trigger");
+  if (!trigger) {
+    warnings.push("Flow has no trigger node.");
+    return finish(0, "dead-end");
+  }
+
+  let now = 0;
+  let current: FlowNode | undefined = trigger;
+  let steps = 0;
+
+  while (current) {
+    if (++steps > maxSteps) {
+      warnings.push(`Stopped after ${maxSteps} steps; the flow probably loops.`);
+      return finish(now, "loop");
+    }
+
+    const edges: FlowEdge[] = outEdges.get(current.id) ?? [];
+    let nextEdge: FlowEdge | undefined = edges[0];
+
+    switch (current.type) {
+      case "trigger":
+        entries.push({ at: now, nodeId: current.id, kind: "trigger", detail: current.event });
+        break;
+
+      case "wait": {
+        const until = current.until;
+        if (until?.kind === "event") {
+          /* The first matching event after arrival ends the wait early; otherwise it times out */
+          const deadline = now + waitMinutes(current);
+          const metric = until.metric.toLowerCase();
+          const start = now;
+          const event = profile.events
+            .filter((e) => e.name.toLowerCase() === metric && e.at >= start && e.at <= deadline)
+            .sort((a, b) => a.at - b.at)[0];
+          const branch = event ? until.labels[0] : until.labels[1];
+          now = event ? event.at : deadline;
+          nextEdge = edges.find((e) => branchLabelKey(e.label) === branchLabelKey(branch));
+          entries.push({ at: now, nodeId: current.id, kind: "wait", detail: describeWait(current), branch });
+          if (!nextEdge) {
+            warnings.push(`Wait ${current.id} has no "${branch}" edge.`);
+            return finish(now, "dead-end");
+          }
+          break;
+        }
+        const minutes = waitMinutes(current);
+        if (until) {
+          warnings.push(`${describeWait(current)} at ${current.id} depends on the calendar; assumed ${minutes > 0 ? formatSimulationTime(minutes).slice(2) : "no wait"}.`);
+        }
+        now += minutes;
+        entries.push({ at: now, nodeId: current.id, kind: "wait", detail: current.until ? describeWait(current) : `Waited ${current.duration.value} ${current.duration.unit}` });
+        break;
+      }
+
+      case "message":
+        entries.push({ at: now, nodeId: current.id, kind: "message", detail: current.title, channel: current.channel });
+        messages.push({ nodeId: current.id, title: current.title, channel: current.channel, at: now });
+        break;
+
+      case "split": {
+        const labels = current.labels;
+        const override = profile.branchOverrides?.[current.id];
+        let branch: string;
+        if (override) {
+          branch = override;
+        } else {
+          const result = current.rule
+            ? evaluateRule(current.rule, profile, now)
+            : evaluateTextCondition(current.condition, profile, now);
+          if (result === undefined) {
+            branch = labels[labels.length - 1];
+            warnings.push(`Could not evaluate "${current.condition}" at ${current.id}; took "${branch}". Add a branch override to choose.`);
+          } else {
+            branch = result ? labels[0] : labels[1];
+          }
+        }
+        nextEdge = edges.find((e) => branchLabelKey(e.label) === branchLabelKey(branch));
+        entries.push({ at: now, nodeId: current.id, kind: "split", detail: describeNodeCondition(current)!, branch });
+        if (!nextEdge) {
+          warnings.push(`Split ${current.id} has no "${branch}" edge.`);
+          return finish(now, "dead-end");
+        }
+        break;
+      }
+
+      case "abSplit": {
+        let branch = profile.branchOverrides?.[current.id];
+        if (!branch) {
+          let bucket = abBucket(profile.id, current.id);
+          const variant = current.variants.find((v) => (bucket -= v.weight) < 0) ?? current.variants[current.variants.length - 1];
+          branch = variant.label;
+        }
+        nextEdge = edges.find((e) => branchLabelKey(e.label) === branchLabelKey(branch));
+        entries.push({ at: now, nodeId: current.id, kind: "split", detail: describeAbSplit(current), branch });
+        if (!nextEdge) {
+          warnings.push(`A/B split ${current.id} has no "${branch}" edge.`);
+          return finish(now, "dead-end");
+        }
+        break;
+      }
+
+      case "profileFilter": {
+        const override = profile.branchOverrides?.[current.id];
+        let passed = true;
+        if (override) {
+          passed = override !== "fail";
+        } else if (current.rule) {
+          passed = evaluateRule(current.rule, profile, now);
+        } else {
+          for (const filter of current.filters) {
+            const result = evaluateTextCondition(filter, profile, now);
+            if (result === undefined) {
+              warnings.push(`Could not evaluate filter "${filter}" at ${current.id}; assumed it passes.`);
+            } else if (!result) {
+              passed = false;
+            }
+          }
+        }
+        entries.push({ at: now, nodeId: current.id, kind: "filter", detail: describeNodeCondition(current)!, branch: passed ? "pass" : "fail" });
+        if (!passed) return finish(now, "filtered");
+        break;
+      }
+
+      case "outcome":
+        entries.push({ at: now, nodeId: current.id, kind: "outcome", detail: current.result });
+        return finish(now, "completed");
+
+      default:
+        /* merge passes straight through; note/strategy are never on the main path */
+        break;
+    }
+
+    if (!nextEdge) {
+      warnings.push(`Path stops at ${current.id} without reaching an outcome.`);
+      return finish(now, "dead-end");
+    }
+    if (current.type !== "split" && current.type !== "abSplit" && !(current.type === "wait" && current.until?.kind === "event") && edges.length > 1) {
+      warnings.push(`${current.id} has ${edges.length} outgoing edges; followed the first.`);
+    }
+    current = nodeMap.get(nextEdge.to);
+  }
+
+  return finish(now, "dead-end");
+}
+
+/**
+ * Walk a flow once per synthetic profile, advancing a clock through waits and
+ * resolving splits/filters against the profile's events. Structured rules are
+ * evaluated exactly; legacy text conditions are matched to event names
+ * ("Has placed an order?" ↔ "Placed Order") and anything the simulator cannot
+ * match is reported in the profile's warnings.
+ */
+export function simulateFlow(
+  spec: FlowSpec,
+  profiles: SyntheticProfile[],
+  options: SimulateFlowOptions = {}
+): SimulationResult {
+  const maxSteps = options.maxSteps ?? 500;
+  const sideIds = new Set(spec.nodes.filter((n) => n.type === "note" || n.type === "strategy").map((n) => n.id));
+  const nodeMap = new Map(spec.nodes.map((n) => [n.id, n]));
+  const outEdges = new Map<string, FlowEdge[]>();
+  for (const edge of spec.edges) {
+    if (sideIds.has(edge.from) || sideIds.has(edge.to)) continue;
+    if (!outEdges.has(edge.from)) outEdges.set(edge.from, []);
+    outEdges.get(edge.from)!.push(edge);
+  }
+
+  return {
+    flowId: spec.id,
+    profiles: profiles.map((profile) => simulateProfile(spec, profile, outEdges, nodeMap, maxSteps))
+  };
+}
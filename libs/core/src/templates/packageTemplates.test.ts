@@ -59,8 +59,8 @@ describe("package template expansion", () => {
     const waitNodes = flow.nodes.filter((node) => node.type === "wait");
     expect(waitNodes.length).toBeGreaterThan(0);
     for (const waitNode of waitNodes) {
-      expect(waitNode.duration.value).toBe(2);
-      expect(waitNode.duration.unit).toBe("days");
+      expect(waitNode.duration?.value).toBe(2);
+      expect(waitNode.duration?.unit).toBe("days");
     }
   });
 });
@@ -1,7 +1,12 @@
 import type { DelayUnit, FlowSpec } from "../schema/flowSpec.js";
 import { parseFlowSpec } from "../schema/flowSpec.js";
 
-export type PackageTemplateKey = "core-foundation" | "growth-engine" | "full-system";
+export const PACKAGE_TEMPLATE_KEYS = ["core-foundation", "growth-engine", "full-system"] as const;
+export type PackageTemplateKey = (typeof PACKAGE_TEMPLATE_KEYS)[number];
+
+export function isPackageTemplateKey(key: string): key is PackageTemplateKey {
+  return (PACKAGE_TEMPLATE_KEYS as readonly string[]).includes(key);
+}
 type SegmentKey = "yes" | "no";
 
 type DelayConfig = {
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import type { FlowNode, FlowSpec } from "../schema/flowSpec.js";
+import { expandPackageTemplate } from "../templates/packageTemplates.js";
+import { peakWeeklyMessages, validateGameplan } from "./gameplanValidator.js";
+
+function withFilter(flow: FlowSpec, filters: string[]): FlowSpec {
+  const trigger = flow.nodes.find((n) => n.type === "trigger")!;
+  const first = flow.edges.find((e) => e.from === trigger.id)!;
+  const filter: FlowNode = { id: `${flow.id}_filter`, type: "profileFilter", title: "Suppression", filters };
+  return {
+    ...flow,
+    nodes: [...flow.nodes, filter],
+    edges: [
+      ...flow.edges.filter((e) => e.id !== first.id),
+      { id: `${first.id}_a`, from: trigger.id, to: filter.id },
+      { id: `${first.id}_b`, from: filter.id, to: first.to }
+    ]
+  };
+}
+
+describe("validateGameplan", () => {
+  const core = expandPackageTemplate("core-foundation");
+
+  it("reports mirrored and overlapping abandonment flows until they suppress each other", () => {
+    const codes = validateGameplan(core.flows, { mirrors: core.mirrors }).map((i) => [i.code, i.flowIds[0]]);
+    expect(codes).toContainEqual(["MIRROR_MISSING_SUPPRESSION", "core_cart_abandonment"]);
+    expect(codes).toContainEqual(["OVERLAPPING_TRIGGERS", "core_browse_abandonment"]);
+    /* The cart/checkout pair is reported once, as a mirror */
+    expect(codes).not.toContainEqual(["OVERLAPPING_TRIGGERS", "core_cart_abandonment"]);
+
+    const filtered = core.flows.map((f) =>
+      f.id === "core_cart_abandonment" ? withFilter(f, ["Has not started checkout since starting this flow"])
+        : f.id === "core_browse_abandonment" ? withFilter(f, ["Has not added to cart since starting this flow"])
+          : f
+    );
+    expect(validateGameplan(filtered, { mirrors: core.mirrors })).toEqual([]);
+  });
+
+  it("counts the busiest week of a signup-abandon-purchase journey", () => {
+    const welcome = core.flows.find((f) => f.id === "core_email_welcome")!;
+    expect(peakWeeklyMessages(welcome)).toBe(3);
+
+    const issue = validateGameplan(core.flows, { maxMessagesPerWeek: 5 }).find((i) => i.code === "WEEKLY_VOLUME");
+    /* Welcome 3 + SMS welcome 2 + heaviest abandonment 4 + post-purchase 2 */
+    expect(issue?.message).toContain("get 11 messages");
+    expect(validateGameplan(core.flows, { maxMessagesPerWeek: 11 }).some((i) => i.code === "WEEKLY_VOLUME")).toBe(false);
+  });
+
+  it("flags a discount code shared between flows", () => {
+    const withCode = (flow: FlowSpec, code: string): FlowSpec => ({
+      ...flow,
+      nodes: flow.nodes.map((n) => (n.type === "message" ? { ...n, discountCode: { included: true, code } } : n))
+    });
+    const flows = core.flows.map((f) =>
+      f.id === "core_email_welcome" ? withCode(f, "WELCOME10") : f.id === "core_post_purchase" ? withCode(f, "welcome10") : f
+    );
+    const duplicate = validateGameplan(flows).find((i) => i.code === "DUPLICATE_DISCOUNT_CODE");
+    expect(duplicate?.flowIds).toEqual(["core_email_welcome", "core_post_purchase"]);
+    expect(duplicate?.severity).toBe("warning");
+  });
+});
@@ -0,0 +1,214 @@
+import { describeNodeCondition, type FlowEdge, type FlowNode, type FlowSpec } from "../schema/flowSpec.js";
+import { flowTypeFromName, type FlowType } from "../library/flowTemplate.js";
+import { waitMinutes } from "../simulation/flowSimulator.js";
+import type { ExpandedPackage } from "../templates/packageTemplates.js";
+import type { GraphIssueSeverity } from "./graphValidator.js";
+
+export type GameplanIssueCode =
+  | "OVERLAPPING_TRIGGERS"
+  | "WEEKLY_VOLUME"
+  | "DUPLICATE_DISCOUNT_CODE"
+  | "MIRROR_MISSING_SUPPRESSION";
+
+export type GameplanIssue = {
+  code: GameplanIssueCode;
+  severity: GraphIssueSeverity;
+  message: string;
+  /** Flows involved, the one to fix first. */
+  flowIds: string[];
+  nodeIds?: string[];
+};
+
+export type GameplanValidationOptions = {
+  /** Mirror pairs from `expandPackageTemplate`; the mirroring flow must suppress people already in the source. */
+  mirrors?: ExpandedPackage["mirrors"];
+  /** Most messages one subscriber should get from all flows in any 7-day window. */
+  maxMessagesPerWeek?: number;
+};
+
+/** Two messages a day across every flow. */
+export const DEFAULT_MAX_MESSAGES_PER_WEEK = 14;
+
+const WEEK_MINUTES = 7 * 24 * 60;
+const MAX_PATHS = 500;
+
+/*
+ * Funnel stages that fire for the same shopping session. The broader flow has to
+ * exclude people who reached the narrower stage, or they get both sequences.
+ */
+const OVERLAPPING_STAGES: { broader: FlowType; narrower: FlowType; exclusion: RegExp }[] = [
+  { broader: "cart-abandonment", narrower: "checkout-abandonment", exclusion: /checkout/i },
+  { broader: "browse-abandonment", narrower: "cart-abandonment", exclusion: /add(ed)? to cart|cart/i }
+];
+
+/*
+ * For weekly volume, a subscriber's busiest week is taken to be signup, one abandoned
+ * session (abandonment flows exclude each other once filtered) and a purchase.
+ * Winback and sunset only reach lapsed subscribers, so they never stack on that week.
+ */
+const ABANDONMENT_TYPES = new Set<FlowType>(["checkout-abandonment", "cart-abandonment", "browse-abandonment", "site-abandonment"]);
+const LAPSED_TYPES = new Set<FlowType>(["winback", "sunset"]);
+
+/* ── helpers ── */
+
+function filterTexts(flow: FlowSpec): string[] {
+  return flow.nodes
+    .filter((n): n is Extract<FlowNode, { type: "profileFilter" }> => n.type === "profileFilter")
+    .map((n) => describeNodeCondition(n) ?? "");
+}
+
+function hasExclusion(flow: FlowSpec, pattern: RegExp): boolean {
+  return filterTexts(flow).some((text) => pattern.test(text));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Most messages any single path through the flow sends within a 7-day window,
+ * counting wait time from the trigger. Paths are enumerated up to MAX_PATHS.
+ */
+export function peakWeeklyMessages(flow: FlowSpec): number {
+  const nodeMap = new Map(flow.nodes.map((n) => [n.id, n]));
+  const outgoing = new Map<string, FlowEdge[]>();
+  for (const e of flow.edges) outgoing.set(e.from, [...(outgoing.get(e.from) ?? []), e]);
+
+  const trigger = flow.nodes.find((n) => n.type === "trigger");
+  if (!trigger) return 0;
+
+  let peak = 0;
+  let paths = 0;
+  const walk = (nodeId: string, at: number, sends: number[], visited: Set<string>) => {
+    if (paths >= MAX_PATHS) return;
+    const node = nodeMap.get(nodeId);
+    if (!node || visited.has(nodeId)) return;
+    const nextVisited = new Set(visited).add(nodeId);
+    let nextAt = at;
+    let nextSends = sends;
+    if (node.type === "wait") nextAt += waitMinutes(node);
+    if (node.type === "message") nextSends = [...sends, at];
+
+    const next = outgoing.get(nodeId) ?? [];
+    if (next.length === 0) {
+      paths += 1;
+      let start = 0;
+      for (let end = 0; end < nextSends.length; end++) {
+        while (nextSends[end] - nextSends[start] >= WEEK_MINUTES) start += 1;
+        peak = Math.max(peak, end - start + 1);
+      }
+      return;
+    }
+    for (const edge of next) walk(edge.to, nextAt, nextSends, nextVisited);
+  };
+  walk(trigger.id, 0, [], new Set());
+  return peak;
+}
+
+/* ── validator ── */
+
+/**
+ * Checks that need the whole gameplan rather than one flow: funnel flows that
+ * double up on the same session, combined weekly volume, discount codes reused
+ * across flows, and mirrored flows without a suppression filter.
+ */
+export function validateGameplan(flows: FlowSpec[], options: GameplanValidationOptions = {}): GameplanIssue[] {
+  const issues: GameplanIssue[] = [];
+  const flowById = new Map(flows.map((f) => [f.id, f]));
+  const mirrors = (options.mirrors ?? []).filter((m) => flowById.has(m.flowId) && flowById.has(m.mirrorsFlowId));
+  const isMirrorPair = (a: string, b: string) =>
+    mirrors.some((m) => (m.flowId === a && m.mirrorsFlowId === b) || (m.flowId === b && m.mirrorsFlowId === a));
+
+  // --- Mirrored flows need a suppression filter ---
+  for (const mirror of mirrors) {
+    const flow = flowById.get(mirror.flowId)!;
+    const source = flowById.get(mirror.mirrorsFlowId)!;
+    const stage = OVERLAPPING_STAGES.find((s) => s.narrower === flowTypeFromName(source.name));
+    const byName = new RegExp(escapeRegExp(source.name), "i");
+    if (!hasExclusion(flow, byName) && !(stage && hasExclusion(flow, stage.exclusion))) {
+      issues.push({
+        code: "MIRROR_MISSING_SUPPRESSION",
+        severity: "error",
+        message: `"${flow.name}" mirrors "${source.name}" but has no profile filter excluding people already in it; they would get both sequences.`,
+        flowIds: [flow.id, source.id]
+      });
+    }
+  }
+
+  // --- Overlapping triggers (pairs already covered as mirrors are reported above) ---
+  const flowsByType = new Map<FlowType, FlowSpec[]>();
+  for (const flow of flows) {
+    const type = flowTypeFromName(flow.name);
+    flowsByType.set(type, [...(flowsByType.get(type) ?? []), flow]);
+  }
+  for (const stage of OVERLAPPING_STAGES) {
+    for (const broader of flowsByType.get(stage.broader) ?? []) {
+      for (const narrower of flowsByType.get(stage.narrower) ?? []) {
+        if (isMirrorPair(broader.id, narrower.id) || hasExclusion(broader, stage.exclusion)) continue;
+        issues.push({
+          code: "OVERLAPPING_TRIGGERS",
+          severity: "error",
+          message: `"${broader.name}" and "${narrower.name}" can both fire for the same session; add a profile filter to "${broader.name}" that excludes people who reached "${narrower.name}".`,
+          flowIds: [broader.id, narrower.id]
+        });
+      }
+    }
+  }
+
+  // --- Weekly volume ---
+  const maxPerWeek = options.maxMessagesPerWeek ?? DEFAULT_MAX_MESSAGES_PER_WEEK;
+  const journey = { total: 0, flows: [] as { flow: FlowSpec; peak: number }[] };
+  let abandonment: { flow: FlowSpec; peak: number } | null = null;
+  for (const flow of flows) {
+    const type = flowTypeFromName(flow.name);
+    if (LAPSED_TYPES.has(type)) continue;
+    const peak = peakWeeklyMessages(flow);
+    if (peak === 0) continue;
+    if (ABANDONMENT_TYPES.has(type)) {
+      if (!abandonment || peak > abandonment.peak) abandonment = { flow, peak };
+    } else {
+      journey.total += peak;
+      journey.flows.push({ flow, peak });
+    }
+  }
+  if (abandonment) {
+    journey.total += abandonment.peak;
+    journey.flows.push(abandonment);
+  }
+  if (journey.total > maxPerWeek) {
+    const heaviest = [...journey.flows].sort((a, b) => b.peak - a.peak);
+    issues.push({
+      code: "WEEKLY_VOLUME",
+      severity: "warning",
+      message: `Someone who signs up, abandons a session and buys in the same week could get ${journey.total} messages (limit ${maxPerWeek}): ${heaviest.map((p) => `"${p.flow.name}" ${p.peak}`).join(", ")}.`,
+      flowIds: heaviest.map((p) => p.flow.id)
+    });
+  }
+
+  // --- Discount codes reused across flows ---
+  const codeUses = new Map<string, { flowIds: Set<string>; nodeIds: string[]; code: string }>();
+  for (const flow of flows) {
+    for (const node of flow.nodes) {
+      if (node.type !== "message" || !node.discountCode?.included || !node.discountCode.code?.trim()) continue;
+      const code = node.discountCode.code.trim();
+      const key = code.toUpperCase();
+      const entry = codeUses.get(key) ?? { flowIds: new Set<string>(), nodeIds: [], code };
+      entry.flowIds.add(flow.id);
+      entry.nodeIds.push(node.id);
+      codeUses.set(key, entry);
+    }
+  }
+  for (const { flowIds, nodeIds, code } of codeUses.values()) {
+    if (flowIds.size < 2) continue;
+    const names = [...flowIds].map((id) => `"${flowById.get(id)!.name}"`).join(", ");
+    issues.push({
+      code: "DUPLICATE_DISCOUNT_CODE",
+      severity: "warning",
+      message: `Discount code ${code} is used in ${names}; per-flow codes keep attribution and redemption limits separate.`,
+      flowIds: [...flowIds],
+      nodeIds
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { welcomeSeriesFixture } from "../fixtures/welcomeSeries.js";
+import type { FlowSpec } from "../schema/flowSpec.js";
+import { lintFlowGraph, validateFlowGraph } from "./graphValidator.js";
+
+const codesFor = (spec: unknown, nodeId?: string) =>
+  lintFlowGraph(spec)
+    .filter((w) => !nodeId || w.nodeIds?.includes(nodeId))
+    .map((w) => w.code);
+
+describe("validateFlowGraph", () => {
+  it("accepts the welcome fixture and reports lints separately", () => {
+    const result = validateFlowGraph(welcomeSeriesFixture);
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings.length).toBeGreaterThan(0);
+    expect(result.warnings.every((w) => w.severity === "warning")).toBe(true);
+  });
+
+  it("flags a dead end", () => {
+    const spec = { ...welcomeSeriesFixture, edges: welcomeSeriesFixture.edges.filter((e) => e.id !== "e14") };
+    expect(validateFlowGraph(spec).errors.map((e) => e.code)).toContain("DEAD_END");
+  });
+});
+
+describe("A/B split checks", () => {
+  const withVariants = (variants: unknown[]) => ({
+    ...welcomeSeriesFixture,
+    nodes: welcomeSeriesFixture.nodes.map((n) => (n.id === "split_purchased" ? { id: n.id, type: "abSplit", title: "Offer test", variants } : n))
+  });
+  const errorCodes = (spec: unknown) => validateFlowGraph(spec).errors.map((e) => e.code);
+
+  it("accepts variants whose weights sum to 100, each with an edge", () => {
+    expect(errorCodes(withVariants([{ label: "Yes", weight: 50 }, { label: "No", weight: 50 }]))).toEqual([]);
+  });
+
+  it("flags bad weights, missing variant edges and extra edges", () => {
+    expect(errorCodes(withVariants([{ label: "Yes", weight: 60 }, { label: "No", weight: 60 }]))).toEqual(["AB_SPLIT_BAD_WEIGHTS"]);
+    expect(errorCodes(withVariants([{ label: "Yes", weight: 34 }, { label: "No", weight: 33 }, { label: "C", weight: 33 }])))
+      .toEqual(["AB_SPLIT_MISSING_VARIANT"]);
+    expect(errorCodes(withVariants([{ label: "Yes", weight: 100 }]))).toEqual(["AB_SPLIT_BAD_WEIGHTS", "AB_SPLIT_EXTRA_EDGE"]);
+  });
+});
+
+describe("wait-for-event branches", () => {
+  const eventWait = {
+    ...welcomeSeriesFixture,
+    nodes: welcomeSeriesFixture.nodes
+      .filter((n) => n.id !== "split_purchased")
+      .map((n) => n.id === "wait_2"
+        ? { id: n.id, type: "wait", until: { kind: "event", metric: "Placed Order", timeout: { value: 40, unit: "days" }, labels: ["Bought", "Timed out"] } }
+        : n),
+    edges: welcomeSeriesFixture.edges
+      .filter((e) => e.id !== "e5")
+      .map((e) => (e.from === "split_purchased" ? { ...e, from: "wait_2", label: e.label === "Yes" ? "Bought" : "Timed out" } : e))
+  };
+
+  it("accepts an event wait with an event and a timeout branch", () => {
+    expect(validateFlowGraph(eventWait).errors).toEqual([]);
+  });
+
+  it("flags a missing timeout branch and extra edges", () => {
+    const missing = { ...eventWait, edges: eventWait.edges.filter((e) => e.id !== "e6_no") };
+    const missingErrors = validateFlowGraph(missing).errors;
+    expect(missingErrors.map((e) => e.code)).toContain("WAIT_EVENT_MISSING_BRANCH");
+    expect(missingErrors.find((e) => e.code === "WAIT_EVENT_MISSING_BRANCH")?.message).toContain('timeout branch (an outgoing edge labeled "Timed out")');
+
+    const extra = { ...eventWait, edges: [...eventWait.edges, { id: "e_extra", from: "wait_2", to: "outcome_no" }] };
+    expect(validateFlowGraph(extra).errors.map((e) => e.code)).toContain("WAIT_EVENT_EXTRA_EDGE");
+  });
+
+  it("lints an event wait whose timeout is too long", () => {
+    expect(codesFor(eventWait, "wait_2")).toEqual(["LONG_WAIT"]);
+  });
+});
+
+describe("lintFlowGraph", () => {
+  it("flags missing subject lines and smart sending off on later emails", () => {
+    expect(codesFor(welcomeSeriesFixture, "email_welcome")).toEqual(["MISSING_SUBJECT_LINE"]);
+
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      nodes: welcomeSeriesFixture.nodes.map((n) =>
+        n.id === "email_brand_story" && n.type === "message"
+          ? { ...n, smartSending: false, emailContent: { subjectLine: "Our story" } }
+          : n
+      )
+    };
+    expect(codesFor(spec, "email_brand_story")).toEqual(["SMART_SENDING_OFF"]);
+  });
+
+  it("flags SMS without a wait, long waits and an unused email channel", () => {
+    const spec: FlowSpec = {
+      id: "sms_only",
+      name: "SMS Welcome",
+      source: { mode: "manual" },
+      channels: ["email", "sms"],
+      defaults: { delay: { value: 2, unit: "days" } },
+      nodes: [
+        { id: "t", type: "trigger", title: "Trigger", event: "Subscribed to SMS" },
+        { id: "sms_1", type: "message", channel: "sms", title: "SMS 1" },
+        { id: "w2", type: "wait", duration: { value: 45, unit: "days" } },
+        { id: "sms_2", type: "message", channel: "sms", title: "SMS 2" },
+        { id: "end", type: "outcome", title: "End", result: "Done" }
+      ],
+      edges: [
+        { id: "a", from: "t", to: "sms_1" },
+        { id: "b", from: "sms_1", to: "w2" },
+        { id: "c", from: "w2", to: "sms_2" },
+        { id: "d", from: "sms_2", to: "end" }
+      ]
+    };
+    expect(codesFor(spec, "sms_1")).toEqual(["SMS_WITHOUT_WAIT"]);
+    expect(codesFor(spec, "sms_2")).toEqual([]);
+    expect(codesFor(spec, "w2")).toEqual(["LONG_WAIT"]);
+    expect(codesFor(spec)).toContain("EMAIL_CHANNEL_UNUSED");
+
+    const withQuietHours: FlowSpec = { ...spec, settings: { smsQuietHours: { start: "21:00", end: "09:00" } } };
+    expect(codesFor(withQuietHours, "sms_1")).toEqual([]);
+  });
+
+  it("flags a discount in the first step of an abandonment flow only", () => {
+    const withDiscount = (name: string): FlowSpec => ({
+      ...welcomeSeriesFixture,
+      name,
+      nodes: welcomeSeriesFixture.nodes.map((n) =>
+        n.type === "message" && (n.id === "email_welcome" || n.id === "email_no_offer")
+          ? { ...n, discountCode: { included: true, code: "SAVE10" } }
+          : n
+      )
+    });
+    const lints = lintFlowGraph(withDiscount("Checkout Abandonment")).filter((w) => w.code === "EARLY_DISCOUNT");
+    expect(lints.map((w) => w.nodeIds)).toEqual([["email_welcome"]]);
+    expect(codesFor(withDiscount("Welcome Series"))).not.toContain("EARLY_DISCOUNT");
+  });
+});
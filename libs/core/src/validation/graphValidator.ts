@@ -1,3 +1,5 @@
+import { flowTypeFromName } from "../library/flowTemplate.js";
+
 export type GraphErrorCode =
   | "NO_TRIGGER"
   | "MULTIPLE_TRIGGERS"
@@ -7,9 +9,24 @@ export type GraphErrorCode =
   | "SPLIT_MISSING_LABEL"
   | "SPLIT_EXTRA_EDGE"
   | "SPLIT_SHARED_TARGET"
+  | "AB_SPLIT_BAD_WEIGHTS"
+  | "AB_SPLIT_MISSING_VARIANT"
+  | "AB_SPLIT_EXTRA_EDGE"
+  | "WAIT_EVENT_MISSING_BRANCH"
+  | "WAIT_EVENT_EXTRA_EDGE"
   | "DUPLICATE_EDGE"
   | "DANGLING_EDGE";
 
+export type GraphWarningCode =
+  | "SMS_WITHOUT_WAIT"
+  | "SMART_SENDING_OFF"
+  | "EARLY_DISCOUNT"
+  | "LONG_WAIT"
+  | "MISSING_SUBJECT_LINE"
+  | "EMAIL_CHANNEL_UNUSED";
+
+export type GraphIssueSeverity = "error" | "warning";
+
 export type GraphError = {
   code: GraphErrorCode;
   message: string;
@@ -17,9 +34,19 @@ export type GraphError = {
   edgeIds?: string[];
 };
 
+/** Best-practice lint: the flow still works, but probably not the way the marketer wants. */
+export type GraphWarning = {
+  code: GraphWarningCode;
+  severity: "warning";
+  message: string;
+  nodeIds?: string[];
+};
+
 export type GraphValidationResult = {
+  /** Only errors affect validity; warnings are advisory. */
   valid: boolean;
   errors: GraphError[];
+  warnings: GraphWarning[];
 };
 
 type RawNode = { id: string; type: string; labels?: unknown; [k: string]: unknown };
@@ -51,6 +78,22 @@ function getSplitLabels(node: RawNode): string[] {
   return ["Yes", "No"];
 }
 
+type RawDuration = { value?: unknown; unit?: unknown };
+type RawVariant = { label: string; weight: unknown };
+
+function getAbVariants(node: RawNode): RawVariant[] {
+  const raw = Array.isArray(node.variants) ? node.variants : [];
+  return raw.filter((v): v is RawVariant => !!v && typeof v === "object" && typeof v.label === "string" && v.label.trim().length > 0);
+}
+
+/* The branch labels of a wait-for-event node (event happened, timed out), or undefined for other waits. */
+function getEventWaitLabels(node: RawNode): string[] | undefined {
+  const until = node.until as { kind?: unknown; labels?: unknown } | undefined;
+  if (node.type !== "wait" || until?.kind !== "event") return undefined;
+  const labels = Array.isArray(until.labels) ? until.labels.filter((l): l is string => typeof l === "string" && l.trim().length > 0) : [];
+  return labels.length === 2 ? labels : ["Yes", "No"];
+}
+
 /**
  * Validate the structural integrity of a FlowSpec as a directed graph.
  * This checks semantic correctness beyond what Zod schema validation covers:
@@ -61,7 +104,7 @@ export function validateFlowGraph(spec: unknown): GraphValidationResult {
   const nodes = toNodes(spec);
   const edges = toEdges(spec);
 
-  if (nodes.length === 0) return { valid: true, errors: [] };
+  if (nodes.length === 0) return { valid: true, errors: [], warnings: [] };
 
   const nodeIds = new Set(nodes.map(n => n.id));
   const nodeMap = new Map(nodes.map(n => [n.id, n]));
@@ -186,9 +229,72 @@ export function validateFlowGraph(spec: unknown): GraphValidationResult {
     }
   }
 
+  // --- A/B splits: weights sum to 100 and every variant has its edge ---
+  for (const node of nodes) {
+    if (node.type !== "abSplit") continue;
+    const variants = getAbVariants(node);
+    const out = outgoing.get(node.id) ?? [];
+    const edgeLabels = out.map(e => (e.label ?? "").trim().toLowerCase());
+
+    const total = variants.reduce((sum, v) => sum + (typeof v.weight === "number" ? v.weight : 0), 0);
+    if (variants.length < 2 || total !== 100) {
+      errors.push({
+        code: "AB_SPLIT_BAD_WEIGHTS",
+        message: `A/B split "${node.id}" needs at least two variants whose weights sum to 100 (got ${variants.length} summing to ${total}).`,
+        nodeIds: [node.id]
+      });
+    }
+
+    for (const variant of variants) {
+      if (!edgeLabels.includes(variant.label.trim().toLowerCase())) {
+        errors.push({
+          code: "AB_SPLIT_MISSING_VARIANT",
+          message: `A/B split "${node.id}" is missing an outgoing edge for variant "${variant.label}".`,
+          nodeIds: [node.id]
+        });
+      }
+    }
+
+    if (out.length > variants.length) {
+      errors.push({
+        code: "AB_SPLIT_EXTRA_EDGE",
+        message: `A/B split "${node.id}" has ${out.length} outgoing edges but only ${variants.length} variants.`,
+        nodeIds: [node.id],
+        edgeIds: out.map(e => e.id)
+      });
+    }
+  }
+
+  // --- Wait-for-event branches: one edge for the event, one for the timeout ---
+  for (const node of nodes) {
+    const labels = getEventWaitLabels(node);
+    if (!labels) continue;
+    const out = outgoing.get(node.id) ?? [];
+    const edgeLabels = out.map(e => (e.label ?? "").trim().toLowerCase());
+
+    labels.forEach((label, index) => {
+      if (!edgeLabels.includes(label.trim().toLowerCase())) {
+        errors.push({
+          code: "WAIT_EVENT_MISSING_BRANCH",
+          message: `Wait "${node.id}" is missing its ${index === 0 ? "event" : "timeout"} branch (an outgoing edge labeled "${label}").`,
+          nodeIds: [node.id]
+        });
+      }
+    });
+
+    if (out.length > labels.length) {
+      errors.push({
+        code: "WAIT_EVENT_EXTRA_EDGE",
+        message: `Wait "${node.id}" has ${out.length} outgoing edges but only an event and a timeout branch.`,
+        nodeIds: [node.id],
+        edgeIds: out.map(e => e.id)
+      });
+    }
+  }
+
   // --- Split isolation: branches must not share the same direct target ---
   for (const node of nodes) {
-    if (node.type !== "split") continue;
+    if (node.type !== "split" && node.type !== "abSplit") continue;
     const out = outgoing.get(node.id) ?? [];
     const targets = out.map(e => e.to);
     const seen = new Set<string>();
@@ -215,5 +321,132 @@ export function validateFlowGraph(spec: unknown): GraphValidationResult {
     edgeKeys.add(key);
   }
 
-  return { valid: errors.length === 0, errors };
+  return { valid: errors.length === 0, errors, warnings: lintFlowGraph(spec) };
+}
+
+const ABANDONMENT_TYPES = new Set(["checkout-abandonment", "cart-abandonment", "browse-abandonment", "site-abandonment"]);
+const MAX_WAIT_DAYS = 30;
+const UNIT_DAYS: Record<string, number> = { minutes: 1 / 1440, hours: 1 / 24, days: 1 };
+
+function nodeLabel(node: RawNode): string {
+  return typeof node.title === "string" && node.title.trim() ? `"${node.title}"` : `"${node.id}"`;
+}
+
+/* Breadth-first walk along outgoing edges; `stop` nodes are visited but not expanded. */
+function walkFrom(starts: string[], outgoing: Map<string, RawEdge[]>, stop: (id: string) => boolean): Set<string> {
+  const seen = new Set<string>();
+  const queue = [...starts];
+  while (queue.length > 0) {
+    const cur = queue.shift()!;
+    for (const edge of outgoing.get(cur) ?? []) {
+      if (seen.has(edge.to)) continue;
+      seen.add(edge.to);
+      if (!stop(edge.to)) queue.push(edge.to);
+    }
+  }
+  return seen;
+}
+
+/**
+ * Marketing best-practice checks on a FlowSpec. Unlike `validateFlowGraph` errors,
+ * these never make a flow invalid; they point at choices worth a second look.
+ */
+export function lintFlowGraph(spec: unknown): GraphWarning[] {
+  const warnings: GraphWarning[] = [];
+  const nodes = toNodes(spec);
+  const edges = toEdges(spec);
+  if (nodes.length === 0) return warnings;
+
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const outgoing = new Map<string, RawEdge[]>();
+  for (const e of edges) outgoing.set(e.from, [...(outgoing.get(e.from) ?? []), e]);
+
+  const messages = nodes.filter(n => n.type === "message");
+  const trigger = nodes.find(n => n.type === "trigger");
+
+  // Nodes the trigger reaches without passing a wait, and nodes that come after some message
+  const unwaited = trigger ? walkFrom([trigger.id], outgoing, id => nodeMap.get(id)?.type === "wait") : new Set<string>();
+  const afterMessage = walkFrom(messages.map(m => m.id), outgoing, () => false);
+
+  const raw = (spec ?? {}) as Record<string, unknown>;
+  const isAbandonment = typeof raw.name === "string" && ABANDONMENT_TYPES.has(flowTypeFromName(raw.name));
+  /* The flow's own quiet hours hold an SMS due inside the window, so sending at trigger time is safe */
+  const settings = raw.settings as { smsQuietHours?: unknown } | undefined;
+  const hasQuietHours = !!settings?.smsQuietHours;
+
+  for (const node of messages) {
+    const channel = node.channel;
+
+    // --- SMS quiet hours ---
+    if (channel === "sms" && unwaited.has(node.id) && !hasQuietHours) {
+      warnings.push({
+        code: "SMS_WITHOUT_WAIT",
+        severity: "warning",
+        message: `SMS ${nodeLabel(node)} sends as soon as the flow triggers, with no wait before it and the flow sets no SMS quiet hours, so it can land overnight.`,
+        nodeIds: [node.id]
+      });
+    }
+
+    // --- Smart sending on follow-ups ---
+    if (channel === "email" && node.smartSending === false && afterMessage.has(node.id)) {
+      warnings.push({
+        code: "SMART_SENDING_OFF",
+        severity: "warning",
+        message: `Email ${nodeLabel(node)} has smart sending off but is not the first step; recipients may get it right after another campaign.`,
+        nodeIds: [node.id]
+      });
+    }
+
+    // --- Discount in the first abandonment message ---
+    const discount = node.discountCode as { included?: unknown } | undefined;
+    if (isAbandonment && discount?.included === true && !afterMessage.has(node.id)) {
+      warnings.push({
+        code: "EARLY_DISCOUNT",
+        severity: "warning",
+        message: `${nodeLabel(node)} offers a discount in the first step of an abandonment flow; shoppers learn to abandon for a code.`,
+        nodeIds: [node.id]
+      });
+    }
+
+    // --- Subject lines ---
+    const content = node.emailContent as { subjectLine?: unknown } | undefined;
+    if (channel === "email" && !(typeof content?.subjectLine === "string" && content.subjectLine.trim())) {
+      warnings.push({
+        code: "MISSING_SUBJECT_LINE",
+        severity: "warning",
+        message: `Email ${nodeLabel(node)} has no subject line.`,
+        nodeIds: [node.id]
+      });
+    }
+  }
+
+  // --- Long waits ---
+  for (const node of nodes) {
+    if (node.type !== "wait") continue;
+    /* An event wait can hold a profile for its whole timeout */
+    const until = node.until as { kind?: unknown; timeout?: RawDuration } | undefined;
+    const duration = (until?.kind === "event" ? until.timeout : node.duration) as RawDuration | undefined;
+    if (typeof duration?.value !== "number" || typeof duration.unit !== "string") continue;
+    const days = duration.value * (UNIT_DAYS[duration.unit] ?? 1);
+    if (days > MAX_WAIT_DAYS) {
+      warnings.push({
+        code: "LONG_WAIT",
+        severity: "warning",
+        message: `Wait "${node.id}" lasts ${duration.value} ${duration.unit}, longer than ${MAX_WAIT_DAYS} days; the contact may have moved on by then.`,
+        nodeIds: [node.id]
+      });
+    }
+  }
+
+  // --- Declared channels vs. messages ---
+  const channels = Array.isArray(raw.channels) ? raw.channels : [];
+  if (channels.includes("email") && messages.length > 0 && messages.every(m => m.channel === "sms")) {
+    warnings.push({
+      code: "EMAIL_CHANNEL_UNUSED",
+      severity: "warning",
+      message: "Flow lists email as a channel but only sends SMS."
+    });
+  }
+
+  return warnings;
 }
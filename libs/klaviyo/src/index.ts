@@ -0,0 +1,4 @@
+export * from "./klaviyoTypes.js";
+export * from "./klaviyoClient.js";
+export * from "./klaviyoExporter.js";
+export * from "./klaviyoImporter.js";
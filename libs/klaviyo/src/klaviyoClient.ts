@@ -0,0 +1,93 @@
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export type KlaviyoApiError = { status: number; body: string };
+
+export const KLAVIYO_BASE_URL = "https://a.klaviyo.com/api";
+/* Flow create/read with `definition` is only exposed on the pre-release revision. */
+export const KLAVIYO_REVISION = "2024-10-15.pre";
+
+export type KlaviyoClientOptions = {
+  apiKey: string;
+  fetchImpl?: FetchLike;
+  maxRetries?: number;
+  baseUrl?: string;
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function retryDelay(response: Response, attempt: number): number {
+  const ra = response.headers.get("retry-after");
+  if (ra) {
+    const v = Number(ra);
+    if (Number.isFinite(v) && v >= 0) return v * 1000;
+  }
+  return Math.min(250 * 2 ** attempt, 5000);
+}
+
+/**
+ * Thin JSON:API client. Retries 429/5xx with backoff (honouring retry-after)
+ * and throws `{ status, body }` on any other failure, same as the Miro adapter.
+ */
+export function createKlaviyoClient({
+  apiKey,
+  fetchImpl = fetch,
+  maxRetries = 3,
+  baseUrl = KLAVIYO_BASE_URL
+}: KlaviyoClientOptions) {
+  async function request<T>(method: string, pathOrUrl: string, body?: unknown): Promise<T> {
+    const url = pathOrUrl.startsWith("http") ? pathOrUrl : `${baseUrl}${pathOrUrl}`;
+    const init: RequestInit = {
+      method,
+      headers: {
+        Authorization: `Klaviyo-API-Key ${apiKey}`,
+        revision: KLAVIYO_REVISION,
+        Accept: "application/vnd.api+json",
+        "Content-Type": "application/vnd.api+json"
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    };
+
+    let attempt = 0;
+    while (true) {
+      const res = await fetchImpl(url, init);
+      if (res.ok) return (await res.json()) as T;
+      const retryable = res.status === 429 || res.status >= 500;
+      if (!retryable || attempt >= maxRetries) {
+        const text = await res.text();
+        console.error(`Klaviyo API error (${res.status}):`, text);
+        throw { status: res.status, body: text } satisfies KlaviyoApiError;
+      }
+      console.warn(`Klaviyo ${res.status}, retry ${attempt + 1}/${maxRetries}`);
+      await sleep(retryDelay(res, attempt));
+      attempt++;
+    }
+  }
+
+  return {
+    get: <T>(path: string) => request<T>("GET", path),
+    post: <T>(path: string, body: unknown) => request<T>("POST", path, body)
+  };
+}
+
+export type KlaviyoClient = ReturnType<typeof createKlaviyoClient>;
+
+type MetricListResponse = {
+  data: { id: string; attributes: { name: string } }[];
+  links?: { next?: string | null };
+};
+
+export type KlaviyoMetric = { id: string; name: string };
+
+/** Every metric in the account, following pagination links. */
+export async function listKlaviyoMetrics(client: KlaviyoClient): Promise<KlaviyoMetric[]> {
+  const metrics: KlaviyoMetric[] = [];
+  let next: string | null | undefined = "/metrics/";
+  while (next) {
+    const page: MetricListResponse = await client.get<MetricListResponse>(next);
+    for (const metric of page.data) metrics.push({ id: metric.id, name: metric.attributes.name });
+    next = page.links?.next;
+  }
+  return metrics;
+}
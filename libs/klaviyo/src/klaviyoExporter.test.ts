@@ -0,0 +1,239 @@
+import { describe, expect, it, vi } from "vitest";
+import { welcomeSeriesFixture, type FlowSpec } from "@flow/core";
+import { buildKlaviyoFlowDefinition, exportFlowToKlaviyo } from "./klaviyoExporter.js";
+
+function okResponse(data: unknown): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+const METRICS = [
+  { id: "M_SUB", attributes: { name: "Subscribed to List" } },
+  { id: "M_ORDER", attributes: { name: "Placed Order" } }
+];
+
+function withEmailContent(spec: FlowSpec): FlowSpec {
+  return {
+    ...spec,
+    nodes: spec.nodes.map((n) =>
+      n.id === "email_welcome" && n.type === "message"
+        ? { ...n, emailContent: { subjectLine: "Welcome!", previewText: "Glad you're here", senderName: "Brand", bodyHtml: "<p>Hi</p>" } }
+        : n
+    )
+  };
+}
+
+describe("buildKlaviyoFlowDefinition", () => {
+  it("maps trigger, waits, split and messages to Klaviyo actions", () => {
+    const { definition, metricNames } = buildKlaviyoFlowDefinition(welcomeSeriesFixture);
+
+    expect(definition.triggers).toEqual([{ type: "metric", id: "metric:Subscribed to List", trigger_filter: null }]);
+    expect(definition.entry_action_id).toBe("email_welcome");
+    expect(metricNames).toEqual(expect.arrayContaining(["Subscribed to List", "Placed Order"]));
+
+    const split = definition.actions.find((a) => a.temporary_id === "split_purchased");
+    expect(split).toMatchObject({
+      type: "conditional-split",
+      links: { next_if_true: "email_yes_thankyou", next_if_false: "email_no_social_proof" }
+    });
+
+    const wait = definition.actions.find((a) => a.temporary_id === "wait_1");
+    expect(wait).toMatchObject({ type: "time-delay", data: { unit: "days", value: 1 }, links: { next: "email_brand_story" } });
+
+    const sms = definition.actions.find((a) => a.temporary_id === "sms_yes_referral");
+    expect(sms).toMatchObject({ type: "send-sms", links: { next: null } });
+  });
+
+  it("links split branches whose edge labels differ in case", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      edges: welcomeSeriesFixture.edges.map((e) => (e.label ? { ...e, label: e.label.toLowerCase() } : e))
+    };
+    const split = buildKlaviyoFlowDefinition(spec).definition.actions.find((a) => a.temporary_id === "split_purchased");
+    expect(split?.links).toEqual({ next_if_true: "email_yes_thankyou", next_if_false: "email_no_social_proof" });
+  });
+
+  it("exports a wait-for-event as its timeout followed by a split on the event", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      nodes: welcomeSeriesFixture.nodes
+        .filter((n) => n.id !== "split_purchased")
+        .map((n) => n.id === "wait_2"
+          ? { id: n.id, type: "wait", until: { kind: "event", metric: "Placed Order", timeout: { value: 3, unit: "days" }, labels: ["yes", "no"] } }
+          : n),
+      edges: welcomeSeriesFixture.edges
+        .filter((e) => e.id !== "e5")
+        .map((e) => (e.from === "split_purchased" ? { ...e, from: "wait_2" } : e))
+    };
+    const { definition, warnings } = buildKlaviyoFlowDefinition(spec);
+
+    expect(definition.actions.find((a) => a.temporary_id === "wait_2")).toMatchObject({
+      type: "time-delay",
+      data: { unit: "days", value: 3 },
+      links: { next: "wait_2_check" }
+    });
+    expect(definition.actions.find((a) => a.temporary_id === "wait_2_check")).toMatchObject({
+      type: "conditional-split",
+      links: { next_if_true: "email_yes_thankyou", next_if_false: "email_no_social_proof" },
+      data: { profile_filter: { condition_groups: [{ conditions: [{ metric_id: "metric:Placed Order", measurement_filter: { operator: "greater-than", value: 0 } }] }] } }
+    });
+    expect(warnings.some((w) => w.includes("waits the full 3 days"))).toBe(true);
+  });
+
+  it("exports an A/B split as a conditional split to finish in Klaviyo", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      nodes: welcomeSeriesFixture.nodes.map((n) =>
+        n.id === "split_purchased"
+          ? { id: n.id, type: "abSplit", title: "Offer test", variants: [{ label: "yes", weight: 50 }, { label: "no", weight: 50 }] }
+          : n
+      )
+    };
+    const { definition, warnings } = buildKlaviyoFlowDefinition(spec);
+
+    expect(definition.actions.find((a) => a.temporary_id === "split_purchased")).toMatchObject({
+      type: "conditional-split",
+      links: { next_if_true: "email_yes_thankyou", next_if_false: "email_no_social_proof" },
+      data: { profile_filter: null }
+    });
+    expect(warnings).toContain('A/B split "Offer test" (yes 50% / no 50%) has no Klaviyo equivalent; exported as a conditional split to configure manually.');
+  });
+
+  it("carries smart sending, UTM and email content into the message", () => {
+    const { definition, templates } = buildKlaviyoFlowDefinition(withEmailContent(welcomeSeriesFixture), {
+      templateIds: { email_welcome: "T1" }
+    });
+    const email = definition.actions.find((a) => a.temporary_id === "email_welcome");
+    expect(email?.type).toBe("send-email");
+    if (email?.type !== "send-email") return;
+    expect(email.data.message).toMatchObject({
+      subject_line: "Welcome!",
+      preview_text: "Glad you're here",
+      from_label: "Brand",
+      template_id: "T1",
+      smart_sending_enabled: false,
+      add_tracking_params: true
+    });
+    expect(templates).toEqual([{ actionId: "email_welcome", name: "Welcome Series — Welcome to the Brand!", html: "<p>Hi</p>" }]);
+  });
+
+  it("warns about conditions it cannot map", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      nodes: welcomeSeriesFixture.nodes.map((n) =>
+        n.type === "split" ? { ...n, condition: "Lives in a cold climate" } : n
+      )
+    };
+    const { definition, warnings } = buildKlaviyoFlowDefinition(spec);
+    const split = definition.actions.find((a) => a.type === "conditional-split");
+    expect(split?.type === "conditional-split" && split.data.profile_filter).toBeNull();
+    expect(warnings.some((w) => w.includes("Lives in a cold climate"))).toBe(true);
+  });
+
+  it("maps structured rules to condition groups", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      nodes: welcomeSeriesFixture.nodes.map((n) =>
+        n.type === "split"
+          ? {
+              ...n,
+              rule: {
+                kind: "group",
+                combinator: "and",
+                conditions: [
+                  { kind: "metric", metric: "Placed Order", operator: "greater-than-or-equal", count: 2, window: { type: "in-the-last", value: 30, unit: "days" } },
+                  {
+                    kind: "group",
+                    combinator: "or",
+                    conditions: [
+                      { kind: "property", property: "Country", operator: "equals", value: "US" },
+                      { kind: "property", property: "VIP", operator: "not-equals", value: false }
+                    ]
+                  }
+                ]
+              }
+            }
+          : n
+      )
+    };
+
+    const { definition, warnings } = buildKlaviyoFlowDefinition(spec, { metricIds: { "Placed Order": "M_ORDER" } });
+    const split = definition.actions.find((a) => a.temporary_id === "split_purchased");
+    expect(split?.type === "conditional-split" && split.data.profile_filter).toEqual({
+      condition_groups: [
+        {
+          conditions: [
+            {
+              type: "profile-metric",
+              metric_id: "M_ORDER",
+              measurement: "count",
+              measurement_filter: { type: "numeric", operator: "greater-than-or-equal", value: 2 },
+              timeframe_filter: { type: "date", operator: "in-the-last", unit: "day", quantity: 30 },
+              metric_filters: null
+            }
+          ]
+        },
+        {
+          conditions: [
+            { type: "profile-property", property: "Country", filter: { type: "string", operator: "equals", value: "US" } },
+            { type: "profile-property", property: "VIP", filter: { type: "boolean", operator: "equals", value: true } }
+          ]
+        }
+      ]
+    });
+    expect(warnings.some((w) => w.includes("Split"))).toBe(false);
+  });
+});
+
+describe("exportFlowToKlaviyo", () => {
+  it("resolves metrics, uploads templates, then creates the flow", async () => {
+    const fetchMock = vi.fn(async (input: string, init?: RequestInit) => {
+      if (input.includes("/metrics/")) return okResponse({ data: METRICS, links: { next: null } });
+      if (input.endsWith("/templates/")) return okResponse({ data: { id: "TPL_1" } });
+      if (input.endsWith("/flows/")) return okResponse({ data: { id: "FLOW_1", body: init?.body } });
+      return new Response("not found", { status: 404 });
+    });
+
+    const result = await exportFlowToKlaviyo({
+      apiKey: "pk_test",
+      flowSpec: withEmailContent(welcomeSeriesFixture),
+      fetchImpl: fetchMock
+    });
+
+    expect(result.flowId).toBe("FLOW_1");
+    expect(result.templateIds).toEqual({ email_welcome: "TPL_1" });
+    expect(result.definition.triggers[0]).toMatchObject({ id: "M_SUB" });
+
+    const flowCall = fetchMock.mock.calls.find(([url]) => String(url).endsWith("/flows/"));
+    const headers = flowCall?.[1]?.headers as Record<string, string>;
+    expect(headers.Authorization).toBe("Klaviyo-API-Key pk_test");
+    const body = JSON.parse(String(flowCall?.[1]?.body));
+    expect(body.data.attributes.definition.actions.find((a: { temporary_id: string }) => a.temporary_id === "email_welcome").data.message.template_id).toBe("TPL_1");
+  });
+
+  it("fails before creating anything when a metric is missing", async () => {
+    const fetchMock = vi.fn(async () => okResponse({ data: [METRICS[0]] }));
+    await expect(
+      exportFlowToKlaviyo({ apiKey: "pk_test", flowSpec: welcomeSeriesFixture, fetchImpl: fetchMock })
+    ).rejects.toThrow(/Placed Order/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries on rate limit responses", async () => {
+    let attempt = 0;
+    const fetchMock = vi.fn(async (input: string) => {
+      if (input.includes("/metrics/") && attempt === 0) {
+        attempt += 1;
+        return new Response("rate limited", { status: 429, headers: { "retry-after": "0" } });
+      }
+      if (input.includes("/metrics/")) return okResponse({ data: METRICS });
+      return okResponse({ data: { id: "FLOW_2" } });
+    });
+
+    const result = await exportFlowToKlaviyo({ apiKey: "pk_test", flowSpec: welcomeSeriesFixture, fetchImpl: fetchMock });
+    expect(result.flowId).toBe("FLOW_2");
+    expect(fetchMock.mock.calls.filter(([url]) => String(url).includes("/metrics/"))).toHaveLength(2);
+  });
+});
@@ -0,0 +1,469 @@
+import { branchLabelKey, describeAbSplit, describeCondition, describeWait, formatDelay, type ConditionWindow, type FlowCondition, type FlowSpec, type PropertyCondition } from "@flow/core";
+import { createKlaviyoClient, listKlaviyoMetrics, type FetchLike } from "./klaviyoClient.js";
+import type {
+  KlaviyoAction,
+  KlaviyoCondition,
+  KlaviyoFlowDefinition,
+  KlaviyoProfileFilter,
+  KlaviyoPropertyFilter,
+  KlaviyoTemplatePayload,
+  KlaviyoTimeframeFilter
+} from "./klaviyoTypes.js";
+
+type SpecNode = FlowSpec["nodes"][number];
+
+export type BuildKlaviyoFlowOptions = {
+  /** Klaviyo metric ids keyed by metric name, e.g. `{ "Placed Order": "XyZ12a" }`. */
+  metricIds?: Record<string, string>;
+  /** Uploaded template ids keyed by message node id. */
+  templateIds?: Record<string, string>;
+};
+
+export type KlaviyoFlowDraft = {
+  name: string;
+  definition: KlaviyoFlowDefinition;
+  templates: KlaviyoTemplatePayload[];
+  /** Every metric name the definition refers to. */
+  metricNames: string[];
+  /** Parts of the flow that could not be mapped and need attention in Klaviyo. */
+  warnings: string[];
+};
+
+export type ExportFlowToKlaviyoOptions = {
+  apiKey: string;
+  flowSpec: FlowSpec;
+  fetchImpl?: FetchLike;
+  maxRetries?: number;
+  baseUrl?: string;
+};
+
+export type ExportFlowToKlaviyoResult = {
+  flowId: string;
+  templateIds: Record<string, string>;
+  metricIds: Record<string, string>;
+  definition: KlaviyoFlowDefinition;
+  warnings: string[];
+};
+
+const SIDE_TYPES = new Set(["note", "strategy"]);
+
+/* Klaviyo's built-in metric names for the trigger events our flows use. */
+const METRIC_PATTERNS: { pattern: RegExp; metric: string }[] = [
+  { pattern: /started checkout|checkout/i, metric: "Started Checkout" },
+  { pattern: /added to cart|add to cart|cart/i, metric: "Added to Cart" },
+  { pattern: /viewed product|browse|product view/i, metric: "Viewed Product" },
+  { pattern: /active on site|site visit|visited/i, metric: "Active on Site" },
+  { pattern: /fulfilled/i, metric: "Fulfilled Order" },
+  { pattern: /placed (an )?order|purchas|bought|order/i, metric: "Placed Order" },
+  { pattern: /opened/i, metric: "Opened Email" },
+  { pattern: /clicked/i, metric: "Clicked Email" },
+  { pattern: /subscribe|sign ?up|joined/i, metric: "Subscribed to List" }
+];
+
+const NEGATION = /\b(has not|hasn't|have not|did not|didn't|not|no|never)\b/i;
+
+/* ── helpers ── */
+
+export function metricNameForEvent(event: string): string {
+  return METRIC_PATTERNS.find((p) => p.pattern.test(event))?.metric ?? event.trim();
+}
+
+function conditionFromText(text: string, metricRef: (name: string) => string): KlaviyoCondition | null {
+  const match = METRIC_PATTERNS.find((p) => p.pattern.test(text));
+  if (!match) return null;
+  const negated = NEGATION.test(text);
+  return {
+    type: "profile-metric",
+    metric_id: metricRef(match.metric),
+    measurement: "count",
+    measurement_filter: negated
+      ? { type: "numeric", operator: "equals", value: 0 }
+      : { type: "numeric", operator: "greater-than", value: 0 },
+    timeframe_filter: { type: "date", operator: "flow-start" },
+    metric_filters: null
+  };
+}
+
+const WINDOW_UNITS = { hours: "hour", days: "day", weeks: "week" } as const;
+
+function timeframeFilter(window: ConditionWindow): KlaviyoTimeframeFilter {
+  if (window.type === "flow-start") return { type: "date", operator: "flow-start" };
+  if (window.type === "in-the-last") return { type: "date", operator: "in-the-last", unit: WINDOW_UNITS[window.unit], quantity: window.value };
+  return { type: "date", operator: "alltime" };
+}
+
+function propertyFilter(rule: PropertyCondition): KlaviyoPropertyFilter | null {
+  const { operator, value } = rule;
+  if (operator === "is-set" || operator === "is-not-set") return { type: "existence", operator };
+  if (typeof value === "boolean") {
+    if (operator === "equals") return { type: "boolean", operator: "equals", value };
+    if (operator === "not-equals") return { type: "boolean", operator: "equals", value: !value };
+    return null;
+  }
+  if (typeof value === "number") {
+    if (operator === "contains" || operator === "not-contains") return null;
+    return { type: "numeric", operator, value };
+  }
+  if (operator === "equals" || operator === "not-equals" || operator === "contains" || operator === "not-contains") {
+    return { type: "string", operator, value: String(value ?? "") };
+  }
+  return null;
+}
+
+function conditionFromRule(rule: FlowCondition, metricRef: (name: string) => string): KlaviyoCondition | null {
+  if (rule.kind === "metric") {
+    return {
+      type: "profile-metric",
+      metric_id: metricRef(rule.metric),
+      measurement: "count",
+      measurement_filter: { type: "numeric", operator: rule.operator, value: rule.count },
+      timeframe_filter: timeframeFilter(rule.window),
+      metric_filters: null
+    };
+  }
+  if (rule.kind === "property") {
+    const filter = propertyFilter(rule);
+    return filter ? { type: "profile-property", property: rule.property, filter } : null;
+  }
+  return null;
+}
+
+/* Leaves of an OR (nested ORs and single-child groups flattened); null if an AND with several children is inside. */
+function orLeaves(rule: FlowCondition): FlowCondition[] | null {
+  if (rule.kind !== "group") return [rule];
+  if (rule.combinator === "and" && rule.conditions.length > 1) return null;
+  const leaves: FlowCondition[] = [];
+  for (const child of rule.conditions) {
+    const childLeaves = orLeaves(child);
+    if (!childLeaves) return null;
+    leaves.push(...childLeaves);
+  }
+  return leaves;
+}
+
+/**
+ * Klaviyo ANDs condition groups and ORs the conditions inside each group, so a
+ * rule maps when it is an AND of ORs of single conditions. Returns null otherwise.
+ */
+function conditionGroupsFromRule(
+  rule: FlowCondition,
+  metricRef: (name: string) => string
+): KlaviyoProfileFilter["condition_groups"] | null {
+  if (rule.kind === "group" && rule.combinator === "and" && rule.conditions.length > 1) {
+    const groups: KlaviyoProfileFilter["condition_groups"] = [];
+    for (const child of rule.conditions) {
+      const childGroups = conditionGroupsFromRule(child, metricRef);
+      if (!childGroups) return null;
+      groups.push(...childGroups);
+    }
+    return groups;
+  }
+
+  const leaves = orLeaves(rule);
+  if (!leaves) return null;
+  const conditions: KlaviyoCondition[] = [];
+  for (const leaf of leaves) {
+    const condition = conditionFromRule(leaf, metricRef);
+    if (!condition) return null;
+    conditions.push(condition);
+  }
+  return [{ conditions }];
+}
+
+function branchEdge(edges: FlowSpec["edges"], label: string) {
+  return edges.find((e) => branchLabelKey(e.label) === branchLabelKey(label));
+}
+
+/* ── definition builder ── */
+
+/**
+ * Convert a FlowSpec into a Klaviyo flow definition without touching the network.
+ * Metrics and templates that have no id yet are emitted as placeholders and listed
+ * in `metricNames` / `templates` so the caller can resolve them first.
+ */
+export function buildKlaviyoFlowDefinition(
+  flowSpec: FlowSpec,
+  options: BuildKlaviyoFlowOptions = {}
+): KlaviyoFlowDraft {
+  const warnings: string[] = [];
+  const metricNames = new Set<string>();
+  const templates: KlaviyoTemplatePayload[] = [];
+
+  function metricRef(name: string): string {
+    metricNames.add(name);
+    return options.metricIds?.[name] ?? `metric:${name}`;
+  }
+
+  const nodeMap = new Map(flowSpec.nodes.map((n) => [n.id, n]));
+  const mainEdges = flowSpec.edges.filter((e) => !SIDE_TYPES.has(nodeMap.get(e.from)?.type ?? ""));
+  const outEdges = new Map<string, FlowSpec["edges"]>();
+  for (const edge of mainEdges) {
+    if (!outEdges.has(edge.from)) outEdges.set(edge.from, []);
+    outEdges.get(edge.from)!.push(edge);
+  }
+
+  /* Outcomes end the path; merges are collapsed onto whatever follows them. */
+  function resolveTarget(nodeId: string | undefined, seen = new Set<string>()): string | null {
+    if (!nodeId || seen.has(nodeId)) return null;
+    const node = nodeMap.get(nodeId);
+    if (!node || node.type === "outcome") return null;
+    if (node.type === "merge") {
+      seen.add(nodeId);
+      return resolveTarget(outEdges.get(nodeId)?.[0]?.to, seen);
+    }
+    return nodeId;
+  }
+
+  function nextOf(nodeId: string): string | null {
+    return resolveTarget(outEdges.get(nodeId)?.[0]?.to);
+  }
+
+  function filterFromTexts(texts: string[], context: string): KlaviyoProfileFilter | null {
+    const groups: KlaviyoProfileFilter["condition_groups"] = [];
+    for (const text of texts) {
+      const condition = conditionFromText(text, metricRef);
+      if (condition) groups.push({ conditions: [condition] });
+      else warnings.push(`${context}: could not map "${text}" to a Klaviyo condition; configure it manually.`);
+    }
+    return groups.length > 0 ? { condition_groups: groups } : null;
+  }
+
+  /* Structured rules map exactly; legacy text goes through the keyword heuristics. */
+  function filterFromNode(node: Extract<SpecNode, { type: "split" | "profileFilter" }>, context: string): KlaviyoProfileFilter | null {
+    if (node.rule) {
+      const groups = conditionGroupsFromRule(node.rule, metricRef);
+      if (groups) return { condition_groups: groups };
+      warnings.push(`${context}: rule "${describeCondition(node.rule)}" has no Klaviyo equivalent; mapped from its text instead.`);
+    }
+    return filterFromTexts(node.type === "split" ? [node.condition] : node.filters, context);
+  }
+
+  const triggers = flowSpec.nodes.filter((n): n is Extract<SpecNode, { type: "trigger" }> => n.type === "trigger");
+  const trigger = triggers[0];
+  if (!trigger) {
+    warnings.push("Flow has no trigger node; Klaviyo flows need a trigger.");
+  }
+
+  let entryActionId = trigger ? nextOf(trigger.id) : null;
+  let flowFilter: KlaviyoProfileFilter | null = null;
+
+  /* A filter sitting directly after the trigger becomes the flow filter. */
+  const entryNode = entryActionId ? nodeMap.get(entryActionId) : undefined;
+  if (entryNode?.type === "profileFilter") {
+    flowFilter = filterFromNode(entryNode, `Flow filter "${entryNode.title}"`);
+    entryActionId = nextOf(entryNode.id);
+  }
+
+  const actions: KlaviyoAction[] = [];
+  for (const node of flowSpec.nodes) {
+    if (node.type === "trigger" || node.type === "outcome" || node.type === "merge" || SIDE_TYPES.has(node.type)) continue;
+    if (node === entryNode && node.type === "profileFilter") continue;
+
+    switch (node.type) {
+      case "wait": {
+        if (!node.until) {
+          actions.push({
+            temporary_id: node.id,
+            type: "time-delay",
+            links: { next: nextOf(node.id) },
+            data: { unit: node.duration.unit, value: node.duration.value }
+          });
+          break;
+        }
+        const until = node.until;
+        if (until.kind === "time-of-day" || until.kind === "weekday") {
+          const timezone = until.timezone === "account" ? "company" : "profile";
+          actions.push({
+            temporary_id: node.id,
+            type: "time-delay",
+            links: { next: nextOf(node.id) },
+            data: {
+              unit: "days",
+              value: 0,
+              ...(until.time ? { delay_until_time: until.time } : {}),
+              ...(until.kind === "weekday" ? { delay_until_weekdays: until.days } : {}),
+              timezone
+            }
+          });
+          break;
+        }
+        if (until.kind === "date-property") {
+          const { value, unit } = flowSpec.defaults.delay;
+          warnings.push(`${describeWait(node)}: Klaviyo only waits on a date property in date-triggered flows; exported as a ${formatDelay(value, unit)} delay.`);
+          actions.push({ temporary_id: node.id, type: "time-delay", links: { next: nextOf(node.id) }, data: { unit, value } });
+          break;
+        }
+
+        /* Klaviyo cannot end a delay early, so the event wait becomes its full timeout followed by a split */
+        const edges = outEdges.get(node.id) ?? [];
+        const eventEdge = branchEdge(edges, until.labels[0]);
+        const timeoutEdge = branchEdge(edges, until.labels[1]);
+        const checkId = `${node.id}_check`;
+        const eventRule: FlowCondition = { kind: "metric", metric: until.metric, operator: "greater-than", count: 0, window: { type: "flow-start" } };
+        warnings.push(`${describeWait(node)}: Klaviyo waits the full ${formatDelay(until.timeout.value, until.timeout.unit)} before checking for ${until.metric}.`);
+        actions.push({
+          temporary_id: node.id,
+          type: "time-delay",
+          links: { next: checkId },
+          data: { unit: until.timeout.unit, value: until.timeout.value }
+        });
+        actions.push({
+          temporary_id: checkId,
+          type: "conditional-split",
+          links: { next_if_true: resolveTarget(eventEdge?.to), next_if_false: resolveTarget(timeoutEdge?.to) },
+          data: { profile_filter: { condition_groups: [{ conditions: [conditionFromRule(eventRule, metricRef)!] }] } }
+        });
+        break;
+      }
+
+      case "split": {
+        const labels = node.labels;
+        const edges = outEdges.get(node.id) ?? [];
+        const yesEdge = branchEdge(edges, labels[0]);
+        const noEdge = branchEdge(edges, labels[1]);
+        if (labels.length > 2) {
+          warnings.push(`Split "${node.title}" has ${labels.length} branches; Klaviyo conditional splits only keep "${labels[0]}" and "${labels[1]}".`);
+        }
+        actions.push({
+          temporary_id: node.id,
+          type: "conditional-split",
+          links: { next_if_true: resolveTarget(yesEdge?.to), next_if_false: resolveTarget(noEdge?.to) },
+          data: { profile_filter: filterFromNode(node, `Split "${node.title}"`) }
+        });
+        break;
+      }
+
+      case "abSplit": {
+        /* Klaviyo flows have no random split action; keep the branches and leave the sampling to be set up by hand */
+        const [first, second] = node.variants;
+        const edges = outEdges.get(node.id) ?? [];
+        const firstEdge = branchEdge(edges, first.label);
+        const secondEdge = branchEdge(edges, second.label);
+        warnings.push(`A/B split "${node.title}" (${describeAbSplit(node)}) has no Klaviyo equivalent; exported as a conditional split to configure manually.`);
+        if (node.variants.length > 2) {
+          warnings.push(`A/B split "${node.title}" has ${node.variants.length} variants; only "${first.label}" and "${second.label}" were kept.`);
+        }
+        actions.push({
+          temporary_id: node.id,
+          type: "conditional-split",
+          links: { next_if_true: resolveTarget(firstEdge?.to), next_if_false: resolveTarget(secondEdge?.to) },
+          data: { profile_filter: null }
+        });
+        break;
+      }
+
+      case "profileFilter":
+        actions.push({
+          temporary_id: node.id,
+          type: "conditional-split",
+          links: { next_if_true: nextOf(node.id), next_if_false: null },
+          data: { profile_filter: filterFromNode(node, `Filter "${node.title}"`) }
+        });
+        break;
+
+      case "message": {
+        if (node.channel === "sms") {
+          actions.push({
+            temporary_id: node.id,
+            type: "send-sms",
+            links: { next: nextOf(node.id) },
+            data: {
+              status: "draft",
+              message: {
+                name: node.title,
+                body: node.copyHint ?? node.title,
+                smart_sending_enabled: node.smartSending ?? false,
+                add_tracking_params: node.utmLinks !== false
+              }
+            }
+          });
+          break;
+        }
+
+        const content = node.emailContent;
+        if (content?.bodyHtml) {
+          templates.push({ actionId: node.id, name: `${flowSpec.name} — ${node.title}`, html: content.bodyHtml });
+        } else {
+          warnings.push(`Email "${node.title}" has no body HTML; design its template in Klaviyo.`);
+        }
+        actions.push({
+          temporary_id: node.id,
+          type: "send-email",
+          links: { next: nextOf(node.id) },
+          data: {
+            status: "draft",
+            message: {
+              name: node.title,
+              from_email: content?.senderEmail ?? null,
+              from_label: content?.senderName ?? null,
+              reply_to_email: content?.replyTo ?? null,
+              subject_line: content?.subjectLine ?? node.title,
+              preview_text: content?.previewText ?? "",
+              template_id: options.templateIds?.[node.id] ?? null,
+              smart_sending_enabled: node.smartSending ?? false,
+              transactional: false,
+              add_tracking_params: node.utmLinks !== false
+            }
+          }
+        });
+        break;
+      }
+    }
+  }
+
+  const definition: KlaviyoFlowDefinition = {
+    triggers: trigger ? [{ type: "metric", id: metricRef(metricNameForEvent(trigger.event)), trigger_filter: null }] : [],
+    profile_filter: flowFilter,
+    actions,
+    entry_action_id: entryActionId
+  };
+
+  return { name: flowSpec.name, definition, templates, metricNames: [...metricNames], warnings };
+}
+
+/* ── main export function ── */
+
+type CreatedResource = { data: { id: string } };
+
+export async function exportFlowToKlaviyo({
+  apiKey,
+  flowSpec,
+  fetchImpl = fetch,
+  maxRetries = 3,
+  baseUrl
+}: ExportFlowToKlaviyoOptions): Promise<ExportFlowToKlaviyoResult> {
+  const client = createKlaviyoClient({ apiKey, fetchImpl, maxRetries, baseUrl });
+  const draft = buildKlaviyoFlowDefinition(flowSpec);
+
+  /* 1. Resolve metric names to ids */
+  const metrics = await listKlaviyoMetrics(client);
+  const byName = new Map(metrics.map((m) => [m.name.toLowerCase(), m.id]));
+
+  const metricIds: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const name of draft.metricNames) {
+    const id = byName.get(name.toLowerCase());
+    if (id) metricIds[name] = id;
+    else missing.push(name);
+  }
+  if (missing.length > 0) {
+    throw new Error(`Klaviyo account has no metric named ${missing.map((m) => `"${m}"`).join(", ")}.`);
+  }
+
+  /* 2. Upload email templates */
+  const templateIds: Record<string, string> = {};
+  for (const tpl of draft.templates) {
+    const created = await client.post<CreatedResource>("/templates/", {
+      data: { type: "template", attributes: { name: tpl.name, editor_type: "CODE", html: tpl.html } }
+    });
+    templateIds[tpl.actionId] = created.data.id;
+  }
+
+  /* 3. Create the flow with resolved ids */
+  const { definition, warnings } = buildKlaviyoFlowDefinition(flowSpec, { metricIds, templateIds });
+  const flow = await client.post<CreatedResource>("/flows/", {
+    data: { type: "flow", attributes: { name: flowSpec.name, definition } }
+  });
+
+  return { flowId: flow.data.id, templateIds, metricIds, definition, warnings };
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from "vitest";
+import { validateFlowGraph, welcomeSeriesFixture, type FlowSpec } from "@flow/core";
+import { buildKlaviyoFlowDefinition } from "./klaviyoExporter.js";
+import { fetchKlaviyoFlow, importKlaviyoFlow } from "./klaviyoImporter.js";
+
+function okResponse(data: unknown): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+const abandonedCartDefinition = {
+  triggers: [{ type: "metric", id: "M_CHECKOUT" }],
+  profile_filter: {
+    condition_groups: [
+      {
+        conditions: [
+          {
+            type: "profile-metric",
+            metric_id: "M_ORDER",
+            measurement: "count",
+            measurement_filter: { type: "numeric", operator: "equals", value: 0 },
+            timeframe_filter: { type: "date", operator: "flow-start" }
+          }
+        ]
+      }
+    ]
+  },
+  entry_action_id: "101",
+  actions: [
+    { id: "101", type: "time-delay", links: { next: "102" }, data: { unit: "hours", value: 4 } },
+    {
+      id: "102",
+      type: "send-email",
+      links: { next: "103" },
+      data: {
+        status: "live",
+        message: { name: "Cart Reminder", subject_line: "You left something", from_label: "Acme", smart_sending_enabled: true }
+      }
+    },
+    { id: "103", type: "webhook", links: { next: "104" }, data: {} },
+    {
+      id: "104",
+      type: "conditional-split",
+      links: { next_if_true: "105", next_if_false: null },
+      data: {
+        profile_filter: {
+          condition_groups: [{ conditions: [{ type: "profile-property", property: "VIP", filter: { type: "existence", operator: "is-set" } }] }]
+        }
+      }
+    },
+    { id: "105", type: "send-sms", links: { next: null }, data: { message: { name: "VIP Nudge", body: "Your cart is waiting" } } }
+  ]
+};
+
+describe("importKlaviyoFlow", () => {
+  it("converts a definition into a valid, laid-out FlowSpec", () => {
+    const { flowSpec, warnings } = importKlaviyoFlow(
+      { name: "Abandoned Cart", definition: abandonedCartDefinition },
+      { metricNames: { M_CHECKOUT: "Started Checkout", M_ORDER: "Placed Order" } }
+    );
+
+    expect(flowSpec.id).toBe("abandoned_cart");
+    expect(flowSpec.channels).toEqual(["email", "sms"]);
+    expect(validateFlowGraph(flowSpec).valid).toBe(true);
+
+    const trigger = flowSpec.nodes.find((n) => n.type === "trigger");
+    expect(trigger && trigger.type === "trigger" && trigger.event).toBe("Started Checkout");
+
+    const filter = flowSpec.nodes.find((n) => n.type === "profileFilter");
+    expect(filter && filter.type === "profileFilter" && filter.filters).toEqual(["Has not Placed Order since starting this flow"]);
+    expect(filter && filter.type === "profileFilter" && filter.rule).toEqual({
+      kind: "metric",
+      metric: "Placed Order",
+      operator: "equals",
+      count: 0,
+      window: { type: "flow-start" }
+    });
+
+    const email = flowSpec.nodes.find((n) => n.id === "email_102");
+    expect(email).toMatchObject({
+      type: "message",
+      channel: "email",
+      title: "Cart Reminder",
+      status: "live",
+      smartSending: true,
+      emailContent: { subjectLine: "You left something", senderName: "Acme" }
+    });
+
+    /* the webhook is skipped: the email connects straight to the split */
+    expect(flowSpec.edges.some((e) => e.from === "email_102" && e.to === "split_104")).toBe(true);
+    expect(warnings.some((w) => w.includes("webhook"))).toBe(true);
+
+    expect(flowSpec.edges.filter((e) => e.from === "split_104").map((e) => e.label).sort()).toEqual(["No", "Yes"]);
+    expect(Object.keys(flowSpec.ui?.nodePositions ?? {})).toHaveLength(flowSpec.nodes.length);
+  });
+
+  it("round-trips an exported flow", () => {
+    const { definition } = buildKlaviyoFlowDefinition(welcomeSeriesFixture);
+    const { flowSpec } = importKlaviyoFlow({ name: "Welcome Series", definition });
+
+    const messageCount = (spec: typeof flowSpec) => spec.nodes.filter((n) => n.type === "message").length;
+    expect(messageCount(flowSpec)).toBe(messageCount(welcomeSeriesFixture));
+    expect(flowSpec.nodes.filter((n) => n.type === "split")).toHaveLength(1);
+    expect(validateFlowGraph(flowSpec).valid).toBe(true);
+  });
+
+  it("round-trips calendar waits", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      nodes: welcomeSeriesFixture.nodes.map((n) =>
+        n.id === "wait_1" ? { id: n.id, type: "wait", until: { kind: "weekday", days: ["tuesday", "thursday"], time: "10:00", timezone: "profile" } } : n
+      )
+    };
+    const { definition } = buildKlaviyoFlowDefinition(spec);
+    const { flowSpec, warnings } = importKlaviyoFlow({ name: "Welcome Series", definition });
+
+    expect(flowSpec.nodes.find((n) => n.id === "wait_wait_1")).toMatchObject({
+      until: { kind: "weekday", days: ["tuesday", "thursday"], time: "10:00", timezone: "profile" }
+    });
+    expect(warnings.some((w) => w.includes("wait_1"))).toBe(false);
+  });
+});
+
+describe("fetchKlaviyoFlow", () => {
+  it("pulls the definition and resolves metric names", async () => {
+    const fetchMock = vi.fn(async (input: string) => {
+      if (input.includes("/flows/FL1/")) {
+        return okResponse({ data: { id: "FL1", attributes: { name: "Abandoned Cart", definition: abandonedCartDefinition } } });
+      }
+      if (input.includes("/metrics/")) {
+        return okResponse({ data: [{ id: "M_CHECKOUT", attributes: { name: "Started Checkout" } }] });
+      }
+      return new Response("not found", { status: 404 });
+    });
+
+    const { flowSpec } = await fetchKlaviyoFlow({ apiKey: "pk_test", flowId: "FL1", fetchImpl: fetchMock });
+    expect(flowSpec.name).toBe("Abandoned Cart");
+    const trigger = flowSpec.nodes.find((n) => n.type === "trigger");
+    expect(trigger && trigger.type === "trigger" && trigger.event).toBe("Started Checkout");
+    expect(String(fetchMock.mock.calls[0][0])).toContain("additional-fields[flow]=definition");
+  });
+});
@@ -0,0 +1,395 @@
+import {
+  conditionComparisonSchema,
+  parseFlowSpec,
+  propertyOperatorSchema,
+  weekdaySchema,
+  type Channel,
+  type ConditionWindow,
+  type FlowCondition,
+  type FlowSpec,
+  type WaitUntil,
+  type Weekday
+} from "@flow/core";
+import { buildLayout } from "@flow/layout";
+import { createKlaviyoClient, listKlaviyoMetrics, type FetchLike } from "./klaviyoClient.js";
+
+type FlowNode = FlowSpec["nodes"][number];
+type FlowEdge = FlowSpec["edges"][number];
+
+/* Definitions come from files and other accounts, so read them loosely. */
+type RawAction = {
+  id?: string | number;
+  temporary_id?: string | number;
+  type?: string;
+  links?: { next?: string | number | null; next_if_true?: string | number | null; next_if_false?: string | number | null };
+  data?: Record<string, unknown>;
+};
+
+type RawTrigger = { type?: string; id?: string };
+
+type RawDefinition = {
+  triggers?: RawTrigger[];
+  profile_filter?: unknown;
+  actions?: RawAction[];
+  entry_action_id?: string | number | null;
+};
+
+export type ImportKlaviyoFlowOptions = {
+  /** Metric names keyed by Klaviyo metric id, used to label triggers and conditions. */
+  metricNames?: Record<string, string>;
+  /** Overrides the flow id derived from the flow name. */
+  flowId?: string;
+};
+
+export type ImportKlaviyoFlowResult = {
+  flowSpec: FlowSpec;
+  /** Klaviyo features that have no FlowSpec equivalent and were simplified. */
+  warnings: string[];
+};
+
+export type FetchKlaviyoFlowOptions = {
+  apiKey: string;
+  flowId: string;
+  fetchImpl?: FetchLike;
+  maxRetries?: number;
+  baseUrl?: string;
+};
+
+const DELAY_UNITS = new Set(["minutes", "hours", "days"]);
+
+/* ── helpers ── */
+
+function sanitizeId(input: string): string {
+  return input.toLowerCase().replace(/[^a-z0-9_-]+/g, "_").replace(/^_+|_+$/g, "") || "flow";
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+/* Accepts a bare definition, `{ name, definition }`, or a Flows API response body. */
+function unwrap(input: unknown): { name: string; definition: RawDefinition } {
+  const root = asRecord(input);
+  const data = asRecord(root.data);
+  const attributes = asRecord(data.attributes);
+  if (attributes.definition) {
+    return { name: asString(attributes.name) ?? "Imported Klaviyo Flow", definition: asRecord(attributes.definition) as RawDefinition };
+  }
+  if (root.definition) {
+    return { name: asString(root.name) ?? "Imported Klaviyo Flow", definition: asRecord(root.definition) as RawDefinition };
+  }
+  return { name: asString(root.name) ?? "Imported Klaviyo Flow", definition: root as RawDefinition };
+}
+
+function describeCondition(condition: unknown, metricName: (id: string) => string): string {
+  const c = asRecord(condition);
+  if (c.type === "profile-metric") {
+    const metric = metricName(String(c.metric_id ?? ""));
+    const filter = asRecord(c.measurement_filter);
+    const timeframe = asRecord(c.timeframe_filter);
+    const since = timeframe.operator === "flow-start" ? " since starting this flow"
+      : timeframe.operator === "in-the-last" ? ` in the last ${timeframe.quantity} ${timeframe.unit}(s)` : "";
+    if (filter.operator === "equals" && filter.value === 0) return `Has not ${metric}${since}`;
+    if (filter.operator === "greater-than" && filter.value === 0) return `Has ${metric} at least once${since}`;
+    return `${metric} count ${String(filter.operator ?? "matches")} ${String(filter.value ?? "")}${since}`.trim();
+  }
+  if (c.type === "profile-property") {
+    const filter = asRecord(c.filter);
+    if (filter.type === "existence") return `${String(c.property)} is set`;
+    return `${String(c.property)} ${String(filter.operator ?? "is")} ${String(filter.value ?? "")}`.trim();
+  }
+  if (c.type) return `${String(c.type)} condition`;
+  return "Unknown condition";
+}
+
+/* Condition groups are AND-ed; conditions inside a group are OR-ed. */
+function describeFilter(filter: unknown, metricName: (id: string) => string): string[] {
+  const groups = Array.isArray(asRecord(filter).condition_groups) ? (asRecord(filter).condition_groups as unknown[]) : [];
+  return groups
+    .map((group) => {
+      const conditions = Array.isArray(asRecord(group).conditions) ? (asRecord(group).conditions as unknown[]) : [];
+      return conditions.map((c) => describeCondition(c, metricName)).join(" OR ");
+    })
+    .filter(Boolean);
+}
+
+const WINDOW_UNITS: Record<string, "hours" | "days" | "weeks"> = { hour: "hours", day: "days", week: "weeks" };
+
+function ruleFromCondition(condition: unknown, metricName: (id: string) => string): FlowCondition | undefined {
+  const c = asRecord(condition);
+  if (c.type === "profile-metric") {
+    const filter = asRecord(c.measurement_filter);
+    const timeframe = asRecord(c.timeframe_filter);
+    const operator = conditionComparisonSchema.safeParse(filter.operator);
+    if (!operator.success || typeof filter.value !== "number" || c.metric_filters) return undefined;
+    let window: ConditionWindow;
+    if (timeframe.operator === "flow-start") window = { type: "flow-start" };
+    else if (timeframe.operator === "alltime" || !timeframe.operator) window = { type: "all-time" };
+    else if (timeframe.operator === "in-the-last" && WINDOW_UNITS[String(timeframe.unit)] && Number(timeframe.quantity) > 0) {
+      window = { type: "in-the-last", value: Number(timeframe.quantity), unit: WINDOW_UNITS[String(timeframe.unit)] };
+    } else return undefined;
+    return { kind: "metric", metric: metricName(String(c.metric_id ?? "")), operator: operator.data, count: filter.value, window };
+  }
+  if (c.type === "profile-property" && typeof c.property === "string") {
+    const filter = asRecord(c.filter);
+    const operator = propertyOperatorSchema.safeParse(filter.operator);
+    if (!operator.success) return undefined;
+    if (filter.type === "existence") return { kind: "property", property: c.property, operator: operator.data };
+    const value = filter.value;
+    if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") return undefined;
+    return { kind: "property", property: c.property, operator: operator.data, value };
+  }
+  return undefined;
+}
+
+/* Structured equivalent of a profile filter; undefined when any condition has no rule form. */
+function ruleFromFilter(filter: unknown, metricName: (id: string) => string): FlowCondition | undefined {
+  const groups = Array.isArray(asRecord(filter).condition_groups) ? (asRecord(filter).condition_groups as unknown[]) : [];
+  const andParts: FlowCondition[] = [];
+  for (const group of groups) {
+    const conditions = Array.isArray(asRecord(group).conditions) ? (asRecord(group).conditions as unknown[]) : [];
+    const orParts: FlowCondition[] = [];
+    for (const condition of conditions) {
+      const rule = ruleFromCondition(condition, metricName);
+      if (!rule) return undefined;
+      orParts.push(rule);
+    }
+    if (orParts.length === 1) andParts.push(orParts[0]);
+    else if (orParts.length > 1) andParts.push({ kind: "group", combinator: "or", conditions: orParts });
+  }
+  if (andParts.length === 0) return undefined;
+  return andParts.length === 1 ? andParts[0] : { kind: "group", combinator: "and", conditions: andParts };
+}
+
+/* ── converter ── */
+
+/**
+ * Convert a Klaviyo flow definition into a validated FlowSpec. Actions are walked
+ * from `entry_action_id`; every path that ends gets its own outcome node, and
+ * node positions come from the layout engine so the result opens cleanly in the editor.
+ */
+export function importKlaviyoFlow(input: unknown, options: ImportKlaviyoFlowOptions = {}): ImportKlaviyoFlowResult {
+  const { name, definition } = unwrap(input);
+  const warnings: string[] = [];
+  const metricName = (id: string) => options.metricNames?.[id] ?? `metric ${id}`;
+
+  const actions = Array.isArray(definition.actions) ? definition.actions : [];
+  const actionMap = new Map<string, RawAction>();
+  for (const action of actions) {
+    const key = action.id ?? action.temporary_id;
+    if (key !== undefined) actionMap.set(String(key), action);
+  }
+
+  const nodes: FlowNode[] = [];
+  const edges: FlowEdge[] = [];
+  const channels = new Set<Channel>();
+  const nodeIdFor = new Map<string, string>();
+  let edgeCount = 0;
+  let outcomeCount = 0;
+  let stepIndex = 0;
+
+  function connect(from: string, to: string, label?: string) {
+    edgeCount += 1;
+    edges.push(label ? { id: `e${edgeCount}`, from, to, label } : { id: `e${edgeCount}`, from, to });
+  }
+
+  function addOutcome(): string {
+    outcomeCount += 1;
+    const id = `outcome_${outcomeCount}`;
+    nodes.push({ id, type: "outcome", title: "End", result: "Flow complete" });
+    return id;
+  }
+
+  /* Returns the FlowSpec node id for an action, creating it (and its subtree) on first visit. */
+  function visit(actionId: string | number | null | undefined, seen: Set<string>): string {
+    if (actionId === null || actionId === undefined) return addOutcome();
+    const key = String(actionId);
+    const existing = nodeIdFor.get(key);
+    if (existing) return existing;
+
+    const action = actionMap.get(key);
+    if (!action || seen.has(key)) {
+      if (!action) warnings.push(`Action ${key} is referenced but missing from the definition.`);
+      return addOutcome();
+    }
+    seen.add(key);
+
+    const data = asRecord(action.data);
+    const links = action.links ?? {};
+
+    switch (action.type) {
+      case "send-email":
+      case "send-sms": {
+        const isSms = action.type === "send-sms";
+        const message = asRecord(data.message);
+        const id = `${isSms ? "sms" : "email"}_${sanitizeId(key)}`;
+        nodeIdFor.set(key, id);
+        channels.add(isSms ? "sms" : "email");
+        stepIndex += 1;
+        const title = asString(message.name) ?? asString(message.subject_line) ?? (isSms ? "SMS" : "Email");
+        nodes.push({
+          id,
+          type: "message",
+          channel: isSms ? "sms" : "email",
+          title,
+          stepIndex,
+          ...(isSms
+            ? { copyHint: asString(message.body) }
+            : {
+                emailContent: {
+                  subjectLine: asString(message.subject_line),
+                  previewText: asString(message.preview_text),
+                  senderName: asString(message.from_label),
+                  senderEmail: asString(message.from_email),
+                  replyTo: asString(message.reply_to_email)
+                }
+              }),
+          smartSending: message.smart_sending_enabled === true,
+          utmLinks: message.add_tracking_params !== false,
+          status: data.status === "live" ? "live" : data.status === "manual" ? "manual" : "draft"
+        });
+        connect(id, visit(links.next, seen));
+        return id;
+      }
+
+      case "time-delay": {
+        const id = `wait_${sanitizeId(key)}`;
+        nodeIdFor.set(key, id);
+
+        /* A zero-length delay that runs on to a time or weekday is a calendar wait */
+        const weekdays = Array.isArray(data.delay_until_weekdays)
+          ? data.delay_until_weekdays.filter((d): d is Weekday => weekdaySchema.safeParse(d).success)
+          : [];
+        const untilTime = typeof data.delay_until_time === "string" ? data.delay_until_time.slice(0, 5) : undefined;
+        if (Number(data.value ?? 0) === 0 && (weekdays.length > 0 || untilTime)) {
+          const timezone = data.timezone === "company" ? "account" : "profile";
+          const until: WaitUntil = weekdays.length > 0
+            ? { kind: "weekday", days: weekdays, ...(untilTime ? { time: untilTime } : {}), timezone }
+            : { kind: "time-of-day", time: untilTime!, timezone };
+          nodes.push({ id, type: "wait", until });
+          connect(id, visit(links.next, seen));
+          return id;
+        }
+
+        let unit = String(data.unit ?? "days");
+        let value = Number(data.value ?? 1);
+        if (unit === "weeks") {
+          unit = "days";
+          value *= 7;
+        }
+        if (!DELAY_UNITS.has(unit) || !Number.isInteger(value) || value <= 0) {
+          warnings.push(`Delay ${key} (${String(data.value)} ${String(data.unit)}) was converted to 1 day.`);
+          unit = "days";
+          value = 1;
+        }
+        if (data.delay_until_time || data.delay_until_weekdays) {
+          warnings.push(`Delay ${key} waits until a specific time or weekday; only the duration was imported.`);
+        }
+        nodes.push({ id, type: "wait", duration: { value, unit: unit as "minutes" | "hours" | "days" } });
+        connect(id, visit(links.next, seen));
+        return id;
+      }
+
+      case "conditional-split":
+      case "trigger-split": {
+        const id = `split_${sanitizeId(key)}`;
+        nodeIdFor.set(key, id);
+        const filter = data.profile_filter ?? data.trigger_filter;
+        const conditions = describeFilter(filter, metricName);
+        nodes.push({
+          id,
+          type: "split",
+          title: action.type === "trigger-split" ? "Trigger Split" : "Conditional Split",
+          condition: conditions.join(" AND ") || "Condition not specified",
+          rule: ruleFromFilter(filter, metricName),
+          labels: ["Yes", "No"]
+        });
+        connect(id, visit(links.next_if_true, seen), "Yes");
+        connect(id, visit(links.next_if_false, seen), "No");
+        return id;
+      }
+
+      default: {
+        /* Webhooks, profile updates, A/B tests etc. have no node type: skip over them. */
+        warnings.push(`Skipped unsupported Klaviyo action "${action.type ?? "unknown"}" (${key}).`);
+        const next = visit(links.next ?? links.next_if_true, seen);
+        nodeIdFor.set(key, next);
+        return next;
+      }
+    }
+  }
+
+  /* Trigger */
+  const rawTrigger = Array.isArray(definition.triggers) ? definition.triggers[0] : undefined;
+  let event = "Flow trigger";
+  if (rawTrigger?.type === "metric") event = metricName(String(rawTrigger.id ?? ""));
+  else if (rawTrigger?.type === "list") event = `Added to list ${rawTrigger.id ?? ""}`.trim();
+  else if (rawTrigger?.type === "segment") event = `Added to segment ${rawTrigger.id ?? ""}`.trim();
+  else if (rawTrigger?.type) event = `${rawTrigger.type} trigger`;
+  else warnings.push("Definition has no trigger; a placeholder trigger was added.");
+  if (Array.isArray(definition.triggers) && definition.triggers.length > 1) {
+    warnings.push(`Flow has ${definition.triggers.length} triggers; only the first was imported.`);
+  }
+
+  nodes.push({ id: "trigger", type: "trigger", title: "Trigger", event });
+  let previous = "trigger";
+
+  const flowFilters = describeFilter(definition.profile_filter, metricName);
+  if (flowFilters.length > 0) {
+    nodes.push({
+      id: "flow_filter",
+      type: "profileFilter",
+      title: "Flow Filter",
+      filters: flowFilters,
+      rule: ruleFromFilter(definition.profile_filter, metricName)
+    });
+    connect(previous, "flow_filter");
+    previous = "flow_filter";
+  }
+
+  connect(previous, visit(definition.entry_action_id, new Set()));
+
+  const draft = {
+    id: options.flowId ?? sanitizeId(name),
+    name,
+    source: { mode: "manual" as const },
+    channels: channels.size > 0 ? [...channels] : (["email"] as Channel[]),
+    nodes,
+    edges
+  };
+
+  const laidOut = buildLayout(parseFlowSpec(draft));
+  const nodePositions: Record<string, { x: number; y: number }> = {};
+  for (const node of laidOut.nodes) nodePositions[node.id] = { x: node.x, y: node.y };
+
+  return { flowSpec: parseFlowSpec({ ...draft, ui: { nodePositions } }), warnings };
+}
+
+/* ── API pull ── */
+
+type FlowResponse = {
+  data: { id: string; attributes: { name: string; definition?: unknown } };
+};
+
+/** Pull a flow (with its definition) from a Klaviyo account and convert it. */
+export async function fetchKlaviyoFlow({
+  apiKey,
+  flowId,
+  fetchImpl = fetch,
+  maxRetries = 3,
+  baseUrl
+}: FetchKlaviyoFlowOptions): Promise<ImportKlaviyoFlowResult> {
+  const client = createKlaviyoClient({ apiKey, fetchImpl, maxRetries, baseUrl });
+  const flow = await client.get<FlowResponse>(`/flows/${encodeURIComponent(flowId)}/?additional-fields[flow]=definition`);
+  if (!flow.data.attributes.definition) {
+    throw new Error(`Klaviyo flow "${flowId}" has no definition; the API key may lack flows:read access.`);
+  }
+
+  const metrics = await listKlaviyoMetrics(client);
+  const metricNames = Object.fromEntries(metrics.map((m) => [m.id, m.name]));
+  return importKlaviyoFlow(flow, { metricNames });
+}
@@ -0,0 +1,131 @@
+/* Subset of Klaviyo's flow definition format (Flows API, `definition` attribute)
+   covering the actions a FlowSpec can express. */
+
+export type KlaviyoMetricTrigger = {
+  type: "metric";
+  /** Klaviyo metric id. Unresolved metrics carry a `metric:<name>` placeholder. */
+  id: string;
+  trigger_filter: null;
+};
+
+export type KlaviyoListTrigger = {
+  type: "list";
+  id: string;
+};
+
+export type KlaviyoTrigger = KlaviyoMetricTrigger | KlaviyoListTrigger;
+
+export type KlaviyoNumericOperator =
+  | "equals"
+  | "not-equals"
+  | "greater-than"
+  | "greater-than-or-equal"
+  | "less-than"
+  | "less-than-or-equal";
+
+export type KlaviyoTimeframeFilter =
+  | { type: "date"; operator: "alltime" }
+  | { type: "date"; operator: "flow-start" }
+  | { type: "date"; operator: "in-the-last"; unit: "hour" | "day" | "week"; quantity: number };
+
+export type KlaviyoProfileMetricCondition = {
+  type: "profile-metric";
+  metric_id: string;
+  measurement: "count";
+  measurement_filter: { type: "numeric"; operator: KlaviyoNumericOperator; value: number };
+  timeframe_filter: KlaviyoTimeframeFilter;
+  metric_filters: null;
+};
+
+export type KlaviyoPropertyFilter =
+  | { type: "string"; operator: "equals" | "not-equals" | "contains" | "not-contains"; value: string }
+  | { type: "numeric"; operator: KlaviyoNumericOperator; value: number }
+  | { type: "boolean"; operator: "equals"; value: boolean }
+  | { type: "existence"; operator: "is-set" | "is-not-set" };
+
+export type KlaviyoProfilePropertyCondition = {
+  type: "profile-property";
+  property: string;
+  filter: KlaviyoPropertyFilter;
+};
+
+export type KlaviyoCondition = KlaviyoProfileMetricCondition | KlaviyoProfilePropertyCondition;
+
+export type KlaviyoProfileFilter = {
+  condition_groups: { conditions: KlaviyoCondition[] }[];
+};
+
+export type KlaviyoEmailMessage = {
+  name: string;
+  from_email: string | null;
+  from_label: string | null;
+  reply_to_email: string | null;
+  subject_line: string;
+  preview_text: string;
+  template_id: string | null;
+  smart_sending_enabled: boolean;
+  transactional: false;
+  add_tracking_params: boolean;
+};
+
+export type KlaviyoSmsMessage = {
+  name: string;
+  body: string;
+  smart_sending_enabled: boolean;
+  add_tracking_params: boolean;
+};
+
+export type KlaviyoSendEmailAction = {
+  temporary_id: string;
+  type: "send-email";
+  links: { next: string | null };
+  data: { status: "draft"; message: KlaviyoEmailMessage };
+};
+
+export type KlaviyoSendSmsAction = {
+  temporary_id: string;
+  type: "send-sms";
+  links: { next: string | null };
+  data: { status: "draft"; message: KlaviyoSmsMessage };
+};
+
+export type KlaviyoTimeDelayAction = {
+  temporary_id: string;
+  type: "time-delay";
+  links: { next: string | null };
+  data: {
+    unit: "minutes" | "hours" | "days";
+    value: number;
+    /** "HH:MM"; the delay then runs on to this time of day. */
+    delay_until_time?: string;
+    delay_until_weekdays?: string[];
+    timezone?: "profile" | "company";
+  };
+};
+
+export type KlaviyoConditionalSplitAction = {
+  temporary_id: string;
+  type: "conditional-split";
+  links: { next_if_true: string | null; next_if_false: string | null };
+  data: { profile_filter: KlaviyoProfileFilter | null };
+};
+
+export type KlaviyoAction =
+  | KlaviyoSendEmailAction
+  | KlaviyoSendSmsAction
+  | KlaviyoTimeDelayAction
+  | KlaviyoConditionalSplitAction;
+
+export type KlaviyoFlowDefinition = {
+  triggers: KlaviyoTrigger[];
+  profile_filter: KlaviyoProfileFilter | null;
+  actions: KlaviyoAction[];
+  entry_action_id: string | null;
+};
+
+/** HTML template to upload before the flow, referenced by a send-email action. */
+export type KlaviyoTemplatePayload = {
+  actionId: string;
+  name: string;
+  html: string;
+};
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { welcomeSeriesFixture } from "@flow/core";
+import { welcomeSeriesFixture, type FlowSpec } from "@flow/core";
 import { buildLayout } from "./buildLayout.js";
 
 function rectanglesOverlap(
@@ -35,6 +35,44 @@ describe("buildLayout", () => {
     expect(noNode!.x).toBeGreaterThan(splitNode!.x);
   });
 
+  it("lays out a wait-for-event like a split and makes it taller", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      nodes: welcomeSeriesFixture.nodes
+        .filter((node) => node.id !== "split_purchased")
+        .map((node) => node.id === "wait_2"
+          ? { id: node.id, type: "wait", until: { kind: "event", metric: "Placed Order", timeout: { value: 3, unit: "days" }, labels: ["Yes", "No"] } }
+          : node),
+      edges: welcomeSeriesFixture.edges
+        .filter((edge) => edge.id !== "e5")
+        .map((edge) => (edge.from === "split_purchased" ? { ...edge, from: "wait_2" } : edge))
+    };
+    const layout = buildLayout(spec);
+    const wait = layout.nodes.find((node) => node.id === "wait_2")!;
+    const yesNode = layout.nodes.find((node) => node.id === "email_yes_thankyou")!;
+    const noNode = layout.nodes.find((node) => node.id === "email_no_social_proof")!;
+
+    expect(wait.height).toBeGreaterThan(layout.nodes.find((node) => node.id === "wait_1")!.height);
+    expect(yesNode.x).toBeLessThan(wait.x);
+    expect(noNode.x).toBeGreaterThan(wait.x);
+  });
+
+  it("gives each A/B split variant its own lane, in variant order", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      nodes: welcomeSeriesFixture.nodes.map((node) =>
+        node.id === "split_purchased"
+          ? { id: node.id, type: "abSplit", title: "Offer test", variants: [{ label: "No", weight: 50 }, { label: "Yes", weight: 50 }] }
+          : node
+      )
+    };
+    const layout = buildLayout(spec);
+    const split = layout.nodes.find((node) => node.id === "split_purchased")!;
+
+    expect(layout.nodes.find((node) => node.id === "email_no_social_proof")!.x).toBeLessThan(split.x);
+    expect(layout.nodes.find((node) => node.id === "email_yes_thankyou")!.x).toBeGreaterThan(split.x);
+  });
+
   it("does not overlap node bounding boxes", () => {
     const layout = buildLayout(welcomeSeriesFixture);
     for (let i = 0; i < layout.nodes.length; i += 1) {
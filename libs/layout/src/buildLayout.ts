@@ -52,6 +52,7 @@ const NODE_SIZE_MAP: Record<FlowNode["type"], { width: number; height: number }>
   trigger: { width: 280, height: 94 },
   profileFilter: { width: 280, height: 100 },
   split: { width: 280, height: 100 },
+  abSplit: { width: 280, height: 100 },
   wait: { width: 280, height: 48 },
   message: { width: 280, height: 230 },
   outcome: { width: 72, height: 22 },
@@ -61,6 +62,8 @@ const NODE_SIZE_MAP: Record<FlowNode["type"], { width: number; height: number }>
 };
 
 const MSG_STRATEGY_EXTRA = 200;
+/* Calendar and event waits carry a second line (the date, weekday or event) */
+const WAIT_UNTIL_EXTRA = 20;
 const COLLISION_PAD_X = 32;
 const COLLISION_PASSES = 12;
 
@@ -72,14 +75,24 @@ function getNodeSize(
   if (node.type === "message" && node.strategy) {
     return { width: base.width, height: base.height + MSG_STRATEGY_EXTRA };
   }
+  if (node.type === "wait" && node.until) {
+    return { width: base.width, height: base.height + WAIT_UNTIL_EXTRA };
+  }
   return base;
 }
 
+/** Splits, A/B splits and wait-for-event nodes fan out into labeled branches. */
+function isBranching(node: FlowNode): boolean {
+  return node.type === "split" || node.type === "abSplit" || (node.type === "wait" && node.until?.kind === "event");
+}
+
 /**
- * Get the labels array from a split node safely — handles both
- * the old {yes,no} object format and the new string[] format.
+ * Get the branch labels of a split (A/B split variants, event wait branches) safely —
+ * handles both the old {yes,no} object format and the new string[] format.
  */
 function getSplitLabels(node: FlowNode): string[] {
+  if (node.type === "wait") return node.until?.kind === "event" ? [...node.until.labels] : [];
+  if (node.type === "abSplit") return node.variants.map(v => v.label);
   if (node.type !== "split") return [];
   const raw = (node as Record<string, unknown>).labels;
   if (Array.isArray(raw)) return raw.filter(l => typeof l === "string" && l.trim()) as string[];
@@ -244,7 +257,7 @@ export function buildLayout(
 
   for (const node of topoOrder) {
     const outgoing = outgoingByNode.get(node.id) ?? [];
-    const sorted = node.type === "split" && outgoing.length >= 2
+    const sorted = isBranching(node) && outgoing.length >= 2
       ? [...outgoing].sort((a, b) => branchIndex(node, a, outgoing) - branchIndex(node, b, outgoing))
       : outgoing;
     for (const edge of sorted) {
@@ -262,7 +275,7 @@ export function buildLayout(
     const children = treeChildren.get(node.id) ?? [];
     if (children.length === 0) {
       subtreeWidth.set(node.id, 1);
-    } else if (node.type === "split" && children.length >= 2) {
+    } else if (isBranching(node) && children.length >= 2) {
       subtreeWidth.set(node.id, children.reduce((sum, cid) => sum + (subtreeWidth.get(cid) ?? 1), 0));
     } else {
       subtreeWidth.set(node.id, Math.max(...children.map(cid => subtreeWidth.get(cid) ?? 1)));
@@ -297,7 +310,7 @@ export function buildLayout(
     const myLane = laneById.get(node.id)!;
     const children = treeChildren.get(node.id) ?? [];
 
-    if (node.type === "split" && children.length >= 2) {
+    if (isBranching(node) && children.length >= 2) {
       // Sort children by their branch label order
       const outgoing = outgoingByNode.get(node.id) ?? [];
       const sortedChildren = [...children].sort((a, b) => {
@@ -340,7 +353,7 @@ export function buildLayout(
         if (!parent) continue;
         const pY = nodeYMap.get(edge.from) ?? 0;
         const pSize = getNodeSize(parent, resolved.nodeSizeOverrides);
-        const gap = parent.type === "split" ? resolved.rowSpacing * 2.25 : resolved.rowSpacing;
+        const gap = isBranching(parent) ? resolved.rowSpacing * 2.25 : resolved.rowSpacing;
         maxY = Math.max(maxY, pY + pSize.height + gap);
       }
       nodeYMap.set(node.id, maxY);
@@ -1 +1,2 @@
 export * from "./buildLayout.js";
+export * from "./renderSvg.js";
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { welcomeSeriesFixture, type FlowSpec } from "@flow/core";
+import { buildLayout } from "./buildLayout.js";
+import { renderFlowSvg, renderLayoutSvg } from "./renderSvg.js";
+
+describe("renderLayoutSvg", () => {
+  it("draws one group per node and one path per routed edge", () => {
+    const layout = buildLayout(welcomeSeriesFixture);
+    const svg = renderLayoutSvg(layout, { spec: welcomeSeriesFixture });
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg.trimEnd().endsWith("</svg>")).toBe(true);
+    expect(svg.match(/data-node-id=/g)).toHaveLength(layout.nodes.length);
+    expect(svg.match(/marker-end="url\(#arrow\)"/g)).toHaveLength(layout.edges.length);
+    expect(svg).toContain(`<title>${welcomeSeriesFixture.name}</title>`);
+  });
+
+  it("is deterministic and sizes the viewBox to the content", () => {
+    const layout = buildLayout(welcomeSeriesFixture);
+    const svg = renderLayoutSvg(layout, { padding: 10 });
+    expect(renderLayoutSvg(layout, { padding: 10 })).toBe(svg);
+
+    const minX = Math.min(...layout.nodes.map((n) => n.x)) - 10;
+    const minY = Math.min(...layout.nodes.map((n) => n.y)) - 10;
+    expect(svg).toMatch(new RegExp(`viewBox="${minX} ${minY} `));
+  });
+
+  it("escapes user text", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      name: "Tom & Jerry's <flow>",
+      nodes: welcomeSeriesFixture.nodes.map((node) =>
+        node.type === "trigger" ? { ...node, title: "Signup & <Opt-in>" } : node
+      )
+    };
+    const svg = renderFlowSvg(spec, { background: "none" });
+
+    expect(svg).toContain("Tom &amp; Jerry&apos;s &lt;flow&gt;");
+    expect(svg).toContain("Signup &amp; &lt;Opt-in&gt;");
+    expect(svg).not.toContain("<Opt-in>");
+  });
+
+  it("labels A/B split edges with their variant percentages", () => {
+    const spec: FlowSpec = {
+      ...welcomeSeriesFixture,
+      nodes: welcomeSeriesFixture.nodes.map((node) =>
+        node.id === "split_purchased"
+          ? { id: node.id, type: "abSplit", title: "Offer test", variants: [{ label: "Yes", weight: 70 }, { label: "No", weight: 30 }] }
+          : node
+      )
+    };
+    const svg = renderFlowSvg(spec);
+
+    expect(svg).toContain("Yes 70% / No 30%");
+    expect(svg).toContain("Yes · 70%");
+    expect(svg).toContain("No · 30%");
+  });
+});
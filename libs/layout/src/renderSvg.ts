@@ -0,0 +1,173 @@
+import { abSplitEdgeLabel, describeAbSplit, describeNodeCondition, describeWait, type FlowNode, type FlowSpec } from "@flow/core";
+import { buildLayout, type LayoutResult, type PositionedNode } from "./buildLayout.js";
+
+export type SvgRenderOptions = {
+  /** Source spec, used for node subtitles (conditions, delays, channels). Titles only without it. */
+  spec?: FlowSpec;
+  /** Fill for the trigger node, e.g. the brand colour. */
+  accentColor?: string;
+  /** Canvas background; pass "none" for a transparent SVG. */
+  background?: string;
+  padding?: number;
+  fontFamily?: string;
+};
+
+type NodeStyle = { fill: string; stroke: string; text: string };
+
+const NODE_STYLES: Partial<Record<FlowNode["type"], NodeStyle>> = {
+  profileFilter: { fill: "#ede9fe", stroke: "#c4b5fd", text: "#3b0764" },
+  split: { fill: "#fef3c7", stroke: "#fcd34d", text: "#451a03" },
+  abSplit: { fill: "#ccfbf1", stroke: "#5eead4", text: "#042f2e" },
+  wait: { fill: "#f3f4f6", stroke: "#d1d5db", text: "#374151" },
+  outcome: { fill: "#e5e7eb", stroke: "#9ca3af", text: "#374151" },
+  merge: { fill: "#e5e7eb", stroke: "#9ca3af", text: "#374151" },
+  note: { fill: "#fef9c3", stroke: "#fde047", text: "#422006" },
+  strategy: { fill: "#fef9c3", stroke: "#fde047", text: "#422006" }
+};
+const EMAIL_STYLE: NodeStyle = { fill: "#dbeafe", stroke: "#93c5fd", text: "#172554" };
+const SMS_STYLE: NodeStyle = { fill: "#dcfce7", stroke: "#86efac", text: "#052e16" };
+const DEFAULT_STYLE: NodeStyle = { fill: "#ffffff", stroke: "#d1d5db", text: "#111827" };
+
+const TITLE_SIZE = 15;
+const SUBTITLE_SIZE = 12;
+/* Rough average glyph width for sans-serif text, used to wrap without measuring. */
+const CHAR_WIDTH = 0.55;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function wrap(text: string, width: number, fontSize: number, maxLines: number): string[] {
+  if (maxLines <= 0) return [];
+  const maxChars = Math.max(4, Math.floor(width / (fontSize * CHAR_WIDTH)));
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = word.length > maxChars ? `${word.slice(0, maxChars - 1)}…` : word;
+  }
+  if (line) lines.push(line);
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 1)}…`;
+  return kept;
+}
+
+function nodeSubtitle(node: FlowNode | undefined): string {
+  if (!node) return "";
+  switch (node.type) {
+    case "trigger": return node.event;
+    case "message": return node.emailContent?.subjectLine || node.channel.toUpperCase();
+    case "wait": return describeWait(node);
+    case "split":
+    case "profileFilter": return describeNodeCondition(node) ?? "";
+    case "abSplit": return describeAbSplit(node);
+    case "outcome": return node.result;
+    case "note": return node.body;
+    case "strategy": return node.primaryFocus;
+    default: return "";
+  }
+}
+
+function nodeStyle(node: PositionedNode, specNode: FlowNode | undefined, accent: string): NodeStyle {
+  if (node.type === "trigger") return { fill: accent, stroke: accent, text: "#ffffff" };
+  if (specNode?.type === "message") return specNode.channel === "sms" ? SMS_STYLE : EMAIL_STYLE;
+  return NODE_STYLES[node.type] ?? DEFAULT_STYLE;
+}
+
+function renderNode(node: PositionedNode, specNode: FlowNode | undefined, accent: string, font: string): string {
+  const style = nodeStyle(node, specNode, accent);
+  const radius = Math.min(10, node.height / 2);
+  const parts = [
+    `<rect x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="${radius}" fill="${style.fill}" stroke="${style.stroke}" stroke-width="1.5"/>`
+  ];
+
+  /* Outcome and merge pills are too small for wrapped text: centre a single word. */
+  if (node.height < 40) {
+    parts.push(
+      `<text x="${node.x + node.width / 2}" y="${node.y + node.height / 2}" font-family="${font}" font-size="11" font-weight="600" fill="${style.text}" text-anchor="middle" dominant-baseline="central">${escapeXml(node.title)}</text>`
+    );
+    return `<g data-node-id="${escapeXml(node.id)}">${parts.join("")}</g>`;
+  }
+
+  const pad = 12;
+  const innerWidth = node.width - pad * 2;
+  const titleLines = wrap(node.title, innerWidth, TITLE_SIZE, 2);
+  const subtitleRoom = node.height - pad * 2 - titleLines.length * TITLE_SIZE * 1.25 - 4;
+  const subtitleLines = wrap(nodeSubtitle(specNode), innerWidth, SUBTITLE_SIZE, Math.floor(subtitleRoom / (SUBTITLE_SIZE * 1.3)));
+
+  let y = node.y + pad + TITLE_SIZE;
+  for (const line of titleLines) {
+    parts.push(`<text x="${node.x + pad}" y="${y}" font-family="${font}" font-size="${TITLE_SIZE}" font-weight="600" fill="${style.text}">${escapeXml(line)}</text>`);
+    y += TITLE_SIZE * 1.25;
+  }
+  y += 4;
+  for (const line of subtitleLines) {
+    parts.push(`<text x="${node.x + pad}" y="${y}" font-family="${font}" font-size="${SUBTITLE_SIZE}" fill="${style.text}" fill-opacity="0.75">${escapeXml(line)}</text>`);
+    y += SUBTITLE_SIZE * 1.3;
+  }
+  return `<g data-node-id="${escapeXml(node.id)}">${parts.join("")}</g>`;
+}
+
+/**
+ * Render a layout to a standalone SVG document. Pure string output with no DOM
+ * access, so the same call works in the browser and on the server.
+ */
+export function renderLayoutSvg(layout: LayoutResult, options: SvgRenderOptions = {}): string {
+  const padding = options.padding ?? 24;
+  const accent = escapeXml(options.accentColor ?? "#111827");
+  const background = options.background ?? "#ffffff";
+  const font = escapeXml(options.fontFamily ?? "Inter, Helvetica, Arial, sans-serif");
+  const specNodes = new Map((options.spec?.nodes ?? []).map((n) => [n.id, n]));
+
+  const xs = layout.nodes.flatMap((n) => [n.x, n.x + n.width]).concat(layout.edges.flatMap((e) => e.points.map((p) => p.x)));
+  const ys = layout.nodes.flatMap((n) => [n.y, n.y + n.height]).concat(layout.edges.flatMap((e) => e.points.map((p) => p.y)));
+  const minX = (xs.length ? Math.min(...xs) : 0) - padding;
+  const minY = (ys.length ? Math.min(...ys) : 0) - padding;
+  const width = (xs.length ? Math.max(...xs) : 0) + padding - minX;
+  const height = (ys.length ? Math.max(...ys) : 0) + padding - minY;
+
+  const edges = layout.edges
+    .filter((edge) => edge.points.length >= 2)
+    .map((edge) => {
+      const d = edge.points.map((p, i) => `${i === 0 ? "M" : "L"}${p.x} ${p.y}`).join(" ");
+      const path = `<path d="${d}" fill="none" stroke="#9ca3af" stroke-width="1.5" marker-end="url(#arrow)"/>`;
+      const source = specNodes.get(edge.from);
+      const label = source?.type === "abSplit" ? abSplitEdgeLabel(source, edge.label) : edge.label;
+      if (!label) return path;
+      const mid = edge.points[Math.floor(edge.points.length / 2)];
+      const labelWidth = label.length * 11 * CHAR_WIDTH + 12;
+      return (
+        path +
+        `<rect x="${mid.x - labelWidth / 2}" y="${mid.y - 10}" width="${labelWidth}" height="20" rx="10" fill="#ffffff" stroke="#d1d5db"/>` +
+        `<text x="${mid.x}" y="${mid.y}" font-family="${font}" font-size="11" font-weight="600" fill="#374151" text-anchor="middle" dominant-baseline="central">${escapeXml(label)}</text>`
+      );
+    });
+
+  const nodes = layout.nodes.map((node) => renderNode(node, specNodes.get(node.id), accent, font));
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}">`,
+    options.spec ? `<title>${escapeXml(options.spec.name)}</title>` : "",
+    `<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse"><path d="M0 0 L10 5 L0 10 z" fill="#9ca3af"/></marker></defs>`,
+    background === "none" ? "" : `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="${escapeXml(background)}"/>`,
+    `<g>${edges.join("")}</g>`,
+    `<g>${nodes.join("")}</g>`,
+    `</svg>`
+  ].filter(Boolean).join("\n");
+}
+
+/** Lay out a flow and render it in one step, honouring saved editor positions. */
+export function renderFlowSvg(spec: FlowSpec, options: Omit<SvgRenderOptions, "spec"> = {}): string {
+  return renderLayoutSvg(buildLayout(spec, { positionOverrides: spec.ui?.nodePositions }), { ...options, spec });
+}
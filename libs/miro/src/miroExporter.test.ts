@@ -41,6 +41,56 @@ describe("exportFlowToMiro", () => {
     expect(result.itemMap.trigger_signup).toBeDefined();
   });
 
+  it("lists flow settings on the trigger card", async () => {
+    const bodies: { data?: { content?: string } }[] = [];
+    const fetchMock = vi.fn(async (input: string, init?: RequestInit) => {
+      if (input.endsWith("/shapes")) bodies.push(JSON.parse(String(init?.body)));
+      return okResponse({ id: `item_${bodies.length}` });
+    });
+
+    await exportFlowToMiro({
+      boardId: "board_settings",
+      accessToken: "token_settings",
+      flowSpec: { ...welcomeSeriesFixture, settings: { reentry: { mode: "once" }, smsQuietHours: { start: "21:00", end: "09:00" } } },
+      fetchImpl: fetchMock
+    });
+
+    const trigger = welcomeSeriesFixture.nodes.find((n) => n.type === "trigger")!;
+    const contents = bodies.map((body) => body.data?.content ?? "");
+    const triggerCard = contents.find((content) => content.includes(`<strong>${trigger.title}</strong>`));
+    expect(triggerCard).toContain("<p>Re-entry: Once ever</p>");
+    expect(triggerCard).toContain("<p>SMS quiet hours: 21:00–09:00</p>");
+    expect(contents.filter((content) => content.includes("Re-entry"))).toHaveLength(1);
+  });
+
+  it("shows A/B split weights on the card and the variant connectors", async () => {
+    const shapes: { data?: { content?: string } }[] = [];
+    const connectors: { captions?: { content: string }[] }[] = [];
+    const fetchMock = vi.fn(async (input: string, init?: RequestInit) => {
+      if (input.endsWith("/shapes")) shapes.push(JSON.parse(String(init?.body)));
+      if (input.endsWith("/connectors")) connectors.push(JSON.parse(String(init?.body)));
+      return okResponse({ id: `item_${shapes.length + connectors.length}` });
+    });
+
+    await exportFlowToMiro({
+      boardId: "board_ab",
+      accessToken: "token_ab",
+      flowSpec: {
+        ...welcomeSeriesFixture,
+        nodes: welcomeSeriesFixture.nodes.map((n) =>
+          n.id === "split_purchased"
+            ? { id: n.id, type: "abSplit", title: "Offer test", variants: [{ label: "Yes", weight: 50 }, { label: "No", weight: 50 }] }
+            : n
+        )
+      },
+      fetchImpl: fetchMock
+    });
+
+    expect(shapes.some((body) => body.data?.content?.includes("Random split: Yes 50% / No 50%"))).toBe(true);
+    const captions = connectors.flatMap((body) => body.captions ?? []).map((c) => c.content);
+    expect(captions).toEqual(expect.arrayContaining(["Yes · 50%", "No · 50%"]));
+  });
+
   it("retries on rate limit responses", async () => {
     let attempt = 0;
     const fetchMock = vi.fn(async (input: string) => {
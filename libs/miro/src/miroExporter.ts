@@ -1,4 +1,4 @@
-import type { FlowSpec } from "@flow/core";
+import { abSplitEdgeLabel, describeAbSplit, describeFlowSettings, describeNodeCondition, describeWait, type FlowSettings, type FlowSpec } from "@flow/core";
 import { buildLayout, type PositionedNode } from "@flow/layout";
 
 type MiroShapeResponse = { id: string };
@@ -76,7 +76,8 @@ async function requestWithRetry<T>(
 
 function estimateMiroHeight(
   specNode: FlowSpec["nodes"][number],
-  width: number
+  width: number,
+  settings?: FlowSettings
 ): number {
   const FONT = 12;
   const LINE_H = 24;          // Miro renders lines taller than raw font size
@@ -92,20 +93,25 @@ function estimateMiroHeight(
     return textLines(text) * LINE_H + PARA_GAP;
   }
 
-  if (specNode.type === "wait") return 52;
+  if (specNode.type === "wait") return specNode.until ? Math.max(52, PAD + pHeight(describeWait(specNode))) : 52;
   if (specNode.type === "outcome") return 40;
   if (specNode.type === "merge") return 40;
 
   if (specNode.type === "trigger") {
-    return PAD + pHeight(specNode.title ?? "Trigger") + pHeight(specNode.event);
+    const settingsHeight = describeFlowSettings(settings).reduce((sum, line) => sum + pHeight(line), 0);
+    return PAD + pHeight(specNode.title ?? "Trigger") + pHeight(specNode.event) + settingsHeight;
   }
 
   if (specNode.type === "split") {
-    return PAD + pHeight(specNode.title ?? "Split") + pHeight(specNode.condition);
+    return PAD + pHeight(specNode.title ?? "Split") + pHeight(describeNodeCondition(specNode)!);
   }
 
   if (specNode.type === "profileFilter") {
-    return PAD + pHeight(specNode.title ?? "Filter") + pHeight(specNode.filters.join(", "));
+    return PAD + pHeight(specNode.title ?? "Filter") + pHeight(describeNodeCondition(specNode)!);
+  }
+
+  if (specNode.type === "abSplit") {
+    return PAD + pHeight(specNode.title) + pHeight(`Random split: ${describeAbSplit(specNode)}`);
   }
 
   if (specNode.type === "note") {
@@ -221,7 +227,7 @@ function recomputeMiroY(
       const pY = newY.get(pid) ?? pNode.y;
       const pH = miroHeights.get(pid) ?? pNode.height;
       const pSpec = specMap.get(pid);
-      const gap = pSpec?.type === "split" ? MIRO_SPLIT_GAP : MIRO_GAP;
+      const gap = pSpec && isBranchNode(pSpec) ? MIRO_SPLIT_GAP : MIRO_GAP;
       const candidate = pY + pH + gap;
       if (candidate > maxY) maxY = candidate;
     }
@@ -239,6 +245,11 @@ function recomputeMiroY(
   return newY;
 }
 
+/* Nodes whose outgoing edges are labeled branches: splits, A/B splits and waits for an event */
+function isBranchNode(specNode: FlowSpec["nodes"][number]): boolean {
+  return specNode.type === "split" || specNode.type === "abSplit" || (specNode.type === "wait" && specNode.until?.kind === "event");
+}
+
 /* ── styling per node type ── */
 
 type MiroStyle = {
@@ -264,6 +275,8 @@ function shapeStyle(nodeType: string, specNode?: FlowSpec["nodes"][number]): Mir
       return { ...base, shape: "round_rectangle", fillColor: "#EFF6FF", borderColor: "#3B82F6", textAlign: "center", textAlignVertical: "top" };
     case "split":
       return { ...base, shape: "round_rectangle", fillColor: "#FAF5FF", borderColor: "#8B5CF6", textAlign: "center", textAlignVertical: "top" };
+    case "abSplit":
+      return { ...base, shape: "round_rectangle", fillColor: "#F0FDFA", borderColor: "#14B8A6", textAlign: "center", textAlignVertical: "top" };
     case "wait":
       return { ...base, shape: "round_rectangle", fillColor: "#F3F4F6", borderColor: "#9CA3AF", textAlign: "center", textAlignVertical: "middle" };
     case "outcome":
@@ -300,13 +313,11 @@ function shapeStyle(nodeType: string, specNode?: FlowSpec["nodes"][number]): Mir
 
 /* ── node content (HTML for Miro shapes) ── */
 
-function nodeContent(specNode: FlowSpec["nodes"][number]): string {
+function nodeContent(specNode: FlowSpec["nodes"][number], settings?: FlowSettings): string {
   const title = "title" in specNode ? specNode.title : specNode.type;
 
   if (specNode.type === "wait") {
-    const { value, unit } = specNode.duration;
-    const noun = Math.abs(value) === 1 ? unit.replace(/s$/, "") : unit;
-    return `<p><strong>Wait ${value} ${noun}</strong></p>`;
+    return `<p><strong>${esc(describeWait(specNode))}</strong></p>`;
   }
 
   if (specNode.type === "outcome") {
@@ -354,15 +365,24 @@ function nodeContent(specNode: FlowSpec["nodes"][number]): string {
   }
 
   if (specNode.type === "split") {
-    return `<p><strong>${esc(title)}</strong></p>\n<p>${esc(specNode.condition)}</p>`;
+    return `<p><strong>${esc(title)}</strong></p>\n<p>${esc(describeNodeCondition(specNode)!)}</p>`;
+  }
+
+  if (specNode.type === "abSplit") {
+    return `<p><strong>${esc(title)}</strong></p>\n<p>Random split: ${esc(describeAbSplit(specNode))}</p>`;
   }
 
   if (specNode.type === "trigger") {
-    return `<p><strong>${esc(title)}</strong></p>\n<p>${esc(specNode.event)}</p>`;
+    /* Flow-level settings ride on the trigger card, where strategists look for entry rules */
+    return [
+      `<p><strong>${esc(title)}</strong></p>`,
+      `<p>${esc(specNode.event)}</p>`,
+      ...describeFlowSettings(settings).map((line) => `<p>${esc(line)}</p>`),
+    ].join("\n");
   }
 
   if (specNode.type === "profileFilter") {
-    return `<p><strong>${esc(title)}</strong></p>\n<p>${specNode.filters.map(esc).join(", ")}</p>`;
+    return `<p><strong>${esc(title)}</strong></p>\n<p>${esc(describeNodeCondition(specNode)!)}</p>`;
   }
 
   if (specNode.type === "note") {
@@ -412,7 +432,7 @@ export async function exportFlowToMiro({
     const specNode = nodeById.get(ln.id);
     const wideTypes = new Set(["message", "wait"]);
     const w = specNode && wideTypes.has(specNode.type) ? Math.max(ln.width, MIRO_CARD_WIDTH) : ln.width;
-    const h = specNode ? estimateMiroHeight(specNode, w) : ln.height;
+    const h = specNode ? estimateMiroHeight(specNode, w, flowSpec.settings) : ln.height;
     miroHeights.set(ln.id, h);
     miroWidths.set(ln.id, w);
   }
@@ -445,7 +465,7 @@ export async function exportFlowToMiro({
 
     const payload = {
       data: {
-        content: nodeContent(specNode),
+        content: nodeContent(specNode, flowSpec.settings),
         shape: st.shape
       },
       style: {
@@ -486,7 +506,8 @@ export async function exportFlowToMiro({
 
     const fromNode = nodeById.get(edge.from);
     const isSideEdge = fromNode ? sideNodeTypes.has(fromNode.type) : false;
-    const isSplitEdge = fromNode?.type === "split";
+    const isSplitEdge = fromNode ? isBranchNode(fromNode) : false;
+    const caption = fromNode?.type === "abSplit" ? abSplitEdgeLabel(fromNode, edge.label) : edge.label;
 
     let startSnap = "bottom";
     let endSnap = "top";
@@ -520,7 +541,7 @@ export async function exportFlowToMiro({
         endStrokeCap: "stealth" as const,
         startStrokeCap: "none" as const,
       },
-      captions: edge.label ? [{ content: edge.label, position: "50%" }] : undefined
+      captions: caption ? [{ content: caption, position: "50%" }] : undefined
     };
 
     await requestWithRetry(